@@ -0,0 +1,224 @@
+// app/admin/audit/page.tsx
+"use client";
+
+import useSWRInfinite from "swr/infinite";
+import Link from "next/link";
+import { useState } from "react";
+import { apiGet } from "@/app/lib/api-client";
+
+type AuditChange = { field: string; before: unknown; after: unknown };
+
+type AuditEntry = {
+  id: string;
+  actorUid: string | null;
+  actorEmail: string | null;
+  actorRole: string | null;
+  action: string;
+  targetPath: string;
+  loanId: string | null;
+  changes: AuditChange[];
+  /** Past the number of changes kept per entry. */
+  changesOmitted: number;
+  note: string | null;
+  at: number | null;
+};
+
+type AuditResp = { items: AuditEntry[]; nextCursor: string | null; updatedAt: number };
+
+type Filters = { actor: string; loanId: string; from: string; to: string };
+
+const EMPTY_FILTERS: Filters = { actor: "", loanId: "", from: "", to: "" };
+
+function fmtDateTime(ms?: number | null) {
+  if (!ms) return "—";
+  const d = new Date(ms);
+  return isNaN(+d) ? "—" : d.toLocaleString();
+}
+
+function fmtValue(v: unknown) {
+  if (v === null || v === undefined) return "—";
+  if (typeof v === "string") return v || "—";
+  const s = JSON.stringify(v);
+  return s.length > 80 ? `${s.slice(0, 77)}…` : s;
+}
+
+export default function AuditLogPage() {
+  const [draft, setDraft] = useState<Filters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  const getKey = (page: number, prev: AuditResp | null) => {
+    if (prev && !prev.nextCursor) return null;
+    const qs = new URLSearchParams({ limit: "50" });
+    for (const [k, v] of Object.entries(filters)) if (v.trim()) qs.set(k, v.trim());
+    if (prev?.nextCursor) qs.set("cursor", prev.nextCursor);
+    return `/api/admin/audit?${qs.toString()}`;
+  };
+
+  const { data, error, isLoading, size, setSize, mutate } = useSWRInfinite<AuditResp>(
+    getKey,
+    apiGet
+  );
+
+  const items = (data || []).flatMap((p) => p.items);
+  const hasMore = !!data?.[data.length - 1]?.nextCursor;
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <header className="sticky top-0 z-20 border-b bg-white/90 backdrop-blur supports-[backdrop-filter]:bg-white/60">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 h-14 flex items-center justify-between">
+          <h1 className="text-base sm:text-lg font-semibold text-slate-900">
+            Audit log
+          </h1>
+          <Link
+            href="/admin"
+            className="rounded-lg border px-3 py-1.5 text-sm hover:bg-slate-50"
+          >
+            Back to Dashboard
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-4 sm:px-6 py-6 grid gap-4">
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            setFilters(draft);
+          }}
+          className="rounded-2xl border bg-white p-4 flex flex-wrap items-end gap-2"
+        >
+          <label className="grid gap-1 text-sm">
+            <span className="text-slate-700">Actor (email or uid)</span>
+            <input
+              value={draft.actor}
+              onChange={(e) => setDraft({ ...draft, actor: e.target.value })}
+              className="rounded-lg border px-3 py-1.5 w-56"
+            />
+          </label>
+          <label className="grid gap-1 text-sm">
+            <span className="text-slate-700">Loan ID</span>
+            <input
+              value={draft.loanId}
+              onChange={(e) => setDraft({ ...draft, loanId: e.target.value })}
+              className="rounded-lg border px-3 py-1.5 w-48"
+            />
+          </label>
+          <label className="grid gap-1 text-sm">
+            <span className="text-slate-700">From</span>
+            <input
+              type="date"
+              value={draft.from}
+              onChange={(e) => setDraft({ ...draft, from: e.target.value })}
+              className="rounded-lg border px-3 py-1.5"
+            />
+          </label>
+          <label className="grid gap-1 text-sm">
+            <span className="text-slate-700">To</span>
+            <input
+              type="date"
+              value={draft.to}
+              onChange={(e) => setDraft({ ...draft, to: e.target.value })}
+              className="rounded-lg border px-3 py-1.5"
+            />
+          </label>
+          <button
+            type="submit"
+            className="rounded-lg bg-blue-600 text-white px-3 py-1.5 text-sm hover:bg-blue-700"
+          >
+            Apply
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              setDraft(EMPTY_FILTERS);
+              setFilters(EMPTY_FILTERS);
+            }}
+            className="rounded-lg border px-3 py-1.5 text-sm hover:bg-slate-50"
+          >
+            Reset
+          </button>
+          <button
+            type="button"
+            onClick={() => mutate()}
+            className="ml-auto rounded-lg border px-3 py-1.5 text-sm hover:bg-slate-50"
+          >
+            Refresh
+          </button>
+        </form>
+
+        <section className="rounded-2xl border bg-white overflow-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 text-slate-600">
+              <tr>
+                {["When", "Actor", "Action", "Target", "Changes"].map((h) => (
+                  <th key={h} className="text-left font-medium p-3">{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {isLoading && (
+                <tr><td className="p-6 text-center text-slate-500" colSpan={5}>Loading…</td></tr>
+              )}
+              {error && (
+                <tr><td className="p-6 text-center text-rose-600" colSpan={5}>{String(error.message || "Error")}</td></tr>
+              )}
+              {!isLoading && !error && items.length === 0 && (
+                <tr><td className="p-6 text-center text-slate-500" colSpan={5}>No audit entries.</td></tr>
+              )}
+              {items.map((e) => (
+                <tr key={e.id} className="border-t align-top">
+                  <td className="p-3 whitespace-nowrap">{fmtDateTime(e.at)}</td>
+                  <td className="p-3">
+                    <div className="text-slate-900">{e.actorEmail || e.actorUid || "—"}</div>
+                    <div className="text-xs text-slate-500">{e.actorRole || "—"}</div>
+                  </td>
+                  <td className="p-3">
+                    <span className="inline-flex items-center rounded-full px-2 py-0.5 text-xs border bg-slate-50 text-slate-700">
+                      {e.action}
+                    </span>
+                    {e.note && <div className="text-xs text-slate-500 mt-1">{e.note}</div>}
+                  </td>
+                  <td className="p-3">
+                    <div className="text-slate-900 break-all">{e.targetPath}</div>
+                    {e.loanId && <div className="text-xs text-slate-500">Loan {e.loanId}</div>}
+                  </td>
+                  <td className="p-3">
+                    <button
+                      onClick={() => setOpenId(openId === e.id ? null : e.id)}
+                      className="text-xs text-blue-700 hover:underline"
+                    >
+                      {e.changes.length} field{e.changes.length === 1 ? "" : "s"}
+                    </button>
+                    {openId === e.id && (
+                      <ul className="mt-2 grid gap-1 text-xs">
+                        {e.changes.map((c) => (
+                          <li key={c.field}>
+                            <span className="font-medium text-slate-700">{c.field}</span>:{" "}
+                            <span className="text-rose-700 line-through">{fmtValue(c.before)}</span>{" "}
+                            → <span className="text-emerald-700">{fmtValue(c.after)}</span>
+                          </li>
+                        ))}
+                        {e.changesOmitted > 0 && (
+                          <li className="text-slate-500">+{e.changesOmitted} more not recorded</li>
+                        )}
+                      </ul>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+
+        {hasMore && (
+          <button
+            onClick={() => setSize(size + 1)}
+            className="justify-self-center rounded-lg border bg-white px-3 py-1.5 text-sm hover:bg-slate-50"
+          >
+            Load more
+          </button>
+        )}
+      </main>
+    </div>
+  );
+}
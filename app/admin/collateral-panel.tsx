@@ -0,0 +1,413 @@
+// app/admin/collateral-panel.tsx
+"use client";
+
+import { useState } from "react";
+import useSWR from "swr";
+import { apiGet, apiSend } from "../lib/api-client";
+import { useStaff } from "../lib/use-staff";
+import {
+  COLLATERAL_CATEGORIES,
+  COLLATERAL_CATEGORY_LABELS,
+  COLLATERAL_STATUS_LABELS,
+  COLLATERAL_TRANSITIONS,
+  type CollateralCategory,
+  type CollateralItem,
+  type CollateralStatus,
+} from "../lib/collateral";
+import { coverageFor, securingValue } from "../lib/coverage";
+import { imageSrc, type ImageRef } from "../lib/images";
+
+function money(n: number) {
+  try {
+    return new Intl.NumberFormat(undefined, { maximumFractionDigits: 2 }).format(n);
+  } catch {
+    return String(n);
+  }
+}
+
+function fmtDate(ms: number | null) {
+  return ms ? new Date(ms).toLocaleDateString() : "—";
+}
+
+/** Seizure → sale, as far as the item has got. */
+function repossessionSummary(c: CollateralItem) {
+  const r = c.repossession!;
+  return [
+    r.seizedAtMs && `seized ${fmtDate(r.seizedAtMs)}${r.seizedBy ? ` by ${r.seizedBy}` : ""}`,
+    r.storageLocation && `stored at ${r.storageLocation}`,
+    r.valuedAtMs && `valued ${fmtDate(r.valuedAtMs)}`,
+    r.sale &&
+      `sold for MWK ${money(r.sale.amount)}` +
+        (r.sale.surplus > 0 ? ` (MWK ${money(r.sale.surplus)} surplus)` : ""),
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+const isoDate = (ms: number | null) => (ms ? new Date(ms).toISOString().slice(0, 10) : "");
+
+type Details = {
+  category: CollateralCategory;
+  description: string;
+  serialNumber: string;
+  valuation: string;
+  valuationDate: string;
+  custodian: string;
+  photo: string;
+};
+
+const blank: Details = {
+  category: "other",
+  description: "",
+  serialNumber: "",
+  valuation: "",
+  valuationDate: "",
+  custodian: "",
+  photo: "",
+};
+
+function detailsOf(c: CollateralItem): Details {
+  return {
+    category: c.category,
+    description: c.description,
+    serialNumber: c.serialNumber ?? "",
+    valuation: c.valuation == null ? "" : String(c.valuation),
+    valuationDate: isoDate(c.valuationDateMs),
+    custodian: c.custodian ?? "",
+    photo: c.photos[0] ?? "",
+  };
+}
+
+/** Registry items for one loan (LoanCard details), with its coverage when `principal` is given. */
+export function CollateralPanel({
+  loanId,
+  loanType,
+  principal,
+}: {
+  loanId: string;
+  loanType?: string;
+  principal?: number;
+}) {
+  const { can } = useStaff();
+  const manage = can("collateral:manage");
+  const url = `/api/admin/collateral?loanId=${encodeURIComponent(loanId)}`;
+  const { data, error, isLoading, mutate } = useSWR<{ items: CollateralItem[] }>(url, apiGet);
+  const [editing, setEditing] = useState<string | "new" | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+
+  async function run(fn: () => Promise<unknown>): Promise<boolean> {
+    try {
+      setBusy(true);
+      setErr(null);
+      await fn();
+      await mutate();
+      return true;
+    } catch (e: unknown) {
+      setErr(e instanceof Error ? e.message : String(e));
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function save(d: Details, existing: CollateralItem | null) {
+    const body = {
+      category: d.category,
+      description: d.description,
+      serialNumber: d.serialNumber,
+      valuation: d.valuation,
+      valuationDate: d.valuationDate,
+      custodian: d.custodian,
+      // only the first photo is edited here; keep any others
+      photos: [
+        ...(d.photo.trim() ? [d.photo.trim()] : []),
+        ...(existing?.photos.slice(1) ?? []),
+      ],
+    };
+    const ok = await run(() =>
+      existing
+        ? apiSend(`/api/admin/collateral/${encodeURIComponent(existing.id)}`, "PATCH", body)
+        : apiSend("/api/admin/collateral", "POST", { ...body, loanId })
+    );
+    if (ok) setEditing(null);
+  }
+
+  async function move(c: CollateralItem, status: CollateralStatus) {
+    const note = window.prompt(
+      `Mark "${c.description}" as ${COLLATERAL_STATUS_LABELS[status].toLowerCase()}. Note:`,
+      ""
+    );
+    if (note === null) return;
+    const custodian =
+      status === "held" || status === "repossessed"
+        ? window.prompt("Custodian (who holds it now):", c.custodian ?? "")
+        : undefined;
+    if (custodian === null) return;
+    await run(() =>
+      apiSend(`/api/admin/collateral/${encodeURIComponent(c.id)}/status`, "POST", {
+        status,
+        note,
+        ...(custodian !== undefined && { custodian }),
+      })
+    );
+  }
+
+  const items = data?.items ?? [];
+  const coverage =
+    data && principal ? coverageFor(loanType, principal, securingValue(items)) : null;
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-slate-800">
+          Collateral
+          {coverage && coverage.minCoveragePct > 0 && (
+            <span
+              className={`ml-2 inline-flex items-center rounded-full px-2 py-0.5 text-xs border ${
+                coverage.below
+                  ? "bg-rose-50 text-rose-700 border-rose-200"
+                  : "bg-emerald-50 text-emerald-700 border-emerald-200"
+              }`}
+              title={`Minimum ${coverage.minCoveragePct}% for this product`}
+            >
+              Cover {coverage.coveragePct}%
+              {coverage.ltvPct != null ? ` · LTV ${coverage.ltvPct}%` : ""}
+            </span>
+          )}
+        </h4>
+        {manage && editing === null && (
+          <button
+            onClick={() => setEditing("new")}
+            className="rounded-lg border bg-white px-2.5 py-1 text-xs hover:bg-slate-50"
+          >
+            Add item
+          </button>
+        )}
+      </div>
+      {isLoading && <div className="mt-2 text-sm text-slate-600">Loading collateral…</div>}
+      {(error || err) && (
+        <div className="mt-2 text-sm text-rose-600">{err ?? (error as Error).message}</div>
+      )}
+      {editing === "new" && (
+        <DetailsForm
+          initial={blank}
+          disabled={busy}
+          onCancel={() => setEditing(null)}
+          onSave={(d) => save(d, null)}
+        />
+      )}
+      {!isLoading && !items.length && editing !== "new" && (
+        <div className="mt-2 text-sm text-slate-500">No collateral registered.</div>
+      )}
+      {items.length > 0 && (
+        <div className="mt-2 overflow-auto rounded-lg border bg-white">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 text-slate-600">
+              <tr>
+                <th className="text-left p-2">Item</th>
+                <th className="text-right p-2">Valuation</th>
+                <th className="text-left p-2">Custodian</th>
+                <th className="text-left p-2">Status</th>
+                <th className="p-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {items.map((c) =>
+                editing === c.id ? (
+                  <tr key={c.id} className="border-t">
+                    <td colSpan={5} className="p-2">
+                      <DetailsForm
+                        initial={detailsOf(c)}
+                        disabled={busy}
+                        onCancel={() => setEditing(null)}
+                        onSave={(d) => save(d, c)}
+                      />
+                    </td>
+                  </tr>
+                ) : (
+                  <tr key={c.id} className="border-t align-top">
+                    <td className="p-2">
+                      <div className="font-medium text-slate-900">{c.description}</div>
+                      <div className="text-xs text-slate-500">
+                        {COLLATERAL_CATEGORY_LABELS[c.category]}
+                        {c.serialNumber ? ` · ${c.serialNumber}` : ""}
+                        {c.photos.length > 0 && (
+                          <>
+                            {" · "}
+                            <a href={imageSrc(c.photos[0])} target="_blank" className="underline">
+                              photo{c.photos.length > 1 ? `s (${c.photos.length})` : ""}
+                            </a>
+                          </>
+                        )}
+                      </div>
+                    </td>
+                    <td className="p-2 text-right tabular-nums">
+                      {c.valuation == null ? "—" : `MWK ${money(c.valuation)}`}
+                      {c.valuationDateMs && (
+                        <div className="text-xs text-slate-500">{fmtDate(c.valuationDateMs)}</div>
+                      )}
+                    </td>
+                    <td className="p-2">{c.custodian ?? "—"}</td>
+                    <td className="p-2">
+                      {COLLATERAL_STATUS_LABELS[c.status]}
+                      <div className="text-xs text-slate-500">{fmtDate(c.statusChangedAtMs)}</div>
+                      {c.repossession && (
+                        <div className="text-xs text-slate-500">{repossessionSummary(c)}</div>
+                      )}
+                    </td>
+                    <td className="p-2 text-right whitespace-nowrap">
+                      {manage && COLLATERAL_TRANSITIONS[c.status].length > 0 && (
+                        <>
+                          <select
+                            value=""
+                            disabled={busy}
+                            onChange={(e) => move(c, e.target.value as CollateralStatus)}
+                            className="rounded-lg border px-2 py-1 text-xs"
+                          >
+                            <option value="">Mark as…</option>
+                            {COLLATERAL_TRANSITIONS[c.status].map((s) => (
+                              <option key={s} value={s}>
+                                {COLLATERAL_STATUS_LABELS[s]}
+                              </option>
+                            ))}
+                          </select>
+                          <button
+                            onClick={() => setEditing(c.id)}
+                            className="ml-2 rounded-lg border px-2 py-1 text-xs hover:bg-slate-50"
+                          >
+                            Edit
+                          </button>
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                )
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function DetailsForm({
+  initial,
+  disabled,
+  onSave,
+  onCancel,
+}: {
+  initial: Details;
+  disabled?: boolean;
+  onSave: (d: Details) => void;
+  onCancel: () => void;
+}) {
+  const [d, setD] = useState(initial);
+  const set = <K extends keyof Details>(k: K, v: Details[K]) => setD((x) => ({ ...x, [k]: v }));
+  const [uploading, setUploading] = useState(false);
+
+  // the photo goes to Storage now; the item only keeps its path
+  async function upload(file: File | undefined) {
+    if (!file) return;
+    try {
+      setUploading(true);
+      const data = await new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(String(reader.result));
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(file);
+      });
+      const ref = await apiSend<ImageRef>("/api/admin/images", "POST", { data });
+      set("photo", ref.path);
+    } catch (e: unknown) {
+      alert(e instanceof Error ? e.message : String(e));
+    } finally {
+      setUploading(false);
+    }
+  }
+
+  function handleSave() {
+    if (!d.description.trim()) return alert("Enter a description");
+    if (d.valuation && !(Number(d.valuation) >= 0)) return alert("Enter a valid valuation");
+    onSave(d);
+  }
+
+  return (
+    <div className="mt-2 flex flex-wrap items-center gap-2 rounded-lg border bg-white p-2">
+      <select
+        value={d.category}
+        onChange={(e) => set("category", e.target.value as CollateralCategory)}
+        className="rounded-lg border px-2 py-1.5 text-xs"
+      >
+        {COLLATERAL_CATEGORIES.map((c) => (
+          <option key={c} value={c}>
+            {COLLATERAL_CATEGORY_LABELS[c]}
+          </option>
+        ))}
+      </select>
+      <input
+        type="text"
+        placeholder="Description"
+        value={d.description}
+        onChange={(e) => set("description", e.target.value)}
+        className="rounded-lg border px-2 py-1.5 text-xs w-48"
+      />
+      <input
+        type="text"
+        placeholder="Serial / registration no."
+        value={d.serialNumber}
+        onChange={(e) => set("serialNumber", e.target.value)}
+        className="rounded-lg border px-2 py-1.5 text-xs w-40"
+      />
+      <input
+        type="number"
+        inputMode="decimal"
+        placeholder="Valuation"
+        value={d.valuation}
+        onChange={(e) => set("valuation", e.target.value)}
+        className="rounded-lg border px-2 py-1.5 text-xs w-28"
+      />
+      <input
+        type="date"
+        value={d.valuationDate}
+        onChange={(e) => set("valuationDate", e.target.value)}
+        className="rounded-lg border px-2 py-1.5 text-xs"
+        title="Valuation date"
+      />
+      <input
+        type="text"
+        placeholder="Custodian"
+        value={d.custodian}
+        onChange={(e) => set("custodian", e.target.value)}
+        className="rounded-lg border px-2 py-1.5 text-xs w-32"
+      />
+      <input
+        type="text"
+        placeholder="Photo URL"
+        value={d.photo}
+        onChange={(e) => set("photo", e.target.value)}
+        className="rounded-lg border px-2 py-1.5 text-xs w-48"
+      />
+      <label className="rounded-lg border px-2.5 py-1.5 text-xs hover:bg-slate-50 cursor-pointer">
+        {uploading ? "Uploading…" : "Upload photo"}
+        <input
+          type="file"
+          accept="image/jpeg,image/png,image/webp,image/heic"
+          className="hidden"
+          disabled={uploading}
+          onChange={(e) => upload(e.target.files?.[0])}
+        />
+      </label>
+      <button
+        onClick={handleSave}
+        disabled={disabled || uploading}
+        className="rounded-lg bg-slate-900 text-white px-2.5 py-1.5 text-xs hover:bg-black disabled:opacity-60"
+      >
+        Save
+      </button>
+      <button onClick={onCancel} className="rounded-lg border px-2.5 py-1.5 text-xs hover:bg-slate-50">
+        Cancel
+      </button>
+    </div>
+  );
+}
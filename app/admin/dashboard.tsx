@@ -15,27 +15,56 @@ import {
   query,
   Timestamp,
   getDocs,
-  updateDoc,
-  setDoc,
-  deleteDoc,
-  serverTimestamp,
+  where,
 } from "firebase/firestore";
-import emailjs from "@emailjs/browser";
 import { db, auth } from "../lib/firebase"; // ← make sure your ../lib/firebase exports both `db` and `auth`
 import { signOut } from "firebase/auth";
-
-/* EmailJS config (env or replace placeholders) */
-const EMAILJS_SERVICE_ID =
-  process.env.NEXT_PUBLIC_EMAILJS_SERVICE_ID || "YOUR_SERVICE_ID";
-const EMAILJS_TEMPLATE_ID =
-  process.env.NEXT_PUBLIC_EMAILJS_TEMPLATE_ID || "YOUR_TEMPLATE_ID";
-const EMAILJS_PUBLIC_KEY =
-  process.env.NEXT_PUBLIC_EMAILJS_PUBLIC_KEY || "YOUR_PUBLIC_KEY";
-
-/* Late-fee config (per-day rate; tune via env if needed) */
-const LATE_FEE_DAILY = Number(
-  process.env.NEXT_PUBLIC_LATE_FEE_DAILY || 0.001
-); // 0.1%/day default
+import useSWR from "swr";
+import { useStaff } from "../lib/use-staff";
+import { apiGet, apiSend } from "../lib/api-client";
+import { phoneKeys } from "../lib/phone";
+import {
+  MIN_SEARCH_LENGTH,
+  SEARCH_MATCH_LABELS,
+  searchUrl,
+  type SearchHit,
+  type SearchResults,
+} from "../lib/search";
+import { PAYMENT_METHOD_LABELS, PAYMENT_METHODS } from "../lib/payment-methods";
+import type { CollectionsByChannel } from "../lib/reports-server";
+import {
+  computeEndDate,
+  generateSchedule,
+  storedSchedule,
+  termsForLoan,
+  type Installment,
+} from "../lib/schedule";
+import { ScheduleTable } from "./schedule-table";
+import {
+  COLLATERAL_CATEGORY_LABELS,
+  COLLATERAL_COLLECTION,
+  COLLATERAL_STATUS_LABELS,
+  parseCollateral,
+  SECURING_STATUSES,
+  type CollateralItem,
+  type CollateralStatus,
+} from "../lib/collateral";
+import { coverageFor, securingValue } from "../lib/coverage";
+import { imageSrc, kycImageSrc } from "../lib/images";
+import {
+  parseDemandNotices,
+  repossessionLabel,
+  repossessionPage,
+  type DemandNotice,
+} from "../lib/repossession";
+import { NotifyEmailModal } from "./notify-email";
+import {
+  arrearsForLoan,
+  PAR_BUCKETS,
+  type Arrears,
+  type ParSummary,
+} from "../lib/arrears";
+import { loanListQuery, type LoanListPage } from "../lib/loan-list";
 
 /* =========================================================
    Types
@@ -62,10 +91,17 @@ type Loan = {
     | "closed"
     | "declined"
     | string;
-  collateralItems?: unknown[];
   loanType?: string;
   timestamp?: Timestamp | FireTimestamp | number | string | Date | null;
   kycId?: string;
+  arrears?: Arrears;
+  /** Posted late fees net of waivers (see app/lib/late-fees.ts). */
+  penaltiesNet?: number;
+  /** Term or frequency changed after approval (restructureLoan). */
+  restructured?: boolean;
+  demandNotices?: DemandNotice[];
+  /** Collateral coverage (%) recorded when the loan was approved. */
+  coverageAtApprovalPct?: number | null;
 };
 
 type ProcessedLoan = {
@@ -123,12 +159,15 @@ type Totals = {
   collateralCount?: number;
   finishedCount?: number;
   overdueCount?: number;
+  arrearsSum?: number;
+  par?: ParSummary;
 };
 
 type Breakdown = {
   status?: Record<string, number>;
   type?: Record<string, number>;
   frequency?: Record<string, number>;
+  restructured?: number;
 };
 
 type KycRow = {
@@ -142,9 +181,21 @@ type KycRow = {
   physicalCity?: string;
 };
 
+const COLLATERAL_STATUS_CHIP: Record<CollateralStatus, string> = {
+  pledged: "bg-slate-50 text-slate-700 border-slate-200",
+  held: "bg-blue-50 text-blue-700 border-blue-200",
+  released: "bg-emerald-50 text-emerald-700 border-emerald-200",
+  repossessed: "bg-amber-50 text-amber-700 border-amber-200",
+  auctioned: "bg-rose-50 text-rose-700 border-rose-200",
+};
+
 type CollateralVM = {
   key: string;
   label: string;
+  category: string;
+  status: CollateralStatus;
+  serialNumber: string | null;
+  custodian: string | null;
   estValue?: number | null;
   loanId: string;
   borrower: string;
@@ -173,7 +224,10 @@ type LoanPreview = {
   frequency: "weekly" | "monthly" | string;
   startMs: number | null;
   endMs: number | null;
-  collateralItems: unknown[];
+  loanType: string;
+  collateralItems: CollateralItem[];
+  schedule: Installment[];
+  scheduleProjected: boolean;
 };
 
 /* =========================================================
@@ -216,6 +270,9 @@ const g = (obj: unknown, path: string): unknown =>
     return (v as AnyRec)[k];
   }, obj);
 
+const approvalCoverage = (v: AnyRec): number | null =>
+  asNumber(g(v, "coverageAtApproval.coveragePct")) ?? null;
+
 function firstDefined<T>(...vals: T[]): T | undefined {
   for (const v of vals) if (v !== undefined && v !== null && (typeof v !== "string" || v !== "")) return v;
   return undefined;
@@ -284,19 +341,6 @@ function extractNameArea(v: AnyRec): {
   return { first, last, area };
 }
 
-function computeEndDate(
-  ts: unknown,
-  period?: number,
-  freq?: "weekly" | "monthly"
-): Date | null {
-  const startMs = toMillis(ts);
-  if (!startMs || !period || period <= 0) return null;
-  const end = new Date(startMs);
-  if (freq === "weekly") end.setDate(end.getDate() + period * 7);
-  else end.setMonth(end.getMonth() + period);
-  return end;
-}
-
 function fullName(r: {
   title?: string;
   firstName?: string;
@@ -403,25 +447,39 @@ function conicCSS(data: Array<{ value: number; color: string }>) {
   return `conic-gradient(${stops.join(",")})`;
 }
 
-function onlyDigits(s?: string) {
-  return (s || "").replace(/\D+/g, "");
-}
-
-function phoneKeys(s?: string) {
-  const d = onlyDigits(s);
-  if (!d) return [] as string[];
-  const keys = new Set([d]);
-  if (d.startsWith("265")) keys.add(d.slice(3));
-  if (d.startsWith("0")) keys.add(d.slice(1));
-  return [...keys];
-}
-
 function nameKey(first?: string, last?: string) {
   const f = (first || "").trim().toLowerCase();
   const l = (last || "").trim().toLowerCase();
   return f && l ? `${f}|${l}` : "";
 }
 
+/**
+ * A processed record as loan fields for LoanPreviewModal: the loan as it
+ * was when processed (`original`), with the outcome as its status and the
+ * schedule fixed at approval.
+ */
+function processedAsLoan(id: string, p: AnyRec): AnyRec {
+  const original = isObject(p.original) ? p.original : null;
+  const base: AnyRec = original ?? {
+    name: p.applicantFull,
+    mobile: p.mobile,
+    email: p.email,
+    areaName: p.area,
+    loanAmount: p.loanAmount,
+    currentBalance: p.currentBalance,
+    loanPeriod: p.period,
+    paymentFrequency: p.frequency,
+    timestamp: p.startMs,
+    endDate: p.endMs,
+  };
+  return {
+    ...base,
+    ...(p.schedule ? { terms: p.terms, schedule: p.schedule } : {}),
+    id,
+    status: p.processedStatus,
+  };
+}
+
 function detectKycId(loan: AnyRec): string | undefined {
   const id =
     firstDefined(
@@ -450,6 +508,7 @@ const STATUS_PALETTE: Record<string, string> = {
   active: "#22c55e",
   overdue: "#ef4444",
   closed: "#6b7280",
+  written_off: "#7f1d1d",
   declined: "#ef4444",
   unknown: "#94a3b8",
 };
@@ -463,100 +522,16 @@ const TYPE_PALETTE: Record<string, string> = {
   unknown: "#94a3b8",
 };
 
-/* Base64/URL helpers for images */
-function toDataUrlMaybe(b64?: string) {
-  if (!b64 || typeof b64 !== "string") return "";
-  const s = b64.trim();
-  return s.startsWith("data:") ? s : `data:image/jpeg;base64,${s}`;
-}
-
-function isUrlLike(s?: string) {
-  if (!s || typeof s !== "string") return false;
-  const t = s.trim();
-  return t.startsWith("http://") || t.startsWith("https://") || t.startsWith("data:");
-}
-
-/* Try to extract an image URL or data URI from a collateral item */
-function collateralImageUrl(it: unknown): string | null {
-  if (!it) return null;
-  if (typeof it === "string") return isUrlLike(it) ? it : null;
-  if (typeof it === "object") {
-    const cand =
-      (it as AnyRec).imageUrl ||
-      (it as AnyRec).photoUrl ||
-      (it as AnyRec).pictureUrl ||
-      (it as AnyRec).thumbnail ||
-      (it as AnyRec).thumbUrl ||
-      (it as AnyRec).url ||
-      (it as AnyRec).image ||
-      (it as AnyRec).photo ||
-      (it as AnyRec).picture;
-    if (typeof cand === "string" && isUrlLike(cand)) return cand;
-
-    const b64 =
-      (it as AnyRec).imageBase64 ||
-      (it as AnyRec).photoBase64 ||
-      (it as AnyRec).pictureBase64 ||
-      (it as AnyRec).thumbnailBase64;
-    if (typeof b64 === "string" && b64.trim()) return toDataUrlMaybe(b64);
-
-    const images = (it as AnyRec).images;
-    const photos = (it as AnyRec).photos;
-    const pictures = (it as AnyRec).pictures;
-    const arrCand =
-      (Array.isArray(images) ? images[0] : undefined) ??
-      (Array.isArray(photos) ? photos[0] : undefined) ??
-      (Array.isArray(pictures) ? pictures[0] : undefined);
-    if (typeof arrCand === "string" && isUrlLike(arrCand)) return arrCand;
-    if (arrCand && typeof arrCand === "object") {
-      const nestedUrl =
-        (arrCand as AnyRec).url ||
-        (arrCand as AnyRec).imageUrl ||
-        (arrCand as AnyRec).photoUrl ||
-        (arrCand as AnyRec).src;
-      if (typeof nestedUrl === "string" && isUrlLike(nestedUrl)) return nestedUrl;
-      const nestedB64 =
-        (arrCand as AnyRec).base64 || (arrCand as AnyRec).imageBase64;
-      if (typeof nestedB64 === "string" && nestedB64.trim())
-        return toDataUrlMaybe(nestedB64);
-    }
-  }
-  return null;
-}
-
-function collateralLabel(it: unknown): string {
-  if (!it) return "Collateral item";
-  if (typeof it === "string") return it;
-  if (typeof it === "object") {
-    return (
-      (it as AnyRec).label ||
-      (it as AnyRec).name ||
-      (it as AnyRec).title ||
-      (it as AnyRec).model ||
-      (it as AnyRec).description ||
-      `${(it as AnyRec).make ? String((it as AnyRec).make) + " " : ""}${
-        (it as AnyRec).model ? String((it as AnyRec).model) : "Item"
-      }`
-    ) as string;
-  }
-  return "Collateral item";
-}
-
-function collateralValue(it: unknown): number | undefined {
-  if (!it || typeof it !== "object") return undefined;
-  const v =
-    (it as AnyRec).value ||
-    (it as AnyRec).estimatedValue ||
-    (it as AnyRec).estValue ||
-    (it as AnyRec).amount ||
-    (it as AnyRec).price;
-  return asNumber(v);
-}
-
 /* =========================================================
    Page
    ========================================================= */
 export default function AdminDashboardPage() {
+  const { can } = useStaff();
+  const { data: collections, isLoading: collectionsLoading } = useSWR<CollectionsByChannel>(
+    "/api/admin/reports/collections",
+    apiGet
+  );
+
   /* Feedback banner */
   const [feedback, setFeedback] = useState<{
     type: "success" | "error" | "info";
@@ -576,6 +551,9 @@ export default function AdminDashboardPage() {
   async function handleLogout() {
     try {
       setLoggingOut(true);
+      // Revoke the server session cookie first, then the client SDK session
+      const res = await fetch("/api/auth/logout", { method: "POST" });
+      if (!res.ok) throw new Error(`logout failed (${res.status})`);
       await signOut(auth);
       // redirect to login (adjust path if your login route differs)
       window.location.href = "/auth";
@@ -635,7 +613,7 @@ export default function AdminDashboardPage() {
           );
           const explicitEndMs = toMillis(explicitEnd);
           const computedEnd = computeEndDate(
-            startRaw,
+            toMillis(startRaw),
             loanPeriod,
             paymentFrequency
           );
@@ -656,11 +634,14 @@ export default function AdminDashboardPage() {
             timestamp: startVal,
             endDate: explicitEndMs ? new Date(explicitEndMs) : computedEnd,
             areaName: area ?? "",
-            collateralItems: Array.isArray(v.collateralItems)
-              ? (v.collateralItems as unknown[])
-              : [],
             loanType: String((v as AnyRec)["loanType"] || "unknown").toLowerCase(),
             kycId: detectKycId(v),
+            arrears: arrearsForLoan(v, toMillis(startRaw)),
+            penaltiesNet:
+              Number(v.penaltiesCharged ?? 0) - Number(v.penaltiesWaived ?? 0),
+            restructured: !!v.restructuredAt,
+            demandNotices: parseDemandNotices(v.demandNotices),
+            coverageAtApprovalPct: approvalCoverage(v),
           } satisfies Loan;
         });
         setLoansRaw(rows);
@@ -709,7 +690,7 @@ export default function AdminDashboardPage() {
             );
             const explicitEndMs = toMillis(explicitEnd);
             const computedEnd = computeEndDate(
-              startRaw,
+              toMillis(startRaw),
               loanPeriod,
               paymentFrequency
             );
@@ -735,11 +716,14 @@ export default function AdminDashboardPage() {
               timestamp: startVal,
               endDate: explicitEndMs ? new Date(explicitEndMs) : computedEnd,
               areaName: area ?? "",
-              collateralItems: Array.isArray(v.collateralItems)
-                ? (v.collateralItems as unknown[])
-                : [],
               loanType: String((v as AnyRec)["loanType"] || "unknown").toLowerCase(),
               kycId: detectKycId(v),
+              arrears: arrearsForLoan(v, toMillis(startRaw)),
+              penaltiesNet:
+                Number(v.penaltiesCharged ?? 0) - Number(v.penaltiesWaived ?? 0),
+              restructured: !!v.restructuredAt,
+              demandNotices: parseDemandNotices(v.demandNotices),
+              coverageAtApprovalPct: approvalCoverage(v),
             } satisfies Loan;
           });
           setLoansRaw(rows);
@@ -754,6 +738,40 @@ export default function AdminDashboardPage() {
     return () => unsub();
   }, []);
 
+  /* Collateral registry */
+  const [collateral, setCollateral] = useState<CollateralItem[]>([]);
+  const [collateralLoading, setCollateralLoading] = useState(true);
+
+  useEffect(() => {
+    const unsub = onSnapshot(
+      query(collection(db, COLLATERAL_COLLECTION), fsLimit(1000)),
+      (snap) => {
+        setCollateral(snap.docs.map((d) => parseCollateral(d.id, d.data())));
+        setCollateralLoading(false);
+      },
+      (e: unknown) => {
+        console.warn("[collateral:onSnapshot]", e);
+        setCollateralLoading(false);
+      }
+    );
+    return () => unsub();
+  }, []);
+
+  /** Items still securing each loan (pledged, held or repossessed). */
+  const securingByLoan = useMemo(() => {
+    const m = new Map<string, number>();
+    for (const c of collateral) {
+      if (SECURING_STATUSES.includes(c.status)) m.set(c.loanId, (m.get(c.loanId) ?? 0) + 1);
+    }
+    return m;
+  }, [collateral]);
+
+  const collateralByLoan = useMemo(() => {
+    const m = new Map<string, CollateralItem[]>();
+    for (const c of collateral) m.set(c.loanId, [...(m.get(c.loanId) ?? []), c]);
+    return m;
+  }, [collateral]);
+
   /* KYC (permissive; always fetch something) */
   const [kycPending, setKycPending] = useState<KycRow[]>([]);
   const [kycLoading, setKycLoading] = useState(true);
@@ -850,7 +868,7 @@ export default function AdminDashboardPage() {
       }
       if (!out.endDate)
         out.endDate = computeEndDate(
-          out.timestamp,
+          toMillis(out.timestamp),
           out.loanPeriod,
           out.paymentFrequency
         );
@@ -1008,72 +1026,20 @@ export default function AdminDashboardPage() {
         typeof window !== "undefined"
           ? window.prompt(`Optional note for ${status.toUpperCase()} decision:`, "")
           : "";
-      await updateDoc(fsDoc(db, p.path), {
-        "decision.status": status,
-        "decision.note": note || null,
-        "decision.byUid": "admin",
-        "decision.byEmail": "admin@essa.loans",
-        "decision.at": serverTimestamp(),
-      });
-
-      await setDoc(
-        fsDoc(db, "loan_issuing", p.id),
+      const res = await apiSend<{ coverageWarning: string | null }>(
+        "/api/admin/proposals/decide",
+        "POST",
         {
           calcPath: p.path,
-          calcId: p.id,
-          userId: p.userId,
-          loanType: p.loanType,
-          loanAmount: p.loanAmount,
-          months: p.months,
-          monthlyInstallment: p.monthlyInstallment ?? null,
-          totalAmountPaid: p.totalAmountPaid ?? null,
-          netReceived: p.netReceived ?? null,
-          eir: p.eir ?? null,
           status,
           note: note || null,
-          decidedAt: Date.now(),
-        },
-        { merge: true }
+        }
       );
 
-      if (status === "approved") {
-        const k = kycIndex.byId.get(p.userId);
-        const newLoanPayload: AnyRec = {
-          title: "",
-          firstName: k?.firstName || "",
-          surname: k?.lastName || "",
-          mobile: k?.mobile || "",
-          email: k?.email || "",
-          areaName: k?.physicalCity || "",
-          loanAmount: p.loanAmount || 0,
-          currentBalance: p.loanAmount || 0,
-          loanPeriod: p.months || 0,
-          paymentFrequency: "monthly",
-          loanType: p.loanType || "unknown",
-          status: "approved",
-          timestamp: serverTimestamp(),
-          kycId: p.userId,
-          calcRefPath: p.path,
-          calcRefId: p.id,
-          calculatorSnapshot: {
-            loanType: p.loanType,
-            loanAmount: p.loanAmount,
-            months: p.months,
-            monthlyInstallment: p.monthlyInstallment ?? null,
-            totalAmountPaid: p.totalAmountPaid ?? null,
-            netReceived: p.netReceived ?? null,
-            eir: p.eir ?? null,
-            decidedAt: Date.now(),
-          },
-        };
-        await setDoc(fsDoc(db, "loan_applications", p.id), newLoanPayload, {
-          merge: true,
-        });
-      }
-
       pushFeedback(
-        "success",
-        `Proposal ${status === "approved" ? "approved" : "denied"} successfully.${status === "approved" ? " Loan created under Outstanding." : ""}`
+        res.coverageWarning ? "info" : "success",
+        `Proposal ${status === "approved" ? "approved" : "denied"} successfully.${status === "approved" ? " Loan created under Outstanding." : ""}` +
+          (res.coverageWarning ? ` Warning: ${res.coverageWarning}.` : "")
       );
     } catch (e: unknown) {
       pushFeedback("error", `Failed to update proposal: ${getErrorMessage(e)}`);
@@ -1124,22 +1090,50 @@ export default function AdminDashboardPage() {
   const overdueWithCollateral = useMemo(
     () =>
       loans
-        .filter((r) => {
-          const end = r.endDate ? new Date(r.endDate) : null;
-          return (
+        .filter(
+          (r) =>
             (r.status === "approved" || r.status === "active") &&
             (r.currentBalance ?? 0) > 0 &&
-            end &&
-            end < nowDate &&
-            (r.collateralItems?.length ?? 0) > 0
-          );
-        })
-        .sort(
-          (a, b) =>
-            new Date(a.endDate || 0).getTime() - new Date(b.endDate || 0).getTime()
+            (r.arrears?.dpd ?? 0) > 0 &&
+            (securingByLoan.get(r.id) ?? 0) > 0
+        )
+        .sort((a, b) => (b.arrears?.dpd ?? 0) - (a.arrears?.dpd ?? 0))
+        .slice(0, 8),
+    [loans, securingByLoan]
+  );
+
+  /**
+   * Active loans under their product's minimum cover, or below what they
+   * had at approval (collateral revalued down, released, or principal raised).
+   */
+  const coverageDrops = useMemo(
+    () =>
+      loans
+        .filter(
+          (r) =>
+            (r.status === "approved" || r.status === "active") &&
+            (r.currentBalance ?? 0) > 0 &&
+            (collateralByLoan.has(r.id) || r.coverageAtApprovalPct != null)
+        )
+        .map((r) => ({
+          loan: r,
+          coverage: coverageFor(
+            r.loanType,
+            r.loanAmount ?? 0,
+            securingValue(collateralByLoan.get(r.id) ?? [])
+          ),
+        }))
+        .filter(
+          ({ loan, coverage }) =>
+            coverage.minCoveragePct > 0 &&
+            coverage.coveragePct != null &&
+            (coverage.below ||
+              (loan.coverageAtApprovalPct != null &&
+                coverage.coveragePct < loan.coverageAtApprovalPct))
         )
+        .sort((a, b) => (a.coverage.coveragePct ?? 0) - (b.coverage.coveragePct ?? 0))
         .slice(0, 8),
-    [loans, nowDate]
+    [loans, collateralByLoan]
   );
 
   const finished = useMemo(
@@ -1147,9 +1141,11 @@ export default function AdminDashboardPage() {
       loans
         .filter(
           (r) =>
-            (r.currentBalance ?? 0) <= 0 ||
-            r.status === "closed" ||
-            r.status === "finished"
+            // written off: no balance, but not repaid either
+            r.status !== "written_off" &&
+            ((r.currentBalance ?? 0) <= 0 ||
+              r.status === "closed" ||
+              r.status === "finished")
         )
         .slice(0, 8),
     [loans]
@@ -1157,25 +1153,34 @@ export default function AdminDashboardPage() {
 
   const recentApplicants = useMemo(() => loans.slice(0, 8), [loans]);
 
-  const totals: Totals = useMemo(
-    () => ({
-      outstandingCount: outstanding.length,
-      outstandingBalanceSum: outstanding.reduce(
-        (s, r) => s + (r.currentBalance || 0),
-        0
-      ),
-      collateralCount: loans.reduce(
-        (s, r) => s + (r.collateralItems?.length ?? 0),
-        0
-      ),
-      finishedCount: finished.length,
-      overdueCount: loans.filter((r) => {
-        const end = r.endDate ? new Date(r.endDate) : null;
-        return end && end < nowDate && (r.currentBalance ?? 0) > 0;
-      }).length,
-    }),
-    [loans, outstanding, finished, nowDate]
+  // over the whole portfolio, from the server: `loans` is only the latest 200
+  const { data: outstandingPage, mutate: refreshOutstanding } = useSWR<LoanListPage>(
+    `/api/admin/loans?${loanListQuery({ status: "outstanding", limit: 1 })}`,
+    apiGet
   );
+  const { data: finishedPage, mutate: refreshFinished } = useSWR<LoanListPage>(
+    `/api/admin/loans?${loanListQuery({ status: "finished", limit: 1 })}`,
+    apiGet
+  );
+  // and again whenever the live loans change
+  useEffect(() => {
+    if (updatedAt == null) return;
+    refreshOutstanding();
+    refreshFinished();
+  }, [updatedAt, refreshOutstanding, refreshFinished]);
+
+  const totals: Totals = useMemo(() => {
+    const o = outstandingPage?.totals;
+    return {
+      outstandingCount: o?.count,
+      outstandingBalanceSum: o?.balance,
+      collateralCount: [...securingByLoan.values()].reduce((s, n) => s + n, 0),
+      finishedCount: finishedPage?.totals?.count,
+      overdueCount: o?.inArrears,
+      arrearsSum: o?.arrears,
+      par: o?.par,
+    };
+  }, [outstandingPage, finishedPage, securingByLoan]);
 
   const breakdown: Breakdown = useMemo(() => {
     const status: Record<string, number> = {};
@@ -1186,51 +1191,48 @@ export default function AdminDashboardPage() {
       add(type, String(r.loanType || "unknown").toLowerCase());
       add(frequency, String(r.paymentFrequency || "monthly"));
     });
-    return { status, type, frequency };
+    const restructured = loans.filter((r) => r.restructured).length;
+    return { status, type, frequency, restructured };
   }, [loans]);
 
-  /* Collateral aggregation */
+  /* Collateral registry joined to the loans */
   const collaterals: CollateralVM[] = useMemo(() => {
-    const list: CollateralVM[] = [];
     const msDay = 24 * 60 * 60 * 1000;
     const nowMs = Date.now();
-    for (const loan of loans) {
-      const items = Array.isArray(loan.collateralItems)
-        ? loan.collateralItems
-        : [];
-      const borrower = fullName(loan);
-      const startMs = toMillis(loan.timestamp);
-      const endMs = toMillis(loan.endDate);
-      const daysLeft = endMs ? Math.ceil((endMs - nowMs) / msDay) : null;
-      const overdueDays = endMs && endMs < nowMs ? Math.ceil((nowMs - endMs) / msDay) : 0;
-      const lateFee =
-        overdueDays > 0 ? (loan.currentBalance || 0) * LATE_FEE_DAILY * overdueDays : 0;
-
-      items.forEach((it, i) => {
-        const label = collateralLabel(it);
-        const estValue = collateralValue(it);
-        const imageUrl = collateralImageUrl(it);
-        list.push({
-          key: `${loan.id}#${i}`,
-          label,
-          estValue: estValue ?? null,
-          loanId: loan.id,
-          borrower,
-          mobile: loan.mobile,
-          area: loan.areaName || "—",
-          startMs,
+    const byId = new Map(loans.map((l) => [l.id, l]));
+    return collateral
+      .map((c) => {
+        const loan = byId.get(c.loanId);
+        const endMs = loan ? toMillis(loan.endDate) : null;
+        return {
+          key: c.id,
+          label: c.description,
+          category: COLLATERAL_CATEGORY_LABELS[c.category],
+          status: c.status,
+          serialNumber: c.serialNumber,
+          custodian: c.custodian,
+          estValue: c.valuation,
+          loanId: c.loanId,
+          borrower: loan ? fullName(loan) : "—",
+          mobile: loan?.mobile,
+          area: loan?.areaName || "—",
+          startMs: loan ? toMillis(loan.timestamp) : null,
           endMs,
-          daysLeft,
-          overdueDays,
-          lateFee,
-          currentBalance: loan.currentBalance || 0,
-          kycId: loan.kycId,
-          imageUrl,
-        });
-      });
-    }
-    return list.sort((a, b) => (b.startMs ?? 0) - (a.startMs ?? 0));
-  }, [loans]);
+          daysLeft: endMs ? Math.ceil((endMs - nowMs) / msDay) : null,
+          overdueDays: loan?.arrears?.dpd ?? 0,
+          lateFee: loan?.penaltiesNet ?? 0,
+          currentBalance: loan?.currentBalance || 0,
+          kycId: loan?.kycId,
+          imageUrl: imageSrc(c.photos[0], true) || null,
+        };
+      })
+      .sort(
+        (a, b) =>
+          Number(SECURING_STATUSES.includes(b.status)) -
+            Number(SECURING_STATUSES.includes(a.status)) ||
+          (b.startMs ?? 0) - (a.startMs ?? 0)
+      );
+  }, [collateral, loans]);
 
   /* KYC badge */
   const [kycNewCount, setKycNewCount] = useState(0);
@@ -1260,40 +1262,12 @@ export default function AdminDashboardPage() {
   /* Modals */
   const [viewKycId, setViewKycId] = useState<string | null>(null);
   const [viewLoanId, setViewLoanId] = useState<string | null>(null);
+  const [viewProcessedId, setViewProcessedId] = useState<string | null>(null);
 
   /* Actions for PROCESSED list */
   async function considerBackToActive(p: ProcessedLoan) {
-    const original = p?.original;
-    let payload: Record<string, unknown>;
-    if (original && typeof original === "object" && Object.keys(original).length) {
-      payload = original; // exact original doc
-    } else {
-      const nameParts = (p.applicantFull || "").trim().split(/\s+/);
-      payload = {
-        title: "",
-        firstName:
-          nameParts.length > 1
-            ? nameParts.slice(0, -1).join(" ")
-            : nameParts[0] || "",
-        surname: nameParts.length > 1 ? nameParts.slice(-1)[0] : "",
-        mobile: p.mobile || "",
-        email: p.email || "",
-        areaName: p.area || "",
-        loanAmount: p.loanAmount ?? p.currentBalance ?? 0,
-        currentBalance: p.currentBalance ?? p.loanAmount ?? 0,
-        loanPeriod: p.period ?? 0,
-        paymentFrequency: (p.frequency || "monthly").toString().toLowerCase(),
-        timestamp: p.startMs ? new Date(p.startMs) : new Date(),
-        endDate: p.endMs ? new Date(p.endMs) : null,
-        status: p.processedStatus === "approved" ? "approved" : "pending",
-        loanType: "unknown",
-      };
-    }
     try {
-      await setDoc(fsDoc(db, "loan_applications", p.id), payload, {
-        merge: false,
-      });
-      await deleteDoc(fsDoc(db, "processed_loans", p.id));
+      await apiSend(`/api/admin/loans/${encodeURIComponent(p.id)}/restore`, "POST");
       pushFeedback("success", "Moved back to Active successfully.");
     } catch (e: unknown) {
       pushFeedback("error", `Failed to restore: ${getErrorMessage(e)}`);
@@ -1302,10 +1276,7 @@ export default function AdminDashboardPage() {
 
   async function clearProcessed(p: ProcessedLoan) {
     try {
-      await updateDoc(fsDoc(db, "processed_loans", p.id), {
-        cleared: true,
-        clearedAt: Date.now(),
-      });
+      await apiSend(`/api/admin/loans/${encodeURIComponent(p.id)}/clear`, "POST");
       pushFeedback("success", "Record hidden from Processed.");
     } catch (e: unknown) {
       pushFeedback("error", `Failed to clear: ${getErrorMessage(e)}`);
@@ -1314,7 +1285,7 @@ export default function AdminDashboardPage() {
 
   async function deleteProcessedForever(p: ProcessedLoan) {
     try {
-      await deleteDoc(fsDoc(db, "processed_loans", p.id));
+      await apiSend(`/api/admin/loans/${encodeURIComponent(p.id)}/delete`, "POST");
       pushFeedback("success", "Record deleted permanently.");
     } catch (e: unknown) {
       pushFeedback("error", `Failed to delete: ${getErrorMessage(e)}`);
@@ -1353,10 +1324,17 @@ export default function AdminDashboardPage() {
     {
       label: "Finished Repayments",
       value: num(totals.finishedCount),
-      sub: "Recently closed",
+      sub: "Repaid or closed",
       icon: IconCheck,
       tint: "from-emerald-500 to-emerald-600",
     },
+    {
+      label: "Loans in Arrears",
+      value: num(totals.overdueCount),
+      sub: `MWK ${money(totals.arrearsSum || 0)} past due`,
+      icon: IconClock,
+      tint: "from-red-500 to-red-600",
+    },
   ] as const;
 
   return (
@@ -1376,6 +1354,11 @@ export default function AdminDashboardPage() {
             </div>
           </div>
           <div className="flex items-center gap-2">
+            <BorrowerSearch
+              onOpenKyc={setViewKycId}
+              onOpenLoan={setViewLoanId}
+              onOpenProcessed={setViewProcessedId}
+            />
             <button
               onClick={() => setUpdatedAt(Date.now())}
               className="inline-flex items-center bg-gradient-to-br from-blue-600 to-indigo-600 text-white gap-2 rounded-lg px-3 py-1.5 text-sm"
@@ -1384,6 +1367,24 @@ export default function AdminDashboardPage() {
               <IconRefresh className="h-4 w-4" />
               Refresh
             </button>
+            {can("audit:view") && (
+              <Link
+                href="/admin/audit"
+                className="inline-flex items-center gap-2 rounded-lg border px-3 py-1.5 text-sm hover:bg-slate-50"
+                title="Audit log"
+              >
+                Audit
+              </Link>
+            )}
+            {can("staff:manage") && (
+              <Link
+                href="/admin/staff"
+                className="inline-flex items-center gap-2 rounded-lg border px-3 py-1.5 text-sm hover:bg-slate-50"
+                title="Manage staff and roles"
+              >
+                Staff
+              </Link>
+            )}
             {/* Logout button */}
             <button
               onClick={handleLogout}
@@ -1419,7 +1420,7 @@ export default function AdminDashboardPage() {
       <main className="max-w-7xl mx-auto px-4 sm:px-6 py-6 space-y-8">
         {/* KPIs */}
         <section>
-          <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+          <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-5">
             {cards.map((c) => (
               <KPICard
                 key={c.label}
@@ -1474,6 +1475,46 @@ export default function AdminDashboardPage() {
                   total={sumVals(breakdown.frequency || {})}
                 />
               </div>
+              <div className="rounded-xl border p-4">
+                <h3 className="font-medium text-slate-800">Restructured</h3>
+                <BarRow
+                  label={`${num(breakdown.restructured)} of ${num(loans.length)} loan(s) rescheduled`}
+                  value={breakdown.restructured || 0}
+                  total={loans.length}
+                />
+              </div>
+              <div className="rounded-xl border p-4">
+                <h3 className="font-medium text-slate-800">
+                  Portfolio at Risk (days past due)
+                </h3>
+                {PAR_BUCKETS.map((b) => (
+                  <BarRow
+                    key={b}
+                    label={`${b} · ${num(totals.par?.[b].count)} loan(s) · MWK ${money(
+                      totals.par?.[b].balance || 0
+                    )}`}
+                    value={totals.par?.[b].balance || 0}
+                    total={totals.outstandingBalanceSum || 0}
+                  />
+                ))}
+              </div>
+              <div className="rounded-xl border p-4">
+                <h3 className="font-medium text-slate-800">
+                  Collections by Channel (30 days)
+                </h3>
+                {collectionsLoading && <SkeletonLine count={4} />}
+                {collections &&
+                  PAYMENT_METHODS.map((m) => (
+                    <BarRow
+                      key={m}
+                      label={`${PAYMENT_METHOD_LABELS[m]} · ${num(
+                        collections.channels[m].count
+                      )} payment(s) · MWK ${money(collections.channels[m].amount)}`}
+                      value={collections.channels[m].amount}
+                      total={collections.total.amount}
+                    />
+                  ))}
+              </div>
               <div className="rounded-xl border p-4">
                 <h3 className="font-medium text-slate-800">Top Areas</h3>
                 <ul className="mt-2 grid gap-2">
@@ -1568,18 +1609,22 @@ export default function AdminDashboardPage() {
                   {fmtMaybeDate(p.timestamp)}
                 </span>,
                 <div key="g" className="flex items-center gap-2">
-                  <button
-                    onClick={() => decideProposal(p, "approved")}
-                    className="rounded-lg bg-emerald-600 text-white px-2.5 py-1.5 text-xs hover:bg-emerald-700"
-                  >
-                    Approve
-                  </button>
-                  <button
-                    onClick={() => decideProposal(p, "denied")}
-                    className="rounded-lg bg-rose-600 text-white px-2.5 py-1.5 text-xs hover:bg-rose-700"
-                  >
-                    Deny
-                  </button>
+                  {can("proposals:decide") && (
+                    <>
+                      <button
+                        onClick={() => decideProposal(p, "approved")}
+                        className="rounded-lg bg-emerald-600 text-white px-2.5 py-1.5 text-xs hover:bg-emerald-700"
+                      >
+                        Approve
+                      </button>
+                      <button
+                        onClick={() => decideProposal(p, "denied")}
+                        className="rounded-lg bg-rose-600 text-white px-2.5 py-1.5 text-xs hover:bg-rose-700"
+                      >
+                        Deny
+                      </button>
+                    </>
+                  )}
                   <button
                     onClick={() => setViewKycId(p.userId)}
                     className="rounded-lg border px-2.5 py-1.5 text-xs hover:bg-slate-50"
@@ -1691,7 +1736,7 @@ export default function AdminDashboardPage() {
         {/* The rest (re-arranged after the priority sections) */}
         <Section title="Collateral items">
           <ResponsiveTable
-            isLoading={loansLoading}
+            isLoading={collateralLoading || loansLoading}
             emptyText="No collateral items found."
             headers={[
               "Image",
@@ -1729,6 +1774,7 @@ export default function AdminDashboardPage() {
                       alt={c.label}
                       width={56}
                       height={56}
+                      unoptimized
                       className="object-cover rounded-md border bg-white"
                     />
                   ) : (
@@ -1740,11 +1786,23 @@ export default function AdminDashboardPage() {
                 /* ITEM */
                 <div key="a">
                   <div className="font-medium text-slate-900">{c.label}</div>
+                  <div className="text-xs text-slate-500">
+                    {c.category}
+                    {c.serialNumber ? ` · ${c.serialNumber}` : ""}
+                  </div>
                   {typeof c.estValue === "number" && (
                     <div className="text-xs text-slate-500">
                       Est. value: MWK {money(c.estValue)}
                     </div>
                   )}
+                  <span
+                    className={`mt-1 inline-flex items-center rounded-full border px-2 py-0.5 text-[11px] ${
+                      COLLATERAL_STATUS_CHIP[c.status]
+                    }`}
+                    title={c.custodian ? `Custodian: ${c.custodian}` : undefined}
+                  >
+                    {COLLATERAL_STATUS_LABELS[c.status]}
+                  </span>
                 </div>,
                 <CellPrimary
                   key="b"
@@ -1764,7 +1822,7 @@ export default function AdminDashboardPage() {
                   {countdown}
                 </span>,
                 <span key="f" className="font-medium text-slate-900">
-                  {c.overdueDays > 0 ? `MWK ${money(Math.ceil(c.lateFee))}` : "—"}
+                  {c.lateFee > 0 ? `MWK ${money(c.lateFee)}` : "—"}
                 </span>,
                 <div key="g" className="flex items-center gap-2">
                   <button
@@ -1854,11 +1912,33 @@ export default function AdminDashboardPage() {
                 title: fullName(r),
                 chips: [
                   `MWK ${money(r.currentBalance || 0)}`,
-                  `${r.collateralItems?.length || 0} item(s)`,
+                  `${securingByLoan.get(r.id) ?? 0} item(s)`,
+                  repossessionLabel(r.demandNotices ?? [], collateralByLoan.get(r.id) ?? []),
+                ],
+                meta: `${r.arrears?.dpd ?? 0} days past due · MWK ${money(
+                  r.arrears?.arrearsAmount ?? 0
+                )} in arrears · ${r.areaName || "—"}`,
+                href: repossessionPage(r.id),
+              }))}
+            />
+          </Section>
+
+          <Section title="Collateral coverage dropped">
+            <ListCards
+              isLoading={loansLoading || collateralLoading}
+              emptyText="All active loans are covered."
+              items={coverageDrops.map(({ loan: r, coverage: c }) => ({
+                title: fullName(r),
+                chips: [
+                  `${c.coveragePct}% cover`,
+                  `min ${c.minCoveragePct}%`,
+                  ...(r.coverageAtApprovalPct != null
+                    ? [`${r.coverageAtApprovalPct}% at approval`]
+                    : []),
                 ],
-                meta: `Overdue since ${fmtDate(r.endDate)} · ${
-                  r.areaName || "—"
-                }`,
+                meta: `MWK ${money(c.collateralValue)} collateral · MWK ${money(
+                  c.principal
+                )} principal · ${r.areaName || "—"}`,
                 onClick: () => setViewLoanId(r.id),
               }))}
             />
@@ -1933,47 +2013,53 @@ export default function AdminDashboardPage() {
                           <div className="text-xs text-slate-500 mt-1">{meta}</div>
                         </div>
                         <div className="flex items-center gap-2">
-                          <button
-                            onClick={async () => {
-                              if (
-                                !confirm("Move back to Active (loan_applications)?")
-                              )
-                                return;
-                              await considerBackToActive(p);
-                            }}
-                            className="rounded-lg bg-amber-600 text-white px-2.5 py-1.5 text-xs hover:bg-amber-700"
-                            title="Restore to active"
-                          >
-                            Consider
-                          </button>
-                          <button
-                            onClick={async () => {
-                              if (
-                                !confirm(
-                                  "Hide this record from Processed (not deleted)?"
+                          {can("loans:restore") && (
+                            <button
+                              onClick={async () => {
+                                if (
+                                  !confirm("Move back to Active (loan_applications)?")
                                 )
-                              )
-                                return;
-                              await clearProcessed(p);
-                            }}
-                            className="rounded-lg border px-2.5 py-1.5 text-xs hover:bg-slate-50"
-                            title="Hide from list (not deleted)"
-                          >
-                            Clear
-                          </button>
-                          <button
-                            onClick={async () => {
-                              if (
-                                !confirm("Delete this processed record forever?")
-                              )
-                                return;
-                              await deleteProcessedForever(p);
-                            }}
-                            className="rounded-lg bg-rose-600 text-white px-2.5 py-1.5 text-xs hover:bg-rose-700"
-                            title="Delete forever"
-                          >
-                            Delete forever
-                          </button>
+                                  return;
+                                await considerBackToActive(p);
+                              }}
+                              className="rounded-lg bg-amber-600 text-white px-2.5 py-1.5 text-xs hover:bg-amber-700"
+                              title="Restore to active"
+                            >
+                              Consider
+                            </button>
+                          )}
+                          {can("loans:clear") && (
+                            <button
+                              onClick={async () => {
+                                if (
+                                  !confirm(
+                                    "Hide this record from Processed (not deleted)?"
+                                  )
+                                )
+                                  return;
+                                await clearProcessed(p);
+                              }}
+                              className="rounded-lg border px-2.5 py-1.5 text-xs hover:bg-slate-50"
+                              title="Hide from list (not deleted)"
+                            >
+                              Clear
+                            </button>
+                          )}
+                          {can("loans:delete") && (
+                            <button
+                              onClick={async () => {
+                                if (
+                                  !confirm("Delete this processed record forever?")
+                                )
+                                  return;
+                                await deleteProcessedForever(p);
+                              }}
+                              className="rounded-lg bg-rose-600 text-white px-2.5 py-1.5 text-xs hover:bg-rose-700"
+                              title="Delete forever"
+                            >
+                              Delete forever
+                            </button>
+                          )}
                         </div>
                       </div>
                     );
@@ -1994,19 +2080,29 @@ export default function AdminDashboardPage() {
         onClose={() => setViewLoanId(null)}
         onFeedback={pushFeedback}
       />
+      <LoanPreviewModal
+        loanId={viewProcessedId}
+        processed
+        onClose={() => setViewProcessedId(null)}
+        onFeedback={pushFeedback}
+      />
     </div>
   );
 }
 
 /* =========================================================
-   Loan Preview Modal (moves to processed on Accept/Decline)
+   Loan Preview Modal (moves to processed on Accept/Decline).
+   `processed`: shows a processed record (the loan as it was
+   when approved or declined), read-only.
    ========================================================= */
 function LoanPreviewModal({
   loanId,
+  processed = false,
   onClose,
   onFeedback,
 }: {
   loanId: string | null;
+  processed?: boolean;
   onClose: () => void;
   onFeedback: (
     type: "success" | "error" | "info",
@@ -2014,9 +2110,9 @@ function LoanPreviewModal({
   ) => void;
 }) {
   const [data, setData] = useState<LoanPreview | null>(null);
-  const [loanRaw, setLoanRaw] = useState<Record<string, unknown> | null>(null);
   const [loading, setLoading] = useState(false);
   const [err, setErr] = useState<string | null>(null);
+  const { can } = useStaff();
   const [busy, setBusy] = useState<"accept" | "decline" | "notify" | null>(null);
   const [notifyOpen, setNotifyOpen] = useState(false);
   const mounted = useRef(false);
@@ -2044,11 +2140,17 @@ function LoanPreviewModal({
       setErr(null);
       setData(null);
       try {
-        const loanSnap = await getDoc(fsDoc(db, "loan_applications", loanId));
+        const [loanSnap, collateralSnap] = await Promise.all([
+          getDoc(fsDoc(db, processed ? "processed_loans" : "loan_applications", loanId)),
+          getDocs(query(collection(db, COLLATERAL_COLLECTION), where("loanId", "==", loanId))),
+        ]);
         if (!mounted.current) return;
-        if (!loanSnap.exists()) throw new Error("Loan not found");
-        const lr = { id: loanSnap.id, ...loanSnap.data() } as AnyRec;
-        setLoanRaw(lr);
+        if (!loanSnap.exists()) {
+          throw new Error(processed ? "Processed record not found" : "Loan not found");
+        }
+        const lr: AnyRec = processed
+          ? processedAsLoan(loanSnap.id, loanSnap.data())
+          : { id: loanSnap.id, ...loanSnap.data() };
 
         let kycRaw: AnyRec | null = null;
         const kycId = detectKycId(lr);
@@ -2186,9 +2288,12 @@ function LoanPreviewModal({
             | "weekly"
             | "monthly";
           const period = Number(periodRaw || 0);
-          endMs = computeEndDate(startRaw, period, freq)?.getTime() ?? null;
+          endMs = computeEndDate(toMillis(startRaw), period, freq)?.getTime() ?? null;
         }
 
+        const stored = storedSchedule(lr);
+        const terms = stored ? null : termsForLoan(lr, toMillis(startRaw));
+
         const view: LoanPreview = {
           id: String(merged.id),
           applicantFull,
@@ -2220,9 +2325,10 @@ function LoanPreviewModal({
           ).toLowerCase(),
           startMs: toMillis(startRaw),
           endMs: endMs || null,
-          collateralItems: Array.isArray(merged["collateralItems"])
-            ? (merged["collateralItems"] as unknown[])
-            : [],
+          loanType: String(firstDefined(merged["loanType"], "unknown")).toLowerCase(),
+          collateralItems: collateralSnap.docs.map((d) => parseCollateral(d.id, d.data())),
+          schedule: stored ?? (terms ? generateSchedule(terms) : []),
+          scheduleProjected: !stored,
         };
         if (mounted.current) setData(view);
       } catch (e: unknown) {
@@ -2231,11 +2337,21 @@ function LoanPreviewModal({
         if (mounted.current) setLoading(false);
       }
     })();
-  }, [loanId]);
+  }, [loanId, processed]);
 
   if (!loanId) return null;
 
   const endDate = data?.endMs ? new Date(data.endMs).toLocaleDateString() : "—";
+  const coverage = data
+    ? coverageFor(data.loanType, data.loanAmount, securingValue(data.collateralItems))
+    : null;
+  const coverageLabel =
+    !coverage || coverage.coveragePct == null
+      ? "—"
+      : `${coverage.coveragePct}% (minimum ${coverage.minCoveragePct}%` +
+        (coverage.below
+          ? coverage.enforcement === "block" ? ", approval blocked)" : ", below)"
+          : ")");
   const startStr = data?.startMs
     ? new Date(data.startMs).toLocaleString()
     : "—";
@@ -2245,33 +2361,23 @@ function LoanPreviewModal({
     const busyKey: "accept" | "decline" = next === "approved" ? "accept" : "decline";
     setBusy(busyKey);
     try {
-      try {
-        await updateDoc(fsDoc(db, "loan_applications", loanId), { status: next });
-      } catch {
-        // best-effort
-      }
-      const processedDoc: ProcessedLoan & Record<string, unknown> = {
-        id: loanId,
-        applicantFull: data.applicantFull || "—",
-        mobile: data.mobile || "",
-        email: data.email || "",
-        area: data.area || "—",
-        processedStatus: next,
-        processedAt: Date.now(),
-        loanAmount: data.loanAmount ?? 0,
-        currentBalance: data.currentBalance ?? data.loanAmount ?? 0,
-        period: data.period ?? 0,
-        frequency: data.frequency ?? "monthly",
-        startMs: data.startMs ?? null,
-        endMs: data.endMs ?? null,
-        original: loanRaw ?? {},
-        cleared: false,
-      };
-      await setDoc(fsDoc(db, "processed_loans", loanId), processedDoc);
-      await deleteDoc(fsDoc(db, "loan_applications", loanId));
+      // the display fields the modal resolved (KYC fallbacks included)
+      const res = await apiSend<{ coverageWarning?: string | null }>(
+        `/api/admin/loans/${encodeURIComponent(loanId)}/${next === "approved" ? "approve" : "decline"}`,
+        "POST",
+        {
+          display: {
+            applicantFull: data.applicantFull,
+            mobile: data.mobile,
+            email: data.email,
+            area: data.area,
+          },
+        }
+      );
       onFeedback(
-        "success",
-        `Loan ${next === "approved" ? "approved" : "declined"} and moved to Processed.`
+        res.coverageWarning ? "info" : "success",
+        `Loan ${next === "approved" ? "approved" : "declined"} and moved to Processed.` +
+          (res.coverageWarning ? ` Warning: ${res.coverageWarning}.` : "")
       );
       onClose();
     } catch (e: unknown) {
@@ -2287,7 +2393,9 @@ function LoanPreviewModal({
       <div className="absolute inset-x-0 top-10 mx-auto w-[94%] max-w-2xl">
         <div className="rounded-2xl border bg-white shadow-xl">
           <div className="flex items-center justify-between p-4 border-b">
-            <h3 className="text-base font-semibold text-slate-900">Loan Preview</h3>
+            <h3 className="text-base font-semibold text-slate-900">
+              {processed ? "Processed record" : "Loan Preview"}
+            </h3>
             <button
               onClick={onClose}
               className="rounded-lg border px-2 py-1 text-sm hover:bg-slate-50"
@@ -2322,65 +2430,76 @@ function LoanPreviewModal({
                 />
                 <KV label="Start" value={startStr} />
                 <KV label="End" value={endDate} />
-                {Array.isArray(data.collateralItems) &&
-                  data.collateralItems.length > 0 && (
-                    <div>
-                      <div className="text-slate-500 mb-1">Collateral</div>
-                      <div className="flex flex-wrap gap-2">
-                        {data.collateralItems.map((it, i) => {
-                          const label = collateralLabel(it);
-                          const color = pickColor(label);
-                          const thumb = collateralImageUrl(it);
-                          return (
-                            <span
-                              key={i}
-                              className="inline-flex items-center gap-2 rounded-full px-2.5 py-1 text-xs font-medium border"
-                              style={{ borderColor: color, color }}
-                            >
-                              {thumb ? (
-                                <Image
-                                  src={thumb}
-                                  alt=""
-                                  width={20}
-                                  height={20}
-                                  className="rounded object-cover"
-                                />
-                              ) : null}
-                              {label}
-                            </span>
-                          );
-                        })}
-                      </div>
+                <KV label="Collateral cover" value={coverageLabel} />
+                {data.collateralItems.length > 0 && (
+                  <div>
+                    <div className="text-slate-500 mb-1">Collateral</div>
+                    <div className="flex flex-wrap gap-2">
+                      {data.collateralItems.map((it) => {
+                        const color = pickColor(it.description);
+                        const thumb = imageSrc(it.photos[0], true);
+                        return (
+                          <span
+                            key={it.id}
+                            className="inline-flex items-center gap-2 rounded-full px-2.5 py-1 text-xs font-medium border"
+                            style={{ borderColor: color, color }}
+                            title={COLLATERAL_CATEGORY_LABELS[it.category]}
+                          >
+                            {thumb ? (
+                              <Image
+                                src={thumb}
+                                alt=""
+                                width={20}
+                                height={20}
+                                unoptimized
+                                className="rounded object-cover"
+                              />
+                            ) : null}
+                            {it.description} · {COLLATERAL_STATUS_LABELS[it.status]}
+                          </span>
+                        );
+                      })}
                     </div>
-                  )}
+                  </div>
+                )}
+                <div>
+                  <div className="text-slate-500 mb-1">Repayment schedule</div>
+                  <ScheduleTable rows={data.schedule} projected={data.scheduleProjected} />
+                </div>
               </div>
             )}
           </div>
           <div className="p-4 border-t flex items-center justify-between gap-2">
             <div className="flex items-center gap-2">
-              <button
-                disabled={busy === "accept"}
-                onClick={() => moveToProcessed("approved")}
-                className="inline-flex items-center rounded-lg bg-emerald-600 text-white px-3 py-1.5 text-sm hover:bg-emerald-700 disabled:opacity-60"
-                title="Approve and move to Processed"
-              >
-                {busy === "accept" ? "Processing…" : "Accept"}
-              </button>
-              <button
-                disabled={busy === "decline"}
-                onClick={() => moveToProcessed("declined")}
-                className="inline-flex items-center rounded-lg bg-rose-600 text-white px-3 py-1.5 text-sm hover:bg-rose-700 disabled:opacity-60"
-                title="Decline and move to Processed"
-              >
-                {busy === "decline" ? "Processing…" : "Decline"}
-              </button>
-              <button
-                onClick={() => setNotifyOpen(true)}
-                className="inline-flex items-center rounded-lg bg-blue-600 text-white px-3 py-1.5 text-sm hover:bg-blue-700"
-                title="Notify client via Email"
-              >
-                Notify
-              </button>
+              {can("loans:process") && !processed && (
+                <>
+                  <button
+                    disabled={busy === "accept"}
+                    onClick={() => moveToProcessed("approved")}
+                    className="inline-flex items-center rounded-lg bg-emerald-600 text-white px-3 py-1.5 text-sm hover:bg-emerald-700 disabled:opacity-60"
+                    title="Approve and move to Processed"
+                  >
+                    {busy === "accept" ? "Processing…" : "Accept"}
+                  </button>
+                  <button
+                    disabled={busy === "decline"}
+                    onClick={() => moveToProcessed("declined")}
+                    className="inline-flex items-center rounded-lg bg-rose-600 text-white px-3 py-1.5 text-sm hover:bg-rose-700 disabled:opacity-60"
+                    title="Decline and move to Processed"
+                  >
+                    {busy === "decline" ? "Processing…" : "Decline"}
+                  </button>
+                </>
+              )}
+              {can("clients:notify") && (
+                <button
+                  onClick={() => setNotifyOpen(true)}
+                  className="inline-flex items-center rounded-lg bg-blue-600 text-white px-3 py-1.5 text-sm hover:bg-blue-700"
+                  title="Notify client via Email"
+                >
+                  Notify
+                </button>
+              )}
             </div>
             <button onClick={onClose} className="inline-flex items-center rounded-lg bg-green-600 text-white border px-3 py-1.5 text-sm hover:bg-green-700">
               Done
@@ -2403,107 +2522,6 @@ function LoanPreviewModal({
   );
 }
 
-/* =========================================================
-   NotifyEmailModal (EmailJS)
-   ========================================================= */
-function NotifyEmailModal({
-  onClose, defaultToEmail, defaultToName, defaultSubject, defaultMessage,
-}: { onClose: () => void; defaultToEmail: string; defaultToName: string; defaultSubject: string; defaultMessage: string; }) {
-  const [toEmail, setToEmail] = useState(defaultToEmail);
-  const [toName, setToName] = useState(defaultToName);
-  const [subject, setSubject] = useState(defaultSubject);
-  const [message, setMessage] = useState(defaultMessage);
-  const [sending, setSending] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [ok, setOk] = useState(false);
-
-  async function sendEmail(e: React.FormEvent) {
-    e.preventDefault();
-    setError(null); setOk(false);
-    if (!EMAILJS_SERVICE_ID || !EMAILJS_TEMPLATE_ID || !EMAILJS_PUBLIC_KEY) {
-      setError("EmailJS keys are not configured."); return;
-    }
-    if (!toEmail) { setError("Recipient email is required."); return; }
-    if (!subject) { setError("Subject is required."); return; }
-    if (!message) { setError("Message is required."); return; }
-
-    setSending(true);
-    try {
-      await emailjs.send(
-        EMAILJS_SERVICE_ID,
-        EMAILJS_TEMPLATE_ID,
-        { to_email: toEmail, to_name: toName || "Customer", subject, message },
-        { publicKey: EMAILJS_PUBLIC_KEY }
-      );
-      setOk(true);
-    } catch (e: unknown) {
-      setError(getErrorMessage(e));
-    } finally { setSending(false); }
-  }
-
-  return (
-    <div className="fixed inset-0 z-50">
-      <div className="absolute inset-0 bg-black/40" onClick={onClose} />
-      <div className="absolute inset-x-0 top-16 mx-auto w-[94%] max-w-md">
-        <form onSubmit={sendEmail} className="rounded-2xl border bg-white shadow-xl overflow-hidden">
-          <div className="p-4 border-b flex items-center justify-between">
-            <h4 className="font-semibold text-slate-900 ">Notify Client</h4>
-            <button type="button" onClick={onClose} className="rounded-lg bg-red-600 text-white border px-2 py-1 text-sm hover:bg-red-700">Close</button>
-          </div>
-          <div className="p-4 grid gap-3">
-            {ok && <div className="rounded-md bg-emerald-50 border border-emerald-200 text-emerald-800 text-sm px-3 py-2">Email sent successfully.</div>}
-            {error && <div className="rounded-md bg-rose-50 border border-rose-200 text-rose-800 text-sm px-3 py-2">{error}</div>}
-
-            <label className="grid gap-1 text-sm">
-              <span className="text-slate-700">To (email)</span>
-              <input
-                value={toEmail}
-                onChange={(e) => setToEmail(e.target.value)}
-                type="email"
-                className="rounded-lg border px-3 py-2 placeholder:text-black placeholder:opacity-100"
-                placeholder="client@example.com"
-                required
-              />
-            </label>
-
-            <label className="grid gap-1 text-sm">
-              <span className="text-slate-700">Recipient name</span>
-              <input value={toName} onChange={(e) => setToName(e.target.value)} type="text" className="rounded-lg border px-3 py-2 placeholder:text-black placeholder:opacity-100" placeholder="Client name" />
-            </label>
-
-            <label className="grid gap-1 text-sm">
-              <span className="text-slate-700">Subject</span>
-              <input value={subject} onChange={(e) => setSubject(e.target.value)} type="text" className="rounded-lg border px-3 py-2 placeholder:text-black placeholder:opacity-100" placeholder="e.g. Update on your ESSA loan" required />
-            </label>
-
-            <label className="grid gap-1 text-sm">
-              <span className="text-slate-700">Message</span>
-              <textarea value={message} onChange={(e) => setMessage(e.target.value)} rows={6} className="rounded-lg border px-3 py-2 placeholder:text-black placeholder:opacity-100" placeholder="Type your message…" required />
-            </label>
-          </div>
-          <div className="p-4 border-t flex items-center justify-end gap-2">
-            <Button onClick={onClose} variant="danger">Cancel</Button>
-            <button type="submit" disabled={sending} className="rounded-lg bg-blue-600 text-white px-3 py-1.5 text-sm hover:bg-blue-700 disabled:opacity-60">
-              {sending ? "Sending…" : "Send Email"}
-            </button>
-          </div>
-        </form>
-      </div>
-    </div>
-  );
-}
-
-function Button({ onClick, children, variant = "default" }: { onClick?: () => void; children: React.ReactNode; variant?: "default" | "danger" }) {
-  const cls = variant === "danger"
-    ? "rounded-lg bg-red-600 text-white border px-3 py-1.5 text-sm hover:bg-red-700"
-    : "rounded-lg border px-3 py-1.5 text-sm hover:bg-slate-50";
-  return (
-    <button onClick={onClick} className={cls}>
-      {children}
-    </button>
-  );
-}
-
 /* =========================================================
    KYC Preview Modal (includes ID/selfie images)
    ========================================================= */
@@ -2542,9 +2560,9 @@ function KycPreviewModal({ kycId, onClose }: { kycId: string | null; onClose: ()
 
   if (!kycId) return null;
 
-  const idFront = toDataUrlMaybe(asString(data?.idFrontImageBase64));
-  const idBack = toDataUrlMaybe(asString(data?.idBackImageBase64));
-  const selfie = toDataUrlMaybe(asString(data?.selfieImageBase64));
+  const idFront = kycImageSrc(data, "idFront", true);
+  const idBack = kycImageSrc(data, "idBack", true);
+  const selfie = kycImageSrc(data, "selfie", true);
 
   return (
     <div className="fixed inset-0 z-40">
@@ -2578,13 +2596,13 @@ function KycPreviewModal({ kycId, onClose }: { kycId: string | null; onClose: ()
                     <div className="text-slate-500 mb-1">Identity Images</div>
                     <div className="grid grid-cols-3 gap-2">
                       <div className="relative rounded-md border bg-slate-50 overflow-hidden min-h-[80px] grid place-items-center">
-                        {idFront ? <Image src={idFront} alt="ID Front" fill className="object-cover" /> : <span className="text-xs text-slate-500 p-2">ID Front not available</span>}
+                        {idFront ? <Image src={idFront} alt="ID Front" fill unoptimized className="object-cover" /> : <span className="text-xs text-slate-500 p-2">ID Front not available</span>}
                       </div>
                       <div className="relative rounded-md border bg-slate-50 overflow-hidden min-h-[80px] grid place-items-center">
-                        {idBack ? <Image src={idBack} alt="ID Back" fill className="object-cover" /> : <span className="text-xs text-slate-500 p-2">ID Back not available</span>}
+                        {idBack ? <Image src={idBack} alt="ID Back" fill unoptimized className="object-cover" /> : <span className="text-xs text-slate-500 p-2">ID Back not available</span>}
                       </div>
                       <div className="relative rounded-md border bg-slate-50 overflow-hidden min-h-[80px] grid place-items-center">
-                        {selfie ? <Image src={selfie} alt="Selfie" fill className="object-cover" /> : <span className="text-xs text-slate-500 p-2">Selfie not available</span>}
+                        {selfie ? <Image src={selfie} alt="Selfie" fill unoptimized className="object-cover" /> : <span className="text-xs text-slate-500 p-2">Selfie not available</span>}
                       </div>
                     </div>
                   </div>
@@ -2603,6 +2621,138 @@ function KycPreviewModal({ kycId, onClose }: { kycId: string | null; onClose: ()
   );
 }
 
+/* =========================================================
+   Borrower search (header) — KYC, loans and processed records
+   ========================================================= */
+function BorrowerSearch({
+  onOpenKyc,
+  onOpenLoan,
+  onOpenProcessed,
+}: {
+  onOpenKyc: (kycId: string) => void;
+  onOpenLoan: (loanId: string) => void;
+  onOpenProcessed: (id: string) => void;
+}) {
+  const [text, setText] = useState("");
+  const [q, setQ] = useState("");
+  const [open, setOpen] = useState(false);
+  const boxRef = useRef<HTMLDivElement>(null);
+
+  // wait for a pause in typing before searching
+  useEffect(() => {
+    const t = window.setTimeout(() => setQ(text.trim()), 300);
+    return () => window.clearTimeout(t);
+  }, [text]);
+
+  useEffect(() => {
+    if (!open) return;
+    const onDown = (e: MouseEvent) => {
+      if (!boxRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setOpen(false);
+    };
+    window.addEventListener("mousedown", onDown);
+    window.addEventListener("keydown", onKey);
+    return () => {
+      window.removeEventListener("mousedown", onDown);
+      window.removeEventListener("keydown", onKey);
+    };
+  }, [open]);
+
+  const { data, error, isLoading } = useSWR<SearchResults>(
+    q.length >= MIN_SEARCH_LENGTH ? searchUrl(q) : null,
+    apiGet,
+    { keepPreviousData: true }
+  );
+
+  const groups: {
+    title: string;
+    hits: SearchHit[];
+    open: (h: SearchHit) => void;
+    canOpen: (h: SearchHit) => boolean;
+  }[] = data
+    ? [
+        { title: "KYC", hits: data.kyc, open: (h) => onOpenKyc(h.id), canOpen: () => true },
+        { title: "Loans", hits: data.loans, open: (h) => onOpenLoan(h.id), canOpen: () => true },
+        {
+          title: "Processed",
+          hits: data.processed,
+          open: (h) => onOpenProcessed(h.id),
+          canOpen: () => true,
+        },
+      ]
+    : [];
+  const empty = !!data && groups.every((g) => g.hits.length === 0);
+
+  return (
+    <div ref={boxRef} className="relative hidden md:block">
+      <input
+        type="search"
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        placeholder="Search name, phone, ID, loan ID, email"
+        className="w-72 rounded-lg border px-3 py-1.5 text-sm"
+      />
+      {open && q.length >= MIN_SEARCH_LENGTH && (
+        <div className="absolute right-0 mt-1 w-[28rem] max-h-[70vh] overflow-auto rounded-xl border bg-white shadow-lg z-30">
+          {isLoading && !data && <div className="p-3 text-sm text-slate-500">Searching…</div>}
+          {error && <div className="p-3 text-sm text-rose-600">{getErrorMessage(error)}</div>}
+          {empty && <div className="p-3 text-sm text-slate-500">No matches for “{data!.q}”.</div>}
+          {groups
+            .filter((g) => g.hits.length > 0)
+            .map((g) => (
+              <div key={g.title} className="border-b last:border-b-0">
+                <div className="px-3 pt-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+                  {g.title}
+                </div>
+                <ul className="py-1">
+                  {g.hits.map((h) => (
+                    <li key={h.id}>
+                      <button
+                        onClick={() => {
+                          g.open(h);
+                          setOpen(false);
+                        }}
+                        disabled={!g.canOpen(h)}
+                        className="w-full text-left px-3 py-1.5 hover:bg-slate-50 disabled:opacity-60 disabled:hover:bg-white"
+                      >
+                        <div className="flex items-center justify-between gap-2 text-sm">
+                          <span className="font-medium text-slate-900">{h.name}</span>
+                          {h.status && (
+                            <span className="inline-flex items-center rounded-full px-2 py-0.5 text-xs border bg-slate-50 text-slate-700 capitalize">
+                              {h.status.replace("_", " ")}
+                            </span>
+                          )}
+                        </div>
+                        <div className="text-xs text-slate-500">
+                          {[
+                            h.mobile,
+                            h.idNumber && `ID ${h.idNumber}`,
+                            h.amount != null && `MWK ${money(h.amount)}`,
+                            g.title !== "KYC" && h.id,
+                          ]
+                            .filter(Boolean)
+                            .join(" · ") || "—"}
+                          {" · "}
+                          {h.matched.map((m) => SEARCH_MATCH_LABELS[m]).join(", ")}
+                        </div>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 /* =========================================================
    UI bits
    ========================================================= */
@@ -2803,5 +2953,6 @@ function IconRefresh(props: React.SVGProps<SVGSVGElement>) { return (<svg viewBo
 function IconClipboard(props: React.SVGProps<SVGSVGElement>) { return (<svg viewBox="0 0 24 24" fill="none" {...props}><rect x="6" y="4" width="12" height="16" rx="2" stroke="currentColor" strokeWidth="2"/><path d="M9 4h6v2H9z" fill="currentColor"/></svg>); }
 function IconCash(props: React.SVGProps<SVGSVGElement>) { return (<svg viewBox="0 0 24 24" fill="none" {...props}><rect x="3" y="6" width="18" height="12" rx="2" stroke="currentColor" strokeWidth="2"/><circle cx="12" cy="12" r="2.5" stroke="currentColor" strokeWidth="2"/></svg>); }
 function IconShield(props: React.SVGProps<SVGSVGElement>) { return (<svg viewBox="0 0 24 24" fill="none" {...props}><path d="M12 3l7 3v5c0 5-3.5 8-7 10-3.5-2-7-5-7-10V6l7-3z" stroke="currentColor" strokeWidth="2"/></svg>); }
+function IconClock(props: React.SVGProps<SVGSVGElement>) { return (<svg viewBox="0 0 24 24" fill="none" {...props}><circle cx="12" cy="12" r="9" stroke="currentColor" strokeWidth="2"/><path d="M12 7v5l3 2" stroke="currentColor" strokeWidth="2" strokeLinecap="round"/></svg>); }
 function IconCheck(props: React.SVGProps<SVGSVGElement>) { return (<svg viewBox="0 0 24 24" fill="none" {...props}><path d="M20 6L9 17l-5-5" stroke="currentColor" strokeWidth="2" strokeLinecap="round"/></svg>); }
 function IconArrowRight(props: React.SVGProps<SVGSVGElement>) { return (<svg viewBox="0 0 24 24" fill="none" {...props}><path d="M5 12h14M13 5l7 7-7 7" stroke="currentColor" strokeWidth="2" strokeLinecap="round"/></svg>); }
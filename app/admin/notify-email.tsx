@@ -0,0 +1,122 @@
+// app/admin/notify-email.tsx
+"use client";
+
+import { useState } from "react";
+import type React from "react";
+import emailjs from "@emailjs/browser";
+
+/* EmailJS config (env or replace placeholders) */
+const EMAILJS_SERVICE_ID =
+  process.env.NEXT_PUBLIC_EMAILJS_SERVICE_ID || "YOUR_SERVICE_ID";
+const EMAILJS_TEMPLATE_ID =
+  process.env.NEXT_PUBLIC_EMAILJS_TEMPLATE_ID || "YOUR_TEMPLATE_ID";
+const EMAILJS_PUBLIC_KEY =
+  process.env.NEXT_PUBLIC_EMAILJS_PUBLIC_KEY || "YOUR_PUBLIC_KEY";
+
+function getErrorMessage(e: unknown): string {
+  if (e instanceof Error) return e.message;
+  if (e && typeof e === "object" && "text" in e) {
+    const text = (e as { text?: unknown }).text; // EmailJSResponseStatus
+    if (typeof text === "string") return text;
+  }
+  return typeof e === "string" ? e : "Could not send the email.";
+}
+
+/** Emails a client through EmailJS (LoanPreviewModal, settlement quotes). */
+export function NotifyEmailModal({
+  onClose, defaultToEmail, defaultToName, defaultSubject, defaultMessage,
+}: { onClose: () => void; defaultToEmail: string; defaultToName: string; defaultSubject: string; defaultMessage: string; }) {
+  const [toEmail, setToEmail] = useState(defaultToEmail);
+  const [toName, setToName] = useState(defaultToName);
+  const [subject, setSubject] = useState(defaultSubject);
+  const [message, setMessage] = useState(defaultMessage);
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [ok, setOk] = useState(false);
+
+  async function sendEmail(e: React.FormEvent) {
+    e.preventDefault();
+    setError(null); setOk(false);
+    if (!EMAILJS_SERVICE_ID || !EMAILJS_TEMPLATE_ID || !EMAILJS_PUBLIC_KEY) {
+      setError("EmailJS keys are not configured."); return;
+    }
+    if (!toEmail) { setError("Recipient email is required."); return; }
+    if (!subject) { setError("Subject is required."); return; }
+    if (!message) { setError("Message is required."); return; }
+
+    setSending(true);
+    try {
+      await emailjs.send(
+        EMAILJS_SERVICE_ID,
+        EMAILJS_TEMPLATE_ID,
+        { to_email: toEmail, to_name: toName || "Customer", subject, message },
+        { publicKey: EMAILJS_PUBLIC_KEY }
+      );
+      setOk(true);
+    } catch (e: unknown) {
+      setError(getErrorMessage(e));
+    } finally { setSending(false); }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50">
+      <div className="absolute inset-0 bg-black/40" onClick={onClose} />
+      <div className="absolute inset-x-0 top-16 mx-auto w-[94%] max-w-md">
+        <form onSubmit={sendEmail} className="rounded-2xl border bg-white shadow-xl overflow-hidden">
+          <div className="p-4 border-b flex items-center justify-between">
+            <h4 className="font-semibold text-slate-900 ">Notify Client</h4>
+            <button type="button" onClick={onClose} className="rounded-lg bg-red-600 text-white border px-2 py-1 text-sm hover:bg-red-700">Close</button>
+          </div>
+          <div className="p-4 grid gap-3">
+            {ok && <div className="rounded-md bg-emerald-50 border border-emerald-200 text-emerald-800 text-sm px-3 py-2">Email sent successfully.</div>}
+            {error && <div className="rounded-md bg-rose-50 border border-rose-200 text-rose-800 text-sm px-3 py-2">{error}</div>}
+
+            <label className="grid gap-1 text-sm">
+              <span className="text-slate-700">To (email)</span>
+              <input
+                value={toEmail}
+                onChange={(e) => setToEmail(e.target.value)}
+                type="email"
+                className="rounded-lg border px-3 py-2 placeholder:text-black placeholder:opacity-100"
+                placeholder="client@example.com"
+                required
+              />
+            </label>
+
+            <label className="grid gap-1 text-sm">
+              <span className="text-slate-700">Recipient name</span>
+              <input value={toName} onChange={(e) => setToName(e.target.value)} type="text" className="rounded-lg border px-3 py-2 placeholder:text-black placeholder:opacity-100" placeholder="Client name" />
+            </label>
+
+            <label className="grid gap-1 text-sm">
+              <span className="text-slate-700">Subject</span>
+              <input value={subject} onChange={(e) => setSubject(e.target.value)} type="text" className="rounded-lg border px-3 py-2 placeholder:text-black placeholder:opacity-100" placeholder="e.g. Update on your ESSA loan" required />
+            </label>
+
+            <label className="grid gap-1 text-sm">
+              <span className="text-slate-700">Message</span>
+              <textarea value={message} onChange={(e) => setMessage(e.target.value)} rows={6} className="rounded-lg border px-3 py-2 placeholder:text-black placeholder:opacity-100" placeholder="Type your message…" required />
+            </label>
+          </div>
+          <div className="p-4 border-t flex items-center justify-end gap-2">
+            <Button onClick={onClose} variant="danger">Cancel</Button>
+            <button type="submit" disabled={sending} className="rounded-lg bg-blue-600 text-white px-3 py-1.5 text-sm hover:bg-blue-700 disabled:opacity-60">
+              {sending ? "Sending…" : "Send Email"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+function Button({ onClick, children, variant = "default" }: { onClick?: () => void; children: React.ReactNode; variant?: "default" | "danger" }) {
+  const cls = variant === "danger"
+    ? "rounded-lg bg-red-600 text-white border px-3 py-1.5 text-sm hover:bg-red-700"
+    : "rounded-lg border px-3 py-1.5 text-sm hover:bg-slate-50";
+  return (
+    <button onClick={onClick} className={cls}>
+      {children}
+    </button>
+  );
+}
@@ -1,66 +1,87 @@
 // app/admin/outstanding/page.tsx
 "use client";
 
-import { useCallback, useEffect, useMemo, useState } from "react";
+import { Fragment, useCallback, useEffect, useMemo, useState } from "react";
 import Link from "next/link";
-import {
-  addDoc,
-  collection,
-  doc as fsDoc,
-  getDocs,
-  onSnapshot,
-  orderBy,
-  query,
-  limit as fsLimit,
-  serverTimestamp,
-  Timestamp,
-  updateDoc,
-} from "firebase/firestore";
+import useSWR from "swr";
+import useSWRInfinite from "swr/infinite";
+import { collection, getDocs, orderBy, query, Timestamp } from "firebase/firestore";
 import { db } from "../../lib/firebase";
-
-/* Config */
-const LATE_FEE_DAILY = Number(process.env.NEXT_PUBLIC_LATE_FEE_DAILY || 0.001); // 0.1%/day
+import { useStaff } from "../../lib/use-staff";
+import { apiGet, apiSend } from "../../lib/api-client";
+import { ScheduleTable } from "../schedule-table";
+import { NotifyEmailModal } from "../notify-email";
+import { CollateralPanel } from "../collateral-panel";
+import { PAR_BUCKETS } from "../../lib/arrears";
+import { LOAN_PRODUCTS } from "../../lib/loan-products";
+import {
+  loanDetailUrl,
+  loanFilterConflict,
+  loanListQuery,
+  OVERDUE_FILTERS,
+  pinnedSort,
+  type LoanDetail,
+  type LoanListPage,
+  type LoanRow,
+  type LoanSort,
+  type LoanStatusGroup,
+} from "../../lib/loan-list";
+import {
+  MAX_QUOTE_DAYS_AHEAD,
+  settlementLines,
+  settlementQuotePage,
+  settlementQuoteUrl,
+  type SettlementQuote,
+} from "../../lib/settlement";
+import {
+  allocationLines,
+  parseAllocation,
+  type Allocation,
+  type OverpaymentMode,
+} from "../../lib/allocation";
+import {
+  normalizeReference,
+  PAYMENT_METHOD_LABELS,
+  PAYMENT_METHODS,
+  paymentMethodOf,
+  referenceError,
+  type PaymentMethod,
+} from "../../lib/payment-methods";
+import { repossessionPage } from "../../lib/repossession";
+import {
+  ENTRY_LABELS,
+  parseEntry,
+  receivableBalance,
+  receivableDelta,
+  withRunningBalance,
+  type LedgerEntry,
+} from "../../lib/ledger";
 
 /* Types */
 type FireTimestamp = { seconds: number; nanoseconds?: number };
 type TsLike = Timestamp | FireTimestamp | number | string | Date | null;
 
-type Loan = {
-  id: string;
-  firstName?: string;
-  surname?: string;
-  mobile?: string;
-  email?: string;
-  areaName?: string;
-  loanAmount?: number;
-  currentBalance?: number;
-  loanPeriod?: number;
-  paymentFrequency?: "weekly" | "monthly";
-  status?: string;
-  timestamp?: TsLike;
-  endDate?: TsLike;
-  loanType?: string;
-  kycId?: string;
-};
-
 type Payment = {
   id: string;
   amount?: number; // optional if note-only
   paymentDate?: TsLike;
   createdAt?: TsLike;
   note?: string;
+  reversedAt?: TsLike;
+  reversalReason?: string;
+  allocation?: Allocation | null;
+  receiptNo?: string;
+  method?: string;
+  reference?: string | null;
 };
 
-type ExtendedLoan = Loan & {
-  startMs: number | null;
-  endMs: number | null;
-  end: Date | null;
-  overdueDays: number;
-  latePct: number;
-  lateAmt: number;
-};
+type LateFeeRun = { scanned: number; charged: number; totalCharged: number; failed: string[] };
 
-type AnyRec = Record<string, unknown>;
+type Reconciliation = {
+  checked: number;
+  mismatches: { loanId: string; stored: number; derived: number; difference: number }[];
+  unopened: string[];
+};
 
 /* Helpers */
 function isObject(v: unknown): v is Record<string, unknown> {
@@ -103,18 +124,6 @@ function toMillis(v: unknown): number | null {
   } catch {}
   return null;
 }
-function computeEndDate(
-  ts: unknown,
-  period?: number,
-  freq?: "weekly" | "monthly"
-): Date | null {
-  const startMs = toMillis(ts);
-  if (!startMs || !period || period <= 0) return null;
-  const end = new Date(startMs);
-  if (freq === "weekly") end.setDate(end.getDate() + period * 7);
-  else end.setMonth(end.getMonth() + period);
-  return end;
-}
 function money(n?: number) {
   const v = typeof n === "number" && isFinite(n) ? Math.round(n) : 0;
   try {
@@ -137,101 +146,134 @@ function fmtDateTime(d?: unknown) {
 }
 
 /* Page */
+type Filters = {
+  loanType: string;
+  frequency: string;
+  area: string;
+  from: string;
+  to: string;
+  minBalance: string;
+  maxBalance: string;
+  overdue: string;
+  q: string;
+};
+
+const EMPTY_FILTERS: Filters = {
+  loanType: "",
+  frequency: "",
+  area: "",
+  from: "",
+  to: "",
+  minBalance: "",
+  maxBalance: "",
+  overdue: "",
+  q: "",
+};
+
+const TABS: { key: LoanStatusGroup; label: string; empty: string }[] = [
+  { key: "outstanding", label: "Outstanding", empty: "No outstanding loans." },
+  { key: "finished", label: "Finished", empty: "No finished loans." },
+  { key: "written_off", label: "Written off", empty: "No written-off loans." },
+];
+
+const PAGE_SIZE = 25;
+
 export default function OutstandingManagementPage() {
-  const [loans, setLoans] = useState<Loan[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [tab, setTab] = useState<"outstanding" | "finished">("outstanding");
+  const [tab, setTab] = useState<LoanStatusGroup>("outstanding");
+  const [draft, setDraft] = useState<Filters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [sort, setSort] = useState<{ by: LoanSort; dir: "asc" | "desc" }>({
+    by: "balance",
+    dir: "desc",
+  });
+  const [filterError, setFilterError] = useState<string | null>(null);
+  const [openId, setOpenId] = useState<string | null>(null);
+  const { can } = useStaff();
+  const [lateFeeMsg, setLateFeeMsg] = useState<string | null>(null);
+  const [runningLateFees, setRunningLateFees] = useState(false);
+  const [reconciling, setReconciling] = useState(false);
 
-  // live loans
-  useEffect(() => {
-    setLoading(true);
-    const qy = query(
-      collection(db, "loan_applications"),
-      orderBy("timestamp", "desc"),
-      fsLimit(500)
-    );
-    const unsub = onSnapshot(
-      qy,
-      (snap) => {
-        const rows: Loan[] = snap.docs.map((d) => {
-          const v = d.data() as AnyRec;
-          return {
-            id: d.id,
-            firstName: (v.firstName as string) || "",
-            surname:
-              (v.surname as string) || (v.lastName as string) || "",
-            mobile: (v.mobile as string) || (v.mobileTel as string) || "",
-            email: (v.email as string) || "",
-            areaName: (v.areaName as string) || "",
-            loanAmount: Number(v.loanAmount ?? 0),
-            currentBalance: Number(v.currentBalance ?? v.loanAmount ?? 0),
-            loanPeriod: Number(v.loanPeriod ?? v.period ?? 0),
-            paymentFrequency: String(
-              v.paymentFrequency ?? v.frequency ?? "monthly"
-            ).toLowerCase() as "weekly" | "monthly",
-            status: String(v.status ?? "pending").toLowerCase(),
-            timestamp: v.timestamp as TsLike | undefined,
-            endDate: v.endDate as TsLike | undefined,
-            loanType: String(v.loanType ?? "unknown").toLowerCase(),
-            kycId: (v.kycId as string) || (v.userId as string) || "",
-          };
-        });
-        setLoans(rows);
-        setLoading(false);
-      },
-      () => setLoading(false)
-    );
-    return () => unsub();
-  }, []);
-
-  const now = Date.now();
-
-  const derived: ExtendedLoan[] = useMemo(() => {
-    return loans.map((l) => {
-      const startMs = toMillis(l.timestamp);
-      const freq = (l.paymentFrequency || "monthly") as "weekly" | "monthly";
-      const end = l.endDate
-        ? new Date(toMillis(l.endDate) || 0)
-        : computeEndDate(l.timestamp, l.loanPeriod, freq);
-      const endMs = end ? end.getTime() : null;
-      const overdueDays =
-        endMs && endMs < now
-          ? Math.ceil((now - endMs) / (24 * 60 * 60 * 1000))
-          : 0;
-      const latePct = overdueDays > 0 ? overdueDays * LATE_FEE_DAILY * 100 : 0;
-      const lateAmt =
-        overdueDays > 0
-          ? (l.currentBalance || 0) * LATE_FEE_DAILY * overdueDays
-          : 0;
-      return {
-        ...l,
-        startMs,
-        endMs,
-        end,
-        overdueDays,
-        latePct,
-        lateAmt,
-      };
-    });
-  }, [loans, now]);
-
-  const outstanding = useMemo(
-    () =>
-      derived.filter(
-        (r) =>
-          (r.status === "approved" ||
-            r.status === "active" ||
-            r.status === "overdue") &&
-          (r.currentBalance ?? 0) > 0
-      ),
-    [derived]
+  const getKey = (page: number, prev: LoanListPage | null) => {
+    if (prev && !prev.nextCursor) return null;
+    return `/api/admin/loans?${loanListQuery({
+      ...filters,
+      status: tab,
+      sort: sort.by,
+      dir: sort.dir,
+      limit: PAGE_SIZE,
+      cursor: prev?.nextCursor,
+    })}`;
+  };
+
+  const { data, error, isLoading, size, setSize, mutate } = useSWRInfinite<LoanListPage>(
+    getKey,
+    apiGet
   );
-  const finished = useMemo(
-    () =>
-      derived.filter(
-        (r) => (r.currentBalance ?? 0) <= 0 || r.status === "closed"
-      ),
-    [derived]
+
+  const rows = (data || []).flatMap((p) => p.items);
+  const totals = data?.[0]?.totals;
+  const hasMore = !!data?.[data.length - 1]?.nextCursor;
+  const currentTab = TABS.find((t) => t.key === tab)!;
+  // a range filter sorts by its own field
+  const pinned = pinnedSort(filters);
+
+  function sortBy(by: LoanSort) {
+    if (pinned && by !== pinned) return;
+    setSort((s) =>
+      s.by === by
+        ? { by, dir: s.dir === "asc" ? "desc" : "asc" }
+        : { by, dir: by === "due" ? "asc" : "desc" }
+    );
+  }
+
+  async function runLateFees() {
+    setRunningLateFees(true);
+    setLateFeeMsg(null);
+    try {
+      const run = await apiSend<LateFeeRun>("/api/jobs/late-fees", "POST");
+      setLateFeeMsg(
+        `Checked ${run.scanned} loans · charged ${run.charged} · MWK ${money(run.totalCharged)}` +
+          (run.failed.length ? ` · ${run.failed.length} failed` : "")
+      );
+      mutate();
+    } catch (e: unknown) {
+      setLateFeeMsg(`Late-fee run failed: ${getErrorMessage(e)}`);
+    } finally {
+      setRunningLateFees(false);
+    }
+  }
+
+  async function checkLedgers() {
+    setReconciling(true);
+    setLateFeeMsg(null);
+    try {
+      const r = await apiGet<Reconciliation>("/api/admin/ledger/reconcile");
+      setLateFeeMsg(
+        `Ledger check: ${r.checked} loans · ${r.mismatches.length} mismatched` +
+          (r.mismatches.length
+            ? ` (${r.mismatches
+                .map((m) => `${m.loanId}: MWK ${money(m.stored)} stored vs ${money(m.derived)}`)
+                .join("; ")})`
+            : "") +
+          (r.unopened.length ? ` · ${r.unopened.length} not on the ledger yet` : "")
+      );
+    } catch (e: unknown) {
+      setLateFeeMsg(`Ledger check failed: ${getErrorMessage(e)}`);
+    } finally {
+      setReconciling(false);
+    }
+  }
+
+  const sortHeader = (by: LoanSort, label: string) => (
+    <button
+      onClick={() => sortBy(by)}
+      disabled={!!pinned && by !== pinned}
+      title={pinned && by !== pinned ? "Sorted by the field the range filter is on" : undefined}
+      className="font-medium hover:text-slate-900 disabled:text-slate-400"
+    >
+      {label}
+      {sort.by === by ? (sort.dir === "asc" ? " ↑" : " ↓") : ""}
+    </button>
   );
 
   return (
@@ -241,77 +283,360 @@ export default function OutstandingManagementPage() {
           <h1 className="text-base sm:text-lg font-semibold text-slate-900">
             Outstanding Loans — Management
           </h1>
-          <Link
-            href="/admin/dashboard"
-            className="rounded-lg border px-3 py-1.5 text-sm hover:bg-slate-50"
-          >
-            Back to Dashboard
-          </Link>
+          <div className="flex items-center gap-2">
+            {can("payments:record") && (
+              <Link
+                href="/admin/payments/import"
+                className="rounded-lg border px-3 py-1.5 text-sm hover:bg-slate-50"
+              >
+                Import payments
+              </Link>
+            )}
+            {can("audit:view") && (
+              <button
+                onClick={checkLedgers}
+                disabled={reconciling}
+                className="rounded-lg border px-3 py-1.5 text-sm hover:bg-slate-50 disabled:opacity-60"
+                title="Compare every loan's balance with its ledger"
+              >
+                {reconciling ? "Checking…" : "Check ledger"}
+              </button>
+            )}
+            {can("fees:run") && (
+              <button
+                onClick={runLateFees}
+                disabled={runningLateFees}
+                className="rounded-lg border px-3 py-1.5 text-sm hover:bg-slate-50 disabled:opacity-60"
+                title="Post late fees that are due now (also runs daily)"
+              >
+                {runningLateFees ? "Running…" : "Run late fees"}
+              </button>
+            )}
+            <Link
+              href="/admin/dashboard"
+              className="rounded-lg border px-3 py-1.5 text-sm hover:bg-slate-50"
+            >
+              Back to Dashboard
+            </Link>
+          </div>
         </div>
       </header>
 
-      <main className="max-w-6xl mx-auto px-4 sm:px-6 py-6">
-        <div className="flex items-center gap-2 mb-4">
+      <main className="max-w-6xl mx-auto px-4 sm:px-6 py-6 grid gap-4">
+        {lateFeeMsg && (
+          <div className="rounded-lg border bg-white px-3 py-2 text-sm text-slate-700">
+            {lateFeeMsg}
+          </div>
+        )}
+        <div className="flex items-center gap-2">
+          {TABS.map((t) => (
+            <button
+              key={t.key}
+              onClick={() => {
+                setTab(t.key);
+                setOpenId(null);
+              }}
+              className={`rounded-lg px-3 py-1.5 text-sm border ${
+                tab === t.key ? "bg-slate-900 text-white" : "bg-white hover:bg-slate-50"
+              }`}
+            >
+              {t.label}
+            </button>
+          ))}
+        </div>
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            const conflict = loanFilterConflict(draft);
+            setFilterError(conflict);
+            if (conflict) return;
+            const pin = pinnedSort(draft);
+            if (pin && sort.by !== pin) setSort({ by: pin, dir: "desc" });
+            setFilters(draft);
+            setOpenId(null);
+          }}
+          className="rounded-2xl border bg-white p-4 flex flex-wrap items-end gap-2"
+        >
+          <label className="grid gap-1 text-sm">
+            <span className="text-slate-700">Name, phone or loan ID</span>
+            <input
+              value={draft.q}
+              onChange={(e) => setDraft({ ...draft, q: e.target.value })}
+              className="rounded-lg border px-3 py-1.5 w-48"
+            />
+          </label>
+          <label className="grid gap-1 text-sm">
+            <span className="text-slate-700">Loan type</span>
+            <select
+              value={draft.loanType}
+              onChange={(e) => setDraft({ ...draft, loanType: e.target.value })}
+              className="rounded-lg border px-3 py-1.5"
+            >
+              <option value="">All</option>
+              {Object.entries(LOAN_PRODUCTS).map(([key, p]) => (
+                <option key={key} value={key}>
+                  {p.label}
+                </option>
+              ))}
+              <option value="unknown">Unknown</option>
+            </select>
+          </label>
+          <label className="grid gap-1 text-sm">
+            <span className="text-slate-700">Frequency</span>
+            <select
+              value={draft.frequency}
+              onChange={(e) => setDraft({ ...draft, frequency: e.target.value })}
+              className="rounded-lg border px-3 py-1.5"
+            >
+              <option value="">All</option>
+              <option value="weekly">Weekly</option>
+              <option value="monthly">Monthly</option>
+            </select>
+          </label>
+          <label className="grid gap-1 text-sm">
+            <span className="text-slate-700">Area</span>
+            <input
+              value={draft.area}
+              onChange={(e) => setDraft({ ...draft, area: e.target.value })}
+              className="rounded-lg border px-3 py-1.5 w-32"
+            />
+          </label>
+          <label className="grid gap-1 text-sm">
+            <span className="text-slate-700">Overdue</span>
+            <select
+              value={draft.overdue}
+              onChange={(e) => setDraft({ ...draft, overdue: e.target.value })}
+              className="rounded-lg border px-3 py-1.5"
+            >
+              <option value="">Any</option>
+              {OVERDUE_FILTERS.map((o) => (
+                <option key={o} value={o}>
+                  {o === "current" ? "Current" : `${o} days`}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="grid gap-1 text-sm">
+            <span className="text-slate-700">Created from</span>
+            <input
+              type="date"
+              value={draft.from}
+              onChange={(e) => setDraft({ ...draft, from: e.target.value })}
+              className="rounded-lg border px-3 py-1.5"
+            />
+          </label>
+          <label className="grid gap-1 text-sm">
+            <span className="text-slate-700">to</span>
+            <input
+              type="date"
+              value={draft.to}
+              onChange={(e) => setDraft({ ...draft, to: e.target.value })}
+              className="rounded-lg border px-3 py-1.5"
+            />
+          </label>
+          <label className="grid gap-1 text-sm">
+            <span className="text-slate-700">Balance (MWK)</span>
+            <span className="flex items-center gap-1">
+              <input
+                type="number"
+                min={0}
+                placeholder="min"
+                value={draft.minBalance}
+                onChange={(e) => setDraft({ ...draft, minBalance: e.target.value })}
+                className="rounded-lg border px-3 py-1.5 w-24"
+              />
+              –
+              <input
+                type="number"
+                min={0}
+                placeholder="max"
+                value={draft.maxBalance}
+                onChange={(e) => setDraft({ ...draft, maxBalance: e.target.value })}
+                className="rounded-lg border px-3 py-1.5 w-24"
+              />
+            </span>
+          </label>
           <button
-            onClick={() => setTab("outstanding")}
-            className={`rounded-lg px-3 py-1.5 text-sm border ${
-              tab === "outstanding"
-                ? "bg-slate-900 text-white"
-                : "bg-white hover:bg-slate-50"
-            }`}
+            type="submit"
+            className="rounded-lg bg-blue-600 text-white px-3 py-1.5 text-sm hover:bg-blue-700"
           >
-            Outstanding
+            Apply
           </button>
           <button
-            onClick={() => setTab("finished")}
-            className={`rounded-lg px-3 py-1.5 text-sm border ${
-              tab === "finished"
-                ? "bg-slate-900 text-white"
-                : "bg-white hover:bg-slate-50"
-            }`}
+            type="button"
+            onClick={() => {
+              setDraft(EMPTY_FILTERS);
+              setFilters(EMPTY_FILTERS);
+              setFilterError(null);
+            }}
+            className="rounded-lg border px-3 py-1.5 text-sm hover:bg-slate-50"
           >
-            Finished
+            Reset
           </button>
-        </div>
-
-        {loading && <div className="text-slate-600">Loading…</div>}
+          <button
+            type="button"
+            onClick={() => mutate()}
+            className="ml-auto rounded-lg border px-3 py-1.5 text-sm hover:bg-slate-50"
+          >
+            Refresh
+          </button>
+          {filterError && <div className="w-full text-sm text-rose-600">{filterError}</div>}
+        </form>
 
-        {!loading && tab === "outstanding" && (
-          <div className="grid gap-4">
-            {outstanding.length === 0 && (
-              <div className="rounded-xl border bg-white p-4 text-slate-600">
-                No outstanding loans.
-              </div>
+        {totals && totals.count > 0 && (
+          <div className="rounded-xl border bg-white p-4 text-sm text-slate-700">
+            <span className="font-semibold text-slate-900">{totals.count}</span> loan
+            {totals.count === 1 ? "" : "s"}
+            {tab === "written_off" ? (
+              <>
+                {" "}· written off{" "}
+                <span className="font-semibold text-slate-900">
+                  MWK {money(totals.writtenOff)}
+                </span>{" "}
+                · recovered MWK {money(totals.recovered)}
+              </>
+            ) : (
+              <>
+                {" "}· balance{" "}
+                <span className="font-semibold text-slate-900">MWK {money(totals.balance)}</span>
+              </>
+            )}
+            {tab === "outstanding" && (
+              <>
+                <div className="mt-1">
+                  In arrears:{" "}
+                  <span className="font-semibold text-slate-900">
+                    {totals.inArrears} of {totals.count}
+                  </span>{" "}
+                  · MWK {money(totals.arrears)} past due
+                </div>
+                <div className="mt-2 flex flex-wrap gap-1">
+                  {PAR_BUCKETS.map((b) => (
+                    <span
+                      key={b}
+                      className="inline-flex items-center rounded-full px-2 py-0.5 text-xs border bg-slate-50 text-slate-700"
+                    >
+                      PAR {b}: {totals.par[b].count} · MWK {money(totals.par[b].balance)}
+                    </span>
+                  ))}
+                </div>
+              </>
             )}
-            {outstanding.map((r) => (
-              <LoanCard key={r.id} loan={r} />
-            ))}
           </div>
         )}
 
-        {!loading && tab === "finished" && (
-          <div className="grid gap-4">
-            {finished.length === 0 && (
-              <div className="rounded-xl border bg-white p-4 text-slate-600">
-                No finished loans.
-              </div>
-            )}
-            {finished.map((r) => (
-              <LoanCard key={r.id} loan={r} />
-            ))}
-          </div>
+        <section className="rounded-2xl border bg-white overflow-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 text-slate-600">
+              <tr>
+                <th className="text-left font-medium p-3">Borrower</th>
+                <th className="text-left font-medium p-3">Type</th>
+                <th className="text-left font-medium p-3">Area</th>
+                <th className="text-right p-3">{sortHeader("balance", "Balance")}</th>
+                <th className="text-left p-3">{sortHeader("due", "Next due")}</th>
+                <th className="text-right font-medium p-3">DPD</th>
+                <th className="text-left font-medium p-3">Status</th>
+                <th className="text-left p-3">{sortHeader("created", "Created")}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {isLoading && (
+                <tr><td className="p-6 text-center text-slate-500" colSpan={8}>Loading…</td></tr>
+              )}
+              {error && (
+                <tr><td className="p-6 text-center text-rose-600" colSpan={8}>{getErrorMessage(error)}</td></tr>
+              )}
+              {!isLoading && !error && rows.length === 0 && (
+                <tr><td className="p-6 text-center text-slate-500" colSpan={8}>{currentTab.empty}</td></tr>
+              )}
+              {rows.map((r) => (
+                <Fragment key={r.id}>
+                  <tr
+                    onClick={() => setOpenId(openId === r.id ? null : r.id)}
+                    className={`border-t cursor-pointer hover:bg-slate-50 ${
+                      openId === r.id ? "bg-slate-50" : ""
+                    }`}
+                  >
+                    <td className="p-3">
+                      <div className="text-slate-900">
+                        {[r.firstName, r.surname].filter(Boolean).join(" ") || "—"}
+                      </div>
+                      <div className="text-xs text-slate-500">{r.mobile || "—"}</div>
+                    </td>
+                    <td className="p-3 capitalize">{r.loanType}</td>
+                    <td className="p-3">{r.areaName || "—"}</td>
+                    <td className="p-3 text-right tabular-nums">MWK {money(r.currentBalance)}</td>
+                    <td className="p-3">{fmtDate(r.arrears.nextDueMs)}</td>
+                    <td
+                      className={`p-3 text-right tabular-nums ${
+                        r.overdueDays > 0 ? "text-rose-700" : ""
+                      }`}
+                    >
+                      {r.overdueDays > 0 ? r.overdueDays : "—"}
+                    </td>
+                    <td className="p-3 capitalize">{r.status.replace("_", " ")}</td>
+                    <td className="p-3">{fmtDate(r.startMs)}</td>
+                  </tr>
+                  {openId === r.id && (
+                    <tr className="border-t">
+                      <td colSpan={8} className="p-3 bg-slate-50">
+                        <LoanDetailCard row={r} onChanged={() => mutate()} />
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        </section>
+
+        {hasMore && (
+          <button
+            onClick={() => setSize(size + 1)}
+            className="justify-self-center rounded-lg border bg-white px-3 py-1.5 text-sm hover:bg-slate-50"
+          >
+            Load more
+          </button>
         )}
       </main>
     </div>
   );
 }
 
-function LoanCard({ loan }: { loan: ExtendedLoan }) {
+/** List rows carry no schedules; the open loan is fetched in full. */
+function LoanDetailCard({ row, onChanged }: { row: LoanRow; onChanged: () => void }) {
+  const { data, error, mutate } = useSWR<LoanDetail>(loanDetailUrl(row.id), apiGet);
+  if (error) return <div className="text-sm text-rose-600">{getErrorMessage(error)}</div>;
+  if (!data) return <div className="text-sm text-slate-600">Loading loan…</div>;
+  return (
+    <LoanCard
+      loan={data}
+      onChanged={() => {
+        mutate();
+        onChanged();
+      }}
+    />
+  );
+}
+
+function LoanCard({ loan, onChanged }: { loan: LoanDetail; onChanged: () => void }) {
+  const { can } = useStaff();
   const [expanded, setExpanded] = useState(false);
   const [payments, setPayments] = useState<Payment[] | null>(null);
+  const [entries, setEntries] = useState<LedgerEntry[]>([]);
   const [loading, setLoading] = useState(false);
   const [err, setErr] = useState<string | null>(null);
-  const [busy, setBusy] = useState<null | "pay" | "close">(null);
+  const [busy, setBusy] = useState<
+    null | "pay" | "close" | "waive" | "reverse" | "restructure" | "write_off" | "quote"
+  >(null);
+  const [lastReceipt, setLastReceipt] = useState<{
+    paymentId: string;
+    receiptNo: string | null;
+    settledQuoteId: string | null;
+  } | null>(null);
+  const [quote, setQuote] = useState<SettlementQuote | null>(null);
+  const [emailQuote, setEmailQuote] = useState(false);
 
   const fullName =
     [loan.firstName, loan.surname].filter(Boolean).join(" ") || "—";
@@ -321,28 +646,46 @@ function LoanCard({ loan }: { loan: ExtendedLoan }) {
 
   const principal = Number(loan.loanAmount || 0);
   const balance = Number(loan.currentBalance || 0);
-  const paid = Math.max(0, principal - balance);
-  const progressPct = principal > 0 ? Math.round((paid / principal) * 100) : 0;
+  // balances include interest/fees once on the ledger, so measure against paid + owed
+  const paid = Number(loan.amountPaid || 0);
+  const writtenOff = loan.status === "written_off";
+  // a written-off loan's balance is zero, but it was never repaid
+  const unpaid = writtenOff ? Number(loan.writtenOffAmount || 0) : balance;
+  const progressPct = paid + unpaid > 0 ? Math.round((paid / (paid + unpaid)) * 100) : 0;
+  const notices = loan.demandNotices || [];
+  const lastNotice = notices.length ? notices[notices.length - 1] : null;
+  const ledgerRows = useMemo(() => withRunningBalance(entries), [entries]);
+  const ledgerBalance = receivableBalance(entries);
+  const ledgerMismatch =
+    loan.ledgerOpened && entries.length > 0 && Math.abs(ledgerBalance - balance) > 0.005;
 
   const loadPayments = useCallback(async () => {
     try {
       setLoading(true);
       setErr(null);
-      const snap = await getDocs(
-        query(
-          collection(db, `loan_applications/${loan.id}/loan_payments`),
-          orderBy("paymentDate", "desc")
-        )
-      );
+      const [snap, ledgerSnap] = await Promise.all([
+        getDocs(
+          query(
+            collection(db, `loan_applications/${loan.id}/loan_payments`),
+            orderBy("paymentDate", "desc")
+          )
+        ),
+        getDocs(collection(db, `loan_applications/${loan.id}/ledger`)),
+      ]);
 
       // FIX: drop any `id` that might exist inside the document data
       type PaymentDoc = Omit<Payment, "id">;
       const rows: Payment[] = snap.docs.map((d) => {
         const data = (d.data() as PaymentDoc) ?? {};
-        return { id: d.id, ...data };
+        return { id: d.id, ...data, allocation: parseAllocation(data.allocation) };
       });
 
       setPayments(rows);
+      setEntries(
+        ledgerSnap.docs
+          .map((d) => parseEntry(d.id, d.data()))
+          .filter((e): e is LedgerEntry => !!e)
+      );
     } catch (e: unknown) {
       setErr(getErrorMessage(e));
     } finally {
@@ -357,28 +700,154 @@ function LoanCard({ loan }: { loan: ExtendedLoan }) {
     }
   }, [expanded, payments, loadPayments]);
 
-  async function addPayment(amount: number, note?: string) {
-    if (!amount || amount <= 0) return;
+  async function addPayment(input: NewPayment, idempotencyKey: string): Promise<boolean> {
+    const { amount, note } = input;
+    if (!amount || amount <= 0) return false;
     try {
       setBusy("pay");
       setErr(null);
-      // 1) write payment
-      await addDoc(collection(db, `loan_applications/${loan.id}/loan_payments`), {
-        amount,
-        paymentDate: serverTimestamp(),
-        createdAt: serverTimestamp(),
-        note: note || null,
+      // 1) payment + balance update run in one server-side transaction;
+      //    resubmitting with the same key can't post it twice
+      const res = await apiSend<{
+        paymentId: string;
+        receiptNo: string | null;
+        settledQuoteId: string | null;
+      }>(
+        `/api/admin/loans/${encodeURIComponent(loan.id)}/record-payment`,
+        "POST",
+        { ...input, note: note || null, idempotencyKey }
+      );
+      setLastReceipt({
+        paymentId: res.paymentId,
+        receiptNo: res.receiptNo,
+        settledQuoteId: res.settledQuoteId ?? null,
+      });
+      // 2) refresh payments and the list row
+      await loadPayments();
+      onChanged();
+      return true;
+    } catch (e: unknown) {
+      setErr(getErrorMessage(e));
+      return false;
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function waive(p: LedgerEntry) {
+    const remaining = p.amount - (p.waived || 0);
+    const reason = window.prompt(`Reason for waiving MWK ${money(remaining)}:`, "");
+    if (!reason?.trim()) return;
+    try {
+      setBusy("waive");
+      setErr(null);
+      await apiSend(`/api/admin/loans/${encodeURIComponent(loan.id)}/waive-penalty`, "POST", {
+        entryId: p.id,
+        reason,
       });
-      // 2) lower balance locally & in Firestore doc
-      const nextBalance = Math.max(0, (loan.currentBalance || 0) - amount);
-      await updateDoc(fsDoc(db, "loan_applications", loan.id), {
-        currentBalance: nextBalance,
-        status: nextBalance <= 0 ? "closed" : loan.status,
+      await loadPayments();
+      onChanged();
+    } catch (e: unknown) {
+      setErr(getErrorMessage(e));
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function reverse(
+    paymentId: string,
+    reason: string,
+    correctedAmount: number | null
+  ): Promise<boolean> {
+    try {
+      setBusy("reverse");
+      setErr(null);
+      // the server posts a compensating entry; the original payment stays
+      await apiSend(`/api/admin/loans/${encodeURIComponent(loan.id)}/reverse-payment`, "POST", {
+        paymentId,
+        reason,
+        correctedAmount,
       });
-      // 3) refresh payments
       await loadPayments();
+      onChanged();
+      return true;
+    } catch (e: unknown) {
+      setErr(getErrorMessage(e));
+      return false;
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function restructure(input: NewTerms): Promise<boolean> {
+    try {
+      setBusy("restructure");
+      setErr(null);
+      // the schedule is regenerated server-side; the old one goes to termsHistory
+      await apiSend(`/api/admin/loans/${encodeURIComponent(loan.id)}/restructure`, "POST", input);
+      if (payments !== null) await loadPayments();
+      onChanged();
+      return true;
+    } catch (e: unknown) {
+      setErr(getErrorMessage(e));
+      return false;
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function writeOff() {
+    const reason = window.prompt(
+      `Reason for writing off MWK ${money(balance)} (credit approver sign-off):`,
+      ""
+    );
+    if (!reason?.trim()) return;
+    try {
+      setBusy("write_off");
+      setErr(null);
+      await apiSend(`/api/admin/loans/${encodeURIComponent(loan.id)}/write-off`, "POST", {
+        reason,
+      });
+      onChanged();
+    } catch (e: unknown) {
+      setErr(getErrorMessage(e));
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function addRecovery(input: NewPayment, idempotencyKey: string): Promise<boolean> {
+    try {
+      setBusy("pay");
+      setErr(null);
+      await apiSend(`/api/admin/loans/${encodeURIComponent(loan.id)}/record-recovery`, "POST", {
+        amount: input.amount,
+        note: input.note || null,
+        method: input.method,
+        reference: input.reference,
+        valueDate: input.valueDate,
+        idempotencyKey,
+      });
+      if (payments !== null) await loadPayments();
+      onChanged();
+      return true;
+    } catch (e: unknown) {
+      setErr(getErrorMessage(e));
+      return false;
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function requestQuote(asOf: string): Promise<boolean> {
+    try {
+      setBusy("quote");
+      setErr(null);
+      setQuote(await apiSend<SettlementQuote>(settlementQuoteUrl(loan.id), "POST", { asOf }));
+      return true;
     } catch (e: unknown) {
       setErr(getErrorMessage(e));
+      return false;
     } finally {
       setBusy(null);
     }
@@ -388,10 +857,8 @@ function LoanCard({ loan }: { loan: ExtendedLoan }) {
     try {
       setBusy("close");
       setErr(null);
-      await updateDoc(fsDoc(db, "loan_applications", loan.id), {
-        status: "closed",
-        currentBalance: 0,
-      });
+      await apiSend(`/api/admin/loans/${encodeURIComponent(loan.id)}/close`, "POST");
+      onChanged();
     } catch (e: unknown) {
       setErr(getErrorMessage(e));
     } finally {
@@ -421,8 +888,13 @@ function LoanCard({ loan }: { loan: ExtendedLoan }) {
               Start: {fmtDateTime(loan.startMs)}
             </span>
             <span className="inline-flex items-center rounded-full px-2 py-0.5 text-xs border bg-slate-50 text-slate-700">
-              End: {fmtDate(loan.end)}
+              End: {fmtDate(loan.endMs)}
             </span>
+            {(loan.restructureCount || 0) > 0 && (
+              <span className="inline-flex items-center rounded-full px-2 py-0.5 text-xs border bg-violet-50 text-violet-700 border-violet-200">
+                Restructured{(loan.restructureCount || 0) > 1 ? ` ×${loan.restructureCount}` : ""}
+              </span>
+            )}
           </div>
         </div>
         <div className="text-right">
@@ -454,7 +926,7 @@ function LoanCard({ loan }: { loan: ExtendedLoan }) {
           value={<span className="capitalize">{loan.status}</span>}
         />
         <KV
-          label="Overdue"
+          label="Days past due"
           value={
             loan.overdueDays > 0
               ? `${loan.overdueDays} day${loan.overdueDays === 1 ? "" : "s"}`
@@ -462,15 +934,48 @@ function LoanCard({ loan }: { loan: ExtendedLoan }) {
           }
         />
         <KV
-          label="Late fee growth"
+          label="Arrears"
           value={
-            loan.overdueDays > 0
-              ? `${loan.latePct.toFixed(2)}% · MWK ${money(
-                  Math.ceil(loan.lateAmt)
-                )}`
+            loan.arrears.arrearsAmount > 0
+              ? `MWK ${money(loan.arrears.arrearsAmount)} · ${
+                  loan.arrears.missedInstallments
+                } missed installment${loan.arrears.missedInstallments === 1 ? "" : "s"}`
               : "—"
           }
         />
+        <KV
+          label="Next due"
+          value={loan.arrears.nextDueMs ? fmtDate(loan.arrears.nextDueMs) : "—"}
+        />
+        {(loan.creditBalance || 0) > 0 && (
+          <KV label="Customer credit" value={`MWK ${money(loan.creditBalance)}`} />
+        )}
+        <KV
+          label="Late fees"
+          value={
+            loan.penaltiesCharged
+              ? `MWK ${money(loan.penaltiesNet)}${
+                  loan.penaltiesWaived ? ` (MWK ${money(loan.penaltiesWaived)} waived)` : ""
+                }`
+              : "—"
+          }
+        />
+        {lastNotice && (
+          <KV
+            label="Demand notice"
+            value={`${fmtDate(lastNotice.issuedAtMs)} · pay by ${fmtDate(lastNotice.deadlineMs)}`}
+          />
+        )}
+        {writtenOff && (
+          <>
+            <KV
+              label="Written off"
+              value={`MWK ${money(loan.writtenOffAmount)} · ${fmtDate(loan.writtenOffAtMs)}`}
+            />
+            <KV label="Recovered" value={`MWK ${money(loan.recoveredAmount)}`} />
+            <KV label="Write-off reason" value={loan.writeOffReason || "—"} />
+          </>
+        )}
       </div>
 
       {/* Actions */}
@@ -481,14 +986,54 @@ function LoanCard({ loan }: { loan: ExtendedLoan }) {
         >
           {expanded ? "Hide details" : "Show details & payments"}
         </button>
-        <RecordPaymentButton disabled={busy === "pay"} onSubmit={addPayment} />
-        <button
-          onClick={closeLoan}
-          disabled={busy === "close"}
-          className="rounded-lg bg-emerald-600 text-white px-2.5 py-1.5 text-xs hover:bg-emerald-700 disabled:opacity-60"
-        >
-          Mark as finished
-        </button>
+        {can("payments:record") && !writtenOff && (
+          <RecordPaymentButton disabled={busy === "pay"} onSubmit={addPayment} />
+        )}
+        {can("payments:record") && writtenOff && (
+          <RecordPaymentButton recovery disabled={busy === "pay"} onSubmit={addRecovery} />
+        )}
+        {can("loans:restructure") && !writtenOff && (
+          <RestructureButton
+            current={{
+              periods: loan.loanPeriod || 0,
+              frequency: loan.paymentFrequency || "monthly",
+            }}
+            hasArrears={loan.arrears.arrearsAmount > 0}
+            disabled={busy === "restructure"}
+            onSubmit={restructure}
+          />
+        )}
+        {can("loans:quote") && !writtenOff && balance > 0 && (
+          <SettlementQuoteButton disabled={busy === "quote"} onSubmit={requestQuote} />
+        )}
+        {can("loans:write_off") && !writtenOff && balance > 0 && (
+          <button
+            onClick={writeOff}
+            disabled={busy === "write_off"}
+            className="rounded-lg border border-rose-200 text-rose-700 px-2.5 py-1.5 text-xs hover:bg-rose-50 disabled:opacity-60"
+            title="Post the outstanding balance to loan losses"
+          >
+            Write off
+          </button>
+        )}
+        {can("loans:close") && !writtenOff && (
+          <button
+            onClick={closeLoan}
+            disabled={busy === "close"}
+            className="rounded-lg bg-emerald-600 text-white px-2.5 py-1.5 text-xs hover:bg-emerald-700 disabled:opacity-60"
+          >
+            Mark as finished
+          </button>
+        )}
+        {(loan.overdueDays > 0 || writtenOff || lastNotice) && (
+          <Link
+            href={repossessionPage(loan.id)}
+            className="rounded-lg border border-rose-200 text-rose-700 px-2.5 py-1.5 text-xs hover:bg-rose-50"
+            title="Demand notice, seizure and sale of the collateral"
+          >
+            Repossession
+          </Link>
+        )}
         <Link
           href={loan.kycId ? `/kyc/${loan.kycId}` : "#"}
           className={`rounded-lg px-2.5 py-1.5 text-xs ${
@@ -501,6 +1046,69 @@ function LoanCard({ loan }: { loan: ExtendedLoan }) {
         </Link>
       </div>
 
+      {lastReceipt && (
+        <div className="mt-3 flex items-center gap-2 rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-800">
+          Payment recorded{lastReceipt.receiptNo ? ` · receipt ${lastReceipt.receiptNo}` : ""}
+          {lastReceipt.settledQuoteId ? ` · settles quote ${lastReceipt.settledQuoteId}` : ""}.
+          <Link
+            href={`/admin/receipts/${encodeURIComponent(loan.id)}/${encodeURIComponent(lastReceipt.paymentId)}`}
+            target="_blank"
+            className="font-medium underline"
+          >
+            Print receipt
+          </Link>
+          <button onClick={() => setLastReceipt(null)} className="ml-auto text-xs hover:underline">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {quote && (
+        <div className="mt-3 rounded-lg border border-sky-200 bg-sky-50 px-3 py-2 text-sm text-sky-900">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="font-semibold">
+              Settlement on {fmtDate(quote.asOfMs)}: MWK {money(quote.payoff)}
+            </span>
+            <span className="text-xs text-sky-700">valid until {fmtDate(quote.expiresAtMs)}</span>
+            <Link
+              href={settlementQuotePage(loan.id, quote.quoteId)}
+              target="_blank"
+              className="ml-auto font-medium underline"
+            >
+              Print quote
+            </Link>
+            {can("clients:notify") && (
+              <button onClick={() => setEmailQuote(true)} className="font-medium underline">
+                Email
+              </button>
+            )}
+            <button onClick={() => setQuote(null)} className="text-xs hover:underline">
+              Dismiss
+            </button>
+          </div>
+          <dl className="mt-2 grid grid-cols-2 gap-x-4 gap-y-0.5 text-xs sm:w-96">
+            {settlementLines(quote).map((l) => (
+              <div key={l.label} className="contents">
+                <dt className="text-sky-700">{l.label}</dt>
+                <dd className="text-right tabular-nums">
+                  {l.sign < 0 ? "− " : ""}MWK {money(l.amount)}
+                </dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      )}
+
+      {emailQuote && quote && (
+        <NotifyEmailModal
+          onClose={() => setEmailQuote(false)}
+          defaultToEmail={loan.email || ""}
+          defaultToName={fullName === "—" ? "" : fullName}
+          defaultSubject="Your ESSA loan settlement quote"
+          defaultMessage={quoteMessage(quote)}
+        />
+      )}
+
       {/* Details */}
       {expanded && (
         <div className="mt-4 rounded-xl border bg-slate-50 p-3">
@@ -509,49 +1117,256 @@ function LoanCard({ loan }: { loan: ExtendedLoan }) {
 
           <div className="grid gap-2 sm:grid-cols-4">
             <KV label="Acquisition (start)" value={fmtDateTime(loan.startMs)} />
-            <KV label="Expected end" value={fmtDate(loan.end)} />
+            <KV label="Expected end" value={fmtDate(loan.endMs)} />
             <KV label="Frequency" value={loan.paymentFrequency} />
             <KV label="Loan ID" value={loan.id} />
           </div>
 
-          <h4 className="mt-3 text-sm font-semibold text-slate-800">Payment history</h4>
-          {!loading && payments?.length === 0 && (
-            <div className="text-sm text-slate-600">No payments yet.</div>
+          <h4 className="mt-3 text-sm font-semibold text-slate-800">Repayment schedule</h4>
+          <div className="mt-2">
+            <ScheduleTable rows={loan.schedule || []} projected={loan.scheduleProjected} />
+          </div>
+
+          <div className="mt-3">
+            <CollateralPanel loanId={loan.id} loanType={loan.loanType} principal={principal} />
+          </div>
+
+          {(loan.termsHistory || []).length > 0 && (
+            <>
+              <h4 className="mt-3 text-sm font-semibold text-slate-800">Earlier terms</h4>
+              <div className="mt-2 overflow-auto rounded-lg border bg-white">
+                <table className="w-full text-sm">
+                  <thead className="bg-slate-50 text-slate-600">
+                    <tr>
+                      <th className="text-left p-2">Replaced</th>
+                      <th className="text-left p-2">Term</th>
+                      <th className="text-right p-2">Balance then</th>
+                      <th className="text-right p-2">Arrears</th>
+                      <th className="text-right p-2">Cancelled</th>
+                      <th className="text-left p-2">Reason</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {loan.termsHistory!.map((h, i) => (
+                      <tr key={i} className="border-t">
+                        <td className="p-2">
+                          {fmtDateTime(h.replacedAtMs)}
+                          <div className="text-xs text-slate-500">{h.replacedByEmail || "—"}</div>
+                        </td>
+                        <td className="p-2">
+                          {h.periods} {h.frequency === "weekly" ? "wk" : "mo"}
+                        </td>
+                        <td className="p-2 text-right tabular-nums">MWK {money(h.balance)}</td>
+                        <td className="p-2 text-right tabular-nums">
+                          {h.capitalised > 0
+                            ? `MWK ${money(h.capitalised)} capitalised`
+                            : h.carried > 0
+                            ? `MWK ${money(h.carried)} carried`
+                            : "—"}
+                        </td>
+                        <td className="p-2 text-right tabular-nums">MWK {money(h.cancelled)}</td>
+                        <td className="p-2">{h.reason}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+
+          <h4 className="mt-3 text-sm font-semibold text-slate-800">
+            Ledger
+            {ledgerMismatch && (
+              <span
+                className="ml-2 inline-flex items-center rounded-full px-2 py-0.5 text-xs border bg-rose-50 text-rose-700 border-rose-200"
+                title="Run “Check ledger” and report this loan"
+              >
+                Entries give MWK {money(ledgerBalance)}, balance says MWK {money(balance)}
+              </span>
+            )}
+          </h4>
+          {!loading && entries.length === 0 && (
+            <div className="text-sm text-slate-600">No ledger entries yet.</div>
           )}
-          {!loading && payments && payments.length > 0 && (
+          {!loading && entries.length > 0 && (
             <div className="mt-2 overflow-auto rounded-lg border bg-white">
               <table className="w-full text-sm">
                 <thead className="bg-slate-50 text-slate-600">
                   <tr>
-                    <th className="text-left font-medium p-2">When</th>
-                    <th className="text-left font-medium p-2">Amount</th>
-                    <th className="text-left font-medium p-2">Note</th>
+                    <th className="text-left font-medium p-2">Posted</th>
+                    <th className="text-left font-medium p-2">Type</th>
+                    <th className="text-left font-medium p-2">Memo</th>
+                    <th className="text-right font-medium p-2">Amount</th>
+                    {loan.ledgerOpened && (
+                      <th className="text-right font-medium p-2">Balance</th>
+                    )}
+                    <th className="p-2" />
                   </tr>
                 </thead>
                 <tbody className="bg-white">
-                  {payments.map((p) => (
-                    <tr key={p.id} className="border-t">
-                      <td className="p-2">
-                        {fmtDateTime(p.paymentDate || p.createdAt)}
-                      </td>
-                      <td className="p-2">
-                        {typeof p.amount === "number"
-                          ? `MWK ${money(p.amount)}`
-                          : "—"}
-                      </td>
-                      <td className="p-2">{p.note || "—"}</td>
-                    </tr>
-                  ))}
+                  {ledgerRows.map((e) => {
+                    const delta = receivableDelta(e);
+                    const reversed = !!e.reversedByEntryId;
+                    return (
+                      <tr
+                        key={e.id}
+                        className={`border-t ${reversed ? "line-through text-slate-400" : ""}`}
+                      >
+                        <td className="p-2">{fmtDateTime(e.postedAtMs)}</td>
+                        <td className="p-2">{ENTRY_LABELS[e.type]}</td>
+                        <td className="p-2">
+                          {e.memo || "—"}
+                          {e.waived ? (
+                            <span className="text-slate-500"> · MWK {money(e.waived)} waived</span>
+                          ) : null}
+                          {e.type === "payment" && e.method && (
+                            <div className="text-xs text-slate-500">
+                              {channelLabel(e.method, e.reference)}
+                            </div>
+                          )}
+                          {e.allocation && <AllocationBreakdown allocation={e.allocation} />}
+                        </td>
+                        <td
+                          className={`p-2 text-right tabular-nums ${
+                            delta < 0 ? "text-emerald-700" : ""
+                          }`}
+                        >
+                          {delta < 0 ? "−" : "+"}MWK {money(e.amount)}
+                        </td>
+                        {loan.ledgerOpened && (
+                          <td className="p-2 text-right tabular-nums">MWK {money(e.balance)}</td>
+                        )}
+                        <td className="p-2 text-right whitespace-nowrap">
+                          {e.type === "payment" && e.paymentId && (
+                            <ReceiptLink loanId={loan.id} paymentId={e.paymentId} />
+                          )}
+                          {e.type === "payment" &&
+                            e.paymentId &&
+                            !reversed &&
+                            can("payments:reverse") && (
+                              <ReversePaymentButton
+                                amount={e.amount}
+                                disabled={busy === "reverse"}
+                                onSubmit={(reason, corrected) =>
+                                  reverse(e.paymentId!, reason, corrected)
+                                }
+                              />
+                            )}
+                          {e.type === "penalty" &&
+                            can("fees:waive") &&
+                            (e.waived || 0) < e.amount && (
+                              <button
+                                onClick={() => waive(e)}
+                                disabled={busy === "waive"}
+                                className="rounded-lg border px-2 py-1 text-xs hover:bg-slate-50 disabled:opacity-60"
+                              >
+                                Waive
+                              </button>
+                            )}
+                        </td>
+                      </tr>
+                    );
+                  })}
                 </tbody>
               </table>
             </div>
           )}
+
+          {/* loans not yet on the ledger: their payments only exist here */}
+          {!loan.ledgerOpened && (
+            <>
+              <h4 className="mt-3 text-sm font-semibold text-slate-800">Payment history</h4>
+              {!loading && payments?.length === 0 && (
+                <div className="text-sm text-slate-600">No payments yet.</div>
+              )}
+              {!loading && payments && payments.length > 0 && (
+                <div className="mt-2 overflow-auto rounded-lg border bg-white">
+                  <table className="w-full text-sm">
+                    <thead className="bg-slate-50 text-slate-600">
+                      <tr>
+                        <th className="text-left font-medium p-2">When</th>
+                        <th className="text-left font-medium p-2">Amount</th>
+                        <th className="text-left font-medium p-2">Paid by</th>
+                        <th className="text-left font-medium p-2">Note</th>
+                        <th className="p-2" />
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white">
+                      {payments.map((p) => (
+                        <tr
+                          key={p.id}
+                          className={`border-t ${p.reversedAt ? "line-through text-slate-400" : ""}`}
+                          title={p.reversalReason ? `Reversed: ${p.reversalReason}` : undefined}
+                        >
+                          <td className="p-2">
+                            {fmtDateTime(p.paymentDate || p.createdAt)}
+                          </td>
+                          <td className="p-2">
+                            {typeof p.amount === "number"
+                              ? `MWK ${money(p.amount)}`
+                              : "—"}
+                          </td>
+                          <td className="p-2">{channelLabel(p.method, p.reference)}</td>
+                          <td className="p-2">
+                            {p.note || "—"}
+                            {p.allocation && <AllocationBreakdown allocation={p.allocation} />}
+                          </td>
+                          <td className="p-2 text-right whitespace-nowrap">
+                            {typeof p.amount === "number" && p.amount > 0 && (
+                              <ReceiptLink loanId={loan.id} paymentId={p.id} />
+                            )}
+                            {typeof p.amount === "number" &&
+                              p.amount > 0 &&
+                              !p.reversedAt &&
+                              can("payments:reverse") && (
+                                <ReversePaymentButton
+                                  amount={p.amount}
+                                  disabled={busy === "reverse"}
+                                  onSubmit={(reason, corrected) => reverse(p.id, reason, corrected)}
+                                />
+                              )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </>
+          )}
         </div>
       )}
     </section>
   );
 }
 
+function channelLabel(method?: string | null, reference?: string | null) {
+  const label = PAYMENT_METHOD_LABELS[paymentMethodOf(method)];
+  return reference ? `${label} · ${reference}` : label;
+}
+
+function ReceiptLink({ loanId, paymentId }: { loanId: string; paymentId: string }) {
+  return (
+    <Link
+      href={`/admin/receipts/${encodeURIComponent(loanId)}/${encodeURIComponent(paymentId)}`}
+      target="_blank"
+      className="mr-2 rounded-lg border px-2 py-1 text-xs hover:bg-slate-50"
+    >
+      Receipt
+    </Link>
+  );
+}
+
+function AllocationBreakdown({ allocation }: { allocation: Allocation }) {
+  const lines = allocationLines(allocation);
+  if (!lines.length) return null;
+  return (
+    <div className="text-xs text-slate-500">
+      {lines.map((l) => `${l.label} ${money(l.amount)}`).join(" · ")}
+    </div>
+  );
+}
+
 function KV({ label, value }: { label: string; value: React.ReactNode }) {
   return (
     <div className="flex items-start gap-2 text-sm">
@@ -561,24 +1376,76 @@ function KV({ label, value }: { label: string; value: React.ReactNode }) {
   );
 }
 
+type NewPayment = {
+  amount: number;
+  note: string | undefined;
+  overpayment: OverpaymentMode;
+  method: PaymentMethod;
+  reference: string | null;
+  valueDate: string;
+};
+
+/** Local calendar date `days` from today as YYYY-MM-DD (what <input type="date"> uses). */
+function isoDaysAhead(days: number) {
+  const d = new Date();
+  d.setDate(d.getDate() + days);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(
+    d.getDate()
+  ).padStart(2, "0")}`;
+}
+
+function todayIso() {
+  return isoDaysAhead(0);
+}
+
 function RecordPaymentButton({
   onSubmit,
   disabled,
+  recovery,
 }: {
-  onSubmit: (amount: number, note?: string) => void;
+  onSubmit: (payment: NewPayment, idempotencyKey: string) => Promise<boolean>;
   disabled?: boolean;
+  /** Cash on a written-off loan: nothing is allocated, so no overpayment choice. */
+  recovery?: boolean;
 }) {
   const [open, setOpen] = useState(false);
   const [amount, setAmount] = useState<string>("");
   const [note, setNote] = useState<string>("");
+  const [overpayment, setOverpayment] = useState<OverpaymentMode>("next_installments");
+  const [method, setMethod] = useState<PaymentMethod>("cash");
+  const [reference, setReference] = useState("");
+  const [valueDate, setValueDate] = useState(todayIso);
+  const [saving, setSaving] = useState(false);
+  // one key per submission: a double click or a retry after a failed
+  // response reuses it; editing the form starts a new submission
+  const [idempotencyKey, setIdempotencyKey] = useState(() => crypto.randomUUID());
 
-  function handleSave() {
+  function edit<T>(setter: (v: T) => void, v: T) {
+    setter(v);
+    setIdempotencyKey(crypto.randomUUID());
+  }
+
+  async function handleSave() {
     const n = Number(amount);
     if (!isFinite(n) || n <= 0) return alert("Enter a valid amount > 0");
-    onSubmit(n, note || undefined);
+    const ref = normalizeReference(reference);
+    const refProblem = referenceError(method, ref);
+    if (refProblem) return alert(refProblem);
+    if (valueDate > todayIso()) return alert("Value date can't be in the future");
+    if (saving) return;
+    setSaving(true);
+    const ok = await onSubmit(
+      { amount: n, note: note || undefined, overpayment, method, reference: ref || null, valueDate },
+      idempotencyKey
+    );
+    setSaving(false);
+    if (!ok) return; // keep the form (and key) so Save can be retried
     setOpen(false);
     setAmount("");
     setNote("");
+    setReference("");
+    setValueDate(todayIso());
+    setIdempotencyKey(crypto.randomUUID());
   }
 
   if (!open) {
@@ -588,30 +1455,67 @@ function RecordPaymentButton({
         disabled={disabled}
         className="rounded-lg bg-amber-600 text-white px-2.5 py-1.5 text-xs hover:bg-amber-700 disabled:opacity-60"
       >
-        Record payment
+        {recovery ? "Record recovery" : "Record payment"}
       </button>
     );
   }
   return (
-    <div className="flex items-center gap-2">
+    <div className="flex flex-wrap items-center gap-2">
       <input
         type="number"
         inputMode="decimal"
         placeholder="Amount"
         value={amount}
-        onChange={(e) => setAmount(e.target.value)}
+        onChange={(e) => edit(setAmount, e.target.value)}
         className="rounded-lg border px-2 py-1.5 text-xs w-28"
       />
+      <select
+        value={method}
+        onChange={(e) => edit(setMethod, e.target.value as PaymentMethod)}
+        className="rounded-lg border px-2 py-1.5 text-xs"
+      >
+        {PAYMENT_METHODS.map((m) => (
+          <option key={m} value={m}>
+            {PAYMENT_METHOD_LABELS[m]}
+          </option>
+        ))}
+      </select>
+      <input
+        type="text"
+        placeholder={method === "cash" ? "Reference (optional)" : "Transaction reference"}
+        value={reference}
+        onChange={(e) => edit(setReference, e.target.value)}
+        className="rounded-lg border px-2 py-1.5 text-xs w-36"
+      />
+      <input
+        type="date"
+        value={valueDate}
+        max={todayIso()}
+        onChange={(e) => edit(setValueDate, e.target.value)}
+        className="rounded-lg border px-2 py-1.5 text-xs"
+        title="Value date: when the money was received"
+      />
       <input
         type="text"
         placeholder="Note (optional)"
         value={note}
-        onChange={(e) => setNote(e.target.value)}
+        onChange={(e) => edit(setNote, e.target.value)}
         className="rounded-lg border px-2 py-1.5 text-xs w-40"
       />
+      {!recovery && (
+        <select
+          value={overpayment}
+          onChange={(e) => edit(setOverpayment, e.target.value as OverpaymentMode)}
+          className="rounded-lg border px-2 py-1.5 text-xs"
+          title="Where any amount beyond what's due goes"
+        >
+          <option value="next_installments">Extra → next installments</option>
+          <option value="credit">Extra → customer credit</option>
+        </select>
+      )}
       <button
         onClick={handleSave}
-        disabled={disabled}
+        disabled={disabled || saving}
         className="rounded-lg bg-slate-900 text-white px-2.5 py-1.5 text-xs hover:bg-black disabled:opacity-60"
       >
         Save
@@ -625,3 +1529,267 @@ function RecordPaymentButton({
     </div>
   );
 }
+
+function ReversePaymentButton({
+  amount,
+  onSubmit,
+  disabled,
+}: {
+  amount: number;
+  onSubmit: (reason: string, correctedAmount: number | null) => Promise<boolean>;
+  disabled?: boolean;
+}) {
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState("");
+  const [corrected, setCorrected] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  async function handleSave() {
+    if (!reason.trim()) return alert("Enter a reason for the reversal");
+    const n = corrected.trim() ? Number(corrected) : null;
+    if (n !== null && (!isFinite(n) || n <= 0)) {
+      return alert("Corrected amount must be > 0 (leave it empty to only reverse)");
+    }
+    if (saving) return;
+    setSaving(true);
+    const ok = await onSubmit(reason.trim(), n);
+    setSaving(false);
+    if (!ok) return;
+    setOpen(false);
+    setReason("");
+    setCorrected("");
+  }
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        disabled={disabled}
+        className="rounded-lg border px-2 py-1 text-xs hover:bg-slate-50 disabled:opacity-60"
+        title={`Reverse or correct this MWK ${money(amount)} payment`}
+      >
+        Reverse / correct
+      </button>
+    );
+  }
+  return (
+    <div className="flex items-center justify-end gap-2">
+      <input
+        type="text"
+        placeholder="Reason (required)"
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        className="rounded-lg border px-2 py-1 text-xs w-40"
+      />
+      <input
+        type="number"
+        inputMode="decimal"
+        placeholder="Correct amount"
+        value={corrected}
+        onChange={(e) => setCorrected(e.target.value)}
+        className="rounded-lg border px-2 py-1 text-xs w-28"
+      />
+      <button
+        onClick={handleSave}
+        disabled={disabled || saving}
+        className="rounded-lg bg-rose-600 text-white px-2 py-1 text-xs hover:bg-rose-700 disabled:opacity-60"
+      >
+        Reverse
+      </button>
+      <button
+        onClick={() => setOpen(false)}
+        className="rounded-lg border px-2 py-1 text-xs hover:bg-slate-50"
+      >
+        Cancel
+      </button>
+    </div>
+  );
+}
+
+/** Plain-text quote for the notify email. */
+function quoteMessage(q: SettlementQuote) {
+  const lines = settlementLines(q).map(
+    (l) => `${l.label}: ${l.sign < 0 ? "-" : ""}MWK ${money(l.amount)}`
+  );
+  return [
+    `To settle your loan in full on ${fmtDate(q.asOfMs)}, the amount due is MWK ${money(q.payoff)}.`,
+    "",
+    ...lines,
+    "",
+    `This quote is valid until ${fmtDate(q.expiresAtMs)}, provided no other payments are made before then.`,
+    `Quote reference: ${q.quoteId}`,
+  ].join("\n");
+}
+
+function SettlementQuoteButton({
+  onSubmit,
+  disabled,
+}: {
+  onSubmit: (asOf: string) => Promise<boolean>;
+  disabled?: boolean;
+}) {
+  const [open, setOpen] = useState(false);
+  const [asOf, setAsOf] = useState(todayIso);
+  const [saving, setSaving] = useState(false);
+
+  async function handleQuote() {
+    if (!asOf || asOf < todayIso()) return alert("Pick today or a later settlement date");
+    if (saving) return;
+    setSaving(true);
+    const ok = await onSubmit(asOf);
+    setSaving(false);
+    if (ok) setOpen(false);
+  }
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        disabled={disabled}
+        className="rounded-lg border px-2.5 py-1.5 text-xs hover:bg-slate-50 disabled:opacity-60"
+        title="Payoff amount to close the loan early"
+      >
+        Settlement quote
+      </button>
+    );
+  }
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <input
+        type="date"
+        value={asOf}
+        min={todayIso()}
+        max={isoDaysAhead(MAX_QUOTE_DAYS_AHEAD)}
+        onChange={(e) => setAsOf(e.target.value)}
+        className="rounded-lg border px-2 py-1.5 text-xs"
+        title="Settlement date"
+      />
+      <button
+        onClick={handleQuote}
+        disabled={disabled || saving}
+        className="rounded-lg bg-sky-600 text-white px-2.5 py-1.5 text-xs hover:bg-sky-700 disabled:opacity-60"
+      >
+        Quote
+      </button>
+      <button
+        onClick={() => setOpen(false)}
+        className="rounded-lg border px-2.5 py-1.5 text-xs hover:bg-slate-50"
+      >
+        Cancel
+      </button>
+    </div>
+  );
+}
+
+type NewTerms = {
+  periods: number;
+  frequency: "weekly" | "monthly";
+  capitalizeArrears: boolean;
+  reason: string;
+};
+
+function RestructureButton({
+  current,
+  hasArrears,
+  onSubmit,
+  disabled,
+}: {
+  current: { periods: number; frequency: "weekly" | "monthly" };
+  hasArrears: boolean;
+  onSubmit: (terms: NewTerms) => Promise<boolean>;
+  disabled?: boolean;
+}) {
+  const [open, setOpen] = useState(false);
+  const [periods, setPeriods] = useState(String(current.periods || ""));
+  const [frequency, setFrequency] = useState(current.frequency);
+  const [capitalize, setCapitalize] = useState(false);
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  async function handleSave() {
+    const n = Number(periods);
+    if (!Number.isInteger(n) || n < 1) return alert("Enter the new number of installments");
+    if (!reason.trim()) return alert("Enter a reason for the restructure");
+    const unit = frequency === "weekly" ? "weekly" : "monthly";
+    if (!confirm(`Reschedule the outstanding balance over ${n} ${unit} installments from today?`)) {
+      return;
+    }
+    if (saving) return;
+    setSaving(true);
+    const ok = await onSubmit({
+      periods: n,
+      frequency,
+      capitalizeArrears: capitalize,
+      reason: reason.trim(),
+    });
+    setSaving(false);
+    if (!ok) return;
+    setOpen(false);
+    setReason("");
+  }
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        disabled={disabled}
+        className="rounded-lg border px-2.5 py-1.5 text-xs hover:bg-slate-50 disabled:opacity-60"
+        title="Change the term or frequency; the schedule is regenerated from today"
+      >
+        Restructure
+      </button>
+    );
+  }
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <input
+        type="number"
+        min={1}
+        placeholder="Installments"
+        value={periods}
+        onChange={(e) => setPeriods(e.target.value)}
+        className="rounded-lg border px-2 py-1.5 text-xs w-24"
+      />
+      <select
+        value={frequency}
+        onChange={(e) => setFrequency(e.target.value as "weekly" | "monthly")}
+        className="rounded-lg border px-2 py-1.5 text-xs"
+      >
+        <option value="monthly">Monthly</option>
+        <option value="weekly">Weekly</option>
+      </select>
+      <label
+        className={`flex items-center gap-1 text-xs ${hasArrears ? "text-slate-700" : "text-slate-400"}`}
+        title="Add interest and fees already due to the new principal instead of the first installment"
+      >
+        <input
+          type="checkbox"
+          checked={capitalize}
+          disabled={!hasArrears}
+          onChange={(e) => setCapitalize(e.target.checked)}
+        />
+        Capitalise arrears
+      </label>
+      <input
+        type="text"
+        placeholder="Reason (required)"
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        className="rounded-lg border px-2 py-1.5 text-xs w-48"
+      />
+      <button
+        onClick={handleSave}
+        disabled={disabled || saving}
+        className="rounded-lg bg-violet-600 text-white px-2.5 py-1.5 text-xs hover:bg-violet-700 disabled:opacity-60"
+      >
+        Restructure
+      </button>
+      <button
+        onClick={() => setOpen(false)}
+        className="rounded-lg border px-2.5 py-1.5 text-xs hover:bg-slate-50"
+      >
+        Cancel
+      </button>
+    </div>
+  );
+}
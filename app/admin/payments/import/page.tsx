@@ -0,0 +1,482 @@
+// app/admin/payments/import/page.tsx
+"use client";
+
+import Link from "next/link";
+import { useMemo, useState } from "react";
+import { apiSend } from "@/app/lib/api-client";
+import {
+  PAYMENT_METHOD_LABELS,
+  PAYMENT_METHODS,
+  type PaymentMethod,
+} from "@/app/lib/payment-methods";
+import {
+  findHeaderRow,
+  guessMapping,
+  IMPORT_CHUNK_ROWS,
+  MAPPING_FIELDS,
+  mapRows,
+  MAX_IMPORT_ROWS,
+  parseCsv,
+  resultsCsv,
+  type ColumnMapping,
+  type ImportResult,
+  type ImportRow,
+  type PreviewRow,
+} from "@/app/lib/payment-import";
+
+type Skipped = { line: number; reason: string };
+
+function money(n?: number | null) {
+  return Number(n || 0).toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+}
+
+const STATUS_STYLES: Record<PreviewRow["status"] | ImportResult["status"], string> = {
+  matched: "bg-emerald-50 text-emerald-700 border-emerald-200",
+  posted: "bg-emerald-50 text-emerald-700 border-emerald-200",
+  ambiguous: "bg-amber-50 text-amber-700 border-amber-200",
+  duplicate: "bg-amber-50 text-amber-700 border-amber-200",
+  unmatched: "bg-slate-100 text-slate-700 border-slate-200",
+  invalid: "bg-rose-50 text-rose-700 border-rose-200",
+  failed: "bg-rose-50 text-rose-700 border-rose-200",
+};
+
+function StatusBadge({ status }: { status: keyof typeof STATUS_STYLES }) {
+  return (
+    <span className={`inline-flex items-center rounded-full px-2 py-0.5 text-xs border ${STATUS_STYLES[status]}`}>
+      {status}
+    </span>
+  );
+}
+
+export default function PaymentImportPage() {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [cells, setCells] = useState<string[][]>([]);
+  const [headerIdx, setHeaderIdx] = useState(0);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+
+  const [preview, setPreview] = useState<PreviewRow[] | null>(null);
+  const [skipped, setSkipped] = useState<Skipped[]>([]);
+  // chosen loan per line; a line without one is left out of the commit
+  const [chosen, setChosen] = useState<Record<number, string>>({});
+  const [batchId, setBatchId] = useState<string | null>(null);
+  const [results, setResults] = useState<ImportResult[] | null>(null);
+
+  const [busy, setBusy] = useState(false);
+  // rows sent so far while posting
+  const [sent, setSent] = useState<number | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+
+  const headers = cells[headerIdx] || [];
+  const dataRows = cells.slice(headerIdx + 1);
+
+  async function onFile(file: File | undefined) {
+    setErr(null);
+    setPreview(null);
+    setResults(null);
+    if (!file) return;
+    const parsed = parseCsv(await file.text());
+    const h = findHeaderRow(parsed);
+    setFileName(file.name);
+    setCells(parsed);
+    setHeaderIdx(h);
+    setMapping(guessMapping(parsed[h] || [], mapping?.defaultMethod));
+  }
+
+  function changeHeader(i: number) {
+    setHeaderIdx(i);
+    setMapping(guessMapping(cells[i] || [], mapping?.defaultMethod));
+    setPreview(null);
+  }
+
+  async function runPreview() {
+    if (!mapping) return;
+    if (mapping.amount == null) {
+      setErr("Pick the amount column first.");
+      return;
+    }
+    // +2: header row, and lines are 1-based
+    const mapped = mapRows(dataRows, mapping, headerIdx + 2);
+    if (!mapped.rows.length) {
+      setErr("No rows with an amount to import.");
+      return;
+    }
+    if (mapped.rows.length > MAX_IMPORT_ROWS) {
+      setErr(`The file has ${mapped.rows.length} payments; import at most ${MAX_IMPORT_ROWS} at a time.`);
+      return;
+    }
+    try {
+      setBusy(true);
+      setErr(null);
+      const res = await apiSend<{ rows: PreviewRow[] }>(
+        "/api/admin/payments/import/preview",
+        "POST",
+        { rows: mapped.rows }
+      );
+      setPreview(res.rows);
+      setSkipped(mapped.skipped);
+      setChosen(
+        Object.fromEntries(
+          res.rows.filter((r) => r.status === "matched").map((r) => [r.line, r.candidates[0].loanId])
+        )
+      );
+      setBatchId(crypto.randomUUID());
+      setResults(null);
+    } catch (e: unknown) {
+      setErr(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const toPost = useMemo(
+    () =>
+      (preview || [])
+        .filter((r) => chosen[r.line])
+        .map((r): ImportRow => ({
+          line: r.line,
+          amount: r.amount,
+          loanId: chosen[r.line],
+          phone: r.phone,
+          method: r.method,
+          reference: r.reference,
+          valueDate: r.valueDate,
+          note: r.note,
+        })),
+    [preview, chosen]
+  );
+  const toPostTotal = toPost.reduce((s, r) => s + r.amount, 0);
+
+  async function commit() {
+    if (!toPost.length || !batchId) return;
+    if (!confirm(`Post ${toPost.length} payments totalling MWK ${money(toPostTotal)}?`)) return;
+    const done: ImportResult[] = [];
+    try {
+      setBusy(true);
+      setErr(null);
+      setSent(0);
+      for (let i = 0; i < toPost.length; i += IMPORT_CHUNK_ROWS) {
+        const res = await apiSend<{ batchId: string; results: ImportResult[] }>(
+          "/api/admin/payments/import/commit",
+          "POST",
+          { batchId, fileName, rows: toPost.slice(i, i + IMPORT_CHUNK_ROWS) }
+        );
+        done.push(...res.results);
+        setSent(done.length);
+      }
+      setResults(done);
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      // same batch id: posting again skips the rows already recorded
+      setErr(
+        done.length
+          ? `${msg} (after ${done.length} of ${toPost.length} rows; post again to finish)`
+          : msg
+      );
+    } finally {
+      setBusy(false);
+      setSent(null);
+    }
+  }
+
+  function downloadResults() {
+    if (!results) return;
+    const blob = new Blob([resultsCsv(results)], { type: "text/csv" });
+    const a = document.createElement("a");
+    a.href = URL.createObjectURL(blob);
+    a.download = `payment-import-${batchId}.csv`;
+    a.click();
+    URL.revokeObjectURL(a.href);
+  }
+
+  const counts = (preview || []).reduce<Record<string, number>>((acc, r) => {
+    acc[r.status] = (acc[r.status] || 0) + 1;
+    return acc;
+  }, {});
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <header className="sticky top-0 z-20 border-b bg-white/90 backdrop-blur supports-[backdrop-filter]:bg-white/60">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 h-14 flex items-center justify-between">
+          <h1 className="text-base sm:text-lg font-semibold text-slate-900">Import Payments</h1>
+          <Link
+            href="/admin/outstanding"
+            className="rounded-lg border px-3 py-1.5 text-sm hover:bg-slate-50"
+          >
+            Back to Outstanding
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-4 sm:px-6 py-6 space-y-4">
+        {err && (
+          <div className="rounded-lg border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">
+            {err}
+          </div>
+        )}
+
+        {/* 1. File */}
+        <section className="rounded-2xl border bg-white p-4">
+          <h2 className="text-sm font-semibold text-slate-800">1. Statement file</h2>
+          <p className="mt-1 text-xs text-slate-500">
+            A CSV of repayments, or an Airtel Money / Mpamba statement export. Rows are matched to
+            active loans by loan ID, or by the payer&apos;s phone when there is no loan ID.
+          </p>
+          <input
+            type="file"
+            accept=".csv,.txt,text/csv"
+            onChange={(e) => onFile(e.target.files?.[0])}
+            className="mt-3 block text-sm"
+          />
+          {fileName && (
+            <div className="mt-2 text-xs text-slate-600">
+              {fileName}: {dataRows.length} data rows
+            </div>
+          )}
+        </section>
+
+        {/* 2. Columns */}
+        {mapping && cells.length > 0 && (
+          <section className="rounded-2xl border bg-white p-4">
+            <h2 className="text-sm font-semibold text-slate-800">2. Columns</h2>
+            <div className="mt-3 grid gap-3 sm:grid-cols-4">
+              <label className="text-xs text-slate-600">
+                Header row
+                <select
+                  value={headerIdx}
+                  onChange={(e) => changeHeader(Number(e.target.value))}
+                  className="mt-1 w-full rounded-lg border px-2 py-1.5 text-sm"
+                >
+                  {cells.slice(0, 20).map((r, i) => (
+                    <option key={i} value={i}>
+                      {i + 1}: {r.join(" | ").slice(0, 60)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {MAPPING_FIELDS.map((f) => (
+                <label key={f.key} className="text-xs text-slate-600">
+                  {f.label}
+                  <select
+                    value={mapping[f.key] ?? ""}
+                    onChange={(e) => {
+                      setMapping({
+                        ...mapping,
+                        [f.key]: e.target.value === "" ? null : Number(e.target.value),
+                      });
+                      setPreview(null);
+                    }}
+                    className="mt-1 w-full rounded-lg border px-2 py-1.5 text-sm"
+                  >
+                    <option value="">—</option>
+                    {headers.map((h, i) => (
+                      <option key={i} value={i}>
+                        {h || `Column ${i + 1}`}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+              <label className="text-xs text-slate-600">
+                Default method
+                <select
+                  value={mapping.defaultMethod}
+                  onChange={(e) => {
+                    setMapping({ ...mapping, defaultMethod: e.target.value as PaymentMethod });
+                    setPreview(null);
+                  }}
+                  className="mt-1 w-full rounded-lg border px-2 py-1.5 text-sm"
+                >
+                  {PAYMENT_METHODS.map((m) => (
+                    <option key={m} value={m}>
+                      {PAYMENT_METHOD_LABELS[m]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            <div className="mt-3 flex justify-end">
+              <button
+                onClick={runPreview}
+                disabled={busy}
+                className="rounded-lg bg-slate-900 text-white px-3 py-1.5 text-sm hover:bg-black disabled:opacity-60"
+              >
+                {busy && !preview ? "Matching…" : "Preview"}
+              </button>
+            </div>
+          </section>
+        )}
+
+        {/* 3. Preview */}
+        {preview && !results && (
+          <section className="rounded-2xl border bg-white p-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <h2 className="text-sm font-semibold text-slate-800">3. Preview</h2>
+              <div className="flex flex-wrap gap-2 text-xs">
+                {(["matched", "ambiguous", "unmatched", "invalid"] as const).map((s) => (
+                  <span key={s} className="text-slate-600">
+                    <StatusBadge status={s} /> {counts[s] || 0}
+                  </span>
+                ))}
+                {skipped.length > 0 && (
+                  <span className="text-slate-600">skipped {skipped.length}</span>
+                )}
+              </div>
+            </div>
+
+            <div className="mt-3 overflow-auto rounded-lg border">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-50 text-slate-600">
+                  <tr>
+                    {["", "Line", "Amount", "Method", "Reference", "Date", "Phone / Loan ID", "Loan", "Status"].map(
+                      (h, i) => (
+                        <th key={i} className="text-left font-medium p-2">{h}</th>
+                      )
+                    )}
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.map((r) => {
+                    const postable = r.status === "matched" || r.status === "ambiguous";
+                    return (
+                      <tr key={r.line} className="border-t align-top">
+                        <td className="p-2">
+                          <input
+                            type="checkbox"
+                            disabled={!postable || (r.status === "ambiguous" && !chosen[r.line])}
+                            checked={!!chosen[r.line]}
+                            onChange={(e) =>
+                              setChosen((c) => {
+                                const next = { ...c };
+                                if (e.target.checked) next[r.line] = r.candidates[0].loanId;
+                                else delete next[r.line];
+                                return next;
+                              })
+                            }
+                          />
+                        </td>
+                        <td className="p-2 tabular-nums">{r.line}</td>
+                        <td className="p-2 tabular-nums">MWK {money(r.amount)}</td>
+                        <td className="p-2">{PAYMENT_METHOD_LABELS[r.method]}</td>
+                        <td className="p-2">{r.reference || "—"}</td>
+                        <td className="p-2">{r.valueDate || "today"}</td>
+                        <td className="p-2">{r.loanId || r.phone || "—"}</td>
+                        <td className="p-2">
+                          {r.status === "ambiguous" ? (
+                            <select
+                              value={chosen[r.line] ?? ""}
+                              onChange={(e) =>
+                                setChosen((c) => {
+                                  const next = { ...c };
+                                  if (e.target.value) next[r.line] = e.target.value;
+                                  else delete next[r.line];
+                                  return next;
+                                })
+                              }
+                              className="rounded-lg border px-2 py-1 text-sm"
+                            >
+                              <option value="">Choose loan…</option>
+                              {r.candidates.map((c) => (
+                                <option key={c.loanId} value={c.loanId}>
+                                  {c.name} · {c.loanId} · MWK {money(c.balance)}
+                                </option>
+                              ))}
+                            </select>
+                          ) : r.candidates[0] ? (
+                            <span>
+                              {r.candidates[0].name}
+                              <span className="block text-xs text-slate-500">
+                                {r.candidates[0].loanId} · bal MWK {money(r.candidates[0].balance)}
+                              </span>
+                            </span>
+                          ) : (
+                            "—"
+                          )}
+                        </td>
+                        <td className="p-2">
+                          <StatusBadge status={r.status} />
+                          {r.problem && <div className="mt-1 text-xs text-slate-500">{r.problem}</div>}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                  {skipped.map((s) => (
+                    <tr key={`skip-${s.line}`} className="border-t text-slate-400">
+                      <td className="p-2" />
+                      <td className="p-2 tabular-nums">{s.line}</td>
+                      <td className="p-2" colSpan={7}>Skipped: {s.reason}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="mt-3 flex items-center justify-end gap-3">
+              <span className="text-sm text-slate-600">
+                {toPost.length} payments · MWK {money(toPostTotal)}
+              </span>
+              <button
+                onClick={commit}
+                disabled={busy || !toPost.length}
+                className="rounded-lg bg-emerald-600 text-white px-3 py-1.5 text-sm hover:bg-emerald-700 disabled:opacity-60"
+              >
+                {busy
+                  ? sent != null
+                    ? `Posting… ${sent} of ${toPost.length}`
+                    : "Posting…"
+                  : "Post payments"}
+              </button>
+            </div>
+          </section>
+        )}
+
+        {/* 4. Results */}
+        {results && (
+          <section className="rounded-2xl border bg-white p-4">
+            <div className="flex items-center justify-between">
+              <h2 className="text-sm font-semibold text-slate-800">
+                Results: {results.filter((r) => r.status === "posted").length} posted,{" "}
+                {results.filter((r) => r.status === "duplicate").length} already recorded,{" "}
+                {results.filter((r) => r.status === "failed").length} failed
+              </h2>
+              <button
+                onClick={downloadResults}
+                className="rounded-lg border px-3 py-1.5 text-sm hover:bg-slate-50"
+              >
+                Download results CSV
+              </button>
+            </div>
+            <div className="mt-3 overflow-auto rounded-lg border">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-50 text-slate-600">
+                  <tr>
+                    {["Line", "Loan", "Amount", "Reference", "Receipt", "Status"].map((h) => (
+                      <th key={h} className="text-left font-medium p-2">{h}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {results.map((r) => (
+                    <tr key={r.line} className="border-t">
+                      <td className="p-2 tabular-nums">{r.line}</td>
+                      <td className="p-2">{r.loanId || "—"}</td>
+                      <td className="p-2 tabular-nums">MWK {money(r.amount)}</td>
+                      <td className="p-2">{r.reference || "—"}</td>
+                      <td className="p-2">{r.receiptNo || "—"}</td>
+                      <td className="p-2">
+                        <StatusBadge status={r.status} />
+                        {r.error && <div className="mt-1 text-xs text-slate-500">{r.error}</div>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        )}
+      </main>
+    </div>
+  );
+}
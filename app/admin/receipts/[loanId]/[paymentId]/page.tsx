@@ -0,0 +1,130 @@
+// app/admin/receipts/[loanId]/[paymentId]/page.tsx
+"use client";
+
+import useSWR from "swr";
+import { useParams } from "next/navigation";
+import { apiGet } from "@/app/lib/api-client";
+import { allocationLines } from "@/app/lib/allocation";
+import { PAYMENT_METHOD_LABELS } from "@/app/lib/payment-methods";
+import { receiptUrl, type Receipt } from "@/app/lib/receipts";
+
+function money(n?: number | null) {
+  return Number(n || 0).toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+}
+
+function fmtDateTime(ms?: number | null) {
+  if (!ms) return "—";
+  const d = new Date(ms);
+  return isNaN(+d) ? "—" : d.toLocaleString();
+}
+
+export default function ReceiptPage() {
+  const { loanId, paymentId } = useParams<{ loanId: string; paymentId: string }>();
+  const { data: r, error, isLoading } = useSWR<Receipt>(receiptUrl(loanId, paymentId), apiGet);
+
+  return (
+    <div className="min-h-screen bg-slate-50 print:bg-white">
+      <div className="max-w-md mx-auto px-4 py-6 print:p-0 print:max-w-none">
+        <div className="mb-4 flex items-center justify-end gap-2 print:hidden">
+          <button
+            onClick={() => window.print()}
+            disabled={!r}
+            className="rounded-lg bg-slate-900 text-white px-3 py-1.5 text-sm hover:bg-black disabled:opacity-60"
+          >
+            Print
+          </button>
+          <a
+            href={receiptUrl(loanId, paymentId, "pdf")}
+            className="rounded-lg border bg-white px-3 py-1.5 text-sm hover:bg-slate-50"
+          >
+            Download PDF
+          </a>
+          <button
+            onClick={() => window.close()}
+            className="rounded-lg border bg-white px-3 py-1.5 text-sm hover:bg-slate-50"
+          >
+            Close
+          </button>
+        </div>
+
+        {isLoading && <div className="text-slate-600">Loading…</div>}
+        {error && <div className="text-rose-600">{(error as Error).message}</div>}
+
+        {r && (
+          <section className="rounded-2xl border bg-white p-6 text-sm text-slate-900 print:border-0 print:rounded-none">
+            <div className="flex items-start justify-between">
+              <div>
+                <div className="text-lg font-bold">ESSA Loans</div>
+                <div className="text-slate-500">Payment receipt</div>
+              </div>
+              <div className="text-right">
+                <div className="font-semibold tabular-nums">{r.receiptNo ?? "Unnumbered"}</div>
+                {r.reversed && <div className="font-semibold text-rose-600">REVERSED</div>}
+              </div>
+            </div>
+
+            <dl className="mt-4 grid grid-cols-2 gap-y-1 border-t pt-3">
+              <dt className="text-slate-500">Date</dt>
+              <dd className="text-right">{fmtDateTime(r.paidAtMs)}</dd>
+              <dt className="text-slate-500">Borrower</dt>
+              <dd className="text-right">{r.borrowerName}</dd>
+              {r.mobile && (
+                <>
+                  <dt className="text-slate-500">Mobile</dt>
+                  <dd className="text-right">{r.mobile}</dd>
+                </>
+              )}
+              <dt className="text-slate-500">Loan ID</dt>
+              <dd className="text-right break-all">{r.loanId}</dd>
+              {r.loanType && (
+                <>
+                  <dt className="text-slate-500">Loan type</dt>
+                  <dd className="text-right capitalize">{r.loanType}</dd>
+                </>
+              )}
+            </dl>
+
+            <dl className="mt-3 grid grid-cols-2 gap-y-1 border-t pt-3">
+              <dt className="font-semibold">Amount received</dt>
+              <dd className="text-right font-semibold tabular-nums">MWK {money(r.amount)}</dd>
+              <dt className="text-slate-500">Paid by</dt>
+              <dd className="text-right">{PAYMENT_METHOD_LABELS[r.method]}</dd>
+              {r.reference && (
+                <>
+                  <dt className="text-slate-500">Reference</dt>
+                  <dd className="text-right break-all">{r.reference}</dd>
+                </>
+              )}
+              {(r.allocation ? allocationLines(r.allocation) : []).map((l) => (
+                <div key={l.label} className="contents">
+                  <dt className="pl-4 text-slate-500">{l.label}</dt>
+                  <dd className="text-right tabular-nums">MWK {money(l.amount)}</dd>
+                </div>
+              ))}
+            </dl>
+
+            <dl className="mt-3 grid grid-cols-2 gap-y-1 border-t pt-3">
+              <dt className="font-semibold">Balance after payment</dt>
+              <dd className="text-right font-semibold tabular-nums">
+                {r.balanceAfter == null ? "—" : `MWK ${money(r.balanceAfter)}`}
+              </dd>
+              {r.note && (
+                <>
+                  <dt className="text-slate-500">Note</dt>
+                  <dd className="text-right">{r.note}</dd>
+                </>
+              )}
+              <dt className="text-slate-500">Cashier</dt>
+              <dd className="text-right">{r.cashier ?? "—"}</dd>
+            </dl>
+
+            <div className="mt-6 text-xs text-slate-400">Payment {r.paymentId}</div>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+}
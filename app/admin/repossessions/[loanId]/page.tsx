@@ -0,0 +1,536 @@
+// app/admin/repossessions/[loanId]/page.tsx
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import useSWR from "swr";
+import { useParams } from "next/navigation";
+import { apiGet, apiSend } from "@/app/lib/api-client";
+import { useStaff } from "@/app/lib/use-staff";
+import { NotifyEmailModal } from "../../notify-email";
+import {
+  COLLATERAL_CATEGORY_LABELS,
+  COLLATERAL_STATUS_LABELS,
+  type CollateralItem,
+} from "@/app/lib/collateral";
+import {
+  DEFAULT_DEMAND_NOTICE_DAYS,
+  itemStep,
+  repossessionLabel,
+  REPOSSESSION_STEP_LABELS,
+  type DemandNotice,
+  type RepossessionView,
+} from "@/app/lib/repossession";
+import { PAYMENT_METHOD_LABELS, PAYMENT_METHODS } from "@/app/lib/payment-methods";
+import { imageSrc } from "@/app/lib/images";
+
+function money(n?: number | null) {
+  return Number(n || 0).toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+}
+
+function fmtDate(ms?: number | null) {
+  if (!ms) return "—";
+  const d = new Date(ms);
+  return isNaN(+d) ? "—" : d.toLocaleDateString();
+}
+
+function getErrorMessage(e: unknown): string {
+  return e instanceof Error ? e.message : String(e);
+}
+
+/** Local calendar date `days` from today as YYYY-MM-DD. */
+function isoDaysAhead(days: number) {
+  const d = new Date();
+  d.setDate(d.getDate() + days);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(
+    d.getDate()
+  ).padStart(2, "0")}`;
+}
+
+function noticeMessage(v: RepossessionView, n: DemandNotice) {
+  return [
+    `Dear ${v.loan.borrowerName === "—" ? "Customer" : v.loan.borrowerName},`,
+    "",
+    `Your ESSA loan (${v.loan.id}) is in default` +
+      (v.loan.balance > 0 ? ` with MWK ${money(v.loan.balance)} outstanding.` : "."),
+    `Please pay the outstanding amount by ${fmtDate(n.deadlineMs)}.`,
+    "If it is not paid by then, the collateral pledged for this loan may be repossessed " +
+      "and sold, and the proceeds applied to the loan. Anything left over after the loan " +
+      "is repaid will be refunded to you.",
+    ...(n.note ? ["", n.note] : []),
+    "",
+    "ESSA Loans",
+  ].join("\n");
+}
+
+export default function RepossessionPage() {
+  const { loanId } = useParams<{ loanId: string }>();
+  const { can } = useStaff();
+  const url = `/api/admin/loans/${encodeURIComponent(loanId)}/repossession`;
+  const { data, error, isLoading, mutate } = useSWR<RepossessionView>(url, apiGet);
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+  const [emailNotice, setEmailNotice] = useState<DemandNotice | null>(null);
+  // one key per refund submission, so a retry can't pay out twice
+  const [refundKey, setRefundKey] = useState(() => crypto.randomUUID());
+
+  async function run(fn: () => Promise<unknown>): Promise<boolean> {
+    try {
+      setBusy(true);
+      setErr(null);
+      await fn();
+      await mutate();
+      return true;
+    } catch (e: unknown) {
+      setErr(getErrorMessage(e));
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const step = (id: string, path: string, body: Record<string, unknown>) =>
+    run(() => apiSend(`/api/admin/collateral/${encodeURIComponent(id)}/${path}`, "POST", body));
+
+  async function refund(f: Record<string, string>) {
+    const ok = await run(() =>
+      apiSend(`/api/admin/loans/${encodeURIComponent(loanId)}/refund-credit`, "POST", {
+        ...f,
+        idempotencyKey: refundKey,
+      })
+    );
+    if (ok) setRefundKey(crypto.randomUUID());
+    return ok;
+  }
+
+  const manage = can("collateral:manage");
+  const nowMs = Date.now();
+  const noticeExpired = (data?.notices ?? []).some(
+    (n) => n.deadlineMs != null && n.deadlineMs <= nowMs
+  );
+  const latestNotice = data?.notices.length ? data.notices[data.notices.length - 1] : null;
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <main className="max-w-4xl mx-auto px-4 py-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <Link href="/admin/outstanding" className="text-sm text-slate-600 hover:underline">
+            ← Outstanding loans
+          </Link>
+          {data && (
+            <span className="inline-flex items-center rounded-full px-2 py-0.5 text-xs border bg-slate-50 text-slate-700">
+              {repossessionLabel(data.notices, data.items)}
+            </span>
+          )}
+        </div>
+
+        {isLoading && <div className="text-slate-600">Loading…</div>}
+        {(error || err) && (
+          <div className="text-sm text-rose-600">{err ?? (error as Error).message}</div>
+        )}
+
+        {data && (
+          <>
+            <section className="rounded-2xl border bg-white p-4">
+              <h1 className="text-lg font-semibold text-slate-900">
+                Repossession · {data.loan.borrowerName}
+              </h1>
+              <div className="text-xs text-slate-600">
+                {data.loan.mobile || "—"} · Loan {data.loan.id}
+              </div>
+              <dl className="mt-3 grid grid-cols-2 gap-y-1 text-sm sm:grid-cols-4">
+                <dt className="text-slate-500">Status</dt>
+                <dd className="capitalize">{data.loan.status.replace("_", " ")}</dd>
+                <dt className="text-slate-500">Balance</dt>
+                <dd className="tabular-nums">MWK {money(data.loan.balance)}</dd>
+                {data.loan.writtenOffAmount > 0 && (
+                  <>
+                    <dt className="text-slate-500">Written off</dt>
+                    <dd className="tabular-nums">MWK {money(data.loan.writtenOffAmount)}</dd>
+                    <dt className="text-slate-500">Recovered</dt>
+                    <dd className="tabular-nums">MWK {money(data.loan.recoveredAmount)}</dd>
+                  </>
+                )}
+                <dt className="text-slate-500">Customer credit</dt>
+                <dd className="tabular-nums">MWK {money(data.loan.creditBalance)}</dd>
+              </dl>
+              {data.loan.creditBalance > 0 && can("payments:record") && (
+                <div className="mt-3">
+                  <StepForm
+                    label="Refund credit"
+                    disabled={busy}
+                    fields={[
+                      {
+                        key: "amount",
+                        placeholder: "Amount",
+                        type: "number",
+                        initial: String(data.loan.creditBalance),
+                      },
+                      {
+                        key: "method",
+                        placeholder: "Method",
+                        options: PAYMENT_METHODS.map((m) => [m, PAYMENT_METHOD_LABELS[m]]),
+                        initial: "cash",
+                      },
+                      { key: "reference", placeholder: "Reference (optional)" },
+                      { key: "note", placeholder: "Note (optional)" },
+                    ]}
+                    onSave={refund}
+                  />
+                </div>
+              )}
+            </section>
+
+            <section className="rounded-2xl border bg-white p-4">
+              <div className="flex items-center justify-between">
+                <h2 className="text-sm font-semibold text-slate-800">Demand notices</h2>
+                {manage && (
+                  <StepForm
+                    label="Issue demand notice"
+                    disabled={busy}
+                    fields={[
+                      {
+                        key: "deadline",
+                        placeholder: "Pay by",
+                        type: "date",
+                        initial: isoDaysAhead(DEFAULT_DEMAND_NOTICE_DAYS),
+                      },
+                      { key: "note", placeholder: "Note (optional)" },
+                    ]}
+                    onSave={(f) =>
+                      run(() =>
+                        apiSend(
+                          `/api/admin/loans/${encodeURIComponent(loanId)}/demand-notice`,
+                          "POST",
+                          f
+                        )
+                      )
+                    }
+                  />
+                )}
+              </div>
+              {!data.notices.length && (
+                <div className="mt-2 text-sm text-slate-500">No demand notice issued yet.</div>
+              )}
+              {data.notices.length > 0 && (
+                <table className="mt-2 w-full text-sm">
+                  <thead className="text-slate-600">
+                    <tr>
+                      <th className="text-left p-2">Issued</th>
+                      <th className="text-left p-2">Pay by</th>
+                      <th className="text-left p-2">Note</th>
+                      <th className="p-2" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.notices.map((n, i) => (
+                      <tr key={i} className="border-t">
+                        <td className="p-2">
+                          {fmtDate(n.issuedAtMs)}
+                          <div className="text-xs text-slate-500">{n.issuedBy || "—"}</div>
+                        </td>
+                        <td className="p-2">
+                          {fmtDate(n.deadlineMs)}
+                          {n.deadlineMs != null && n.deadlineMs <= nowMs && (
+                            <div className="text-xs text-rose-600">expired</div>
+                          )}
+                        </td>
+                        <td className="p-2">{n.note || "—"}</td>
+                        <td className="p-2 text-right">
+                          {can("clients:notify") && n === latestNotice && (
+                            <button
+                              onClick={() => setEmailNotice(n)}
+                              className="rounded-lg border px-2 py-1 text-xs hover:bg-slate-50"
+                            >
+                              Email
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </section>
+
+            {!data.items.length && (
+              <div className="text-sm text-slate-500">No collateral registered for this loan.</div>
+            )}
+            {data.items.map((c) => (
+              <ItemCard
+                key={c.id}
+                item={c}
+                loanId={loanId}
+                busy={busy}
+                canSeize={manage && noticeExpired}
+                manage={manage}
+                sell={can("collateral:sell")}
+                onStep={(path, body) => step(c.id, path, body)}
+              />
+            ))}
+          </>
+        )}
+
+        {emailNotice && data && (
+          <NotifyEmailModal
+            onClose={() => setEmailNotice(null)}
+            defaultToEmail={data.loan.email || ""}
+            defaultToName={data.loan.borrowerName === "—" ? "" : data.loan.borrowerName}
+            defaultSubject="Demand notice: your ESSA loan"
+            defaultMessage={noticeMessage(data, emailNotice)}
+          />
+        )}
+      </main>
+    </div>
+  );
+}
+
+function ItemCard({
+  item: c,
+  loanId,
+  busy,
+  canSeize,
+  manage,
+  sell,
+  onStep,
+}: {
+  item: CollateralItem;
+  loanId: string;
+  busy: boolean;
+  canSeize: boolean;
+  manage: boolean;
+  sell: boolean;
+  onStep: (path: string, body: Record<string, unknown>) => Promise<boolean>;
+}) {
+  const r = c.repossession;
+  const reached = itemStep(c);
+  const repossessed = c.status === "repossessed";
+
+  return (
+    <section className="rounded-2xl border bg-white p-4">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <div className="font-medium text-slate-900">{c.description}</div>
+          <div className="text-xs text-slate-500">
+            {COLLATERAL_CATEGORY_LABELS[c.category]}
+            {c.serialNumber ? ` · ${c.serialNumber}` : ""}
+            {c.valuation != null ? ` · valued MWK ${money(c.valuation)}` : ""}
+          </div>
+        </div>
+        <span className="inline-flex items-center rounded-full px-2 py-0.5 text-xs border bg-slate-50 text-slate-700">
+          {COLLATERAL_STATUS_LABELS[c.status]}
+          {reached ? ` · ${REPOSSESSION_STEP_LABELS[reached]}` : ""}
+        </span>
+      </div>
+
+      {r && (
+        <dl className="mt-3 grid grid-cols-[8rem_1fr] gap-y-1 text-sm">
+          <dt className="text-slate-500">Seized</dt>
+          <dd>
+            {fmtDate(r.seizedAtMs)} by {r.seizedBy || "—"}
+            {r.seizurePhotos.map((p, i) => (
+              <a key={p} href={imageSrc(p)} target="_blank" className="ml-2 text-xs underline">
+                photo {i + 1}
+              </a>
+            ))}
+          </dd>
+          <dt className="text-slate-500">Storage</dt>
+          <dd>
+            {r.storageLocation ? `${r.storageLocation} (since ${fmtDate(r.storedAtMs)})` : "—"}
+          </dd>
+          <dt className="text-slate-500">Valuation</dt>
+          <dd>
+            {r.valuedAtMs
+              ? `MWK ${money(c.valuation)} on ${fmtDate(r.valuedAtMs)} by ${r.valuedBy || "—"}`
+              : "—"}
+          </dd>
+          <dt className="text-slate-500">Sale</dt>
+          <dd>
+            {r.sale ? (
+              <>
+                MWK {money(r.sale.amount)} to {r.sale.buyer} on {fmtDate(r.sale.saleDateMs)}
+                <div className="text-xs text-slate-500">
+                  MWK {money(r.sale.applied)} to the loan
+                  {r.sale.surplus > 0 ? ` · MWK ${money(r.sale.surplus)} surplus to credit` : ""}
+                  {r.sale.receiptNo && r.sale.paymentId && (
+                    <>
+                      {" · "}
+                      <Link
+                        href={`/admin/receipts/${encodeURIComponent(loanId)}/${encodeURIComponent(
+                          r.sale.paymentId
+                        )}`}
+                        target="_blank"
+                        className="underline"
+                      >
+                        receipt {r.sale.receiptNo}
+                      </Link>
+                    </>
+                  )}
+                </div>
+              </>
+            ) : (
+              "—"
+            )}
+          </dd>
+        </dl>
+      )}
+
+      <div className="mt-3 flex flex-wrap gap-2">
+        {manage && (c.status === "pledged" || c.status === "held") && (
+          <StepForm
+            label="Record seizure"
+            disabled={busy || !canSeize}
+            title={canSeize ? undefined : "Needs a demand notice whose deadline has passed"}
+            fields={[
+              { key: "seizedAt", placeholder: "Seized on", type: "date", initial: isoDaysAhead(0) },
+              { key: "officer", placeholder: "Officer" },
+              { key: "photo", placeholder: "Photo URL", type: "url" },
+              { key: "storageLocation", placeholder: "Storage location (optional)" },
+              { key: "note", placeholder: "Note (optional)" },
+            ]}
+            onSave={({ photo, ...f }) =>
+              onStep("seize", { ...f, photos: photo ? [photo] : [] })
+            }
+          />
+        )}
+        {manage && repossessed && (
+          <StepForm
+            label={r?.storageLocation ? "Move storage" : "Record storage"}
+            disabled={busy}
+            fields={[{ key: "location", placeholder: "Storage location", initial: r?.storageLocation ?? "" }]}
+            onSave={(f) => onStep("store", f)}
+          />
+        )}
+        {manage && repossessed && (
+          <StepForm
+            label={r?.valuedAtMs ? "Revalue" : "Record valuation"}
+            disabled={busy}
+            fields={[
+              { key: "valuation", placeholder: "Valuation", type: "number" },
+              { key: "valuer", placeholder: "Valuer" },
+              { key: "valuationDate", placeholder: "Valued on", type: "date", initial: isoDaysAhead(0) },
+            ]}
+            onSave={(f) => onStep("value", f)}
+          />
+        )}
+        {sell && repossessed && (
+          <StepForm
+            label="Record sale"
+            disabled={busy || !r?.valuedAtMs}
+            title={r?.valuedAtMs ? undefined : "Record a valuation first"}
+            fields={[
+              { key: "amount", placeholder: "Sale amount", type: "number" },
+              { key: "buyer", placeholder: "Buyer" },
+              { key: "saleDate", placeholder: "Sold on", type: "date", initial: isoDaysAhead(0) },
+              {
+                key: "method",
+                placeholder: "Method",
+                options: PAYMENT_METHODS.map((m) => [m, PAYMENT_METHOD_LABELS[m]]),
+                initial: "cash",
+              },
+              { key: "reference", placeholder: "Reference (optional)" },
+              { key: "note", placeholder: "Note (optional)" },
+            ]}
+            onSave={(f) => onStep("sell", f)}
+          />
+        )}
+      </div>
+    </section>
+  );
+}
+
+type Field = {
+  key: string;
+  placeholder: string;
+  type?: "text" | "number" | "date" | "url";
+  initial?: string;
+  options?: [value: string, label: string][];
+};
+
+/** A button that opens into a row of inputs; the form stays open until Save succeeds. */
+function StepForm({
+  label,
+  fields,
+  disabled,
+  title,
+  onSave,
+}: {
+  label: string;
+  fields: Field[];
+  disabled?: boolean;
+  title?: string;
+  onSave: (values: Record<string, string>) => Promise<boolean>;
+}) {
+  const initial = () => Object.fromEntries(fields.map((f) => [f.key, f.initial ?? ""]));
+  const [open, setOpen] = useState(false);
+  const [values, setValues] = useState<Record<string, string>>(initial);
+
+  async function handleSave() {
+    if (await onSave(values)) {
+      setOpen(false);
+      setValues(initial());
+    }
+  }
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        disabled={disabled}
+        title={title}
+        className="rounded-lg border bg-white px-2.5 py-1.5 text-xs hover:bg-slate-50 disabled:opacity-60"
+      >
+        {label}
+      </button>
+    );
+  }
+  return (
+    <div className="flex w-full flex-wrap items-center gap-2 rounded-lg border bg-slate-50 p-2">
+      <span className="text-xs font-medium text-slate-700">{label}</span>
+      {fields.map((f) =>
+        f.options ? (
+          <select
+            key={f.key}
+            value={values[f.key]}
+            onChange={(e) => setValues((v) => ({ ...v, [f.key]: e.target.value }))}
+            className="rounded-lg border px-2 py-1.5 text-xs"
+            title={f.placeholder}
+          >
+            {f.options.map(([value, text]) => (
+              <option key={value} value={value}>
+                {text}
+              </option>
+            ))}
+          </select>
+        ) : (
+          <input
+            key={f.key}
+            type={f.type ?? "text"}
+            inputMode={f.type === "number" ? "decimal" : undefined}
+            placeholder={f.placeholder}
+            title={f.placeholder}
+            value={values[f.key]}
+            onChange={(e) => setValues((v) => ({ ...v, [f.key]: e.target.value }))}
+            className="rounded-lg border px-2 py-1.5 text-xs w-36"
+          />
+        )
+      )}
+      <button
+        onClick={handleSave}
+        disabled={disabled}
+        className="rounded-lg bg-slate-900 text-white px-2.5 py-1.5 text-xs hover:bg-black disabled:opacity-60"
+      >
+        Save
+      </button>
+      <button
+        onClick={() => setOpen(false)}
+        className="rounded-lg border px-2.5 py-1.5 text-xs hover:bg-slate-50"
+      >
+        Cancel
+      </button>
+    </div>
+  );
+}
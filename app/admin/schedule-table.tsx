@@ -0,0 +1,76 @@
+// app/admin/schedule-table.tsx
+"use client";
+
+import { scheduleTotals, type Installment } from "../lib/schedule";
+
+function money(n: number) {
+  try {
+    return new Intl.NumberFormat(undefined, { maximumFractionDigits: 2 }).format(n);
+  } catch {
+    return String(n);
+  }
+}
+
+/** Repayment schedule rows (LoanCard, LoanPreviewModal). */
+export function ScheduleTable({
+  rows,
+  projected,
+}: {
+  rows: Installment[];
+  /** Not stored on the loan: principal only, spread over its period. */
+  projected?: boolean;
+}) {
+  if (!rows.length) {
+    return <div className="text-sm text-slate-600">No schedule (missing amount, period or start date).</div>;
+  }
+  const t = scheduleTotals(rows);
+  return (
+    <div>
+      {projected && (
+        <div className="mb-1 text-xs text-amber-700">
+          Projected — this loan predates stored schedules; principal only, as no interest was booked.
+        </div>
+      )}
+      <div className="max-h-72 overflow-auto rounded-lg border bg-white">
+        <table className="w-full text-sm tabular-nums">
+          <thead className="sticky top-0 bg-slate-50 text-slate-600">
+            <tr>
+              <th className="text-left font-medium p-2">#</th>
+              <th className="text-left font-medium p-2">Due</th>
+              <th className="text-right font-medium p-2">Principal</th>
+              <th className="text-right font-medium p-2">Interest</th>
+              <th className="text-right font-medium p-2">Fees</th>
+              <th className="text-right font-medium p-2">Installment</th>
+              <th className="text-right font-medium p-2">Balance</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((r) => (
+              <tr key={r.n} className="border-t">
+                <td className="p-2">{r.n}</td>
+                <td className="p-2">{new Date(r.dueMs).toLocaleDateString()}</td>
+                <td className="p-2 text-right">{money(r.principal)}</td>
+                <td className="p-2 text-right">{money(r.interest)}</td>
+                <td className="p-2 text-right">{money(r.fees)}</td>
+                <td className="p-2 text-right font-medium">{money(r.total)}</td>
+                <td className="p-2 text-right">{money(r.balance)}</td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot className="bg-slate-50 font-medium">
+            <tr className="border-t">
+              <td className="p-2" colSpan={2}>
+                Total (MWK)
+              </td>
+              <td className="p-2 text-right">{money(t.principal)}</td>
+              <td className="p-2 text-right">{money(t.interest)}</td>
+              <td className="p-2 text-right">{money(t.fees)}</td>
+              <td className="p-2 text-right">{money(t.total)}</td>
+              <td className="p-2" />
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+    </div>
+  );
+}
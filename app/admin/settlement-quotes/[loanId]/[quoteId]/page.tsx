@@ -0,0 +1,115 @@
+// app/admin/settlement-quotes/[loanId]/[quoteId]/page.tsx
+"use client";
+
+import useSWR from "swr";
+import { useParams } from "next/navigation";
+import { apiGet } from "@/app/lib/api-client";
+import { settlementLines, settlementQuoteUrl, type SettlementQuote } from "@/app/lib/settlement";
+
+function money(n?: number | null) {
+  return Number(n || 0).toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+}
+
+function fmtDate(ms?: number | null) {
+  if (!ms) return "—";
+  const d = new Date(ms);
+  return isNaN(+d) ? "—" : d.toLocaleDateString();
+}
+
+export default function SettlementQuotePage() {
+  const { loanId, quoteId } = useParams<{ loanId: string; quoteId: string }>();
+  const { data: q, error, isLoading } = useSWR<SettlementQuote>(
+    settlementQuoteUrl(loanId, quoteId),
+    apiGet
+  );
+
+  return (
+    <div className="min-h-screen bg-slate-50 print:bg-white">
+      <div className="max-w-md mx-auto px-4 py-6 print:p-0 print:max-w-none">
+        <div className="mb-4 flex items-center justify-end gap-2 print:hidden">
+          <button
+            onClick={() => window.print()}
+            disabled={!q}
+            className="rounded-lg bg-slate-900 text-white px-3 py-1.5 text-sm hover:bg-black disabled:opacity-60"
+          >
+            Print
+          </button>
+          <button
+            onClick={() => window.close()}
+            className="rounded-lg border bg-white px-3 py-1.5 text-sm hover:bg-slate-50"
+          >
+            Close
+          </button>
+        </div>
+
+        {isLoading && <div className="text-slate-600">Loading…</div>}
+        {error && <div className="text-rose-600">{(error as Error).message}</div>}
+
+        {q && (
+          <section className="rounded-2xl border bg-white p-6 text-sm text-slate-900 print:border-0 print:rounded-none">
+            <div className="flex items-start justify-between">
+              <div>
+                <div className="text-lg font-bold">ESSA Loans</div>
+                <div className="text-slate-500">Early settlement quote</div>
+              </div>
+              <div className="text-right">
+                <div className="text-slate-500">Issued</div>
+                <div className="font-semibold">{fmtDate(q.createdAtMs)}</div>
+              </div>
+            </div>
+
+            <dl className="mt-4 grid grid-cols-2 gap-y-1 border-t pt-3">
+              <dt className="text-slate-500">Borrower</dt>
+              <dd className="text-right">{q.borrowerName}</dd>
+              {q.mobile && (
+                <>
+                  <dt className="text-slate-500">Mobile</dt>
+                  <dd className="text-right">{q.mobile}</dd>
+                </>
+              )}
+              <dt className="text-slate-500">Loan ID</dt>
+              <dd className="text-right break-all">{q.loanId}</dd>
+              {q.loanType && (
+                <>
+                  <dt className="text-slate-500">Loan type</dt>
+                  <dd className="text-right capitalize">{q.loanType}</dd>
+                </>
+              )}
+              <dt className="text-slate-500">Settlement date</dt>
+              <dd className="text-right">{fmtDate(q.asOfMs)}</dd>
+            </dl>
+
+            <dl className="mt-3 grid grid-cols-2 gap-y-1 border-t pt-3">
+              {settlementLines(q).map((l) => (
+                <div key={l.label} className="contents">
+                  <dt className="text-slate-500">{l.label}</dt>
+                  <dd className="text-right tabular-nums">
+                    {l.sign < 0 ? "− " : ""}MWK {money(l.amount)}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+
+            <dl className="mt-3 grid grid-cols-2 gap-y-1 border-t pt-3">
+              <dt className="font-semibold">Amount to settle</dt>
+              <dd className="text-right font-semibold tabular-nums">MWK {money(q.payoff)}</dd>
+              <dt className="text-slate-500">Valid until</dt>
+              <dd className="text-right">{fmtDate(q.expiresAtMs)}</dd>
+              <dt className="text-slate-500">Prepared by</dt>
+              <dd className="text-right">{q.createdBy ?? "—"}</dd>
+            </dl>
+
+            <p className="mt-4 text-xs text-slate-500">
+              This quote assumes no other payments are made and no further charges fall due
+              before settlement. Paying after the expiry date needs a new quote.
+            </p>
+            <div className="mt-6 text-xs text-slate-400">Quote {q.quoteId}</div>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,287 @@
+// app/admin/staff/page.tsx
+"use client";
+
+import useSWR from "swr";
+import Link from "next/link";
+import { useState } from "react";
+import { apiGet, apiSend } from "@/app/lib/api-client";
+import { ROLES, ROLE_LABELS, isRole, type Role } from "@/app/lib/roles";
+import { useStaff } from "@/app/lib/use-staff";
+
+type StaffAccount = {
+  uid: string;
+  email: string | null;
+  displayName: string | null;
+  role: Role | null;
+  disabled: boolean;
+  createdAt: string | null;
+  lastSignInAt: string | null;
+};
+
+type StaffResp = { items: StaffAccount[]; updatedAt: number };
+
+function fmtDateTime(s?: string | null) {
+  if (!s) return "—";
+  const d = new Date(s);
+  return isNaN(+d) ? "—" : d.toLocaleString();
+}
+
+export default function StaffManagementPage() {
+  const { staff: me } = useStaff();
+  const { data, isLoading, error, mutate } = useSWR<StaffResp>(
+    "/api/admin/staff",
+    apiGet
+  );
+  const [showAll, setShowAll] = useState(false);
+  const [busyUid, setBusyUid] = useState<string | null>(null);
+  const [feedback, setFeedback] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  const items = (data?.items || []).filter((u) => showAll || u.role);
+
+  async function update(u: StaffAccount, patch: { role?: Role | null; disabled?: boolean }) {
+    try {
+      setBusyUid(u.uid);
+      setFeedback(null);
+      await apiSend(`/api/admin/staff/${u.uid}`, "PATCH", patch);
+      await mutate();
+      setFeedback({ type: "success", text: `Updated ${u.email || u.uid}. Their sessions were signed out.` });
+    } catch (e: unknown) {
+      setFeedback({ type: "error", text: e instanceof Error ? e.message : String(e) });
+    } finally {
+      setBusyUid(null);
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <header className="sticky top-0 z-20 border-b bg-white/90 backdrop-blur supports-[backdrop-filter]:bg-white/60">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 h-14 flex items-center justify-between">
+          <h1 className="text-base sm:text-lg font-semibold text-slate-900">
+            Staff &amp; Roles
+          </h1>
+          <Link
+            href="/admin"
+            className="rounded-lg border px-3 py-1.5 text-sm hover:bg-slate-50"
+          >
+            Back to Dashboard
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-4 sm:px-6 py-6 grid gap-4">
+        {feedback && (
+          <div
+            className={`rounded-md border px-3 py-2 text-sm ${
+              feedback.type === "success"
+                ? "bg-emerald-50 border-emerald-200 text-emerald-800"
+                : "bg-rose-50 border-rose-200 text-rose-800"
+            }`}
+          >
+            {feedback.text}
+          </div>
+        )}
+
+        <InviteForm onInvited={() => mutate()} />
+
+        <section className="rounded-2xl border bg-white overflow-hidden">
+          <div className="p-4 flex items-center justify-between">
+            <h2 className="text-base font-semibold text-slate-900">Accounts</h2>
+            <div className="flex items-center gap-2">
+              <label className="flex items-center gap-1 text-xs text-slate-600">
+                <input
+                  type="checkbox"
+                  checked={showAll}
+                  onChange={(e) => setShowAll(e.target.checked)}
+                />
+                Include users without a role
+              </label>
+              <button
+                onClick={() => mutate()}
+                className="rounded-lg border px-3 py-1.5 text-sm hover:bg-slate-50"
+              >
+                Refresh
+              </button>
+            </div>
+          </div>
+          <div className="overflow-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 text-slate-600">
+                <tr>
+                  {["User", "Role", "Status", "Last sign-in", ""].map((h) => (
+                    <th key={h} className="text-left font-medium p-3">{h}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {isLoading && (
+                  <tr><td className="p-6 text-center text-slate-500" colSpan={5}>Loading…</td></tr>
+                )}
+                {error && (
+                  <tr><td className="p-6 text-center text-rose-600" colSpan={5}>{String(error.message || "Error")}</td></tr>
+                )}
+                {!isLoading && !error && items.length === 0 && (
+                  <tr><td className="p-6 text-center text-slate-500" colSpan={5}>No staff accounts.</td></tr>
+                )}
+                {items.map((u) => {
+                  const isMe = u.uid === me?.uid;
+                  const busy = busyUid === u.uid;
+                  return (
+                    <tr key={u.uid} className="border-t">
+                      <td className="p-3">
+                        <div className="font-medium text-slate-900">{u.displayName || u.email || u.uid}</div>
+                        <div className="text-xs text-slate-500">{u.email || "—"}</div>
+                      </td>
+                      <td className="p-3">
+                        <select
+                          value={u.role ?? ""}
+                          disabled={busy || isMe}
+                          onChange={(e) => {
+                            const next = e.target.value;
+                            update(u, { role: isRole(next) ? next : null });
+                          }}
+                          className="rounded-lg border px-2 py-1.5 text-xs"
+                        >
+                          <option value="">No access</option>
+                          {ROLES.map((r) => (
+                            <option key={r} value={r}>{ROLE_LABELS[r]}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="p-3">
+                        <span
+                          className={`inline-flex items-center rounded-full border px-2 py-0.5 text-xs ${
+                            u.disabled
+                              ? "bg-rose-50 text-rose-700 border-rose-200"
+                              : "bg-emerald-50 text-emerald-700 border-emerald-200"
+                          }`}
+                        >
+                          {u.disabled ? "Disabled" : "Active"}
+                        </span>
+                      </td>
+                      <td className="p-3 text-slate-700">{fmtDateTime(u.lastSignInAt)}</td>
+                      <td className="p-3 text-right">
+                        {!isMe && (
+                          <button
+                            disabled={busy}
+                            onClick={() => {
+                              const verb = u.disabled ? "Enable" : "Disable";
+                              if (!confirm(`${verb} ${u.email || u.uid}?`)) return;
+                              update(u, { disabled: !u.disabled });
+                            }}
+                            className={`rounded-lg px-2.5 py-1.5 text-xs disabled:opacity-60 ${
+                              u.disabled
+                                ? "border hover:bg-slate-50"
+                                : "bg-rose-600 text-white hover:bg-rose-700"
+                            }`}
+                          >
+                            {u.disabled ? "Enable" : "Disable"}
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      </main>
+    </div>
+  );
+}
+
+function InviteForm({ onInvited }: { onInvited: () => void }) {
+  const [email, setEmail] = useState("");
+  const [displayName, setDisplayName] = useState("");
+  const [role, setRole] = useState<Role>("viewer");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [inviteLink, setInviteLink] = useState<string | null>(null);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError(null);
+    setInviteLink(null);
+    try {
+      setBusy(true);
+      const res = await apiSend<{ inviteLink: string }>("/api/admin/staff", "POST", {
+        email,
+        displayName,
+        role,
+      });
+      setInviteLink(res.inviteLink);
+      setEmail("");
+      setDisplayName("");
+      onInvited();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <section className="rounded-2xl border bg-white p-4">
+      <h2 className="text-base font-semibold text-slate-900">Invite staff</h2>
+      <form onSubmit={handleSubmit} className="mt-3 flex flex-wrap items-end gap-2">
+        <label className="grid gap-1 text-sm">
+          <span className="text-slate-700">Email</span>
+          <input
+            type="email"
+            required
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className="rounded-lg border px-3 py-1.5 w-64"
+            placeholder="someone@essa-loans.com"
+          />
+        </label>
+        <label className="grid gap-1 text-sm">
+          <span className="text-slate-700">Name (optional)</span>
+          <input
+            type="text"
+            value={displayName}
+            onChange={(e) => setDisplayName(e.target.value)}
+            className="rounded-lg border px-3 py-1.5 w-48"
+          />
+        </label>
+        <label className="grid gap-1 text-sm">
+          <span className="text-slate-700">Role</span>
+          <select
+            value={role}
+            onChange={(e) => isRole(e.target.value) && setRole(e.target.value)}
+            className="rounded-lg border px-2 py-1.5"
+          >
+            {ROLES.map((r) => (
+              <option key={r} value={r}>{ROLE_LABELS[r]}</option>
+            ))}
+          </select>
+        </label>
+        <button
+          type="submit"
+          disabled={busy}
+          className="rounded-lg bg-blue-600 text-white px-3 py-1.5 text-sm hover:bg-blue-700 disabled:opacity-60"
+        >
+          {busy ? "Inviting…" : "Invite"}
+        </button>
+      </form>
+      {error && <div className="mt-2 text-sm text-rose-600">{error}</div>}
+      {inviteLink && (
+        <div className="mt-3 rounded-lg border bg-slate-50 p-3 text-sm">
+          <div className="text-slate-700">
+            Send this password-setup link to the new staff member:
+          </div>
+          <div className="mt-1 flex items-center gap-2">
+            <input readOnly value={inviteLink} className="flex-1 rounded-lg border px-2 py-1 text-xs" />
+            <button
+              type="button"
+              onClick={() => navigator.clipboard.writeText(inviteLink)}
+              className="rounded-lg border px-2.5 py-1 text-xs hover:bg-slate-50"
+            >
+              Copy
+            </button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,73 @@
+// app/api/admin/audit/route.ts
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { adminDb } from "@/app/lib/firebase-admin";
+import { withAdmin } from "@/app/lib/auth-server";
+import { AUDIT_COLLECTION } from "@/app/lib/audit";
+
+type HasToMillis = { toMillis?: () => number };
+
+function parseDate(v: string | null, endOfDay = false): Date | null {
+  if (!v) return null;
+  const d = new Date(v);
+  if (isNaN(+d)) return null;
+  if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(v)) d.setUTCHours(23, 59, 59, 999);
+  return d;
+}
+
+/**
+ * GET ?actor=<email|uid>&loanId=&from=YYYY-MM-DD&to=YYYY-MM-DD&limit=&cursor=<entryId>
+ * Newest first. Composite indexes are declared in firestore.indexes.json.
+ */
+export const GET = withAdmin(async (req: NextRequest) => {
+  try {
+    const { searchParams } = new URL(req.url);
+    const actor = (searchParams.get("actor") || "").trim();
+    const loanId = (searchParams.get("loanId") || "").trim();
+    const from = parseDate(searchParams.get("from"));
+    const to = parseDate(searchParams.get("to"), true);
+    const cursor = searchParams.get("cursor");
+    const limit = Math.max(1, Math.min(200, Number(searchParams.get("limit") || 100)));
+
+    const col = adminDb().collection(AUDIT_COLLECTION);
+    let q: FirebaseFirestore.Query<FirebaseFirestore.DocumentData> = col;
+    if (actor) q = q.where(actor.includes("@") ? "actorEmail" : "actorUid", "==", actor);
+    if (loanId) q = q.where("loanId", "==", loanId);
+    if (from) q = q.where("at", ">=", from);
+    if (to) q = q.where("at", "<=", to);
+    q = q.orderBy("at", "desc");
+    if (cursor) {
+      const last = await col.doc(cursor).get();
+      if (last.exists) q = q.startAfter(last);
+    }
+
+    const snap = await q.limit(limit).get();
+    const items = snap.docs.map((d) => {
+      const v = d.data();
+      return {
+        id: d.id,
+        actorUid: v.actorUid ?? null,
+        actorEmail: v.actorEmail ?? null,
+        actorRole: v.actorRole ?? null,
+        action: v.action,
+        targetPath: v.targetPath,
+        loanId: v.loanId ?? null,
+        changes: Array.isArray(v.changes) ? v.changes : [],
+        changesOmitted: Number(v.changesOmitted ?? 0),
+        note: v.note ?? null,
+        at: (v.at as HasToMillis | null)?.toMillis?.() ?? null,
+      };
+    });
+
+    return NextResponse.json({
+      items,
+      nextCursor: items.length === limit ? items[items.length - 1].id : null,
+      updatedAt: Date.now(),
+    });
+  } catch (err) {
+    console.error("[/api/admin/audit] list failed:", err);
+    return NextResponse.json({ error: "internal-error" }, { status: 500 });
+  }
+}, "audit:view");
+
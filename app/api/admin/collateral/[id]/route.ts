@@ -0,0 +1,26 @@
+// app/api/admin/collateral/[id]/route.ts
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { withAdmin } from "@/app/lib/auth-server";
+import { loanErrorResponse } from "@/app/lib/loans-server";
+import { updateCollateral } from "@/app/lib/collateral-server";
+
+/**
+ * PATCH { category?, description?, serialNumber?, valuation?,
+ * valuationDate?, photos?, custodian? } — edits an item's details.
+ * Status changes go through ./status.
+ */
+export const PATCH = withAdmin(async (
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+  user
+) => {
+  const { id } = await params;
+  const body = (await req.json().catch(() => null)) as Record<string, unknown> | null;
+  try {
+    return NextResponse.json(await updateCollateral(user, id, body ?? {}));
+  } catch (err) {
+    return loanErrorResponse("[/api/admin/collateral/[id]] failed:", err);
+  }
+}, "collateral:manage");
@@ -0,0 +1,29 @@
+// app/api/admin/collateral/[id]/seize/route.ts
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { withAdmin } from "@/app/lib/auth-server";
+import { loanErrorResponse } from "@/app/lib/loans-server";
+import { recordSeizure } from "@/app/lib/repossession-server";
+
+/** POST { officer, seizedAt?, photos?, storageLocation?, note? } — repossesses the item. */
+export const POST = withAdmin(async (
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+  user
+) => {
+  const { id } = await params;
+  const body = (await req.json().catch(() => null)) as Record<string, unknown> | null;
+  try {
+    const item = await recordSeizure(user, id, {
+      officer: body?.officer,
+      seizedAt: body?.seizedAt,
+      photos: body?.photos,
+      storageLocation: body?.storageLocation,
+      note: body?.note,
+    });
+    return NextResponse.json(item);
+  } catch (err) {
+    return loanErrorResponse("[/api/admin/collateral/[id]/seize] failed:", err);
+  }
+}, "collateral:manage");
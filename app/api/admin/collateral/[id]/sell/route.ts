@@ -0,0 +1,34 @@
+// app/api/admin/collateral/[id]/sell/route.ts
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { withAdmin } from "@/app/lib/auth-server";
+import { loanErrorResponse } from "@/app/lib/loans-server";
+import { recordSale } from "@/app/lib/repossession-server";
+
+/**
+ * POST { amount, buyer, saleDate?, method?, reference?, note? } — records the
+ * sale; proceeds go against the loan and any surplus to customer credit.
+ * 201 when recorded, 200 with `duplicate: true` if the item was already sold.
+ */
+export const POST = withAdmin(async (
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+  user
+) => {
+  const { id } = await params;
+  const body = (await req.json().catch(() => null)) as Record<string, unknown> | null;
+  try {
+    const result = await recordSale(user, id, {
+      amount: body?.amount,
+      saleDate: body?.saleDate,
+      buyer: body?.buyer,
+      method: body?.method,
+      reference: body?.reference,
+      note: body?.note,
+    });
+    return NextResponse.json(result, { status: result.duplicate ? 200 : 201 });
+  } catch (err) {
+    return loanErrorResponse("[/api/admin/collateral/[id]/sell] failed:", err);
+  }
+}, "collateral:sell");
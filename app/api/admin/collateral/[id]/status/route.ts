@@ -0,0 +1,27 @@
+// app/api/admin/collateral/[id]/status/route.ts
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { withAdmin } from "@/app/lib/auth-server";
+import { loanErrorResponse } from "@/app/lib/loans-server";
+import { setCollateralStatus } from "@/app/lib/collateral-server";
+
+/** POST { status, note?, custodian? } — moves the item along its lifecycle. */
+export const POST = withAdmin(async (
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+  user
+) => {
+  const { id } = await params;
+  const body = (await req.json().catch(() => null)) as Record<string, unknown> | null;
+  try {
+    const item = await setCollateralStatus(user, id, {
+      status: body?.status,
+      note: body?.note,
+      custodian: body?.custodian,
+    });
+    return NextResponse.json(item);
+  } catch (err) {
+    return loanErrorResponse("[/api/admin/collateral/[id]/status] failed:", err);
+  }
+}, "collateral:manage");
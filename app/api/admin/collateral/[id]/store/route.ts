@@ -0,0 +1,25 @@
+// app/api/admin/collateral/[id]/store/route.ts
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { withAdmin } from "@/app/lib/auth-server";
+import { loanErrorResponse } from "@/app/lib/loans-server";
+import { recordStorage } from "@/app/lib/repossession-server";
+
+/** POST { location } — where the repossessed item is kept. */
+export const POST = withAdmin(async (
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+  user
+) => {
+  const { id } = await params;
+  const body = (await req.json().catch(() => null)) as Record<string, unknown> | null;
+  try {
+    const item = await recordStorage(user, id, {
+      location: body?.location,
+    });
+    return NextResponse.json(item);
+  } catch (err) {
+    return loanErrorResponse("[/api/admin/collateral/[id]/store] failed:", err);
+  }
+}, "collateral:manage");
@@ -0,0 +1,27 @@
+// app/api/admin/collateral/[id]/value/route.ts
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { withAdmin } from "@/app/lib/auth-server";
+import { loanErrorResponse } from "@/app/lib/loans-server";
+import { recordValuation } from "@/app/lib/repossession-server";
+
+/** POST { valuation, valuer, valuationDate? } — values the repossessed item for sale. */
+export const POST = withAdmin(async (
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+  user
+) => {
+  const { id } = await params;
+  const body = (await req.json().catch(() => null)) as Record<string, unknown> | null;
+  try {
+    const item = await recordValuation(user, id, {
+      valuation: body?.valuation,
+      valuationDate: body?.valuationDate,
+      valuer: body?.valuer,
+    });
+    return NextResponse.json(item);
+  } catch (err) {
+    return loanErrorResponse("[/api/admin/collateral/[id]/value] failed:", err);
+  }
+}, "collateral:manage");
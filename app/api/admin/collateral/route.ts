@@ -0,0 +1,35 @@
+// app/api/admin/collateral/route.ts
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { withAdmin } from "@/app/lib/auth-server";
+import { loanErrorResponse } from "@/app/lib/loans-server";
+import { createCollateral, listCollateral } from "@/app/lib/collateral-server";
+
+/** GET ?loanId=&status= → registry items, newest first. */
+export const GET = withAdmin(async (req: NextRequest) => {
+  const { searchParams } = new URL(req.url);
+  try {
+    const items = await listCollateral({
+      loanId: searchParams.get("loanId"),
+      status: searchParams.get("status"),
+    });
+    return NextResponse.json({ items });
+  } catch (err) {
+    return loanErrorResponse("[/api/admin/collateral] GET failed:", err);
+  }
+});
+
+/**
+ * POST { loanId, category, description, serialNumber?, valuation?,
+ * valuationDate?, photos?, custodian?, status? } — registers an item.
+ */
+export const POST = withAdmin(async (req: NextRequest, _ctx, user) => {
+  const body = (await req.json().catch(() => null)) as Record<string, unknown> | null;
+  try {
+    const item = await createCollateral(user, body ?? {});
+    return NextResponse.json(item, { status: 201 });
+  } catch (err) {
+    return loanErrorResponse("[/api/admin/collateral] POST failed:", err);
+  }
+}, "collateral:manage");
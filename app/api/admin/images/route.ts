@@ -0,0 +1,35 @@
+// app/api/admin/images/route.ts
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { withAdmin } from "@/app/lib/auth-server";
+import { loanErrorResponse } from "@/app/lib/loans-server";
+import { signedImageUrl, uploadCollateralPhoto } from "@/app/lib/images-server";
+
+/** GET ?path=&size=thumb → redirect to a signed URL for the stored image. */
+export const GET = withAdmin(async (req: NextRequest) => {
+  const { searchParams } = new URL(req.url);
+  try {
+    const url = await signedImageUrl(
+      searchParams.get("path") ?? "",
+      searchParams.get("size") === "thumb"
+    );
+    const res = NextResponse.redirect(url, 302);
+    // the signed URL lives 15 minutes; let the browser reuse it for a while
+    res.headers.set("Cache-Control", "private, max-age=600");
+    return res;
+  } catch (err) {
+    return loanErrorResponse("[/api/admin/images] GET failed:", err);
+  }
+});
+
+/** POST { data } (base64 or data URI) — stores a collateral photo; 201 with its ref. */
+export const POST = withAdmin(async (req: NextRequest) => {
+  const body = (await req.json().catch(() => null)) as Record<string, unknown> | null;
+  try {
+    const ref = await uploadCollateralPhoto(body?.data);
+    return NextResponse.json(ref, { status: 201 });
+  } catch (err) {
+    return loanErrorResponse("[/api/admin/images] POST failed:", err);
+  }
+}, "collateral:manage");
@@ -1,12 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { adminDb } from "@/app/lib/firebase-admin";
+import { withAdmin } from "@/app/lib/auth-server";
 
 export const runtime = "nodejs";
 
-export async function GET(
+export const GET = withAdmin(async (
   _req: NextRequest,
   { params }: { params: Promise<{ id: string }> } // <- params is a Promise now
-) {
+) => {
   const { id } = await params;
 
   if (!id) {
@@ -26,4 +27,4 @@ export async function GET(
     console.error("[/api/admin/kyc/[id]] failed:", err);
     return NextResponse.json({ error: "Server error" }, { status: 500 });
   }
-}
+});
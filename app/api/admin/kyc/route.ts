@@ -3,8 +3,9 @@ export const runtime = "nodejs";
 
 import { NextRequest, NextResponse } from "next/server";
 import { adminDb } from "@/app/lib/firebase-admin";
+import { withAdmin } from "@/app/lib/auth-server";
 
-export async function GET(req: NextRequest) {
+export const GET = withAdmin(async (req: NextRequest) => {
   function getErrorMessage(error: unknown): string | undefined {
   if (error instanceof Error) return error.message;
   if (typeof error === "string") return error;
@@ -73,4 +74,4 @@ export async function GET(req: NextRequest) {
     { status: 500 }
   );
 }
-}
+});
@@ -0,0 +1,16 @@
+// app/api/admin/ledger/reconcile/route.ts
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { withAdmin } from "@/app/lib/auth-server";
+import { reconcileLedgers } from "@/app/lib/ledger-server";
+
+/** GET → loans whose stored `currentBalance` disagrees with their ledger. */
+export const GET = withAdmin(async () => {
+  try {
+    return NextResponse.json(await reconcileLedgers());
+  } catch (err) {
+    console.error("[/api/admin/ledger/reconcile] failed:", err);
+    return NextResponse.json({ error: "internal-error" }, { status: 500 });
+  }
+}, "audit:view");
@@ -0,0 +1,26 @@
+// app/api/admin/loans/[id]/approve/route.ts
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { withAdmin } from "@/app/lib/auth-server";
+import { processLoan, loanErrorResponse } from "@/app/lib/loans-server";
+
+/**
+ * POST { display? } — approves the loan and moves it to processed_loans.
+ * 409 when its collateral coverage is under a blocking product minimum;
+ * under a warning minimum it goes ahead and `coverageWarning` says why.
+ */
+export const POST = withAdmin(async (
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+  user
+) => {
+  const { id } = await params;
+  const body = (await req.json().catch(() => null)) as Record<string, unknown> | null;
+  try {
+    const { coverage, coverageWarning } = await processLoan(user, id, "approved", body?.display ?? {});
+    return NextResponse.json({ ok: true, coverage, coverageWarning });
+  } catch (err) {
+    return loanErrorResponse("[/api/admin/loans/[id]/approve] failed:", err);
+  }
+}, "loans:process");
@@ -0,0 +1,20 @@
+// app/api/admin/loans/[id]/close/route.ts
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { withAdmin } from "@/app/lib/auth-server";
+import { closeLoan, loanErrorResponse } from "@/app/lib/loans-server";
+
+export const POST = withAdmin(async (
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+  user
+) => {
+  const { id } = await params;
+  try {
+    await closeLoan(user, id);
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    return loanErrorResponse("[/api/admin/loans/[id]/close] failed:", err);
+  }
+}, "loans:close");
@@ -0,0 +1,21 @@
+// app/api/admin/loans/[id]/decline/route.ts
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { withAdmin } from "@/app/lib/auth-server";
+import { processLoan, loanErrorResponse } from "@/app/lib/loans-server";
+
+export const POST = withAdmin(async (
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+  user
+) => {
+  const { id } = await params;
+  const body = (await req.json().catch(() => null)) as Record<string, unknown> | null;
+  try {
+    await processLoan(user, id, "declined", body?.display ?? {});
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    return loanErrorResponse("[/api/admin/loans/[id]/decline] failed:", err);
+  }
+}, "loans:process");
@@ -0,0 +1,26 @@
+// app/api/admin/loans/[id]/demand-notice/route.ts
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { withAdmin } from "@/app/lib/auth-server";
+import { loanErrorResponse } from "@/app/lib/loans-server";
+import { issueDemandNotice } from "@/app/lib/repossession-server";
+
+/** POST { deadline?, note? } — records a demand notice (deadline YYYY-MM-DD, default 14 days). */
+export const POST = withAdmin(async (
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+  user
+) => {
+  const { id } = await params;
+  const body = (await req.json().catch(() => null)) as Record<string, unknown> | null;
+  try {
+    const notice = await issueDemandNotice(user, id, {
+      deadline: body?.deadline,
+      note: body?.note,
+    });
+    return NextResponse.json(notice, { status: 201 });
+  } catch (err) {
+    return loanErrorResponse("[/api/admin/loans/[id]/demand-notice] failed:", err);
+  }
+}, "collateral:manage");
@@ -0,0 +1,31 @@
+// app/api/admin/loans/[id]/payments/[paymentId]/receipt/route.ts
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { withAdmin } from "@/app/lib/auth-server";
+import { loanErrorResponse } from "@/app/lib/loans-server";
+import { getReceipt, receiptPdf } from "@/app/lib/receipts-server";
+
+/** GET → receipt JSON; ?format=pdf → the receipt as a PDF download. */
+export const GET = withAdmin(async (
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; paymentId: string }> }
+) => {
+  const { id, paymentId } = await params;
+  try {
+    const receipt = await getReceipt(id, paymentId);
+    if (new URL(req.url).searchParams.get("format") !== "pdf") {
+      return NextResponse.json(receipt);
+    }
+    const bytes = await receiptPdf(receipt);
+    return new NextResponse(Buffer.from(bytes), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="receipt-${receipt.receiptNo ?? paymentId}.pdf"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (err) {
+    return loanErrorResponse("[/api/admin/loans/[id]/payments/[paymentId]/receipt] failed:", err);
+  }
+});
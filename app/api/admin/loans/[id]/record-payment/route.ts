@@ -0,0 +1,37 @@
+// app/api/admin/loans/[id]/record-payment/route.ts
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { withAdmin } from "@/app/lib/auth-server";
+import { recordPayment, loanErrorResponse } from "@/app/lib/loans-server";
+
+/**
+ * POST { amount, note?, idempotencyKey, overpayment?, method?, reference?, valueDate? }
+ * — 201 when posted, 200 with `duplicate: true` when the key was already
+ * used for this payment. `overpayment` is "next_installments" (default) or
+ * "credit"; `method` defaults to cash; `valueDate` (YYYY-MM-DD) to today.
+ * Paying exactly the payoff of a current settlement quote settles the loan
+ * (`settledQuoteId`).
+ */
+export const POST = withAdmin(async (
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+  user
+) => {
+  const { id } = await params;
+  const body = (await req.json().catch(() => null)) as Record<string, unknown> | null;
+  try {
+    const result = await recordPayment(user, id, {
+      amount: body?.amount,
+      note: body?.note,
+      idempotencyKey: body?.idempotencyKey,
+      overpayment: body?.overpayment,
+      method: body?.method,
+      reference: body?.reference,
+      valueDate: body?.valueDate,
+    });
+    return NextResponse.json(result, { status: result.duplicate ? 200 : 201 });
+  } catch (err) {
+    return loanErrorResponse("[/api/admin/loans/[id]/record-payment] failed:", err);
+  }
+}, "payments:record");
@@ -0,0 +1,33 @@
+// app/api/admin/loans/[id]/record-recovery/route.ts
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { withAdmin } from "@/app/lib/auth-server";
+import { loanErrorResponse, recordRecovery } from "@/app/lib/loans-server";
+
+/**
+ * POST { amount, note?, idempotencyKey, method?, reference?, valueDate? }
+ * — cash received on a written-off loan. 201 when posted, 200 with
+ * `duplicate: true` when the key was already used.
+ */
+export const POST = withAdmin(async (
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+  user
+) => {
+  const { id } = await params;
+  const body = (await req.json().catch(() => null)) as Record<string, unknown> | null;
+  try {
+    const result = await recordRecovery(user, id, {
+      amount: body?.amount,
+      note: body?.note,
+      idempotencyKey: body?.idempotencyKey,
+      method: body?.method,
+      reference: body?.reference,
+      valueDate: body?.valueDate,
+    });
+    return NextResponse.json(result, { status: result.duplicate ? 200 : 201 });
+  } catch (err) {
+    return loanErrorResponse("[/api/admin/loans/[id]/record-recovery] failed:", err);
+  }
+}, "payments:record");
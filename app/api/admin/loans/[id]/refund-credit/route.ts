@@ -0,0 +1,32 @@
+// app/api/admin/loans/[id]/refund-credit/route.ts
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { withAdmin } from "@/app/lib/auth-server";
+import { loanErrorResponse, refundCredit } from "@/app/lib/loans-server";
+
+/**
+ * POST { amount, idempotencyKey, method?, reference?, note? } — pays held
+ * customer credit back to the borrower. 201 when posted, 200 with
+ * `duplicate: true` when the key was already used.
+ */
+export const POST = withAdmin(async (
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+  user
+) => {
+  const { id } = await params;
+  const body = (await req.json().catch(() => null)) as Record<string, unknown> | null;
+  try {
+    const result = await refundCredit(user, id, {
+      amount: body?.amount,
+      idempotencyKey: body?.idempotencyKey,
+      method: body?.method,
+      reference: body?.reference,
+      note: body?.note,
+    });
+    return NextResponse.json(result, { status: result.duplicate ? 200 : 201 });
+  } catch (err) {
+    return loanErrorResponse("[/api/admin/loans/[id]/refund-credit] failed:", err);
+  }
+}, "payments:record");
@@ -0,0 +1,20 @@
+// app/api/admin/loans/[id]/repossession/route.ts
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { withAdmin } from "@/app/lib/auth-server";
+import { loanErrorResponse } from "@/app/lib/loans-server";
+import { getRepossession } from "@/app/lib/repossession-server";
+
+/** GET → the loan's demand notices and collateral, with each item's repossession steps. */
+export const GET = withAdmin(async (
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  const { id } = await params;
+  try {
+    return NextResponse.json(await getRepossession(id));
+  } catch (err) {
+    return loanErrorResponse("[/api/admin/loans/[id]/repossession] failed:", err);
+  }
+});
@@ -0,0 +1,30 @@
+// app/api/admin/loans/[id]/restructure/route.ts
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { withAdmin } from "@/app/lib/auth-server";
+import { loanErrorResponse, restructureLoan } from "@/app/lib/loans-server";
+
+/**
+ * POST { periods, frequency, capitalizeArrears?, reason } — reschedules
+ * the outstanding balance from today; returns the new schedule.
+ */
+export const POST = withAdmin(async (
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+  user
+) => {
+  const { id } = await params;
+  const body = (await req.json().catch(() => null)) as Record<string, unknown> | null;
+  try {
+    const result = await restructureLoan(user, id, {
+      periods: body?.periods,
+      frequency: body?.frequency,
+      capitalizeArrears: body?.capitalizeArrears,
+      reason: body?.reason,
+    });
+    return NextResponse.json(result);
+  } catch (err) {
+    return loanErrorResponse("[/api/admin/loans/[id]/restructure] failed:", err);
+  }
+}, "loans:restructure");
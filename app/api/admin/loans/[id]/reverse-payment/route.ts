@@ -0,0 +1,26 @@
+// app/api/admin/loans/[id]/reverse-payment/route.ts
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { withAdmin } from "@/app/lib/auth-server";
+import { loanErrorResponse, reversePayment } from "@/app/lib/loans-server";
+
+/** POST { paymentId, reason, correctedAmount? } */
+export const POST = withAdmin(async (
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+  user
+) => {
+  const { id } = await params;
+  const body = (await req.json().catch(() => null)) as Record<string, unknown> | null;
+  try {
+    const result = await reversePayment(user, id, {
+      paymentId: body?.paymentId,
+      reason: body?.reason,
+      correctedAmount: body?.correctedAmount,
+    });
+    return NextResponse.json(result, { status: 201 });
+  } catch (err) {
+    return loanErrorResponse("[/api/admin/loans/[id]/reverse-payment] failed:", err);
+  }
+}, "payments:reverse");
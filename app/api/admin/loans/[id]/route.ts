@@ -0,0 +1,20 @@
+// app/api/admin/loans/[id]/route.ts
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { withAdmin } from "@/app/lib/auth-server";
+import { loanErrorResponse } from "@/app/lib/loans-server";
+import { getLoanDetail } from "@/app/lib/loan-list-server";
+
+/** GET → one loan as a list row plus its schedule, replaced terms and demand notices. */
+export const GET = withAdmin(async (
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  const { id } = await params;
+  try {
+    return NextResponse.json(await getLoanDetail(id));
+  } catch (err) {
+    return loanErrorResponse("[/api/admin/loans/[id]] failed:", err);
+  }
+}, "dashboard:view");
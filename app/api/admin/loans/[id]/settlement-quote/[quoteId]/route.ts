@@ -0,0 +1,19 @@
+// app/api/admin/loans/[id]/settlement-quote/[quoteId]/route.ts
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { withAdmin } from "@/app/lib/auth-server";
+import { loanErrorResponse } from "@/app/lib/loans-server";
+import { getQuote } from "@/app/lib/settlement-server";
+
+export const GET = withAdmin(async (
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string; quoteId: string }> }
+) => {
+  const { id, quoteId } = await params;
+  try {
+    return NextResponse.json(await getQuote(id, quoteId));
+  } catch (err) {
+    return loanErrorResponse("[/api/admin/loans/[id]/settlement-quote/[quoteId]] failed:", err);
+  }
+});
@@ -0,0 +1,23 @@
+// app/api/admin/loans/[id]/settlement-quote/route.ts
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { withAdmin } from "@/app/lib/auth-server";
+import { loanErrorResponse } from "@/app/lib/loans-server";
+import { createQuote } from "@/app/lib/settlement-server";
+
+/** POST { asOf? } — quotes the payoff on `asOf` (YYYY-MM-DD, default today). */
+export const POST = withAdmin(async (
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+  user
+) => {
+  const { id } = await params;
+  const body = (await req.json().catch(() => null)) as Record<string, unknown> | null;
+  try {
+    const quote = await createQuote(user, id, { asOf: body?.asOf });
+    return NextResponse.json(quote, { status: 201 });
+  } catch (err) {
+    return loanErrorResponse("[/api/admin/loans/[id]/settlement-quote] failed:", err);
+  }
+}, "loans:quote");
@@ -0,0 +1,27 @@
+// app/api/admin/loans/[id]/waive-penalty/route.ts
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { withAdmin } from "@/app/lib/auth-server";
+import { loanErrorResponse } from "@/app/lib/loans-server";
+import { waivePenalty } from "@/app/lib/late-fees-server";
+
+/** POST { entryId, reason, amount? } — amount defaults to what's left unwaived. */
+export const POST = withAdmin(async (
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+  user
+) => {
+  const { id } = await params;
+  const body = (await req.json().catch(() => null)) as Record<string, unknown> | null;
+  try {
+    const result = await waivePenalty(user, id, {
+      entryId: body?.entryId,
+      amount: body?.amount,
+      reason: body?.reason,
+    });
+    return NextResponse.json(result, { status: 201 });
+  } catch (err) {
+    return loanErrorResponse("[/api/admin/loans/[id]/waive-penalty] failed:", err);
+  }
+}, "fees:waive");
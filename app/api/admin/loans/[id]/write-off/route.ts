@@ -0,0 +1,22 @@
+// app/api/admin/loans/[id]/write-off/route.ts
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { withAdmin } from "@/app/lib/auth-server";
+import { loanErrorResponse, writeOffLoan } from "@/app/lib/loans-server";
+
+/** POST { reason } — writes off the outstanding balance. */
+export const POST = withAdmin(async (
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+  user
+) => {
+  const { id } = await params;
+  const body = (await req.json().catch(() => null)) as Record<string, unknown> | null;
+  try {
+    const result = await writeOffLoan(user, id, { reason: body?.reason });
+    return NextResponse.json(result);
+  } catch (err) {
+    return loanErrorResponse("[/api/admin/loans/[id]/write-off] failed:", err);
+  }
+}, "loans:write_off");
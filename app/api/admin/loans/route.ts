@@ -0,0 +1,25 @@
+// app/api/admin/loans/route.ts
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { withAdmin } from "@/app/lib/auth-server";
+import { loanErrorResponse } from "@/app/lib/loans-server";
+import { listLoans, parseLoanListQuery } from "@/app/lib/loan-list-server";
+
+/**
+ * GET ?status=<outstanding|finished|written_off|loan status>&loanType=&frequency=
+ *     &area=&from=YYYY-MM-DD&to=YYYY-MM-DD&minBalance=&maxBalance=
+ *     &overdue=<current|1-30|31-60|61-90|90+>&q=&sort=<created|balance|due>
+ *     &dir=<asc|desc>&limit=&cursor=
+ * Filters and sorts on the `list` fields stored with each loan. `totals`
+ * cover every matching loan (first page only); `nextCursor` fetches the
+ * next page. Rows carry no schedules: GET /api/admin/loans/{id} has them.
+ */
+export const GET = withAdmin(async (req: NextRequest) => {
+  try {
+    const { searchParams } = new URL(req.url);
+    return NextResponse.json(await listLoans(parseLoanListQuery(searchParams)));
+  } catch (err) {
+    return loanErrorResponse("[/api/admin/loans] list failed:", err);
+  }
+}, "dashboard:view");
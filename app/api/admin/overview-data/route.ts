@@ -4,6 +4,11 @@ export const runtime = "nodejs";
 import { NextResponse } from "next/server";
 import type admin from "firebase-admin";
 import { adminDb } from "@/app/lib/firebase-admin";
+import { withAdmin } from "@/app/lib/auth-server";
+import { computeEndDate } from "@/app/lib/schedule";
+import { arrearsForLoan } from "@/app/lib/arrears";
+import { loanTotals } from "@/app/lib/loan-list-server";
+import { COLLATERAL_COLLECTION, SECURING_STATUSES } from "@/app/lib/collateral";
 
 type LoanDoc = {
   firstName?: string; applicantFirstName?: string;
@@ -16,8 +21,9 @@ type LoanDoc = {
   paymentFrequency?: "weekly" | "monthly";
   status?: string;
   timestamp?: admin.firestore.Timestamp | null;
+  endDate?: admin.firestore.Timestamp | null;
+  restructuredAt?: admin.firestore.Timestamp | null;
   areaName?: string;
-  collateralItems?: unknown;
   loanType?: string;
 };
 
@@ -61,20 +67,7 @@ function toMillis(v: unknown): number | null {
   return null;
 }
 
-function computeEndDate(
-  ts: admin.firestore.Timestamp | null | undefined,
-  period: number | undefined,
-  freq: "weekly" | "monthly" | undefined
-) {
-  if (!ts || !period || period <= 0) return null;
-  const start = ts.toDate();
-  const end = new Date(start);
-  if (freq === "weekly") end.setDate(end.getDate() + period * 7);
-  else end.setMonth(end.getMonth() + period);
-  return end;
-}
-
-export async function GET() {
+export const GET = withAdmin(async () => {
   try {
     const db = adminDb();
 
@@ -94,6 +87,17 @@ export async function GET() {
       loansSnap = await db.collection("loan_applications").limit(200).get();
     }
 
+    // ----- Collateral still securing a loan (registry) -----
+    const collateralSnap = await db
+      .collection(COLLATERAL_COLLECTION)
+      .where("status", "in", SECURING_STATUSES)
+      .get();
+    const collateralByLoan = new Map<string, number>();
+    for (const d of collateralSnap.docs) {
+      const loanId = String(d.get("loanId") ?? "");
+      collateralByLoan.set(loanId, (collateralByLoan.get(loanId) ?? 0) + 1);
+    }
+
     const loans = loansSnap.docs.map((d) => {
       const v = d.data() as LoanDoc;
       const status = (v.status || "pending").toLowerCase();
@@ -112,10 +116,15 @@ export async function GET() {
         paymentFrequency,
         status,
         timestamp: ts,
-        endDate: computeEndDate(ts, loanPeriod, paymentFrequency),
+        // restructured loans store their new maturity
+        endDate: v.endDate?.toDate
+          ? v.endDate.toDate()
+          : computeEndDate(ts?.toMillis(), loanPeriod, paymentFrequency),
         areaName: v.areaName ?? "",
-        collateralItems: Array.isArray(v.collateralItems) ? v.collateralItems : [],
+        collateralCount: collateralByLoan.get(d.id) ?? 0,
         loanType: (v.loanType || "unknown").toLowerCase(),
+        restructured: !!v.restructuredAt,
+        arrears: arrearsForLoan(v as Record<string, unknown>, ts?.toMillis() ?? null),
       };
     });
 
@@ -149,19 +158,20 @@ export async function GET() {
         (r) =>
           (r.status === "approved" || r.status === "active") &&
           (r.currentBalance ?? 0) > 0 &&
-          r.endDate &&
-          r.endDate < now &&
-          (r.collateralItems?.length ?? 0) > 0
+          r.arrears.dpd > 0 &&
+          r.collateralCount > 0
       )
-      .sort((a, b) => a.endDate!.getTime() - b.endDate!.getTime())
+      .sort((a, b) => b.arrears.dpd - a.arrears.dpd)
       .slice(0, 8);
 
     const finished = loans
       .filter(
         (r) =>
-          (r.currentBalance ?? 0) <= 0 ||
-          r.status === "closed" ||
-          r.status === "finished"
+          // written off: no balance, but not repaid either
+          r.status !== "written_off" &&
+          ((r.currentBalance ?? 0) <= 0 ||
+            r.status === "closed" ||
+            r.status === "finished")
       )
       .slice(0, 8);
 
@@ -194,20 +204,19 @@ export async function GET() {
       };
     });
 
+    // over the whole portfolio; the lists above are from the latest 200 loans
+    const [outstandingTotals, finishedTotals] = await Promise.all([
+      loanTotals({ status: "outstanding" }),
+      loanTotals({ status: "finished" }),
+    ]);
     const totals = {
-      outstandingCount: outstanding.length,
-      outstandingBalanceSum: outstanding.reduce(
-        (s, r) => s + (r.currentBalance || 0),
-        0
-      ),
-      collateralCount: loans.reduce(
-        (s, r) => s + (r.collateralItems?.length ?? 0),
-        0
-      ),
-      finishedCount: finished.length,
-      overdueCount: loans.filter(
-        (r) => r.endDate && r.endDate < now && (r.currentBalance ?? 0) > 0
-      ).length,
+      outstandingCount: outstandingTotals.count,
+      outstandingBalanceSum: outstandingTotals.balance,
+      collateralCount: collateralSnap.size,
+      finishedCount: finishedTotals.count,
+      overdueCount: outstandingTotals.inArrears,
+      arrearsSum: outstandingTotals.arrears,
+      par: outstandingTotals.par,
     };
 
     const breakdown = {
@@ -225,6 +234,7 @@ export async function GET() {
         m[key] = (m[key] || 0) + 1;
         return m;
       }, {}),
+      restructured: loans.filter((r) => r.restructured).length,
     };
 
     return NextResponse.json({
@@ -242,4 +252,4 @@ export async function GET() {
     console.error("[/api/admin/kyc/[id]] failed:", err);
     return NextResponse.json({ error: "internal-error" }, { status: 500 });
   }
-}
+});
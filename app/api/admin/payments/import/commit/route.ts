@@ -0,0 +1,26 @@
+// app/api/admin/payments/import/commit/route.ts
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { withAdmin } from "@/app/lib/auth-server";
+import { loanErrorResponse } from "@/app/lib/loans-server";
+import { commitImport } from "@/app/lib/payment-import-server";
+
+/**
+ * POST { batchId, fileName?, rows: ImportRow[] } — posts each row (at most
+ * IMPORT_CHUNK_ROWS per request; send a file in chunks under one batchId)
+ * to its `loanId` and returns per-row results. Safe to retry.
+ */
+export const POST = withAdmin(async (req: NextRequest, _ctx, user) => {
+  const body = (await req.json().catch(() => null)) as Record<string, unknown> | null;
+  try {
+    const result = await commitImport(user, {
+      batchId: body?.batchId,
+      fileName: body?.fileName,
+      rows: body?.rows,
+    });
+    return NextResponse.json(result);
+  } catch (err) {
+    return loanErrorResponse("[/api/admin/payments/import/commit] failed:", err);
+  }
+}, "payments:record");
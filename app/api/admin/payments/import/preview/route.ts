@@ -0,0 +1,21 @@
+// app/api/admin/payments/import/preview/route.ts
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { withAdmin } from "@/app/lib/auth-server";
+import { loanErrorResponse } from "@/app/lib/loans-server";
+import { previewImport } from "@/app/lib/payment-import-server";
+
+/**
+ * POST { rows: ImportRow[] } — matches each row to an active loan (by loan
+ * ID, else phone) and flags bad or already-used references. Writes nothing.
+ */
+export const POST = withAdmin(async (req: NextRequest) => {
+  const body = (await req.json().catch(() => null)) as Record<string, unknown> | null;
+  try {
+    const rows = await previewImport(body?.rows);
+    return NextResponse.json({ rows });
+  } catch (err) {
+    return loanErrorResponse("[/api/admin/payments/import/preview] failed:", err);
+  }
+}, "payments:record");
@@ -0,0 +1,25 @@
+// app/api/admin/proposals/decide/route.ts
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { withAdmin } from "@/app/lib/auth-server";
+import { decideProposal, loanErrorResponse } from "@/app/lib/loans-server";
+
+/**
+ * POST { calcPath, status: "approved" | "denied", note? }. Approval is
+ * refused (409) under a blocking coverage minimum; `coverageWarning` is set
+ * when it went ahead under a warning one.
+ */
+export const POST = withAdmin(async (req: NextRequest, _ctx, user) => {
+  const body = (await req.json().catch(() => null)) as Record<string, unknown> | null;
+  try {
+    const { coverage, coverageWarning } = await decideProposal(user, {
+      calcPath: body?.calcPath,
+      status: body?.status,
+      note: body?.note,
+    });
+    return NextResponse.json({ ok: true, coverage, coverageWarning });
+  } catch (err) {
+    return loanErrorResponse("[/api/admin/proposals/decide] failed:", err);
+  }
+}, "proposals:decide");
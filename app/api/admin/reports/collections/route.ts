@@ -0,0 +1,25 @@
+// app/api/admin/reports/collections/route.ts
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { withAdmin } from "@/app/lib/auth-server";
+import { collectionsByChannel } from "@/app/lib/reports-server";
+import { DAY_MS } from "@/app/lib/util";
+
+/** GET ?from=YYYY-MM-DD&to=YYYY-MM-DD (default: the last 30 days) → collections per channel. */
+export const GET = withAdmin(async (req: NextRequest) => {
+  try {
+    const { searchParams } = new URL(req.url);
+    const to = Date.parse(searchParams.get("to") || "");
+    const from = Date.parse(searchParams.get("from") || "");
+    const toMs = Number.isFinite(to) ? to + DAY_MS - 1 : Date.now();
+    const fromMs = Number.isFinite(from) ? from : toMs - 30 * DAY_MS;
+    if (fromMs > toMs) {
+      return NextResponse.json({ error: "from must be before to" }, { status: 400 });
+    }
+    return NextResponse.json(await collectionsByChannel(fromMs, toMs));
+  } catch (err) {
+    console.error("[/api/admin/reports/collections] failed:", err);
+    return NextResponse.json({ error: "internal-error" }, { status: 500 });
+  }
+});
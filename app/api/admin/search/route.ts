@@ -0,0 +1,20 @@
+// app/api/admin/search/route.ts
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { withAdmin } from "@/app/lib/auth-server";
+import { loanErrorResponse } from "@/app/lib/loans-server";
+import { searchBorrowers } from "@/app/lib/search-server";
+
+/**
+ * GET ?q=<name | phone | national ID | loan ID | email>
+ * Matches grouped by KYC records, loans and processed records.
+ */
+export const GET = withAdmin(async (req: NextRequest) => {
+  try {
+    const { searchParams } = new URL(req.url);
+    return NextResponse.json(await searchBorrowers(searchParams.get("q")));
+  } catch (err) {
+    return loanErrorResponse("[/api/admin/search] failed:", err);
+  }
+}, "dashboard:view");
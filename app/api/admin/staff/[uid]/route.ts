@@ -0,0 +1,53 @@
+// app/api/admin/staff/[uid]/route.ts
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { withAdmin } from "@/app/lib/auth-server";
+import { isRole } from "@/app/lib/roles";
+import {
+  getStaff,
+  setStaffDisabled,
+  setStaffRole,
+  staffErrorResponse,
+} from "@/app/lib/staff-server";
+
+/**
+ * PATCH { role?: Role | null, disabled?: boolean }
+ * role null revokes staff access; both changes revoke refresh tokens.
+ */
+export const PATCH = withAdmin(async (
+  req: NextRequest,
+  { params }: { params: Promise<{ uid: string }> },
+  user
+) => {
+  const { uid } = await params;
+  const body = (await req.json().catch(() => null)) as {
+    role?: unknown;
+    disabled?: unknown;
+  } | null;
+
+  if (!body || (body.role === undefined && body.disabled === undefined)) {
+    return NextResponse.json({ error: "Nothing to update" }, { status: 400 });
+  }
+  if (body.role !== undefined && body.role !== null && !isRole(body.role)) {
+    return NextResponse.json({ error: "Unknown role" }, { status: 400 });
+  }
+  if (body.disabled !== undefined && typeof body.disabled !== "boolean") {
+    return NextResponse.json({ error: "disabled must be a boolean" }, { status: 400 });
+  }
+  // Don't let a super-admin lock themselves out of this screen
+  if (uid === user.uid && (body.disabled === true || (body.role !== undefined && body.role !== "super_admin"))) {
+    return NextResponse.json(
+      { error: "You can't demote or disable your own account" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    if (body.role !== undefined) await setStaffRole(user, uid, body.role);
+    if (typeof body.disabled === "boolean") await setStaffDisabled(user, uid, body.disabled);
+    return NextResponse.json({ account: await getStaff(uid) });
+  } catch (err) {
+    return staffErrorResponse("[/api/admin/staff/[uid]] update failed:", err);
+  }
+}, "staff:manage");
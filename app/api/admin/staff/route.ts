@@ -0,0 +1,41 @@
+// app/api/admin/staff/route.ts
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { withAdmin } from "@/app/lib/auth-server";
+import { isRole } from "@/app/lib/roles";
+import { inviteStaff, listStaff, staffErrorResponse } from "@/app/lib/staff-server";
+
+export const GET = withAdmin(async () => {
+  try {
+    const items = await listStaff();
+    return NextResponse.json({ items, updatedAt: Date.now() });
+  } catch (err) {
+    console.error("[/api/admin/staff] list failed:", err);
+    return NextResponse.json({ error: "internal-error" }, { status: 500 });
+  }
+}, "staff:manage");
+
+export const POST = withAdmin(async (req: NextRequest, _ctx, user) => {
+  const body = (await req.json().catch(() => null)) as {
+    email?: unknown;
+    role?: unknown;
+    displayName?: unknown;
+  } | null;
+
+  const email = typeof body?.email === "string" ? body.email.trim().toLowerCase() : "";
+  if (!email) {
+    return NextResponse.json({ error: "Email is required" }, { status: 400 });
+  }
+  if (!isRole(body?.role)) {
+    return NextResponse.json({ error: "Unknown role" }, { status: 400 });
+  }
+  const displayName = typeof body?.displayName === "string" ? body.displayName.trim() : "";
+
+  try {
+    const result = await inviteStaff(user, email, body.role, displayName);
+    return NextResponse.json(result, { status: 201 });
+  } catch (err) {
+    return staffErrorResponse("[/api/admin/staff] invite failed:", err);
+  }
+}, "staff:manage");
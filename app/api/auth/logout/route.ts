@@ -0,0 +1,25 @@
+// app/api/auth/logout/route.ts
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { adminAuth } from "@/app/lib/firebase-admin";
+import { SESSION_COOKIE } from "@/app/lib/auth-server";
+
+export async function POST(req: NextRequest) {
+  const cookie = req.cookies.get(SESSION_COOKIE)?.value;
+
+  if (cookie) {
+    try {
+      // Revoke so a copied cookie stops working too, not just this browser's
+      const decoded = await adminAuth().verifySessionCookie(cookie);
+      await adminAuth().revokeRefreshTokens(decoded.sub);
+    } catch (err) {
+      // Expired/invalid cookie: nothing to revoke, still clear it below
+      console.warn("[/api/auth/logout] revoke skipped:", err);
+    }
+  }
+
+  const res = NextResponse.json({ ok: true });
+  res.cookies.set(SESSION_COOKIE, "", { path: "/", maxAge: 0 });
+  return res;
+}
@@ -0,0 +1,70 @@
+// app/api/auth/session/route.ts
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { adminAuth } from "@/app/lib/firebase-admin";
+import {
+  SESSION_COOKIE,
+  SESSION_MAX_AGE_MS,
+  staffFromClaims,
+  withAdmin,
+} from "@/app/lib/auth-server";
+import { permissionsFor } from "@/app/lib/roles";
+
+// Only mint a session from an ID token issued by a fresh sign-in
+const RECENT_SIGN_IN_SECONDS = 5 * 60;
+
+export async function POST(req: NextRequest) {
+  let idToken: unknown;
+  try {
+    ({ idToken } = await req.json());
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+  if (typeof idToken !== "string" || !idToken) {
+    return NextResponse.json({ error: "Missing idToken" }, { status: 400 });
+  }
+
+  try {
+    const decoded = await adminAuth().verifyIdToken(idToken, true);
+    if (Date.now() / 1000 - decoded.auth_time > RECENT_SIGN_IN_SECONDS) {
+      return NextResponse.json(
+        { error: "Unauthorized: sign in again" },
+        { status: 401 }
+      );
+    }
+
+    const user = staffFromClaims(decoded);
+    if (!user.role) {
+      return NextResponse.json(
+        { error: "Forbidden: staff only" },
+        { status: 403 }
+      );
+    }
+
+    const sessionCookie = await adminAuth().createSessionCookie(idToken, {
+      expiresIn: SESSION_MAX_AGE_MS,
+    });
+
+    const res = NextResponse.json({ ok: true });
+    res.cookies.set(SESSION_COOKIE, sessionCookie, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "lax",
+      path: "/",
+      maxAge: SESSION_MAX_AGE_MS / 1000,
+    });
+    return res;
+  } catch (err) {
+    console.error("[/api/auth/session] failed:", err);
+    return NextResponse.json(
+      { error: "Unauthorized: invalid or expired token" },
+      { status: 401 }
+    );
+  }
+}
+
+/** Current staff member + permissions, used by the UI to hide actions. */
+export const GET = withAdmin(async (_req, _ctx, user) => {
+  return NextResponse.json({ ...user, permissions: permissionsFor(user.role) });
+});
@@ -0,0 +1,30 @@
+// app/api/jobs/late-fees/route.ts
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { isCronRequest, verifyStaff, type StaffUser } from "@/app/lib/auth-server";
+import { CRON_ACTOR, runLateFees } from "@/app/lib/late-fees-server";
+
+/**
+ * Posts due late fees on every active loan. Run daily by a cron hitting
+ * GET with the cron secret; staff with fees:run can also trigger it (POST).
+ * Safe to re-run: a loan is charged at most once per day / installment.
+ */
+async function handler(req: NextRequest) {
+  let actor: StaffUser = CRON_ACTOR;
+  if (!isCronRequest(req)) {
+    const result = await verifyStaff(req, "fees:run");
+    if ("response" in result) return result.response;
+    actor = result.user;
+  }
+  try {
+    const run = await runLateFees(actor);
+    return NextResponse.json(run);
+  } catch (err) {
+    console.error("[/api/jobs/late-fees] failed:", err);
+    return NextResponse.json({ error: "internal-error" }, { status: 500 });
+  }
+}
+
+export const GET = handler;
+export const POST = handler;
@@ -0,0 +1,23 @@
+// app/api/jobs/search-index/route.ts
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { isCronRequest } from "@/app/lib/auth-server";
+import { runSearchIndex } from "@/app/lib/search-server";
+
+/**
+ * Keys the KYC records and applications the borrower app added since the
+ * last run, so borrower search finds them. Run every few minutes by a cron
+ * hitting GET with the cron secret.
+ */
+export async function GET(req: NextRequest) {
+  if (!isCronRequest(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  try {
+    return NextResponse.json(await runSearchIndex());
+  } catch (err) {
+    console.error("[/api/jobs/search-index] failed:", err);
+    return NextResponse.json({ error: "internal-error" }, { status: 500 });
+  }
+}
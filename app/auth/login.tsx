@@ -4,6 +4,7 @@ import { useState } from "react";
 import { useRouter } from "next/navigation";
 import { signInWithEmailAndPassword, getIdTokenResult, signOut } from "firebase/auth";
 import { auth } from "../lib/firebase";
+import { roleFromClaims } from "../lib/roles";
 
 export default function LoginPage() {
   const router = useRouter();
@@ -23,15 +24,28 @@ export default function LoginPage() {
 
       // Safely inspect custom claims without `any`
       const claims = token.claims as Record<string, unknown>;
-      const isAdmin = typeof claims["admin"] === "boolean" && (claims["admin"] as boolean);
-      const isOfficer = typeof claims["officer"] === "boolean" && (claims["officer"] as boolean);
-      const allowed = isAdmin || isOfficer;
+      const allowed = roleFromClaims(claims) !== null;
 
       if (!allowed) {
         await signOut(auth);
         throw new Error("Your account doesn't have admin access. Contact a system admin.");
       }
-      router.push("/admin");
+
+      // Exchange the fresh ID token for an httpOnly session cookie (read by middleware.ts)
+      const res = await fetch("/api/auth/session", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ idToken: token.token }),
+      });
+      if (!res.ok) {
+        await signOut(auth);
+        const body = (await res.json().catch(() => null)) as { error?: string } | null;
+        throw new Error(body?.error || "Could not start a session. Try again.");
+      }
+
+      // Back to the page the middleware bounced us from, if any
+      const next = new URLSearchParams(window.location.search).get("next");
+      router.push(next && next.startsWith("/") && !next.startsWith("//") ? next : "/admin");
     } catch (err: unknown) {
       const msg = mapFirebaseError(err);
       setError(msg);
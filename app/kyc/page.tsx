@@ -6,6 +6,8 @@ import { useEffect, useMemo, useRef, useState } from "react";
 import { auth } from "@/app/lib/firebase";
 
 async function authedFetcher(url: string) {
+  // currentUser is null until Firebase restores the session on page load
+  await auth.authStateReady();
   const token = await auth.currentUser?.getIdToken(false);
   const r = await fetch(url, { headers: token ? { Authorization: `Bearer ${token}` } : {} });
   if (!r.ok) throw new Error(await r.text());
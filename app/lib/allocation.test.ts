@@ -0,0 +1,137 @@
+// app/lib/allocation.test.ts
+// A payment pays what is due first, component by component in the product's
+// order; what's left goes to later installments or to credit, and nothing
+// beyond the receivable balance is ever applied to the loan.
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  allocatePayment,
+  DEFAULT_ALLOCATION_ORDER,
+  noComponents,
+  owedBreakdown,
+  type OverpaymentMode,
+} from "@/app/lib/allocation";
+import type { Installment } from "@/app/lib/schedule";
+
+const NOW = 2000;
+const row = (n: number, dueMs: number): Installment => ({
+  n,
+  dueMs,
+  principal: 100,
+  interest: 20,
+  fees: 5,
+  total: 125,
+  balance: 200 - n * 100,
+});
+// one installment due, one not yet
+const schedule = [row(1, 1000), row(2, 3000)];
+
+const pay = (amount: number, overpayment: OverpaymentMode, maxApplied = 1000) =>
+  allocatePayment(
+    amount,
+    {
+      schedule,
+      penaltiesNet: 10,
+      allocated: noComponents(),
+      order: DEFAULT_ALLOCATION_ORDER,
+      overpayment,
+      maxApplied,
+    },
+    NOW
+  );
+
+test("penalties, then fees, then interest, then principal", () => {
+  assert.deepEqual(pay(12, "credit"), { penalty: 10, fees: 2, interest: 0, principal: 0, credit: 0 });
+  assert.deepEqual(pay(50, "credit"), { penalty: 10, fees: 5, interest: 20, principal: 15, credit: 0 });
+});
+
+test("the product's order replaces the default", () => {
+  const a = allocatePayment(
+    50,
+    {
+      schedule,
+      penaltiesNet: 10,
+      allocated: noComponents(),
+      order: ["principal", "interest", "fees", "penalty"],
+      overpayment: "credit",
+      maxApplied: 1000,
+    },
+    NOW
+  );
+  assert.deepEqual(a, { penalty: 0, fees: 0, interest: 0, principal: 50, credit: 0 });
+});
+
+test("earlier payments are taken off before splitting", () => {
+  const a = allocatePayment(
+    60,
+    {
+      schedule,
+      penaltiesNet: 10,
+      allocated: { penalty: 10, fees: 5, interest: 20, principal: 50 },
+      order: DEFAULT_ALLOCATION_ORDER,
+      overpayment: "credit",
+      maxApplied: 1000,
+    },
+    NOW
+  );
+  assert.deepEqual(a, { penalty: 0, fees: 0, interest: 0, principal: 50, credit: 10 });
+});
+
+test("overpayment goes to the next installments or to credit", () => {
+  assert.deepEqual(pay(200, "next_installments"), {
+    penalty: 10,
+    fees: 10,
+    interest: 40,
+    principal: 140,
+    credit: 0,
+  });
+  assert.deepEqual(pay(200, "credit"), {
+    penalty: 10,
+    fees: 5,
+    interest: 20,
+    principal: 100,
+    credit: 65,
+  });
+});
+
+test("nothing past maxApplied is applied; the rest is credit", () => {
+  assert.deepEqual(pay(300, "next_installments", 250), {
+    penalty: 10,
+    fees: 10,
+    interest: 40,
+    principal: 190,
+    credit: 50,
+  });
+  // a balance above the schedule's totals is still paid, as principal
+  assert.deepEqual(pay(300, "next_installments", 300), {
+    penalty: 10,
+    fees: 10,
+    interest: 40,
+    principal: 240,
+    credit: 0,
+  });
+  assert.deepEqual(pay(100, "credit", 0), { ...noComponents(), credit: 100 });
+});
+
+test("owed balance splits into principal, due and future charges", () => {
+  const allocated = { penalty: 0, fees: 5, interest: 20, principal: 50 };
+  assert.deepEqual(
+    owedBreakdown({ schedule, allocated, penaltiesNet: 10, balance: 185 }, NOW),
+    { principal: 150, dueInterest: 0, dueFees: 0, futureInterest: 20, futureFees: 5, penalties: 10 }
+  );
+  assert.deepEqual(
+    owedBreakdown({ schedule, allocated: noComponents(), penaltiesNet: 0, balance: 250 }, NOW),
+    { principal: 200, dueInterest: 20, dueFees: 5, futureInterest: 20, futureFees: 5, penalties: 0 }
+  );
+});
+
+test("a ledger balance without interest posted is all principal", () => {
+  assert.deepEqual(
+    owedBreakdown({ schedule, allocated: noComponents(), penaltiesNet: 0, balance: 200 }, NOW),
+    { principal: 200, dueInterest: 0, dueFees: 0, futureInterest: 0, futureFees: 0, penalties: 0 }
+  );
+  assert.deepEqual(
+    owedBreakdown({ schedule: [], allocated: noComponents(), penaltiesNet: 5, balance: 80 }, NOW),
+    { principal: 75, dueInterest: 0, dueFees: 0, futureInterest: 0, futureFees: 0, penalties: 5 }
+  );
+});
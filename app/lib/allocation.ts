@@ -0,0 +1,235 @@
+// app/lib/allocation.ts
+// Payment allocation: how a payment is split across what a loan owes.
+// Everything already due is paid first, component by component in the
+// product's order (penalties → fees → interest → principal by default);
+// an overpayment then goes to the next installments or to the customer's
+// credit balance. Splits are stored on the payment and its ledger entry.
+import { productFor } from "@/app/lib/loan-products";
+import { round2 } from "@/app/lib/util";
+import type { Installment } from "@/app/lib/schedule";
+
+export const ALLOCATION_COMPONENTS = ["penalty", "fees", "interest", "principal"] as const;
+export type AllocationComponent = (typeof ALLOCATION_COMPONENTS)[number];
+export type ComponentAmounts = Record<AllocationComponent, number>;
+
+export const DEFAULT_ALLOCATION_ORDER: readonly AllocationComponent[] = ALLOCATION_COMPONENTS;
+
+/** Where money goes once everything due is covered. */
+export const OVERPAYMENT_MODES = ["next_installments", "credit"] as const;
+export type OverpaymentMode = (typeof OVERPAYMENT_MODES)[number];
+
+/** A payment's split. `credit` is held for the customer, not applied to the loan. */
+export type Allocation = ComponentAmounts & { credit: number };
+
+export const ALLOCATION_LABELS: Record<keyof Allocation, string> = {
+  penalty: "Penalties",
+  fees: "Fees",
+  interest: "Interest",
+  principal: "Principal",
+  credit: "Credit",
+};
+
+export function allocationOrderFor(loanType: unknown): readonly AllocationComponent[] {
+  return productFor(loanType).allocationOrder ?? DEFAULT_ALLOCATION_ORDER;
+}
+
+export function asOverpaymentMode(v: unknown): OverpaymentMode {
+  return v === "credit" ? "credit" : "next_installments";
+}
+
+
+export const noComponents = (): ComponentAmounts => ({
+  penalty: 0,
+  fees: 0,
+  interest: 0,
+  principal: 0,
+});
+
+const components = (a: ComponentAmounts): ComponentAmounts => ({
+  penalty: a.penalty,
+  fees: a.fees,
+  interest: a.interest,
+  principal: a.principal,
+});
+
+/** Amount applied to the loan (everything but credit). */
+export function appliedAmount(a: ComponentAmounts): number {
+  return round2(a.penalty + a.fees + a.interest + a.principal);
+}
+
+/** Reads a stored allocation; null when there is none. */
+export function parseAllocation(v: unknown): Allocation | null {
+  if (!v || typeof v !== "object") return null;
+  const r = v as Record<string, unknown>;
+  return {
+    penalty: Number(r.penalty || 0),
+    fees: Number(r.fees || 0),
+    interest: Number(r.interest || 0),
+    principal: Number(r.principal || 0),
+    credit: Number(r.credit || 0),
+  };
+}
+
+/**
+ * Splits `amount`. `allocated` is what earlier payments covered; scheduled
+ * components are used up installment by installment, oldest first. At most
+ * `maxApplied` (the receivable balance) is applied — the rest is credit.
+ */
+export function allocatePayment(
+  amount: number,
+  input: {
+    schedule: Installment[];
+    penaltiesNet: number;
+    allocated: ComponentAmounts;
+    order: readonly AllocationComponent[];
+    overpayment: OverpaymentMode;
+    maxApplied: number;
+  },
+  nowMs = Date.now()
+): Allocation {
+  const out: Allocation = { ...noComponents(), credit: 0 };
+  let left = Math.max(0, Math.min(amount, input.maxApplied));
+  const take = (c: AllocationComponent, owed: number) => {
+    const x = Math.max(0, Math.min(owed, left));
+    out[c] += x;
+    left -= x;
+    return x;
+  };
+
+  // what's still unpaid of each installment; a loan without a schedule
+  // owes its whole balance (less penalties) as principal, due now
+  const rows = input.schedule.length
+    ? input.schedule.map((r) => ({
+        dueMs: r.dueMs,
+        fees: r.fees,
+        interest: r.interest,
+        principal: r.principal,
+      }))
+    : [{ dueMs: 0, fees: 0, interest: 0, principal: Number.POSITIVE_INFINITY }];
+  for (const c of ["fees", "interest", "principal"] as const) {
+    let covered = input.allocated[c];
+    for (const r of rows) {
+      const x = Math.min(r[c], covered);
+      r[c] -= x;
+      covered -= x;
+    }
+  }
+  let penalty = Math.max(0, input.penaltiesNet - input.allocated.penalty);
+
+  const due = rows.filter((r) => r.dueMs <= nowMs);
+  for (const c of input.order) {
+    if (c === "penalty") penalty -= take(c, penalty);
+    else for (const r of due) r[c] -= take(c, r[c]);
+  }
+  if (input.overpayment === "next_installments") {
+    for (const r of rows.filter((r) => r.dueMs > nowMs)) {
+      for (const c of input.order) if (c !== "penalty") r[c] -= take(c, r[c]);
+    }
+    // still within the balance (e.g. schedule totals below it): principal
+    take("principal", Number.POSITIVE_INFINITY);
+  }
+
+  for (const c of ALLOCATION_COMPONENTS) out[c] = round2(out[c]);
+  out.credit = round2(amount - appliedAmount(out));
+  return out;
+}
+
+/** Adds (or with `sign` −1, removes) a payment's split to the running totals. */
+export function addAllocation(
+  total: ComponentAmounts,
+  a: ComponentAmounts,
+  sign: 1 | -1 = 1
+): ComponentAmounts {
+  const out = noComponents();
+  for (const c of ALLOCATION_COMPONENTS) out[c] = round2(Math.max(0, total[c] + sign * a[c]));
+  return out;
+}
+
+/**
+ * Running totals for a loan doc. Loans paid before allocation existed get
+ * what they've paid allocated in the default order, as if paid today.
+ */
+export function allocatedForLoan(
+  v: Record<string, unknown>,
+  schedule: Installment[],
+  amountPaid: number,
+  nowMs = Date.now()
+): ComponentAmounts {
+  const stored = parseAllocation(v.allocated);
+  if (stored) return components(stored);
+  const seeded = allocatePayment(
+    amountPaid,
+    {
+      schedule,
+      penaltiesNet: Number(v.penaltiesCharged ?? 0) - Number(v.penaltiesWaived ?? 0),
+      allocated: noComponents(),
+      order: DEFAULT_ALLOCATION_ORDER,
+      overpayment: "next_installments",
+      maxApplied: amountPaid,
+    },
+    nowMs
+  );
+  return components(seeded);
+}
+
+/** What a loan still owes, split the way restructures and settlement quotes need it. */
+export type OwedBreakdown = {
+  principal: number;
+  /** Interest and fees on installments already due, unpaid. */
+  dueInterest: number;
+  dueFees: number;
+  /** Interest and fees on installments not yet due. */
+  futureInterest: number;
+  futureFees: number;
+  penalties: number;
+};
+
+/**
+ * Splits `balance` by component. The balance is what the ledger says is
+ * owed, so the schedule only decides the split: loans opened on the ledger
+ * before interest was posted owe principal only, and that's what they get.
+ */
+export function owedBreakdown(
+  input: {
+    schedule: Installment[];
+    allocated: ComponentAmounts;
+    penaltiesNet: number;
+    balance: number;
+  },
+  nowMs = Date.now()
+): OwedBreakdown {
+  const { schedule, allocated } = input;
+  const sum = (rows: Installment[], k: "principal" | "interest" | "fees") =>
+    rows.reduce((s, r) => s + r[k], 0);
+  const due = schedule.filter((r) => r.dueMs <= nowMs);
+
+  const penalties = round2(Math.max(0, input.penaltiesNet - allocated.penalty));
+  const owed = Math.max(0, input.balance - penalties);
+  // as in allocatePayment, a loan without a schedule owes it all as principal
+  const principal = round2(
+    schedule.length
+      ? Math.min(owed, Math.max(0, sum(schedule, "principal") - allocated.principal))
+      : owed
+  );
+  let charges = round2(owed - principal);
+  const take = (n: number) => {
+    const t = round2(Math.min(charges, Math.max(0, n)));
+    charges = round2(charges - t);
+    return t;
+  };
+  const dueInterest = take(sum(due, "interest") - allocated.interest);
+  const dueFees = take(sum(due, "fees") - allocated.fees);
+  // what was paid ahead comes off the future rows
+  const futureInterest = take(
+    sum(schedule, "interest") - Math.max(sum(due, "interest"), allocated.interest)
+  );
+  const futureFees = charges;
+  return { principal, dueInterest, dueFees, futureInterest, futureFees, penalties };
+}
+
+/** Non-zero parts of a split, in display order (payment tables, receipts). */
+export function allocationLines(a: Allocation): { label: string; amount: number }[] {
+  return (Object.keys(ALLOCATION_LABELS) as (keyof Allocation)[])
+    .filter((k) => a[k] > 0)
+    .map((k) => ({ label: ALLOCATION_LABELS[k], amount: a[k] }));
+}
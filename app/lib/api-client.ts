@@ -0,0 +1,28 @@
+// app/lib/api-client.ts
+"use client";
+
+// Browser helpers for our own /api routes. Same-origin fetches carry the
+// session cookie, which the withAdmin guard accepts in place of a bearer token.
+
+async function readJson<T>(r: Response): Promise<T> {
+  const body = (await r.json().catch(() => null)) as (T & { error?: string }) | null;
+  if (!r.ok) throw new Error(body?.error || `Request failed (${r.status})`);
+  return body as T;
+}
+
+export async function apiGet<T>(url: string): Promise<T> {
+  return readJson<T>(await fetch(url));
+}
+
+export async function apiSend<T = { ok: true }>(
+  url: string,
+  method: "POST" | "PATCH" | "DELETE",
+  body?: unknown
+): Promise<T> {
+  const r = await fetch(url, {
+    method,
+    headers: body === undefined ? undefined : { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return readJson<T>(r);
+}
@@ -0,0 +1,83 @@
+// app/lib/arrears.test.ts
+// Arrears and late fees count only what is owed and paid on the schedule:
+// principal alone for loans that never had interest booked, and never
+// money that went to penalties.
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { arrearsForLoan, paidOnSchedule, unpaidDueInstallments } from "@/app/lib/arrears";
+import { DEFAULT_LATE_FEE_POLICY, penaltiesDue } from "@/app/lib/late-fees";
+import { scheduleForLoan } from "@/app/lib/schedule";
+
+const startMs = new Date(2025, 0, 15).getTime();
+const nowMs = new Date(2025, 3, 25).getTime();
+
+/** 120,000 over 6 months, 40,000 paid; no stored terms, schedule or `amountPaid`. */
+const legacyLoan = {
+  loanAmount: 120000,
+  loanPeriod: 6,
+  paymentFrequency: "monthly",
+  loanType: "business",
+  currentBalance: 80000,
+};
+
+test("legacy loan gets a principal-only schedule", () => {
+  const rows = scheduleForLoan(legacyLoan, startMs);
+  assert.equal(rows.length, 6);
+  assert.ok(rows.every((r) => r.interest === 0 && r.fees === 0 && r.total === 20000));
+});
+
+test("legacy loan arrears count principal only", () => {
+  assert.equal(paidOnSchedule(legacyLoan), 40000);
+  const a = arrearsForLoan(legacyLoan, startMs, nowMs);
+  // due 15 Feb, 15 Mar, 15 Apr: 60,000; two installments paid
+  assert.equal(a.arrearsAmount, 20000);
+  assert.equal(a.missedInstallments, 1);
+  assert.equal(a.dpd, 10);
+  assert.equal(a.parBucket, "1-30");
+});
+
+test("legacy loan paid up to date is current and charged no late fee", () => {
+  const loan = { ...legacyLoan, currentBalance: 60000 };
+  const a = arrearsForLoan(loan, startMs, nowMs);
+  assert.equal(a.dpd, 0);
+  assert.equal(a.arrearsAmount, 0);
+  const overdue = unpaidDueInstallments(scheduleForLoan(loan, startMs), paidOnSchedule(loan), nowMs);
+  const charges = penaltiesDue(
+    DEFAULT_LATE_FEE_POLICY,
+    { principal: 120000, arrearsAmount: a.arrearsAmount, overdue, charged: 0 },
+    nowMs
+  );
+  assert.deepEqual(charges, []);
+});
+
+test("legacy loan late fee is charged on principal arrears", () => {
+  const a = arrearsForLoan(legacyLoan, startMs, nowMs);
+  const overdue = unpaidDueInstallments(
+    scheduleForLoan(legacyLoan, startMs),
+    paidOnSchedule(legacyLoan),
+    nowMs
+  );
+  const charges = penaltiesDue(
+    DEFAULT_LATE_FEE_POLICY,
+    { principal: 120000, arrearsAmount: a.arrearsAmount, overdue, charged: 0 },
+    nowMs
+  );
+  assert.equal(charges.length, 1);
+  assert.equal(charges[0].amount, 20); // 0.1% of 20,000
+});
+
+test("a payment that only covered penalties leaves installment arrears as they were", () => {
+  // 500 of the 40,500 paid went to a late fee
+  const legacy = { ...legacyLoan, penaltiesCharged: 500, currentBalance: 80000 };
+  assert.equal(paidOnSchedule(legacy), 40000);
+  assert.equal(arrearsForLoan(legacy, startMs, nowMs).arrearsAmount, 20000);
+
+  const allocated = {
+    ...legacyLoan,
+    penaltiesCharged: 500,
+    amountPaid: 40500,
+    allocated: { penalty: 500, fees: 0, interest: 0, principal: 40000 },
+  };
+  assert.equal(paidOnSchedule(allocated), 40000);
+  assert.equal(arrearsForLoan(allocated, startMs, nowMs).arrearsAmount, 20000);
+});
@@ -0,0 +1,128 @@
+// app/lib/arrears.ts
+// Installment-level arrears: payments are applied to the schedule in due
+// order, so a loan is past due from its earliest unpaid installment rather
+// than only after maturity.
+import { parseAllocation } from "@/app/lib/allocation";
+import { scheduleForLoan, type Installment } from "@/app/lib/schedule";
+import { DAY_MS, round2 } from "@/app/lib/util";
+
+export const PAR_BUCKETS = ["1-30", "31-60", "61-90", "90+"] as const;
+export type ParBucket = (typeof PAR_BUCKETS)[number];
+
+export type Arrears = {
+  /** Days past due of the earliest unpaid installment (0 = current). */
+  dpd: number;
+  /** Installments due so far minus amount paid. */
+  arrearsAmount: number;
+  /** Due installments not yet fully covered by payments. */
+  missedInstallments: number;
+  /** Due date of the earliest unpaid installment. */
+  nextDueMs: number | null;
+  parBucket: ParBucket | null;
+};
+
+const EPSILON = 0.005; // half a tambala: rounding noise in stored schedules
+
+export function parBucket(dpd: number): ParBucket | null {
+  if (dpd <= 0) return null;
+  if (dpd <= 30) return "1-30";
+  if (dpd <= 60) return "31-60";
+  if (dpd <= 90) return "61-90";
+  return "90+";
+}
+
+/** Installments due before `nowMs` that `amountPaid` doesn't fully cover, oldest first. */
+export function unpaidDueInstallments(
+  schedule: Installment[],
+  amountPaid: number,
+  nowMs = Date.now()
+): Installment[] {
+  const paid = Math.max(0, amountPaid || 0);
+  let cumulative = 0;
+  const out: Installment[] = [];
+  for (const row of schedule) {
+    cumulative += row.total;
+    if (row.dueMs >= nowMs) break;
+    if (cumulative > paid + EPSILON) out.push(row);
+  }
+  return out;
+}
+
+export function computeArrears(
+  schedule: Installment[],
+  amountPaid: number,
+  nowMs = Date.now()
+): Arrears {
+  const paid = Math.max(0, amountPaid || 0);
+  const unpaid = unpaidDueInstallments(schedule, paid, nowMs);
+  const dueToDate = schedule
+    .filter((r) => r.dueMs < nowMs)
+    .reduce((s, r) => s + r.total, 0);
+
+  let cumulative = 0;
+  const nextUnpaid = schedule.find((r) => (cumulative += r.total) > paid + EPSILON);
+
+  const dpd = unpaid.length ? Math.ceil((nowMs - unpaid[0].dueMs) / DAY_MS) : 0;
+  return {
+    dpd,
+    arrearsAmount: Math.max(0, round2(dueToDate - paid)),
+    missedInstallments: unpaid.length,
+    nextDueMs: nextUnpaid?.dueMs ?? null,
+    parBucket: parBucket(dpd),
+  };
+}
+
+/**
+ * Total paid on a loan doc, penalties included. `amountPaid` is kept by the
+ * payment service; older loans only have their balance, which payments were
+ * deducted from (and net penalties added to).
+ */
+export function amountPaidForLoan(v: Record<string, unknown>): number {
+  const stored = Number(v.amountPaid);
+  if (Number.isFinite(stored) && v.amountPaid != null) return stored;
+  const loanAmount = Number(v.loanAmount ?? 0);
+  const penalties = Number(v.penaltiesCharged ?? 0) - Number(v.penaltiesWaived ?? 0);
+  const balance = Number(v.currentBalance ?? loanAmount);
+  return Math.max(0, loanAmount + penalties - balance);
+}
+
+/**
+ * Paid towards the loan's current schedule: what payments were allocated to
+ * its installments (fees, interest, principal), not penalties. Loans paid
+ * before allocation existed paid their penalties first, as the default
+ * order does. Restructuring resets the allocation, so what was paid before
+ * the current schedule is left out.
+ */
+export function paidOnSchedule(v: Record<string, unknown>): number {
+  const allocated = parseAllocation(v.allocated);
+  if (allocated) return round2(allocated.fees + allocated.interest + allocated.principal);
+  const penalties = Math.max(0, Number(v.penaltiesCharged ?? 0) - Number(v.penaltiesWaived ?? 0));
+  return Math.max(0, round2(amountPaidForLoan(v) - penalties));
+}
+
+/** Arrears for a loan doc, from its stored (or projected) schedule. */
+export function arrearsForLoan(
+  v: Record<string, unknown>,
+  startMs: number | null,
+  nowMs = Date.now()
+): Arrears {
+  return computeArrears(scheduleForLoan(v, startMs), paidOnSchedule(v), nowMs);
+}
+
+export type ParSummary = Record<ParBucket, { count: number; balance: number }>;
+
+/** Portfolio-at-risk: loans and outstanding balance per DPD bucket. */
+export function parSummary(
+  loans: { arrears?: Arrears | null; currentBalance?: number }[]
+): ParSummary {
+  const out = Object.fromEntries(
+    PAR_BUCKETS.map((b) => [b, { count: 0, balance: 0 }])
+  ) as ParSummary;
+  for (const l of loans) {
+    const b = l.arrears?.parBucket;
+    if (!b || (l.currentBalance ?? 0) <= 0) continue;
+    out[b].count++;
+    out[b].balance += l.currentBalance || 0;
+  }
+  return out;
+}
@@ -0,0 +1,160 @@
+// app/lib/audit.ts
+// Append-only audit trail (`audit_log`). Entries are only ever created
+// server-side — nothing in the app updates or deletes them.
+import admin from "firebase-admin";
+import { adminDb } from "@/app/lib/firebase-admin";
+import type { StaffUser } from "@/app/lib/auth-server";
+import type { Permission } from "@/app/lib/roles";
+
+export const AUDIT_COLLECTION = "audit_log";
+
+/** Every state-changing admin action, and the permission it requires. */
+export const AUDIT_ACTIONS = {
+  "proposal.approve": "proposals:decide",
+  "proposal.deny": "proposals:decide",
+  "loan.approve": "loans:process",
+  "loan.decline": "loans:process",
+  "loan.restore": "loans:restore",
+  "loan.clear": "loans:clear",
+  "loan.delete": "loans:delete",
+  "loan.close": "loans:close",
+  "loan.restructure": "loans:restructure",
+  "loan.write_off": "loans:write_off",
+  "payment.record": "payments:record",
+  "payment.reverse": "payments:reverse",
+  "recovery.record": "payments:record",
+  "credit.refund": "payments:record",
+  "penalty.post": "fees:run",
+  "penalty.waive": "fees:waive",
+  "collateral.create": "collateral:manage",
+  "collateral.update": "collateral:manage",
+  "collateral.status": "collateral:manage",
+  "loan.demand_notice": "collateral:manage",
+  "collateral.repossession": "collateral:manage",
+  "collateral.sale": "collateral:sell",
+  "staff.invite": "staff:manage",
+  "staff.role_change": "staff:manage",
+  "staff.disable": "staff:manage",
+} as const satisfies Record<string, Permission>;
+
+export type AuditAction = keyof typeof AUDIT_ACTIONS;
+
+export type AuditChange = { field: string; before: unknown; after: unknown };
+
+export type AuditInput = {
+  action: AuditAction;
+  targetPath: string;
+  /** For targets outside the loan's own docs (e.g. collateral); read from the path otherwise. */
+  loanId?: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  note?: string | null;
+};
+
+type HasToMillis = { toMillis: () => number };
+
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return (
+    typeof v === "object" &&
+    v !== null &&
+    !Array.isArray(v) &&
+    typeof (v as Partial<HasToMillis>).toMillis !== "function"
+  );
+}
+
+/** Comparable form of a field value (Timestamps → millis). */
+function normalize(v: unknown): unknown {
+  if (v && typeof (v as Partial<HasToMillis>).toMillis === "function") {
+    return (v as HasToMillis).toMillis();
+  }
+  if (v instanceof Date) return v.getTime();
+  return v === undefined ? null : v;
+}
+
+function flatten(
+  obj: Record<string, unknown> | null,
+  prefix = "",
+  out: Record<string, unknown> = {}
+) {
+  for (const [k, v] of Object.entries(obj || {})) {
+    const key = prefix ? `${prefix}.${k}` : k;
+    if (isPlainObject(v) && Object.keys(v).length) flatten(v, key, out);
+    else out[key] = normalize(v);
+  }
+  return out;
+}
+
+/** Field-level changes between two document snapshots (nested maps use dotted paths). */
+export function diffDocs(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): AuditChange[] {
+  const a = flatten(before);
+  const b = flatten(after);
+  const fields = [...new Set([...Object.keys(a), ...Object.keys(b)])].sort();
+  return fields
+    .filter((f) => JSON.stringify(a[f] ?? null) !== JSON.stringify(b[f] ?? null))
+    .map((f) => ({ field: f, before: a[f] ?? null, after: b[f] ?? null }));
+}
+
+/**
+ * Loan the target belongs to, for filtering: loan docs and their
+ * subcollections use the loan id; calculator proposals share their id
+ * with the loan created on approval.
+ */
+export function loanIdFromPath(path: string): string | null {
+  const parts = path.split("/").filter(Boolean);
+  if (["loan_applications", "processed_loans", "loan_issuing"].includes(parts[0])) {
+    return parts[1] ?? null;
+  }
+  if (parts.includes("calculations")) return parts[parts.length - 1] ?? null;
+  return null;
+}
+
+/** Most changes kept per entry; the rest are only counted. */
+const MAX_CHANGES = 100;
+/** Longer values (e.g. a whole schedule) are kept as a cut-off JSON preview. */
+const MAX_VALUE_CHARS = 500;
+
+function bounded(v: unknown): unknown {
+  if (v === null || typeof v === "number" || typeof v === "boolean") return v;
+  const s = typeof v === "string" ? v : JSON.stringify(v);
+  if (s.length <= MAX_VALUE_CHARS) return v;
+  return `${s.slice(0, MAX_VALUE_CHARS - 1)}…`;
+}
+
+/**
+ * Appends one entry. Only the changed fields are stored, each cut down to a
+ * bounded size, so an entry written inside the business transaction can't
+ * push it over Firestore's document size limit. Pass `tx` (a transaction or
+ * batch) to commit it together with the change it records.
+ */
+export async function writeAudit(
+  actor: StaffUser,
+  input: AuditInput,
+  tx?: admin.firestore.Transaction | admin.firestore.WriteBatch
+): Promise<string> {
+  const ref = adminDb().collection(AUDIT_COLLECTION).doc();
+  const changes = diffDocs(input.before, input.after);
+  const entry = {
+    actorUid: actor.uid,
+    actorEmail: actor.email,
+    actorRole: actor.role,
+    action: input.action,
+    targetPath: input.targetPath,
+    loanId: input.loanId ?? loanIdFromPath(input.targetPath),
+    created: input.before === null,
+    deleted: input.after === null,
+    changes: changes.slice(0, MAX_CHANGES).map((c) => ({
+      field: c.field,
+      before: bounded(c.before),
+      after: bounded(c.after),
+    })),
+    changesOmitted: Math.max(0, changes.length - MAX_CHANGES),
+    note: input.note ?? null,
+    at: admin.firestore.FieldValue.serverTimestamp(),
+  };
+  if (tx) tx.create(ref, entry);
+  else await ref.create(entry);
+  return ref.id;
+}
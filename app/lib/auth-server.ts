@@ -1,16 +1,142 @@
-import { NextResponse } from "next/server";
+// app/lib/auth-server.ts
+import { timingSafeEqual } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import type admin from "firebase-admin";
+import { adminAuth } from "@/app/lib/firebase-admin";
+import {
+  hasPermission,
+  roleFromClaims,
+  type Permission,
+  type Role,
+} from "@/app/lib/roles";
+
+/** The signed-in staff member behind an admin API request. */
+export type StaffUser = {
+  uid: string;
+  email: string | null;
+  role: Role | null;
+};
+
+/** Firebase session cookie minted by /api/auth/session */
+export const SESSION_COOKIE = "__session";
+export const SESSION_MAX_AGE_MS = 5 * 24 * 60 * 60 * 1000; // 5 days
+
+type AdminHandler<C> = (
+  req: NextRequest,
+  ctx: C,
+  user: StaffUser
+) => Promise<Response> | Response;
+
+function bearerToken(req: NextRequest): string | null {
+  const header = req.headers.get("authorization") || "";
+  const match = /^Bearer\s+(.+)$/i.exec(header.trim());
+  return match ? match[1] : null;
+}
+
+/** Reads the role custom claim set by scripts/grantRole.ts */
+export function staffFromClaims(decoded: admin.auth.DecodedIdToken): StaffUser {
+  return {
+    uid: decoded.uid,
+    email: decoded.email ?? null,
+    role: roleFromClaims(decoded),
+  };
+}
+
+/**
+ * Verifies a session cookie value. Returns null when it is missing,
+ * expired or revoked (used by middleware.ts).
+ */
+export async function verifySessionCookie(
+  value: string | undefined
+): Promise<StaffUser | null> {
+  if (!value) return null;
+  try {
+    const decoded = await adminAuth().verifySessionCookie(value, true);
+    return staffFromClaims(decoded);
+  } catch {
+    return null;
+  }
+}
 
 /**
- * Middleware-style helper to check if a user is an admin
- * Call this before running admin-only logic in your API routes.
+ * Verifies the `Authorization: Bearer <idToken>` header (or, failing that,
+ * the session cookie) and that the caller's role grants `permission`.
+ * Returns the user, or a 401/403 JSON response to send back as-is.
  */
-export function requireAdmin(user: { isAdmin?: boolean }) {
-  if (!user || !user.isAdmin) {
-    return NextResponse.json(
-      { error: "Unauthorized: Admins only" },
-      { status: 403 }
-    );
+export async function verifyStaff(
+  req: NextRequest,
+  permission: Permission = "dashboard:view"
+): Promise<{ user: StaffUser } | { response: NextResponse }> {
+  const token = bearerToken(req);
+  const cookie = req.cookies.get(SESSION_COOKIE)?.value;
+  if (!token && !cookie) {
+    return {
+      response: NextResponse.json(
+        { error: "Unauthorized: missing bearer token or session" },
+        { status: 401 }
+      ),
+    };
   }
 
-  return true;
+  let decoded: admin.auth.DecodedIdToken;
+  try {
+    // checkRevoked: grantRole revokes refresh tokens when claims change
+    decoded = token
+      ? await adminAuth().verifyIdToken(token, true)
+      : await adminAuth().verifySessionCookie(cookie!, true);
+  } catch (err) {
+    console.warn("[auth-server] token verification failed:", err);
+    return {
+      response: NextResponse.json(
+        { error: "Unauthorized: invalid or expired token" },
+        { status: 401 }
+      ),
+    };
+  }
+
+  const user = staffFromClaims(decoded);
+  if (!user.role) {
+    return {
+      response: NextResponse.json(
+        { error: "Forbidden: staff only" },
+        { status: 403 }
+      ),
+    };
+  }
+  if (!hasPermission(user.role, permission)) {
+    return {
+      response: NextResponse.json(
+        { error: `Forbidden: requires ${permission}` },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { user };
+}
+
+/** `Authorization: Bearer $CRON_SECRET`, as sent by the scheduler to /api/jobs. */
+export function isCronRequest(req: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+  const got = Buffer.from(req.headers.get("authorization") || "");
+  const want = Buffer.from(`Bearer ${secret}`);
+  return got.length === want.length && timingSafeEqual(got, want);
+}
+
+/**
+ * Wraps an /api/admin route handler so it only runs for verified staff
+ * whose role grants `permission` (see app/lib/roles.ts).
+ *
+ *   export const POST = withAdmin(async (req, ctx, user) => { ... }, "loans:close");
+ */
+export function withAdmin<C = unknown>(
+  handler: AdminHandler<C>,
+  permission: Permission = "dashboard:view"
+) {
+  return async function guarded(req: NextRequest, ctx: C): Promise<Response> {
+    const result = await verifyStaff(req, permission);
+    if ("response" in result) return result.response;
+    return handler(req, ctx, result.user);
+  };
 }
@@ -0,0 +1,264 @@
+// app/lib/collateral-server.ts
+// Collateral registry writes (see app/lib/collateral.ts). Details can be
+// edited while an item is on the books; status only moves along
+// COLLATERAL_TRANSITIONS, and each move is kept in `statusHistory`.
+import admin from "firebase-admin";
+import { adminDb } from "@/app/lib/firebase-admin";
+import { writeAudit } from "@/app/lib/audit";
+import { cleanNote, LoanServiceError, loanRef } from "@/app/lib/loans-server";
+import {
+  COLLATERAL_CATEGORIES,
+  COLLATERAL_COLLECTION,
+  COLLATERAL_STATUS_LABELS,
+  COLLATERAL_TRANSITIONS,
+  isCollateralCategory,
+  isCollateralStatus,
+  parseCollateral,
+  type CollateralItem,
+  type CollateralStatus,
+} from "@/app/lib/collateral";
+import { isImagePath } from "@/app/lib/images";
+import { uploadCollateralPhoto } from "@/app/lib/images-server";
+import { DAY_MS, round2 } from "@/app/lib/util";
+import type { StaffUser } from "@/app/lib/auth-server";
+
+type AnyRec = Record<string, unknown>;
+
+const MAX_PHOTOS = 10;
+
+export function collateralRef(id: string) {
+  if (!id || id.includes("/")) throw new LoanServiceError("Invalid collateral id");
+  return adminDb().collection(COLLATERAL_COLLECTION).doc(id);
+}
+
+export const optText = (v: unknown, field: string, max = 200): string | null => {
+  if (v === undefined || v === null || v === "") return null;
+  if (typeof v !== "string") throw new LoanServiceError(`${field} must be a string`);
+  const t = v.trim();
+  if (t.length > max) throw new LoanServiceError(`${field} is too long (max ${max})`);
+  return t || null;
+};
+
+/**
+ * Validates the editable fields present in `input`; `partial` skips the
+ * ones left out (updates), otherwise category and description are required.
+ */
+async function parseDetails(input: AnyRec, partial: boolean): Promise<AnyRec> {
+  const out: AnyRec = {};
+  const has = (k: string) => !partial || k in input;
+
+  if (has("category")) {
+    if (!isCollateralCategory(input.category)) {
+      throw new LoanServiceError(`category must be one of ${COLLATERAL_CATEGORIES.join(", ")}`);
+    }
+    out.category = input.category;
+  }
+  if (has("description")) {
+    const d = optText(input.description, "description", 500);
+    if (!d) throw new LoanServiceError("description is required");
+    out.description = d;
+  }
+  if (has("serialNumber")) out.serialNumber = optText(input.serialNumber, "serialNumber", 100);
+  if (has("custodian")) out.custodian = optText(input.custodian, "custodian");
+  if (has("valuation")) {
+    const v = input.valuation;
+    if (v === undefined || v === null || v === "") out.valuation = null;
+    else {
+      const n = Number(v);
+      if (!Number.isFinite(n) || n < 0) throw new LoanServiceError("valuation must be a number ≥ 0");
+      out.valuation = round2(n);
+    }
+  }
+  if (has("valuationDate")) {
+    const v = input.valuationDate;
+    if (v === undefined || v === null || v === "") out.valuationDate = null;
+    else {
+      const ms = typeof v === "string" ? Date.parse(v) : NaN;
+      if (!Number.isFinite(ms)) throw new LoanServiceError("valuationDate must be a date (YYYY-MM-DD)");
+      if (ms > Date.now() + DAY_MS) throw new LoanServiceError("valuationDate can't be in the future");
+      out.valuationDate = admin.firestore.Timestamp.fromMillis(ms);
+    }
+  }
+  if (has("photos")) out.photos = await parsePhotos(input.photos, "photos");
+  return out;
+}
+
+/**
+ * Image URLs or stored image paths. Inline data URIs are moved to Storage
+ * here, so only the path is saved on the document.
+ */
+export async function parsePhotos(v: unknown, field: string): Promise<string[]> {
+  const p = v ?? [];
+  if (
+    !Array.isArray(p) ||
+    p.length > MAX_PHOTOS ||
+    !p.every((u) => typeof u === "string" && (/^(https?:|data:image\/)/.test(u) || isImagePath(u)))
+  ) {
+    throw new LoanServiceError(`${field} must be up to ${MAX_PHOTOS} image URLs`);
+  }
+  return Promise.all(
+    p.map(async (u: string) =>
+      u.startsWith("data:") ? (await uploadCollateralPhoto(u)).path : u
+    )
+  );
+}
+
+export async function listCollateral(filter: {
+  loanId?: string | null;
+  status?: string | null;
+}): Promise<CollateralItem[]> {
+  let q: FirebaseFirestore.Query = adminDb().collection(COLLATERAL_COLLECTION);
+  if (filter.loanId) q = q.where("loanId", "==", filter.loanId);
+  if (filter.status) {
+    if (!isCollateralStatus(filter.status)) throw new LoanServiceError("Unknown status");
+    q = q.where("status", "==", filter.status);
+  }
+  const snap = await q.limit(500).get();
+  return snap.docs
+    .map((d) => parseCollateral(d.id, d.data()))
+    .sort((a, b) => (b.createdAtMs ?? 0) - (a.createdAtMs ?? 0));
+}
+
+/** Registers an item against a loan; it starts out pledged, or held if we take it now. */
+export async function createCollateral(actor: StaffUser, input: AnyRec): Promise<CollateralItem> {
+  const loanId = typeof input.loanId === "string" ? input.loanId : "";
+  const status = input.status ?? "pledged";
+  if (status !== "pledged" && status !== "held") {
+    throw new LoanServiceError("New collateral is pledged or held");
+  }
+  const details = await parseDetails(input, false);
+
+  const db = adminDb();
+  const lRef = loanRef(loanId);
+  const ref = db.collection(COLLATERAL_COLLECTION).doc();
+  const now = admin.firestore.Timestamp.now();
+  const doc = {
+    serialNumber: null,
+    valuation: null,
+    valuationDate: null,
+    photos: [],
+    custodian: null,
+    ...details,
+    loanId,
+    status,
+    statusChangedAt: now,
+    statusHistory: [],
+    createdAt: now,
+    createdByUid: actor.uid,
+    createdByEmail: actor.email,
+  };
+
+  await db.runTransaction(async (tx) => {
+    const loan = await tx.get(lRef);
+    if (!loan.exists) throw new LoanServiceError("Loan not found", 404);
+    tx.create(ref, doc);
+    await writeAudit(
+      actor,
+      {
+        action: "collateral.create",
+        targetPath: ref.path,
+        loanId,
+        before: null,
+        after: doc,
+        note: String(details.description),
+      },
+      tx
+    );
+  });
+  return parseCollateral(ref.id, doc);
+}
+
+export async function updateCollateral(
+  actor: StaffUser,
+  id: string,
+  input: AnyRec
+): Promise<CollateralItem> {
+  const patch = await parseDetails(input, true);
+  if (!Object.keys(patch).length) throw new LoanServiceError("Nothing to update");
+  const db = adminDb();
+  const ref = collateralRef(id);
+
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists) throw new LoanServiceError("Collateral not found", 404);
+    const v = snap.data() as AnyRec;
+    if (!COLLATERAL_TRANSITIONS[parseCollateral(id, v).status].length) {
+      throw new LoanServiceError("Released or auctioned items can't be edited", 409);
+    }
+    const updated = {
+      ...patch,
+      updatedAt: admin.firestore.Timestamp.now(),
+      updatedByUid: actor.uid,
+      updatedByEmail: actor.email,
+    };
+    tx.update(ref, updated);
+    await writeAudit(
+      actor,
+      {
+        action: "collateral.update",
+        targetPath: ref.path,
+        loanId: String(v.loanId ?? "") || null,
+        before: v,
+        after: { ...v, ...updated },
+      },
+      tx
+    );
+    return parseCollateral(id, { ...v, ...updated });
+  });
+}
+
+/** Moves an item to `status` (see COLLATERAL_TRANSITIONS); `custodian` may change with it. */
+export async function setCollateralStatus(
+  actor: StaffUser,
+  id: string,
+  input: { status: unknown; note?: unknown; custodian?: unknown }
+): Promise<CollateralItem> {
+  if (!isCollateralStatus(input.status)) throw new LoanServiceError("Unknown status");
+  const next: CollateralStatus = input.status;
+  const note = cleanNote(input.note);
+  const custodian =
+    input.custodian === undefined ? undefined : optText(input.custodian, "custodian");
+  const db = adminDb();
+  const ref = collateralRef(id);
+
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists) throw new LoanServiceError("Collateral not found", 404);
+    const v = snap.data() as AnyRec;
+    const from = parseCollateral(id, v).status;
+    if (!COLLATERAL_TRANSITIONS[from].includes(next)) {
+      throw new LoanServiceError(
+        `A ${COLLATERAL_STATUS_LABELS[from].toLowerCase()} item can't be marked ${next}`,
+        409
+      );
+    }
+    const now = admin.firestore.Timestamp.now();
+    const patch: AnyRec = {
+      status: next,
+      statusChangedAt: now,
+      statusHistory: admin.firestore.FieldValue.arrayUnion({
+        from,
+        to: next,
+        note,
+        at: now,
+        byUid: actor.uid,
+        byEmail: actor.email,
+      }),
+    };
+    if (custodian !== undefined) patch.custodian = custodian;
+    tx.update(ref, patch);
+    await writeAudit(
+      actor,
+      {
+        action: "collateral.status",
+        targetPath: ref.path,
+        loanId: String(v.loanId ?? "") || null,
+        before: v,
+        after: { ...v, status: next, statusChangedAt: now, ...(custodian !== undefined && { custodian }) },
+        note: note ? `${from} → ${next}: ${note}` : `${from} → ${next}`,
+      },
+      tx
+    );
+    return parseCollateral(id, { ...v, ...patch });
+  });
+}
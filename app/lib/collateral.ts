@@ -0,0 +1,245 @@
+// app/lib/collateral.ts
+// Collateral registry (`collateral`): one doc per pledged item, linked to
+// its loan by `loanId`. Items move through COLLATERAL_TRANSITIONS; every
+// change goes through app/lib/collateral-server.ts and is audited.
+// Loans from before the registry keep their free-form `collateralItems`;
+// scripts/migrate-collateral.ts copies those in (see legacyCollateral).
+import { isImagePath } from "@/app/lib/images";
+import { toMillis } from "@/app/lib/util";
+
+export const COLLATERAL_COLLECTION = "collateral";
+
+export const COLLATERAL_CATEGORIES = [
+  "vehicle",
+  "land",
+  "electronics",
+  "livestock",
+  "equipment",
+  "household",
+  "other",
+] as const;
+export type CollateralCategory = (typeof COLLATERAL_CATEGORIES)[number];
+
+export const COLLATERAL_CATEGORY_LABELS: Record<CollateralCategory, string> = {
+  vehicle: "Vehicle",
+  land: "Land / property",
+  electronics: "Electronics",
+  livestock: "Livestock",
+  equipment: "Equipment",
+  household: "Household goods",
+  other: "Other",
+};
+
+/**
+ * pledged: listed against the loan, still with the borrower.
+ * held: in our (or the custodian's) keeping.
+ * released: handed back — the loan is repaid or the item was swapped.
+ * repossessed: taken on default, awaiting sale.
+ * auctioned: sold; final.
+ */
+export const COLLATERAL_STATUSES = [
+  "pledged",
+  "held",
+  "released",
+  "repossessed",
+  "auctioned",
+] as const;
+export type CollateralStatus = (typeof COLLATERAL_STATUSES)[number];
+
+export const COLLATERAL_STATUS_LABELS: Record<CollateralStatus, string> = {
+  pledged: "Pledged",
+  held: "Held",
+  released: "Released",
+  repossessed: "Repossessed",
+  auctioned: "Auctioned",
+};
+
+export const COLLATERAL_TRANSITIONS: Record<CollateralStatus, readonly CollateralStatus[]> = {
+  pledged: ["held", "repossessed", "released"],
+  held: ["repossessed", "released"],
+  repossessed: ["auctioned", "released"],
+  released: [],
+  auctioned: [],
+};
+
+/** Still securing the loan. */
+export const SECURING_STATUSES: readonly CollateralStatus[] = ["pledged", "held", "repossessed"];
+
+export function isCollateralCategory(v: unknown): v is CollateralCategory {
+  return typeof v === "string" && (COLLATERAL_CATEGORIES as readonly string[]).includes(v);
+}
+
+export function isCollateralStatus(v: unknown): v is CollateralStatus {
+  return typeof v === "string" && (COLLATERAL_STATUSES as readonly string[]).includes(v);
+}
+
+export type CollateralItem = {
+  id: string;
+  loanId: string;
+  category: CollateralCategory;
+  description: string;
+  /** Serial, chassis or title/registration number. */
+  serialNumber: string | null;
+  valuation: number | null;
+  valuationDateMs: number | null;
+  /** Image URLs or stored image paths (app/lib/images.ts). */
+  photos: string[];
+  /** Who physically holds the item (branch, warehouse, the borrower). */
+  custodian: string | null;
+  status: CollateralStatus;
+  statusChangedAtMs: number | null;
+  createdAtMs: number | null;
+  /** Seizure → storage → valuation → sale (app/lib/repossession-server.ts). */
+  repossession: Repossession | null;
+};
+
+export type CollateralSale = {
+  amount: number;
+  saleDateMs: number | null;
+  buyer: string;
+  /** Part of the proceeds that went against the loan. */
+  applied: number;
+  /** Part left over after the loan, owed back to the borrower as credit. */
+  surplus: number;
+  /** The loan payment (or recovery, on a written-off loan) for `applied`. */
+  paymentId: string | null;
+  receiptNo: string | null;
+};
+
+export type Repossession = {
+  seizedAtMs: number | null;
+  /** Officer who carried out the seizure. */
+  seizedBy: string | null;
+  seizurePhotos: string[];
+  storageLocation: string | null;
+  storedAtMs: number | null;
+  valuedAtMs: number | null;
+  valuedBy: string | null;
+  sale: CollateralSale | null;
+};
+
+/** Reads a registry doc (server or client SDK data). */
+export function parseCollateral(id: string, v: Record<string, unknown>): CollateralItem {
+  return {
+    id,
+    loanId: String(v.loanId ?? ""),
+    category: isCollateralCategory(v.category) ? v.category : "other",
+    description: String(v.description ?? "") || "Collateral item",
+    serialNumber: (v.serialNumber as string) || null,
+    valuation: v.valuation == null ? null : Number(v.valuation),
+    valuationDateMs: toMillis(v.valuationDate),
+    photos: strings(v.photos),
+    custodian: (v.custodian as string) || null,
+    status: isCollateralStatus(v.status) ? v.status : "pledged",
+    statusChangedAtMs: toMillis(v.statusChangedAt),
+    createdAtMs: toMillis(v.createdAt),
+    repossession: parseRepossession(v.repossession),
+  };
+}
+
+const strings = (v: unknown): string[] =>
+  Array.isArray(v) ? v.filter((p): p is string => typeof p === "string") : [];
+
+function parseRepossession(v: unknown): Repossession | null {
+  if (!v || typeof v !== "object") return null;
+  const r = v as Record<string, unknown>;
+  const s = r.sale && typeof r.sale === "object" ? (r.sale as Record<string, unknown>) : null;
+  return {
+    seizedAtMs: toMillis(r.seizedAt),
+    seizedBy: (r.seizedBy as string) || null,
+    seizurePhotos: strings(r.seizurePhotos),
+    storageLocation: (r.storageLocation as string) || null,
+    storedAtMs: toMillis(r.storedAt),
+    valuedAtMs: toMillis(r.valuedAt),
+    valuedBy: (r.valuedBy as string) || null,
+    sale: s
+      ? {
+          amount: Number(s.amount || 0),
+          saleDateMs: toMillis(s.saleDate),
+          buyer: String(s.buyer ?? ""),
+          applied: Number(s.applied || 0),
+          surplus: Number(s.surplus || 0),
+          paymentId: (s.paymentId as string) ?? null,
+          receiptNo: (s.receiptNo as string) ?? null,
+        }
+      : null,
+  };
+}
+
+/* ---------------- legacy `collateralItems` ---------------- */
+type AnyRec = Record<string, unknown>;
+
+const isUrlLike = (s: unknown): s is string =>
+  typeof s === "string" && /^(https?:|data:)/.test(s.trim());
+
+const toDataUrl = (b64: string) => {
+  const s = b64.trim();
+  return s.startsWith("data:") ? s : `data:image/jpeg;base64,${s}`;
+};
+
+function legacyPhoto(it: AnyRec): string | null {
+  // moved to Storage by scripts/migrate-images.ts
+  if (isImagePath(it.imagePath)) return it.imagePath;
+  const urlKeys = ["imageUrl", "photoUrl", "pictureUrl", "thumbnail", "thumbUrl", "url"];
+  for (const k of [...urlKeys, "image", "photo", "picture"]) {
+    if (isUrlLike(it[k])) return it[k] as string;
+  }
+  for (const k of ["imageBase64", "photoBase64", "pictureBase64", "thumbnailBase64"]) {
+    const b64 = it[k];
+    if (typeof b64 === "string" && b64.trim()) return toDataUrl(b64);
+  }
+  for (const k of ["images", "photos", "pictures"]) {
+    const first = Array.isArray(it[k]) ? (it[k] as unknown[])[0] : undefined;
+    if (isUrlLike(first)) return first;
+    if (first && typeof first === "object") {
+      const f = first as AnyRec;
+      const url = f.url || f.imageUrl || f.photoUrl || f.src;
+      if (isUrlLike(url)) return url;
+      const b64 = f.base64 || f.imageBase64;
+      if (typeof b64 === "string" && b64.trim()) return toDataUrl(b64);
+    }
+  }
+  return null;
+}
+
+function legacyCategory(it: AnyRec, description: string): CollateralCategory {
+  const raw = String(it.category ?? it.type ?? "").toLowerCase();
+  if (isCollateralCategory(raw)) return raw;
+  const text = `${raw} ${description}`.toLowerCase();
+  if (/\b(car|vehicle|motor\w*|bike|truck|van|minibus)\b/.test(text)) return "vehicle";
+  if (/\b(land|plot|house|property|title deed)\b/.test(text)) return "land";
+  if (/\b(\w*phone|laptop|tv|television|computer|fridge|radio)\b/.test(text)) return "electronics";
+  if (/\b(cows?|cattle|goats?|pigs?|livestock|sheep)\b/.test(text)) return "livestock";
+  if (/\b(machine\w*|equipment|tools?|generator|pump)\b/.test(text)) return "equipment";
+  return "other";
+}
+
+/**
+ * Best reading of one free-form `collateralItems` entry — whatever the
+ * mobile app or older admin versions stored (a string, or an object with
+ * any of several label/value/photo field names).
+ */
+export function legacyCollateral(it: unknown) {
+  const r: AnyRec = it && typeof it === "object" ? (it as AnyRec) : {};
+  const description =
+    typeof it === "string"
+      ? it
+      : String(
+          r.label ||
+            r.name ||
+            r.title ||
+            r.description ||
+            [r.make, r.model].filter(Boolean).join(" ") ||
+            "Collateral item"
+        );
+  const value = Number(r.value || r.estimatedValue || r.estValue || r.amount || r.price);
+  const photo = typeof it === "string" ? (isUrlLike(it) ? it : null) : legacyPhoto(r);
+  const serial = r.serialNumber || r.serial || r.registrationNumber || r.regNo || r.chassisNumber;
+  return {
+    category: legacyCategory(r, description),
+    description,
+    serialNumber: typeof serial === "string" && serial.trim() ? serial.trim() : null,
+    valuation: Number.isFinite(value) && value > 0 ? value : null,
+    photos: photo ? [photo] : [],
+  };
+}
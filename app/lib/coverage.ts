@@ -0,0 +1,70 @@
+// app/lib/coverage.ts
+// Collateral coverage: the valuation of the items securing a loan over its
+// principal (the inverse of loan-to-value). Each product sets a minimum;
+// approvals below it warn or are refused (see loanCoverage in
+// app/lib/loans-server.ts), and loans whose coverage has dropped since
+// approval are listed on the dashboard.
+import { productFor } from "@/app/lib/loan-products";
+import { SECURING_STATUSES, type CollateralItem } from "@/app/lib/collateral";
+
+export type CoveragePolicy = {
+  /** Collateral valuation needed, in percent of the principal (0: unsecured). */
+  minCoveragePct: number;
+  /** Below the minimum, approvals go ahead with a warning or are refused. */
+  enforcement: "warn" | "block";
+};
+
+export const DEFAULT_COVERAGE_POLICY: CoveragePolicy = {
+  minCoveragePct: 100,
+  enforcement: "warn",
+};
+
+export function coveragePolicyFor(loanType: unknown): CoveragePolicy {
+  return { ...DEFAULT_COVERAGE_POLICY, ...productFor(loanType).coverage };
+}
+
+export type Coverage = {
+  /** Valuation of the items still securing the loan. */
+  collateralValue: number;
+  principal: number;
+  /** collateralValue / principal in percent; null without a principal. */
+  coveragePct: number | null;
+  /** principal / collateralValue in percent; null without valued collateral. */
+  ltvPct: number | null;
+  minCoveragePct: number;
+  enforcement: CoveragePolicy["enforcement"];
+  /** Coverage is under the product minimum. */
+  below: boolean;
+};
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+/** Sum of valuations; only items still securing the loan count. */
+export function securingValue(items: Pick<CollateralItem, "status" | "valuation">[]): number {
+  return items
+    .filter((c) => SECURING_STATUSES.includes(c.status))
+    .reduce((s, c) => s + (c.valuation ?? 0), 0);
+}
+
+export function coverageFor(loanType: unknown, principal: number, collateralValue: number): Coverage {
+  const policy = coveragePolicyFor(loanType);
+  const coveragePct = principal > 0 ? round1((collateralValue / principal) * 100) : null;
+  return {
+    collateralValue,
+    principal,
+    coveragePct,
+    ltvPct: collateralValue > 0 ? round1((principal / collateralValue) * 100) : null,
+    minCoveragePct: policy.minCoveragePct,
+    enforcement: policy.enforcement,
+    below: coveragePct != null && coveragePct < policy.minCoveragePct,
+  };
+}
+
+/** Explains a shortfall, for approval warnings and errors. */
+export function coverageMessage(c: Coverage): string {
+  return (
+    `Collateral covers ${c.coveragePct ?? 0}% of the principal ` +
+    `(MWK ${c.collateralValue} against MWK ${c.principal}); ` +
+    `the minimum for this product is ${c.minCoveragePct}%`
+  );
+}
@@ -55,6 +55,24 @@ function loadServiceAccount(): ServiceAccountJson {
   );
 }
 
+/**
+ * Bucket for uploaded images (app/lib/images-server.ts), from
+ * FIREBASE_STORAGE_BUCKET. Required: newer projects don't use
+ * `<project>.appspot.com`, and guessing only fails later, on the first
+ * upload. Set FIREBASE_STORAGE_EMULATOR_HOST (e.g. 127.0.0.1:9199) to use
+ * the local emulator instead; the admin SDK picks it up by itself.
+ */
+export function storageBucketName(): string {
+  const name = process.env.FIREBASE_STORAGE_BUCKET?.trim();
+  if (!name) {
+    throw new Error(
+      "[firebase-admin] FIREBASE_STORAGE_BUCKET is not set. Set it to the project's Storage bucket " +
+        "(Firebase console → Storage, e.g. my-project.firebasestorage.app)."
+    );
+  }
+  return name;
+}
+
 function getAdminApp(): admin.app.App {
   if (global.__FIREBASE_ADMIN__) return global.__FIREBASE_ADMIN__;
 
@@ -81,3 +99,8 @@ export function adminDb() {
 export function adminAuth() {
   return getAdminApp().auth();
 }
+
+/** The image bucket; throws if FIREBASE_STORAGE_BUCKET isn't set. */
+export function adminBucket() {
+  return getAdminApp().storage().bucket(storageBucketName());
+}
@@ -0,0 +1,92 @@
+// app/lib/images-server.ts
+// Storing and serving images (see app/lib/images.ts). Uploads are checked
+// with sharp, kept as sent (auto-rotated) and get a WebP thumbnail.
+import sharp from "sharp";
+import { randomUUID } from "crypto";
+import { adminBucket } from "@/app/lib/firebase-admin";
+import { LoanServiceError } from "@/app/lib/loans-server";
+import { thumbPathFor, isImagePath, type ImageRef } from "@/app/lib/images";
+
+const MAX_IMAGE_BYTES = 8 * 1024 * 1024;
+const THUMB_PX = 320;
+const SIGNED_URL_TTL_MS = 15 * 60 * 1000;
+
+const FORMATS: Record<string, { ext: string; contentType: string }> = {
+  jpeg: { ext: "jpg", contentType: "image/jpeg" },
+  png: { ext: "png", contentType: "image/png" },
+  webp: { ext: "webp", contentType: "image/webp" },
+  heif: { ext: "heic", contentType: "image/heic" },
+};
+
+/** Bytes of a base64 string or data URI. */
+export function decodeImage(v: unknown): Buffer {
+  if (typeof v !== "string" || !v.trim()) throw new LoanServiceError("image data is required");
+  const b64 = v.trim().replace(/^data:[^;,]*;base64,/, "");
+  const buf = Buffer.from(b64, "base64");
+  if (!buf.length) throw new LoanServiceError("image data is not base64");
+  if (buf.length > MAX_IMAGE_BYTES) {
+    throw new LoanServiceError(`image is too large (max ${MAX_IMAGE_BYTES / 1024 / 1024} MB)`);
+  }
+  return buf;
+}
+
+/**
+ * Writes `data` to `<base>.<ext>` plus its thumbnail and returns the ref.
+ * The same `base` overwrites, which keeps the migration re-runnable.
+ */
+export async function storeImage(base: string, data: Buffer): Promise<ImageRef> {
+  let meta: sharp.Metadata;
+  try {
+    meta = await sharp(data).metadata();
+  } catch {
+    throw new LoanServiceError("not a readable image");
+  }
+  const format = FORMATS[meta.format ?? ""];
+  if (!format) throw new LoanServiceError("images must be JPEG, PNG, WebP or HEIC");
+  const path = `${base}.${format.ext}`;
+  if (!isImagePath(path)) throw new LoanServiceError("Invalid image path");
+
+  const thumb = await sharp(data)
+    .rotate()
+    .resize(THUMB_PX, THUMB_PX, { fit: "inside", withoutEnlargement: true })
+    .webp({ quality: 70 })
+    .toBuffer();
+  const bucket = adminBucket();
+  await Promise.all([
+    bucket.file(path).save(data, { contentType: format.contentType, resumable: false }),
+    bucket.file(thumbPathFor(path)).save(thumb, { contentType: "image/webp", resumable: false }),
+  ]);
+  // EXIF orientations 5-8 swap the sides
+  const swapped = (meta.orientation ?? 1) >= 5;
+  return {
+    path,
+    contentType: format.contentType,
+    bytes: data.length,
+    width: (swapped ? meta.height : meta.width) ?? null,
+    height: (swapped ? meta.width : meta.height) ?? null,
+  };
+}
+
+/** A collateral photo uploaded from the admin UI, before it's saved on an item. */
+export async function uploadCollateralPhoto(data: unknown): Promise<ImageRef> {
+  return storeImage(`collateral/uploads/${randomUUID()}`, decodeImage(data));
+}
+
+/** Short-lived read URL for `path` (or its thumbnail); plain URLs on the emulator. */
+export async function signedImageUrl(path: string, thumb = false): Promise<string> {
+  if (!isImagePath(path)) throw new LoanServiceError("Invalid image path");
+  const bucket = adminBucket();
+  const objectPath = thumb ? thumbPathFor(path) : path;
+  const emulator = process.env.FIREBASE_STORAGE_EMULATOR_HOST;
+  if (emulator) {
+    return `http://${emulator}/v0/b/${bucket.name}/o/${encodeURIComponent(objectPath)}?alt=media`;
+  }
+  const file = bucket.file(objectPath);
+  const [exists] = await file.exists();
+  if (!exists) throw new LoanServiceError("Image not found", 404);
+  const [url] = await file.getSignedUrl({
+    action: "read",
+    expires: Date.now() + SIGNED_URL_TTL_MS,
+  });
+  return url;
+}
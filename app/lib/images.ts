@@ -0,0 +1,78 @@
+// app/lib/images.ts
+// Images live in Storage (app/lib/images-server.ts); documents keep only
+// the object path. The browser loads them through /api/admin/images, which
+// redirects to a short-lived signed URL. Every stored image has a WebP
+// thumbnail next to it (thumbPathFor). Documents from before this still
+// carry base64 until scripts/migrate-images.ts has run, so readers fall
+// back to those fields.
+
+/** Top-level folders images are stored under. */
+export const IMAGE_FOLDERS = ["kyc", "collateral", "loans"] as const;
+
+export type ImageRef = {
+  /** Object path in the bucket, e.g. `kyc/<uid>/selfie.jpg`. */
+  path: string;
+  contentType: string;
+  bytes: number;
+  width: number | null;
+  height: number | null;
+};
+
+/** KYC images: key under `kyc_data.images` → the base64 field it replaces. */
+export const KYC_IMAGE_FIELDS = {
+  idFront: "idFrontImageBase64",
+  idBack: "idBackImageBase64",
+  selfie: "selfieImageBase64",
+} as const;
+export type KycImageKey = keyof typeof KYC_IMAGE_FIELDS;
+
+const PATH_RE = new RegExp(`^(${IMAGE_FOLDERS.join("|")})/[A-Za-z0-9_.-]+(/[A-Za-z0-9_.-]+)*$`);
+
+export function isImagePath(v: unknown): v is string {
+  return typeof v === "string" && PATH_RE.test(v) && !v.includes("..");
+}
+
+export function thumbPathFor(path: string) {
+  return `${path.replace(/\.[A-Za-z0-9]+$/, "")}_thumb.webp`;
+}
+
+/**
+ * Something an <img> can load: stored paths go through the images route
+ * (`thumb` for the thumbnail); URLs and data URIs are used as they are.
+ */
+export function imageSrc(photo: string | null | undefined, thumb = false): string {
+  if (!photo) return "";
+  if (!isImagePath(photo)) return photo;
+  return `/api/admin/images?path=${encodeURIComponent(photo)}${thumb ? "&size=thumb" : ""}`;
+}
+
+export function parseImageRef(v: unknown): ImageRef | null {
+  if (!v || typeof v !== "object") return null;
+  const r = v as Record<string, unknown>;
+  if (!isImagePath(r.path)) return null;
+  return {
+    path: r.path,
+    contentType: String(r.contentType ?? "image/jpeg"),
+    bytes: Number(r.bytes ?? 0),
+    width: r.width == null ? null : Number(r.width),
+    height: r.height == null ? null : Number(r.height),
+  };
+}
+
+const toDataUrl = (b64: string) => {
+  const s = b64.trim();
+  return s.startsWith("data:") ? s : `data:image/jpeg;base64,${s}`;
+};
+
+/** A KYC image from its Storage ref, or its legacy base64 field; "" if neither. */
+export function kycImageSrc(
+  kyc: Record<string, unknown> | null | undefined,
+  key: KycImageKey,
+  thumb = false
+): string {
+  const images = (kyc?.images ?? null) as Record<string, unknown> | null;
+  const ref = parseImageRef(images?.[key]);
+  if (ref) return imageSrc(ref.path, thumb);
+  const b64 = kyc?.[KYC_IMAGE_FIELDS[key]];
+  return typeof b64 === "string" && b64.trim() ? toDataUrl(b64) : "";
+}
@@ -0,0 +1,206 @@
+// app/lib/late-fees-server.ts
+// Late-fee job and waivers. Penalties and waivers are ledger entries
+// (app/lib/ledger.ts); nothing is charged by the UI.
+import { adminDb } from "@/app/lib/firebase-admin";
+import { writeAudit } from "@/app/lib/audit";
+import type { StaffUser } from "@/app/lib/auth-server";
+import {
+  amountPaidForLoan,
+  computeArrears,
+  paidOnSchedule,
+  unpaidDueInstallments,
+} from "@/app/lib/arrears";
+import { lateFeePolicyFor, penaltiesDue } from "@/app/lib/late-fees";
+import { LEDGER_COLLECTION } from "@/app/lib/ledger";
+import { postEntries } from "@/app/lib/ledger-server";
+import { scheduleForLoan } from "@/app/lib/schedule";
+import {
+  ACTIVE_STATUSES,
+  cleanNote,
+  LoanServiceError,
+  loanRef,
+} from "@/app/lib/loans-server";
+import { loanListFields, sameListFields, withListFields } from "@/app/lib/loan-list-server";
+import { round2, toMillis } from "@/app/lib/util";
+
+type AnyRec = Record<string, unknown>;
+
+/** Recorded as the actor for penalties posted by the scheduled run. */
+export const CRON_ACTOR: StaffUser = { uid: "system:late-fees", email: null, role: null };
+
+
+export type LateFeeRun = {
+  scanned: number;
+  charged: number;
+  totalCharged: number;
+  failed: string[];
+};
+
+/**
+ * Posts whatever penalties are due on one loan, or else refreshes its
+ * `list` fields; returns the amount charged.
+ */
+async function postLoanPenalties(actor: StaffUser, loanId: string, nowMs: number) {
+  const db = adminDb();
+  const ref = loanRef(loanId);
+
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists) return 0;
+    const v = snap.data() as AnyRec;
+    const status = String(v.status || "pending").toLowerCase();
+    if (!ACTIVE_STATUSES.includes(status) || Number(v.currentBalance ?? v.loanAmount ?? 0) <= 0) {
+      return 0;
+    }
+
+    const schedule = scheduleForLoan(v, toMillis(v.timestamp ?? v.startDate ?? v.createdAt));
+    const paid = amountPaidForLoan(v);
+    const onSchedule = paidOnSchedule(v);
+    const charged = Number(v.penaltiesCharged ?? 0);
+    const charges = penaltiesDue(
+      lateFeePolicyFor(v.loanType),
+      {
+        principal: Number(v.loanAmount ?? 0),
+        arrearsAmount: computeArrears(schedule, onSchedule, nowMs).arrearsAmount,
+        overdue: unpaidDueInstallments(schedule, onSchedule, nowMs),
+        charged,
+      },
+      nowMs
+    );
+    // days past due change without a write: keep the stored list fields current
+    const relist = () => {
+      const list = loanListFields(v, nowMs);
+      if (!sameListFields(v.list, list)) tx.update(ref, { list });
+      return 0;
+    };
+    if (!charges.length) return relist();
+
+    // entry ids are the charge keys, so re-running the same day posts nothing;
+    // a restructured schedule numbers its installments from 1 again
+    const prefix = v.restructureCount ? `r${v.restructureCount}_` : "";
+    const existing = await tx.getAll(
+      ...charges.map((c) => ref.collection(LEDGER_COLLECTION).doc(`penalty_${prefix}${c.key}`))
+    );
+    const fresh = charges.filter((_, i) => !existing[i].exists);
+    if (!fresh.length) return relist();
+
+    const total = round2(fresh.reduce((s, c) => s + c.amount, 0));
+    const ledger = postEntries(
+      tx,
+      ref,
+      v,
+      actor,
+      fresh.map((c) => ({
+        id: `penalty_${prefix}${c.key}`,
+        type: "penalty" as const,
+        amount: c.amount,
+        memo: c.reason,
+        extra: { waived: 0 },
+      }))
+    );
+    const patch = {
+      ...ledger,
+      penaltiesCharged: round2(charged + total),
+      // pin what was paid before the balance stops meaning "loan − payments"
+      amountPaid: paid,
+    };
+    tx.update(ref, withListFields(v, patch, nowMs));
+    await writeAudit(
+      actor,
+      {
+        action: "penalty.post",
+        targetPath: ref.path,
+        before: v,
+        after: { ...v, ...patch },
+        note: fresh.map((c) => `MWK ${c.amount}: ${c.reason}`).join("; "),
+      },
+      tx
+    );
+    return total;
+  });
+}
+
+/**
+ * Evaluates the late-fee policy for every active loan. One transaction per
+ * loan, so a failure only skips that loan (it's retried on the next run).
+ */
+export async function runLateFees(actor: StaffUser, nowMs = Date.now()): Promise<LateFeeRun> {
+  const snap = await adminDb()
+    .collection("loan_applications")
+    .where("status", "in", ACTIVE_STATUSES)
+    .get();
+
+  const run: LateFeeRun = { scanned: snap.size, charged: 0, totalCharged: 0, failed: [] };
+  for (const d of snap.docs) {
+    try {
+      const amount = await postLoanPenalties(actor, d.id, nowMs);
+      if (amount > 0) {
+        run.charged++;
+        run.totalCharged = round2(run.totalCharged + amount);
+      }
+    } catch (err) {
+      console.error(`[late-fees] loan ${d.id} failed:`, err);
+      run.failed.push(d.id);
+    }
+  }
+  return run;
+}
+
+/** Waives all (or `amount` of) a posted penalty; the reason is required. */
+export async function waivePenalty(
+  actor: StaffUser,
+  loanId: string,
+  input: { entryId: unknown; amount?: unknown; reason: unknown }
+) {
+  const reason = cleanNote(input.reason);
+  if (!reason) throw new LoanServiceError("reason is required");
+  if (typeof input.entryId !== "string" || !input.entryId || input.entryId.includes("/")) {
+    throw new LoanServiceError("entryId is required");
+  }
+
+  const db = adminDb();
+  const ref = loanRef(loanId);
+  const entryRef = ref.collection(LEDGER_COLLECTION).doc(input.entryId);
+
+  return db.runTransaction(async (tx) => {
+    const [snap, entrySnap] = await Promise.all([tx.get(ref), tx.get(entryRef)]);
+    if (!snap.exists) throw new LoanServiceError("Loan not found", 404);
+    if (!entrySnap.exists || entrySnap.get("type") !== "penalty") {
+      throw new LoanServiceError("Penalty not found", 404);
+    }
+    const v = snap.data() as AnyRec;
+    const remaining = round2(
+      Number(entrySnap.get("amount") || 0) - Number(entrySnap.get("waived") || 0)
+    );
+    if (remaining <= 0) throw new LoanServiceError("Penalty is already waived", 409);
+
+    const amount = input.amount == null || input.amount === "" ? remaining : Number(input.amount);
+    if (!Number.isFinite(amount) || amount <= 0 || amount > remaining) {
+      throw new LoanServiceError(`amount must be > 0 and at most ${remaining}`);
+    }
+
+    const waiverId = `waiver_${entryRef.id}_${Date.now()}`;
+    const ledger = postEntries(tx, ref, v, actor, [
+      { id: waiverId, type: "waiver", amount, memo: reason, extra: { ofEntryId: entryRef.id } },
+    ]);
+    const patch = {
+      ...ledger,
+      penaltiesWaived: round2(Number(v.penaltiesWaived ?? 0) + amount),
+      amountPaid: amountPaidForLoan(v),
+    };
+    tx.update(entryRef, { waived: round2(Number(entrySnap.get("waived") || 0) + amount) });
+    tx.update(ref, withListFields(v, patch));
+    await writeAudit(
+      actor,
+      {
+        action: "penalty.waive",
+        targetPath: ref.path,
+        before: v,
+        after: { ...v, ...patch },
+        note: `waived MWK ${amount} of ${entryRef.id}: ${reason}`,
+      },
+      tx
+    );
+    return { waiverId, currentBalance: patch.currentBalance };
+  });
+}
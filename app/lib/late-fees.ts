@@ -0,0 +1,80 @@
+// app/lib/late-fees.ts
+// Late-fee policy: what a loan in arrears is charged, and when. The
+// policy is evaluated by the late-fee job (app/lib/late-fees-server.ts),
+// which posts the penalties; the UI only displays what was posted.
+import { productFor } from "@/app/lib/loan-products";
+import { DAY_MS, round2 } from "@/app/lib/util";
+import type { Installment } from "@/app/lib/schedule";
+
+export type LateFeePolicy = {
+  /** Days after an installment's due date before any fee is charged. */
+  graceDays: number;
+  /**
+   * daily: `dailyRatePct` of the amount in arrears, for every day past grace.
+   * flat: `flatAmount` once per installment that goes past grace unpaid.
+   */
+  method: "daily" | "flat";
+  dailyRatePct: number;
+  flatAmount: number;
+  /** Total penalties ever charged on a loan stay within this % of principal. */
+  capPctOfPrincipal: number;
+};
+
+export const DEFAULT_LATE_FEE_POLICY: LateFeePolicy = {
+  graceDays: 3,
+  method: "daily",
+  dailyRatePct: 0.1,
+  flatAmount: 0,
+  capPctOfPrincipal: 10,
+};
+
+export function lateFeePolicyFor(loanType: unknown): LateFeePolicy {
+  return { ...DEFAULT_LATE_FEE_POLICY, ...productFor(loanType).lateFee };
+}
+
+/** A penalty to post; `key` makes re-running the job for the same day/installment a no-op. */
+export type PenaltyCharge = { key: string; amount: number; reason: string };
+
+
+/**
+ * Penalties due on a loan at `nowMs`. `overdue` are the unpaid installments
+ * already due (oldest first); `charged` is what has been posted so far.
+ */
+export function penaltiesDue(
+  policy: LateFeePolicy,
+  input: {
+    principal: number;
+    arrearsAmount: number;
+    overdue: Installment[];
+    charged: number;
+  },
+  nowMs = Date.now()
+): PenaltyCharge[] {
+  const pastGrace = input.overdue.filter(
+    (r) => nowMs - r.dueMs > policy.graceDays * DAY_MS
+  );
+  if (!pastGrace.length) return [];
+
+  let room = Math.max(0, (input.principal * policy.capPctOfPrincipal) / 100 - input.charged);
+  const out: PenaltyCharge[] = [];
+  const push = (key: string, amount: number, reason: string) => {
+    const a = round2(Math.min(amount, room));
+    if (a <= 0) return;
+    room -= a;
+    out.push({ key, amount: a, reason });
+  };
+
+  if (policy.method === "daily") {
+    const day = new Date(nowMs).toISOString().slice(0, 10);
+    push(
+      `daily_${day}`,
+      (input.arrearsAmount * policy.dailyRatePct) / 100,
+      `${policy.dailyRatePct}% of MWK ${round2(input.arrearsAmount)} in arrears (${day})`
+    );
+  } else {
+    for (const r of pastGrace) {
+      push(`installment_${r.n}`, policy.flatAmount, `installment ${r.n} unpaid past grace`);
+    }
+  }
+  return out;
+}
@@ -0,0 +1,168 @@
+// app/lib/ledger-server.ts
+// Posting to and reconciling loan ledgers (see app/lib/ledger.ts). Entries
+// are only written by the loan services, inside their transactions.
+import admin from "firebase-admin";
+import { adminDb } from "@/app/lib/firebase-admin";
+import type { StaffUser } from "@/app/lib/auth-server";
+import { amountPaidForLoan } from "@/app/lib/arrears";
+import {
+  accountsFor,
+  LEDGER_COLLECTION,
+  parseEntry,
+  receivableBalance,
+  receivableDelta,
+  type LedgerEntry,
+  type LedgerEntryType,
+} from "@/app/lib/ledger";
+import { round2, toMillis } from "@/app/lib/util";
+
+type AnyRec = Record<string, unknown>;
+
+
+export type NewEntry = {
+  /** Fixed id when posting must be idempotent (payment key, penalty day…). */
+  id?: string;
+  amount: number;
+  memo?: string | null;
+  postedAt?: admin.firestore.Timestamp;
+  /** Type-specific fields stored on the entry (paymentId, ofEntryId, …). */
+  extra?: AnyRec;
+} & (
+  | { type: Exclude<LedgerEntryType, "reversal"> }
+  | {
+      type: "reversal";
+      /**
+       * The entry being cancelled; its accounts are swapped. `id` is null
+       * for amounts only inside an opening entry (pre-ledger payments).
+       */
+      reverses: Pick<LedgerEntry, "debit" | "credit"> & { id: string | null };
+    }
+);
+
+/**
+ * Entries that put a loan created before the ledger onto it: the
+ * disbursement plus one payment for everything paid so far. Penalties
+ * posted earlier are already entries, so the result matches `currentBalance`.
+ */
+function openingEntries(v: AnyRec): NewEntry[] {
+  const startMs = toMillis(v.timestamp);
+  const postedAt = startMs ? admin.firestore.Timestamp.fromMillis(startMs) : undefined;
+  const out: NewEntry[] = [
+    {
+      id: "opening_disbursement",
+      type: "disbursement",
+      amount: Number(v.loanAmount ?? 0),
+      memo: "Opening: disbursed before the ledger",
+      postedAt,
+    },
+  ];
+  const paid = amountPaidForLoan(v);
+  if (paid > 0) {
+    out.push({
+      id: "opening_payments",
+      type: "payment",
+      amount: paid,
+      memo: "Opening: payments recorded before the ledger",
+    });
+  }
+  return out;
+}
+
+/**
+ * Creates `entries` on the loan's ledger — call after all transaction
+ * reads — and returns the loan fields to update with them. A loan without
+ * `ledgerOpenedAt` gets its opening entries first. New loans pass
+ * `{ ledgerOpenedAt, currentBalance: 0 }` as `v`.
+ */
+export function postEntries(
+  tx: admin.firestore.Transaction,
+  loan: admin.firestore.DocumentReference,
+  v: AnyRec,
+  actor: StaffUser,
+  entries: NewEntry[]
+): { currentBalance: number; ledgerOpenedAt?: admin.firestore.Timestamp } {
+  const now = admin.firestore.Timestamp.now();
+  const opening = v.ledgerOpenedAt ? [] : openingEntries(v);
+  // a legacy loan's balance is rebuilt from its opening entries below
+  let balance = opening.length ? 0 : Number(v.currentBalance ?? 0);
+
+  for (const e of [...opening, ...entries]) {
+    if (!(e.amount > 0)) continue;
+    const { debit, credit } =
+      e.type === "reversal"
+        ? { debit: e.reverses.credit, credit: e.reverses.debit }
+        : accountsFor(e.type);
+    const ref = e.id
+      ? loan.collection(LEDGER_COLLECTION).doc(e.id)
+      : loan.collection(LEDGER_COLLECTION).doc();
+    const amount = round2(e.amount);
+    if (e.type === "reversal" && e.reverses.id) {
+      tx.update(loan.collection(LEDGER_COLLECTION).doc(e.reverses.id), {
+        reversedByEntryId: ref.id,
+      });
+    }
+    tx.create(ref, {
+      ...e.extra,
+      ...(e.type === "reversal" ? { reversesEntryId: e.reverses.id } : {}),
+      type: e.type,
+      amount,
+      debit,
+      credit,
+      memo: e.memo ?? null,
+      postedAt: e.postedAt ?? now,
+      postedByUid: actor.uid,
+      postedByEmail: actor.email,
+    });
+    balance += receivableDelta({ amount, debit, credit });
+  }
+  if (opening.length) {
+    // penalties/waivers posted before the ledger was opened
+    balance += Number(v.penaltiesCharged ?? 0) - Number(v.penaltiesWaived ?? 0);
+  }
+  return {
+    currentBalance: round2(balance),
+    ...(opening.length ? { ledgerOpenedAt: now } : {}),
+  };
+}
+
+export type Reconciliation = {
+  checked: number;
+  mismatches: { loanId: string; stored: number; derived: number; difference: number }[];
+  /** Loans nothing has been posted for since the ledger was introduced. */
+  unopened: string[];
+  checkedAt: number;
+};
+
+/** Compares every loan's `currentBalance` with the balance its ledger derives. */
+export async function reconcileLedgers(): Promise<Reconciliation> {
+  const db = adminDb();
+  const [loansSnap, entriesSnap] = await Promise.all([
+    db.collection("loan_applications").get(),
+    db.collectionGroup(LEDGER_COLLECTION).get(),
+  ]);
+
+  const byLoan = new Map<string, LedgerEntry[]>();
+  for (const d of entriesSnap.docs) {
+    const loan = d.ref.parent.parent;
+    if (!loan || loan.parent.id !== "loan_applications") continue;
+    const e = parseEntry(d.id, d.data());
+    if (!e) continue;
+    byLoan.set(loan.id, [...(byLoan.get(loan.id) || []), e]);
+  }
+
+  const out: Reconciliation = { checked: 0, mismatches: [], unopened: [], checkedAt: Date.now() };
+  for (const d of loansSnap.docs) {
+    const v = d.data();
+    if (!v.ledgerOpenedAt) {
+      out.unopened.push(d.id);
+      continue;
+    }
+    out.checked++;
+    const stored = round2(Number(v.currentBalance ?? 0));
+    const derived = receivableBalance(byLoan.get(d.id) || []);
+    if (Math.abs(stored - derived) > 0.005) {
+      out.mismatches.push({ loanId: d.id, stored, derived, difference: round2(stored - derived) });
+    }
+  }
+  return out;
+}
@@ -0,0 +1,164 @@
+// app/lib/ledger.ts
+// Per-loan double-entry ledger (`loan_applications/{id}/ledger`). Every
+// change to what a borrower owes is an entry debiting one account and
+// crediting another; the loan's balance is the net debit of
+// `loan_receivable`. `currentBalance` on the loan doc is a cached copy,
+// checked against the entries by /api/admin/ledger/reconcile.
+
+import { parseAllocation, type Allocation } from "@/app/lib/allocation";
+import { round2, toMillis } from "@/app/lib/util";
+
+export const LEDGER_COLLECTION = "ledger";
+
+export const LEDGER_ENTRY_TYPES = [
+  "disbursement",
+  "interest_accrual",
+  "fee",
+  "penalty",
+  "payment",
+  "waiver",
+  "write_off",
+  "credit",
+  "restructure",
+  "recovery",
+  "refund",
+  "rebate",
+  "credit_applied",
+  "reversal",
+] as const;
+export type LedgerEntryType = (typeof LEDGER_ENTRY_TYPES)[number];
+
+export type LedgerAccount =
+  | "loan_receivable"
+  | "cash"
+  | "interest_income"
+  | "fee_income"
+  | "penalty_income"
+  | "loan_loss_expense"
+  | "recovery_income"
+  | "customer_credit";
+
+export const RECEIVABLE: LedgerAccount = "loan_receivable";
+
+/** Debit/credit accounts per entry type (reversals swap their original's). */
+const ACCOUNTS: Record<Exclude<LedgerEntryType, "reversal">, [LedgerAccount, LedgerAccount]> = {
+  disbursement: ["loan_receivable", "cash"],
+  interest_accrual: ["loan_receivable", "interest_income"],
+  fee: ["loan_receivable", "fee_income"],
+  penalty: ["loan_receivable", "penalty_income"],
+  payment: ["cash", "loan_receivable"],
+  waiver: ["penalty_income", "loan_receivable"],
+  write_off: ["loan_loss_expense", "loan_receivable"],
+  // overpayment held for the customer; doesn't touch the receivable
+  credit: ["cash", "customer_credit"],
+  // the replaced schedule's unearned interest and fees, cancelled on restructure
+  restructure: ["interest_income", "loan_receivable"],
+  // cash collected on a written-off loan; its receivable is already zero
+  recovery: ["cash", "recovery_income"],
+  // customer credit paid back out (e.g. the surplus from a collateral sale)
+  refund: ["customer_credit", "cash"],
+  // unearned interest and fees forgiven when a loan is settled early
+  rebate: ["interest_income", "loan_receivable"],
+  // customer credit used towards what the loan owes (early settlement)
+  credit_applied: ["customer_credit", "loan_receivable"],
+};
+
+export const ENTRY_LABELS: Record<LedgerEntryType, string> = {
+  disbursement: "Disbursement",
+  interest_accrual: "Interest",
+  fee: "Fee",
+  penalty: "Late fee",
+  payment: "Payment",
+  waiver: "Waiver",
+  write_off: "Write-off",
+  credit: "Customer credit",
+  restructure: "Restructure",
+  recovery: "Recovery",
+  refund: "Refund",
+  rebate: "Settlement rebate",
+  credit_applied: "Credit applied",
+  reversal: "Reversal",
+};
+
+export function accountsFor(
+  type: Exclude<LedgerEntryType, "reversal">
+): { debit: LedgerAccount; credit: LedgerAccount } {
+  const [debit, credit] = ACCOUNTS[type];
+  return { debit, credit };
+}
+
+export type LedgerEntry = {
+  id: string;
+  type: LedgerEntryType;
+  amount: number;
+  debit: LedgerAccount;
+  credit: LedgerAccount;
+  memo: string | null;
+  postedAtMs: number | null;
+  postedByEmail: string | null;
+  /** reversal: the entry it cancels. */
+  reversesEntryId?: string | null;
+  /** Set on an entry once it has been reversed. */
+  reversedByEntryId?: string | null;
+  /** penalty: amount waived so far. */
+  waived?: number;
+  /** payment/reversal: the `loan_payments` doc it belongs to. */
+  paymentId?: string | null;
+  /** payment: its split across components (app/lib/allocation.ts). */
+  allocation?: Allocation | null;
+  /** payment: channel and provider reference (app/lib/payment-methods.ts). */
+  method?: string | null;
+  reference?: string | null;
+};
+
+/**
+ * Normalizes a stored entry. Penalty/waiver entries written before the
+ * ledger existed carry no accounts and use `reason`; both are filled in.
+ */
+export function parseEntry(id: string, v: Record<string, unknown>): LedgerEntry | null {
+  const type = v.type as LedgerEntryType;
+  if (!(LEDGER_ENTRY_TYPES as readonly string[]).includes(type)) return null;
+  const fallback = type === "reversal" ? null : accountsFor(type);
+  const debit = (v.debit as LedgerAccount) ?? fallback?.debit;
+  const credit = (v.credit as LedgerAccount) ?? fallback?.credit;
+  if (!debit || !credit) return null;
+  return {
+    id,
+    type,
+    amount: Number(v.amount || 0),
+    debit,
+    credit,
+    memo: (v.memo as string) ?? (v.reason as string) ?? null,
+    postedAtMs: toMillis(v.postedAt),
+    postedByEmail: (v.postedByEmail as string) ?? null,
+    reversesEntryId: (v.reversesEntryId as string) ?? null,
+    reversedByEntryId: (v.reversedByEntryId as string) ?? null,
+    waived: v.waived == null ? undefined : Number(v.waived),
+    paymentId: (v.paymentId as string) ?? null,
+    allocation: parseAllocation(v.allocation),
+    method: (v.method as string) ?? null,
+    reference: (v.reference as string) ?? null,
+  };
+}
+
+/** Signed effect of one entry on the receivable (+ owed more, − owed less). */
+export function receivableDelta(e: Pick<LedgerEntry, "amount" | "debit" | "credit">): number {
+  return (e.debit === RECEIVABLE ? e.amount : 0) - (e.credit === RECEIVABLE ? e.amount : 0);
+}
+
+
+/** What the borrower owes according to the entries. */
+export function receivableBalance(entries: Pick<LedgerEntry, "amount" | "debit" | "credit">[]): number {
+  return round2(entries.reduce((s, e) => s + receivableDelta(e), 0));
+}
+
+/** Entries oldest first, each with the receivable balance after it. */
+export function withRunningBalance(entries: LedgerEntry[]): (LedgerEntry & { balance: number })[] {
+  let balance = 0;
+  return [...entries]
+    .sort((a, b) => (a.postedAtMs ?? 0) - (b.postedAtMs ?? 0))
+    .map((e) => {
+      balance = round2(balance + receivableDelta(e));
+      return { ...e, balance };
+    });
+}
@@ -0,0 +1,382 @@
+// app/lib/loan-list-server.ts
+// Loan list for /api/admin/loans (see app/lib/loan-list.ts). Every filter
+// and sort is on the `list` fields stored with the loan, so a page is one
+// Firestore query and the totals are aggregation queries; no request reads
+// the whole collection. Rows leave the schedules out: getLoanDetail has them.
+import admin from "firebase-admin";
+import {
+  arrearsForLoan,
+  amountPaidForLoan,
+  paidOnSchedule,
+  PAR_BUCKETS,
+  type ParSummary,
+} from "@/app/lib/arrears";
+import { adminDb } from "@/app/lib/firebase-admin";
+import { ACTIVE_STATUSES, LoanServiceError, loanRef, WRITTEN_OFF } from "@/app/lib/loans-server";
+import { parseDemandNotices } from "@/app/lib/repossession";
+import { asFrequency, computeEndDate, scheduleForLoan, storedSchedule } from "@/app/lib/schedule";
+import { SEARCH_KEYS_FIELD, searchQueryKeys } from "@/app/lib/search";
+import {
+  LOAN_SORT_FIELDS,
+  LOAN_SORTS,
+  isStatusGroup,
+  loanFilterConflict,
+  OVERDUE_FILTERS,
+  pinnedSort,
+  type LoanDetail,
+  type LoanFilter,
+  type LoanListFields,
+  type LoanListPage,
+  type LoanListQuery,
+  type LoanListTotals,
+  type LoanRow,
+  type LoanStatusGroup,
+  type OverdueFilter,
+} from "@/app/lib/loan-list";
+import { DAY_MS, round2, toMillis } from "@/app/lib/util";
+
+type AnyRec = Record<string, unknown>;
+
+const DEFAULT_LIMIT = 25;
+const MAX_LIMIT = 100;
+
+const str = (v: unknown) => (typeof v === "string" ? v.trim() : "");
+
+/* ---------------- stored list fields ---------------- */
+/** Same split as the Outstanding page's tabs. */
+function statusGroup(status: string, balance: number): LoanStatusGroup | null {
+  // written-off loans also have no balance, but were not repaid
+  if (status === WRITTEN_OFF) return "written_off";
+  if (ACTIVE_STATUSES.includes(status) && balance > 0) return "outstanding";
+  if (balance <= 0 || status === "closed") return "finished";
+  return null;
+}
+
+export function loanListFields(v: AnyRec, nowMs = Date.now()): LoanListFields {
+  const status = String(v.status ?? "pending").toLowerCase();
+  const balance = Number(v.currentBalance ?? v.loanAmount ?? 0);
+  const createdMs = toMillis(v.timestamp);
+  const a = arrearsForLoan(v, createdMs, nowMs);
+  return {
+    group: statusGroup(status, balance),
+    status,
+    loanType: String(v.loanType ?? "unknown").toLowerCase(),
+    frequency: asFrequency(v.paymentFrequency ?? v.frequency),
+    area: str(v.areaName).toLowerCase(),
+    createdMs,
+    balance,
+    arrears: a.dpd > 0 ? a.arrearsAmount : 0,
+    dpd: a.dpd,
+    overdue: a.parBucket ?? "current",
+    nextDueMs: a.nextDueMs,
+    writtenOff: Number(v.writtenOffAmount ?? 0),
+    recovered: Number(v.recoveredAmount ?? 0),
+  };
+}
+
+/**
+ * `patch` with the `list` fields of the loan it leaves behind (`v` with
+ * `patch` applied); every write to a loan goes through this.
+ */
+export function withListFields<T extends AnyRec>(v: AnyRec, patch: T, nowMs = Date.now()) {
+  return { ...patch, list: loanListFields({ ...v, ...patch }, nowMs) };
+}
+
+/** Whether the stored `list` already holds `next` (Firestore returns map keys reordered). */
+export function sameListFields(stored: unknown, next: LoanListFields) {
+  if (!stored || typeof stored !== "object") return false;
+  return Object.entries(next).every(([k, x]) => (stored as AnyRec)[k] === x);
+}
+
+export type LoanListIndexRun = { scanned: number; written: number };
+
+const INDEX_PAGE = 100;
+
+/** Writes missing or outdated `list` fields on every loan (scripts/reindex.ts). */
+export async function runLoanListIndex(nowMs = Date.now()): Promise<LoanListIndexRun> {
+  const db = adminDb();
+  const run: LoanListIndexRun = { scanned: 0, written: 0 };
+  let query = db
+    .collection("loan_applications")
+    .orderBy(admin.firestore.FieldPath.documentId())
+    .limit(INDEX_PAGE);
+  for (;;) {
+    const snap = await query.get();
+    const batch = db.batch();
+    let changed = 0;
+    for (const d of snap.docs) {
+      const list = loanListFields(d.data(), nowMs);
+      if (sameListFields(d.get("list"), list)) continue;
+      batch.update(d.ref, { list });
+      changed++;
+    }
+    if (changed) await batch.commit();
+    run.scanned += snap.size;
+    run.written += changed;
+    if (snap.size < INDEX_PAGE) break;
+    query = query.startAfter(snap.docs[snap.docs.length - 1]);
+  }
+  return run;
+}
+
+/* ---------------- rows ---------------- */
+export function loanRow(id: string, v: AnyRec, nowMs = Date.now()): LoanRow {
+  const startMs = toMillis(v.timestamp);
+  const paymentFrequency = asFrequency(v.paymentFrequency ?? v.frequency);
+  const loanPeriod = Number(v.loanPeriod ?? v.period ?? 0);
+  const arrears = arrearsForLoan(v, startMs, nowMs);
+  const penaltiesCharged = Number(v.penaltiesCharged ?? 0);
+  const penaltiesWaived = Number(v.penaltiesWaived ?? 0);
+  return {
+    id,
+    firstName: str(v.firstName) || str(v.applicantFirstName),
+    surname: str(v.surname) || str(v.lastName) || str(v.applicantLastName),
+    mobile: str(v.mobile) || str(v.mobileTel) || str(v.mobileTel1),
+    email: str(v.email),
+    areaName: str(v.areaName),
+    loanAmount: Number(v.loanAmount ?? 0),
+    currentBalance: Number(v.currentBalance ?? v.loanAmount ?? 0),
+    loanPeriod,
+    paymentFrequency,
+    status: String(v.status ?? "pending").toLowerCase(),
+    loanType: String(v.loanType ?? "unknown").toLowerCase(),
+    kycId: str(v.kycId) || str(v.userId),
+    startMs,
+    // restructured loans store their new maturity
+    endMs:
+      toMillis(v.endDate) ?? computeEndDate(startMs, loanPeriod, paymentFrequency)?.getTime() ?? null,
+    amountPaid: amountPaidForLoan(v),
+    penaltiesCharged,
+    penaltiesWaived,
+    penaltiesNet: Math.max(0, penaltiesCharged - penaltiesWaived),
+    creditBalance: Number(v.creditBalance ?? 0),
+    ledgerOpened: !!v.ledgerOpenedAt,
+    paidOnSchedule: paidOnSchedule(v),
+    restructureCount: Number(v.restructureCount ?? 0),
+    writtenOffAmount: Number(v.writtenOffAmount ?? 0),
+    writtenOffAtMs: toMillis(v.writtenOffAt),
+    writeOffReason: str(v.writeOffReason),
+    recoveredAmount: Number(v.recoveredAmount ?? 0),
+    arrears,
+    overdueDays: arrears.dpd,
+  };
+}
+
+export function loanDetail(id: string, v: AnyRec, nowMs = Date.now()): LoanDetail {
+  const row = loanRow(id, v, nowMs);
+  return {
+    ...row,
+    schedule: scheduleForLoan(v, row.startMs),
+    scheduleProjected: !storedSchedule(v),
+    termsHistory: Array.isArray(v.termsHistory)
+      ? (v.termsHistory as AnyRec[]).map((h) => ({
+          periods: Number((h.terms as AnyRec | undefined)?.periods ?? h.loanPeriod ?? 0),
+          frequency: String((h.terms as AnyRec | undefined)?.frequency ?? h.paymentFrequency ?? ""),
+          balance: Number(h.balance ?? 0),
+          capitalised: Number(h.capitalised ?? 0),
+          carried: Number(h.carried ?? 0),
+          cancelled: Number(h.cancelled ?? 0),
+          reason: String(h.reason ?? ""),
+          replacedAtMs: toMillis(h.replacedAt),
+          replacedByEmail: (h.replacedByEmail as string) ?? null,
+        }))
+      : [],
+    demandNotices: parseDemandNotices(v.demandNotices),
+  };
+}
+
+export async function getLoanDetail(id: string): Promise<LoanDetail> {
+  const snap = await loanRef(id).get();
+  if (!snap.exists) throw new LoanServiceError("Loan not found", 404);
+  return loanDetail(snap.id, snap.data() as AnyRec);
+}
+
+/* ---------------- query parsing ---------------- */
+function oneOf<T extends string>(v: string | null, options: readonly T[], name: string): T | undefined {
+  if (!v) return undefined;
+  if (!(options as readonly string[]).includes(v)) {
+    throw new LoanServiceError(`${name} must be one of: ${options.join(", ")}`);
+  }
+  return v as T;
+}
+
+function amount(v: string | null, name: string): number | undefined {
+  if (!v) return undefined;
+  const n = Number(v);
+  if (!Number.isFinite(n)) throw new LoanServiceError(`${name} must be a number`);
+  return n;
+}
+
+function day(v: string | null, name: string): string | undefined {
+  if (!v) return undefined;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(v) || isNaN(Date.parse(v))) {
+    throw new LoanServiceError(`${name} must be a date (YYYY-MM-DD)`);
+  }
+  return v;
+}
+
+/** Reads the list query from a request's search params; 400 on bad values. */
+export function parseLoanListQuery(p: URLSearchParams): LoanListQuery {
+  const limit = Number(p.get("limit") || DEFAULT_LIMIT);
+  return {
+    status: (p.get("status") || "").trim().toLowerCase() || undefined,
+    loanType: (p.get("loanType") || "").trim().toLowerCase() || undefined,
+    frequency: oneOf(p.get("frequency"), ["weekly", "monthly"] as const, "frequency"),
+    area: (p.get("area") || "").trim() || undefined,
+    from: day(p.get("from"), "from"),
+    to: day(p.get("to"), "to"),
+    minBalance: amount(p.get("minBalance"), "minBalance"),
+    maxBalance: amount(p.get("maxBalance"), "maxBalance"),
+    overdue: oneOf(p.get("overdue"), OVERDUE_FILTERS, "overdue"),
+    q: (p.get("q") || "").trim() || undefined,
+    sort: oneOf(p.get("sort"), LOAN_SORTS, "sort"),
+    dir: oneOf(p.get("dir"), ["asc", "desc"] as const, "dir"),
+    cursor: p.get("cursor"),
+    limit: Number.isFinite(limit) ? Math.max(1, Math.min(MAX_LIMIT, Math.floor(limit))) : DEFAULT_LIMIT,
+  };
+}
+
+/* ---------------- filtering ---------------- */
+/**
+ * The filters as a query; null when the text search has no key to look up.
+ * 400 on combinations without an index (see loanFilterConflict).
+ */
+function filtered(q: LoanFilter): admin.firestore.Query | null {
+  const conflict = loanFilterConflict(q);
+  if (conflict) throw new LoanServiceError(conflict);
+  let query: admin.firestore.Query = adminDb().collection("loan_applications");
+  if (q.status) {
+    query = query.where(isStatusGroup(q.status) ? "list.group" : "list.status", "==", q.status);
+  }
+  if (q.loanType) query = query.where("list.loanType", "==", q.loanType);
+  if (q.frequency) query = query.where("list.frequency", "==", q.frequency);
+  if (q.area) query = query.where("list.area", "==", q.area.toLowerCase());
+  if (q.overdue) query = query.where("list.overdue", "==", q.overdue);
+  if (q.from) query = query.where("list.createdMs", ">=", Date.parse(q.from));
+  if (q.to) query = query.where("list.createdMs", "<=", Date.parse(q.to) + DAY_MS - 1);
+  if (q.minBalance != null) query = query.where("list.balance", ">=", q.minBalance);
+  if (q.maxBalance != null) query = query.where("list.balance", "<=", q.maxBalance);
+  if (q.q) {
+    const keys = searchQueryKeys(q.q);
+    if (!keys.length) return null;
+    query = query.where(SEARCH_KEYS_FIELD, "array-contains-any", keys);
+  }
+  return query;
+}
+
+const EMPTY_TOTALS: LoanListTotals = {
+  count: 0,
+  balance: 0,
+  arrears: 0,
+  inArrears: 0,
+  writtenOff: 0,
+  recovered: 0,
+  par: Object.fromEntries(PAR_BUCKETS.map((b) => [b, { count: 0, balance: 0 }])) as ParSummary,
+};
+
+/** Aggregation queries over everything `query` matches; `overdue` is its PAR filter, if any. */
+async function listTotals(
+  query: admin.firestore.Query,
+  overdue?: OverdueFilter
+): Promise<LoanListTotals> {
+  const { count, sum } = admin.firestore.AggregateField;
+  const parOf = (q: admin.firestore.Query) =>
+    q.aggregate({ count: count(), balance: sum("list.balance") }).get();
+  const [all, ...buckets] = await Promise.all([
+    query
+      .aggregate({
+        count: count(),
+        balance: sum("list.balance"),
+        arrears: sum("list.arrears"),
+        writtenOff: sum("list.writtenOff"),
+        recovered: sum("list.recovered"),
+      })
+      .get(),
+    // filtered to one bucket already: the others are empty
+    ...PAR_BUCKETS.map((b) =>
+      overdue ? (overdue === b ? parOf(query) : null) : parOf(query.where("list.overdue", "==", b))
+    ),
+  ]);
+  const totals = all.data();
+  const par = { ...EMPTY_TOTALS.par };
+  PAR_BUCKETS.forEach((b, i) => {
+    const d = buckets[i]?.data();
+    par[b] = { count: d?.count ?? 0, balance: round2(d?.balance ?? 0) };
+  });
+  return {
+    count: totals.count,
+    balance: round2(totals.balance),
+    arrears: round2(totals.arrears),
+    inArrears: PAR_BUCKETS.reduce((s, b) => s + par[b].count, 0),
+    writtenOff: round2(totals.writtenOff),
+    recovered: round2(totals.recovered),
+    par,
+  };
+}
+
+/** Totals over every loan matching `f`, without reading the loans (dashboard KPIs). */
+export async function loanTotals(f: LoanFilter): Promise<LoanListTotals> {
+  const query = filtered(f);
+  return query ? listTotals(query, f.overdue) : EMPTY_TOTALS;
+}
+
+/* ---------------- cursors ---------------- */
+type SortKey = [value: number | null, id: string];
+
+// the last row's sort value and id, so a page starts right after it even
+// when loans were added or paid off in between
+const encodeCursor = (k: SortKey) => Buffer.from(JSON.stringify(k)).toString("base64url");
+
+function decodeCursor(c: string): SortKey {
+  try {
+    const k = JSON.parse(Buffer.from(c, "base64url").toString("utf8"));
+    if (Array.isArray(k) && (k[0] === null || typeof k[0] === "number") && typeof k[1] === "string") {
+      return [k[0], k[1]];
+    }
+  } catch {
+    // fall through
+  }
+  throw new LoanServiceError("Invalid cursor");
+}
+
+/* ---------------- list ---------------- */
+/**
+ * One page of loans. A range filter sorts by its own field, whatever
+ * `sort` asks for (see pinnedSort). Firestore sorts loans without a value
+ * (nothing left due, no creation date) before the rest ascending and after
+ * them descending. Totals are only worked out for the first page.
+ */
+export async function listLoans(q: LoanListQuery): Promise<LoanListPage> {
+  const sort = pinnedSort(q) ?? q.sort ?? "created";
+  const dir = q.dir ?? (sort === "due" ? "asc" : "desc");
+  const limit = q.limit ?? DEFAULT_LIMIT;
+  const after = q.cursor ? decodeCursor(q.cursor) : null;
+  const nowMs = Date.now();
+
+  const query = filtered(q);
+  if (!query) {
+    return { items: [], nextCursor: null, totals: after ? null : EMPTY_TOTALS, updatedAt: nowMs };
+  }
+  const field = `list.${LOAN_SORT_FIELDS[sort]}`;
+  let page = query
+    .orderBy(field, dir)
+    .orderBy(admin.firestore.FieldPath.documentId(), dir)
+    .limit(limit + 1);
+  if (after) page = page.startAfter(...after);
+
+  const [snap, totals] = await Promise.all([
+    page.get(),
+    after ? null : listTotals(query, q.overdue),
+  ]);
+  const docs = snap.docs.slice(0, limit);
+  const last = docs[docs.length - 1];
+  const lastKey: SortKey | null = last
+    ? [(last.get(field) as number | null) ?? null, last.id]
+    : null;
+  return {
+    items: docs.map((d) => loanRow(d.id, d.data(), nowMs)),
+    nextCursor: snap.size > limit && lastKey ? encodeCursor(lastKey) : null,
+    totals,
+    updatedAt: nowMs,
+  };
+}
@@ -0,0 +1,20 @@
+// app/lib/loan-list.test.ts
+// The loan list only offers filter combinations its Firestore indexes
+// serve: a range sorts by its own field, and search goes with a tab only.
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { loanFilterConflict, pinnedSort } from "@/app/lib/loan-list";
+
+test("a range filter pins the sort to its field", () => {
+  assert.equal(pinnedSort({ from: "2025-01-01" }), "created");
+  assert.equal(pinnedSort({ maxBalance: 50000 }), "balance");
+  assert.equal(pinnedSort({ minBalance: "", loanType: "business" }), null);
+});
+
+test("only combinations with an index are allowed", () => {
+  assert.equal(loanFilterConflict({ status: "outstanding", loanType: "business", overdue: "1-30" }), null);
+  assert.equal(loanFilterConflict({ status: "outstanding", q: "banda" }), null);
+  assert.ok(loanFilterConflict({ from: "2025-01-01", minBalance: 1000 }));
+  assert.ok(loanFilterConflict({ q: "banda", area: "Lilongwe" }));
+  assert.ok(loanFilterConflict({ q: "banda", status: "approved" }));
+});
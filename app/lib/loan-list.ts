@@ -0,0 +1,212 @@
+// app/lib/loan-list.ts
+// The loan list behind /api/admin/loans (app/lib/loan-list-server.ts):
+// filters, sorting and the rows it returns. Each loan carries the fields
+// it's filtered and sorted on (`list`, see LoanListFields), so a page is
+// one Firestore query of `limit` loans, continued with an opaque cursor.
+// Totals are aggregation queries over every matching loan.
+import { PAR_BUCKETS, type Arrears, type ParBucket, type ParSummary } from "@/app/lib/arrears";
+import type { DemandNotice } from "@/app/lib/repossession";
+import type { Frequency, Installment } from "@/app/lib/schedule";
+
+/** Tabs of the Outstanding page; `status` also takes a single loan status. */
+export const LOAN_STATUS_GROUPS = ["outstanding", "finished", "written_off"] as const;
+export type LoanStatusGroup = (typeof LOAN_STATUS_GROUPS)[number];
+
+export const LOAN_SORTS = ["created", "balance", "due"] as const;
+export type LoanSort = (typeof LOAN_SORTS)[number];
+
+export const LOAN_SORT_LABELS: Record<LoanSort, string> = {
+  created: "Created",
+  balance: "Balance",
+  due: "Next due date",
+};
+
+/** Field of `list` each sort orders by. */
+export const LOAN_SORT_FIELDS: Record<LoanSort, keyof LoanListFields> = {
+  created: "createdMs",
+  balance: "balance",
+  due: "nextDueMs",
+};
+
+/** `current`: nothing past due; otherwise a PAR bucket of days past due. */
+export const OVERDUE_FILTERS = ["current", ...PAR_BUCKETS] as const;
+export type OverdueFilter = "current" | ParBucket;
+
+export type LoanFilter = {
+  status?: string;
+  loanType?: string;
+  frequency?: Frequency;
+  area?: string;
+  /** Created on or after / on or before, `YYYY-MM-DD`. */
+  from?: string;
+  to?: string;
+  minBalance?: number;
+  maxBalance?: number;
+  overdue?: OverdueFilter;
+  /** Starts a name word, phone number or loan id (see app/lib/search.ts). */
+  q?: string;
+};
+
+export const isStatusGroup = (s: string): s is LoanStatusGroup =>
+  (LOAN_STATUS_GROUPS as readonly string[]).includes(s);
+
+/*
+ * Firestore serves each page and its totals from the indexes in
+ * firestore.indexes.json: one (filter field, sort field) index per
+ * equality filter, merged when several are set. So a range can only be
+ * on the field the list is sorted by, and the text search only goes with
+ * a tab. The page offers only these combinations; the server rejects others.
+ */
+type FilterInput = { [K in keyof LoanFilter]?: unknown };
+
+const isSet = (v: unknown) => v != null && v !== "";
+
+/** Sort a range filter pins the list to, if any. */
+export function pinnedSort(f: FilterInput): LoanSort | null {
+  if (isSet(f.from) || isSet(f.to)) return "created";
+  if (isSet(f.minBalance) || isSet(f.maxBalance)) return "balance";
+  return null;
+}
+
+/** Why the filters can't be used together; null when they can. */
+export function loanFilterConflict(f: FilterInput): string | null {
+  const dates = isSet(f.from) || isSet(f.to);
+  const balance = isSet(f.minBalance) || isSet(f.maxBalance);
+  if (dates && balance) return "Filter by created date or by balance, not both";
+  const others = [f.loanType, f.frequency, f.area, f.overdue].some(isSet) || dates || balance;
+  const singleStatus = typeof f.status === "string" && isSet(f.status) && !isStatusGroup(f.status);
+  if (isSet(f.q) && (others || singleStatus)) {
+    return "Search by name, phone or loan ID on its own; clear the other filters first";
+  }
+  return null;
+}
+
+export type LoanListQuery = LoanFilter & {
+  sort?: LoanSort;
+  dir?: "asc" | "desc";
+  cursor?: string | null;
+  limit?: number;
+};
+
+/**
+ * Stored on each loan as `list` whenever the loan is written, and by the
+ * daily late-fee run for active loans, whose days past due change without
+ * a write. Loans from before it existed aren't listed until
+ * scripts/reindex.ts has been run.
+ */
+export type LoanListFields = {
+  /** Tab of the Outstanding page; null for pending and declined loans. */
+  group: LoanStatusGroup | null;
+  status: string;
+  loanType: string;
+  frequency: Frequency;
+  /** Lower-cased, for an exact match. */
+  area: string;
+  createdMs: number | null;
+  balance: number;
+  /** Past-due amount; 0 when current. */
+  arrears: number;
+  /** Days past due; 0 when current. */
+  dpd: number;
+  overdue: OverdueFilter;
+  /** Earliest unpaid installment; null once the schedule is paid. */
+  nextDueMs: number | null;
+  writtenOff: number;
+  recovered: number;
+};
+
+/** A replaced schedule, from the loan's `termsHistory`. */
+export type TermsChange = {
+  periods: number;
+  frequency: string;
+  balance: number;
+  capitalised: number;
+  carried: number;
+  cancelled: number;
+  reason: string;
+  replacedAtMs: number | null;
+  replacedByEmail: string | null;
+};
+
+export type LoanRow = {
+  id: string;
+  firstName: string;
+  surname: string;
+  mobile: string;
+  email: string;
+  areaName: string;
+  loanAmount: number;
+  currentBalance: number;
+  loanPeriod: number;
+  paymentFrequency: Frequency;
+  status: string;
+  loanType: string;
+  kycId: string;
+  startMs: number | null;
+  /** Stored maturity of restructured loans, else worked out from the terms. */
+  endMs: number | null;
+  amountPaid: number;
+  penaltiesCharged: number;
+  penaltiesWaived: number;
+  /** Posted penalties not waived. */
+  penaltiesNet: number;
+  creditBalance: number;
+  /** Balance is kept by the ledger (see app/lib/ledger.ts). */
+  ledgerOpened: boolean;
+  /** Paid towards the current schedule (restructured loans start over). */
+  paidOnSchedule: number;
+  restructureCount: number;
+  writtenOffAmount: number;
+  writtenOffAtMs: number | null;
+  writeOffReason: string;
+  /** Collected after the write-off. */
+  recoveredAmount: number;
+  arrears: Arrears;
+  /** Days past due of the earliest unpaid installment. */
+  overdueDays: number;
+};
+
+/** One loan in full (GET /api/admin/loans/{id}); list rows leave these out. */
+export type LoanDetail = LoanRow & {
+  schedule: Installment[];
+  scheduleProjected: boolean;
+  termsHistory: TermsChange[];
+  demandNotices: DemandNotice[];
+};
+
+export function loanDetailUrl(id: string) {
+  return `/api/admin/loans/${encodeURIComponent(id)}`;
+}
+
+export type LoanListTotals = {
+  count: number;
+  balance: number;
+  arrears: number;
+  inArrears: number;
+  writtenOff: number;
+  recovered: number;
+  par: ParSummary;
+};
+
+export type LoanListPage = {
+  items: LoanRow[];
+  nextCursor: string | null;
+  /** Over every loan matching the filters; on the first page only. */
+  totals: LoanListTotals | null;
+  updatedAt: number;
+};
+
+/**
+ * Query string for /api/admin/loans; unset and empty values are left out.
+ * Values can be form input as typed; the server checks them.
+ */
+export function loanListQuery(
+  q: Partial<Record<keyof LoanListQuery, string | number | null>>
+): string {
+  const qs = new URLSearchParams();
+  for (const [k, v] of Object.entries(q)) {
+    if (v === undefined || v === null || v === "") continue;
+    qs.set(k, String(v));
+  }
+  return qs.toString();
+}
@@ -0,0 +1,50 @@
+// app/lib/loan-products.ts
+// Policies per loan product (the `loanType` on calculator proposals and
+// loans). Interest isn't set here: each loan is priced by its calculator
+// proposal (see termsFromCalculator in app/lib/schedule.ts).
+import type { LateFeePolicy } from "@/app/lib/late-fees";
+import type { AllocationComponent } from "@/app/lib/allocation";
+import type { SettlementPolicy } from "@/app/lib/settlement";
+import type { CoveragePolicy } from "@/app/lib/coverage";
+
+export type LoanProduct = {
+  label: string;
+  /** Overrides of DEFAULT_LATE_FEE_POLICY for this product. */
+  lateFee?: Partial<LateFeePolicy>;
+  /** Payment allocation order; DEFAULT_ALLOCATION_ORDER when unset. */
+  allocationOrder?: readonly AllocationComponent[];
+  /** Overrides of DEFAULT_SETTLEMENT_POLICY for this product. */
+  settlement?: Partial<SettlementPolicy>;
+  /** Overrides of DEFAULT_COVERAGE_POLICY (minimum collateral cover). */
+  coverage?: Partial<CoveragePolicy>;
+};
+
+export const LOAN_PRODUCTS: Record<string, LoanProduct> = {
+  business: {
+    label: "Business",
+    coverage: { minCoveragePct: 120, enforcement: "block" },
+  },
+  payroll: {
+    label: "Payroll",
+    // deducted at source: missed installments are usually employer delays
+    lateFee: { graceDays: 7 },
+    coverage: { minCoveragePct: 0 },
+  },
+  salary: {
+    label: "Salary advance",
+    coverage: { minCoveragePct: 0 },
+  },
+  agriculture: {
+    label: "Agriculture",
+    lateFee: { graceDays: 14, capPctOfPrincipal: 5 },
+  },
+  school: { label: "School fees" },
+};
+
+/** Used for `unknown` and any type not listed above. */
+export const DEFAULT_PRODUCT: LoanProduct = { label: "Other" };
+
+export function productFor(loanType: unknown): LoanProduct {
+  const key = String(loanType || "").trim().toLowerCase();
+  return LOAN_PRODUCTS[key] ?? DEFAULT_PRODUCT;
+}
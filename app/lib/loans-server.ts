@@ -0,0 +1,1434 @@
+// app/lib/loans-server.ts
+// Loan service layer: every loan mutation goes through here (via the
+// /api/admin/loans and /api/admin/proposals routes), with validation,
+// business rules and the audit entry in one place.
+import admin from "firebase-admin";
+import { NextResponse } from "next/server";
+import { adminDb } from "@/app/lib/firebase-admin";
+import { writeAudit } from "@/app/lib/audit";
+import { amountPaidForLoan } from "@/app/lib/arrears";
+import {
+  addAllocation,
+  allocatedForLoan,
+  allocatePayment,
+  allocationOrderFor,
+  appliedAmount,
+  asOverpaymentMode,
+  noComponents,
+  owedBreakdown,
+  parseAllocation,
+  type Allocation,
+  type ComponentAmounts,
+  type OverpaymentMode,
+} from "@/app/lib/allocation";
+import {
+  asFrequency,
+  computeEndDate,
+  generateSchedule,
+  scheduleForLoan,
+  scheduleTotals,
+  storedSchedule,
+  termsForLoan,
+  termsFromCalculator,
+  type Frequency,
+  type Installment,
+  type ScheduleTerms,
+} from "@/app/lib/schedule";
+import { accountsFor, LEDGER_COLLECTION, parseEntry } from "@/app/lib/ledger";
+import { postEntries, type NewEntry } from "@/app/lib/ledger-server";
+import { claimReceiptNo, nextReceiptSeq } from "@/app/lib/receipts-server";
+import {
+  isPaymentMethod,
+  normalizeReference,
+  PAYMENT_METHOD_LABELS,
+  PAYMENT_METHODS,
+  PAYMENT_REFERENCES_COLLECTION,
+  paymentMethodOf,
+  referenceError,
+  referenceKey,
+  type PaymentMethod,
+} from "@/app/lib/payment-methods";
+import { COLLATERAL_COLLECTION, legacyCollateral, parseCollateral } from "@/app/lib/collateral";
+import { coverageFor, coverageMessage, securingValue, type Coverage } from "@/app/lib/coverage";
+import {
+  parseQuote,
+  quoteSettles,
+  SETTLEMENT_QUOTES_COLLECTION,
+  settlementSplit,
+  type SettlementQuote,
+} from "@/app/lib/settlement";
+import {
+  loanSearchFields,
+  processedSearchFields,
+  SEARCH_KEYS_FIELD,
+  searchKeys,
+} from "@/app/lib/search";
+import { withListFields } from "@/app/lib/loan-list-server";
+import { DAY_MS, round2, toMillis } from "@/app/lib/util";
+import type { StaffUser } from "@/app/lib/auth-server";
+
+type AnyRec = Record<string, unknown>;
+
+/** A rule violation the caller can fix; `status` becomes the HTTP status. */
+export class LoanServiceError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+    this.name = "LoanServiceError";
+  }
+}
+
+/** Route helper: service errors keep their status, anything else is a 500. */
+export function loanErrorResponse(tag: string, err: unknown) {
+  if (err instanceof LoanServiceError) {
+    return NextResponse.json({ error: err.message }, { status: err.status });
+  }
+  console.error(tag, err);
+  return NextResponse.json({ error: "internal-error" }, { status: 500 });
+}
+
+export const ACTIVE_STATUSES = ["approved", "active", "overdue"];
+
+/* ---------------- helpers ---------------- */
+const asString = (v: unknown): string | undefined =>
+  typeof v === "string" && v.trim() ? v.trim() : undefined;
+
+
+export function cleanNote(v: unknown): string | null {
+  if (v === undefined || v === null || v === "") return null;
+  if (typeof v !== "string") throw new LoanServiceError("note must be a string");
+  const s = v.trim();
+  if (s.length > 500) throw new LoanServiceError("note is too long (max 500)");
+  return s || null;
+}
+
+/**
+ * A past day (YYYY-MM-DD, or ms) as ms, e.g. the day money was received.
+ * Today and missing values are `nowMs`; future dates are rejected, with a
+ * day's slack because the browser sends its local date.
+ */
+export function parsePastDay(v: unknown, field: string, nowMs: number): number {
+  if (v === undefined || v === null || v === "") return nowMs;
+  const ms = typeof v === "number" ? v : typeof v === "string" ? Date.parse(v) : NaN;
+  if (!Number.isFinite(ms)) throw new LoanServiceError(`${field} must be a date (YYYY-MM-DD)`);
+  if (ms > nowMs + DAY_MS) throw new LoanServiceError(`${field} can't be in the future`);
+  return Math.floor(ms / DAY_MS) >= Math.floor(nowMs / DAY_MS) ? nowMs : ms;
+}
+
+/** `terms` + generated `schedule` for a loan approved before they were stored. */
+function scheduleFields(v: AnyRec, startMs: number | null) {
+  const terms = termsForLoan(v, startMs);
+  return terms ? { terms, schedule: generateSchedule(terms) } : {};
+}
+
+export function loanRef(id: string) {
+  if (!id || id.includes("/")) throw new LoanServiceError("Invalid loan id");
+  return adminDb().collection("loan_applications").doc(id);
+}
+
+function processedRef(id: string) {
+  if (!id || id.includes("/")) throw new LoanServiceError("Invalid loan id");
+  return adminDb().collection("processed_loans").doc(id);
+}
+
+/* ---------------- collateral coverage ---------------- */
+/**
+ * Coverage of `principal` by the collateral for loan `id`, read in `tx`:
+ * its registry items, or while none are registered the free-form
+ * `collateralItems` on `v` (the loan, or the proposal it comes from).
+ */
+async function loanCoverage(
+  tx: admin.firestore.Transaction,
+  id: string,
+  v: AnyRec,
+  principal: number
+): Promise<Coverage> {
+  const snap = await tx.get(
+    adminDb().collection(COLLATERAL_COLLECTION).where("loanId", "==", id)
+  );
+  const items = snap.docs.map((d) => parseCollateral(d.id, d.data()));
+  const legacy: unknown[] = Array.isArray(v.collateralItems) ? v.collateralItems : [];
+  const value = items.length
+    ? securingValue(items)
+    : legacy.reduce<number>((s, it) => s + (legacyCollateral(it).valuation ?? 0), 0);
+  return coverageFor(v.loanType, principal, round2(value));
+}
+
+/** Refuses an approval under a blocking minimum; otherwise the warning to show, if any. */
+function checkCoverage(c: Coverage): string | null {
+  if (!c.below) return null;
+  if (c.enforcement === "block") {
+    throw new LoanServiceError(`${coverageMessage(c)}. Add or revalue collateral first.`, 409);
+  }
+  return coverageMessage(c);
+}
+
+/** Stored on the loan when approved, so later drops in coverage show up. */
+const coverageSnapshot = (c: Coverage) => ({
+  collateralValue: c.collateralValue,
+  coveragePct: c.coveragePct,
+  minCoveragePct: c.minCoveragePct,
+});
+
+/* ---------------- calculator proposals ---------------- */
+export async function decideProposal(
+  actor: StaffUser,
+  input: { calcPath: unknown; status: unknown; note?: unknown }
+) {
+  const { calcPath, status } = input;
+  if (typeof calcPath !== "string" || !/^([^/]+\/[^/]+\/)*calculations\/[^/]+$/.test(calcPath)) {
+    throw new LoanServiceError("calcPath must point at a calculations document");
+  }
+  if (status !== "approved" && status !== "denied") {
+    throw new LoanServiceError("status must be approved or denied");
+  }
+  const note = cleanNote(input.note);
+  const db = adminDb();
+  const calcDoc = db.doc(calcPath);
+  const now = admin.firestore.Timestamp.now();
+
+  return db.runTransaction(async (tx) => {
+    const calcSnap = await tx.get(calcDoc);
+    if (!calcSnap.exists) throw new LoanServiceError("Proposal not found", 404);
+    const v = calcSnap.data() as AnyRec;
+    const res = (v.results as AnyRec | null) || null;
+    const id = calcSnap.id;
+    const userId = String(v.userId || "");
+
+    const kycSnap = userId ? await tx.get(db.collection("kyc_data").doc(userId)) : null;
+    const k = (kycSnap?.exists ? kycSnap.data() : null) as AnyRec | null;
+    const loanDoc = db.collection("loan_applications").doc(id);
+    const existingLoan = status === "approved" ? await tx.get(loanDoc) : null;
+    if (existingLoan?.exists) {
+      throw new LoanServiceError("A loan already exists for this proposal", 409);
+    }
+
+    const p = {
+      loanType: String(v.loanType || "unknown"),
+      loanAmount: Number(v.loanAmount || 0),
+      months: Number(v.months || 0),
+      monthlyInstallment: Number(v.monthlyInstallment ?? res?.monthlyInstallment ?? 0),
+      totalAmountPaid: Number(v.totalAmountPaid ?? res?.totalAmountPaid ?? 0),
+      netReceived: Number(v.netReceived ?? res?.netReceived ?? 0),
+      eir: Number(v.eir ?? res?.eir ?? 0),
+    };
+    if (status === "approved" && (!(p.loanAmount > 0) || !(p.months > 0))) {
+      throw new LoanServiceError("Proposal has no valid amount/period to approve");
+    }
+    const terms = status === "approved" ? termsFromCalculator(p, now.toMillis()) : null;
+    if (status === "approved" && !terms) {
+      throw new LoanServiceError("Proposal has no installment or total to schedule; re-run the calculator");
+    }
+    const coverage = status === "approved" ? await loanCoverage(tx, id, v, p.loanAmount) : null;
+    const coverageWarning = coverage ? checkCoverage(coverage) : null;
+
+    const decision = {
+      status,
+      note,
+      byUid: actor.uid,
+      byEmail: actor.email,
+      at: now,
+    };
+    tx.update(calcDoc, { decision });
+
+    tx.set(
+      db.collection("loan_issuing").doc(id),
+      {
+        calcPath,
+        calcId: id,
+        userId,
+        ...p,
+        status,
+        note,
+        decidedAt: Date.now(),
+        decidedByUid: actor.uid,
+      },
+      { merge: true }
+    );
+
+    if (status === "approved") {
+      const newLoanPayload: AnyRec = {
+        title: "",
+        firstName: asString(k?.firstName) ?? asString(k?.applicantFirstName) ?? asString(k?.givenName) ?? "",
+        surname: asString(k?.lastName) ?? asString(k?.applicantLastName) ?? asString(k?.surname) ?? "",
+        mobile: asString(k?.mobileTel1) ?? asString(k?.mobile) ?? asString(k?.phone) ?? "",
+        email: asString(k?.email1) ?? asString(k?.email) ?? "",
+        areaName: asString(k?.physicalCity) ?? asString(k?.areaName) ?? asString(k?.city) ?? "",
+        loanAmount: p.loanAmount,
+        loanPeriod: p.months,
+        paymentFrequency: "monthly",
+        loanType: p.loanType,
+        status: "approved",
+        timestamp: now,
+        kycId: userId,
+        calcRefPath: calcPath,
+        calcRefId: id,
+        calculatorSnapshot: { ...p, decidedAt: Date.now() },
+        coverageAtApproval: coverageSnapshot(coverage!),
+        terms,
+        schedule: generateSchedule(terms!),
+      };
+      newLoanPayload[SEARCH_KEYS_FIELD] = searchKeys(loanSearchFields(id, newLoanPayload), true);
+      // principal plus the scheduled interest and fees: what the borrower owes
+      const totals = scheduleTotals(newLoanPayload.schedule as Installment[]);
+      const ledger = postEntries(tx, loanDoc, { ledgerOpenedAt: now, currentBalance: 0 }, actor, [
+        { id: "disbursement", type: "disbursement", amount: p.loanAmount, memo: "Loan disbursed" },
+        { id: "interest", type: "interest_accrual", amount: totals.interest, memo: "Scheduled interest" },
+        { id: "fees", type: "fee", amount: totals.fees, memo: "Scheduled installment fees" },
+      ]);
+      tx.set(
+        loanDoc,
+        withListFields({}, { ...newLoanPayload, ...ledger, ledgerOpenedAt: now, amountPaid: 0 })
+      );
+    }
+
+    await writeAudit(
+      actor,
+      {
+        action: status === "approved" ? "proposal.approve" : "proposal.deny",
+        targetPath: calcPath,
+        before: v,
+        after: { ...v, decision },
+        note: [note, coverageWarning].filter(Boolean).join(" · ") || null,
+      },
+      tx
+    );
+    return { coverage, coverageWarning };
+  });
+}
+
+/* ---------------- active loans → processed ---------------- */
+/** Display fields the dashboard resolved from the loan + KYC (names, contact). */
+export type ProcessDisplay = {
+  applicantFull?: unknown;
+  mobile?: unknown;
+  email?: unknown;
+  area?: unknown;
+};
+
+export async function processLoan(
+  actor: StaffUser,
+  loanId: string,
+  next: "approved" | "declined",
+  display: ProcessDisplay = {}
+) {
+  const db = adminDb();
+  const ref = loanRef(loanId);
+
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists) throw new LoanServiceError("Loan not found", 404);
+    const v = snap.data() as AnyRec;
+
+    const loanAmount = Number(v.loanAmount ?? 0);
+    const coverage = next === "approved" ? await loanCoverage(tx, loanId, v, loanAmount) : null;
+    const coverageWarning = coverage ? checkCoverage(coverage) : null;
+    const period = Number(v.loanPeriod ?? v.period ?? 0);
+    const frequency = String(v.paymentFrequency ?? v.frequency ?? "monthly").toLowerCase();
+    const startMs = toMillis(v.timestamp ?? v.startDate ?? v.createdAt);
+    const endMs =
+      toMillis(v.endDate) ?? computeEndDate(startMs, period, asFrequency(frequency))?.getTime() ?? null;
+
+    const processedDoc = {
+      id: loanId,
+      applicantFull:
+        asString(display.applicantFull) ??
+        ([v.title, v.firstName, v.surname].filter(Boolean).join(" ") || "—"),
+      mobile: asString(display.mobile) ?? asString(v.mobile) ?? asString(v.mobileTel) ?? "",
+      email: asString(display.email) ?? asString(v.email) ?? "",
+      area: asString(display.area) ?? asString(v.areaName) ?? "—",
+      processedStatus: next,
+      processedAt: Date.now(),
+      processedByUid: actor.uid,
+      processedByEmail: actor.email,
+      loanAmount,
+      currentBalance: Number(v.currentBalance ?? loanAmount),
+      period,
+      frequency,
+      startMs,
+      endMs,
+      ...(next === "approved" && !storedSchedule(v) ? scheduleFields(v, startMs) : {}),
+      ...(coverage && { coverageAtApproval: coverageSnapshot(coverage) }),
+      original: v,
+      cleared: false,
+    };
+    const processedKeys = searchKeys(processedSearchFields(loanId, processedDoc), true);
+
+    tx.set(processedRef(loanId), { ...processedDoc, [SEARCH_KEYS_FIELD]: processedKeys });
+    tx.delete(ref);
+    await writeAudit(
+      actor,
+      {
+        action: next === "approved" ? "loan.approve" : "loan.decline",
+        targetPath: ref.path,
+        before: v,
+        after: null,
+        note: `${next} → processed_loans${coverageWarning ? ` · ${coverageWarning}` : ""}`,
+      },
+      tx
+    );
+    return { coverage, coverageWarning };
+  });
+}
+
+export async function restoreLoan(actor: StaffUser, id: string) {
+  const db = adminDb();
+  const pRef = processedRef(id);
+  const lRef = loanRef(id);
+
+  await db.runTransaction(async (tx) => {
+    const [pSnap, lSnap] = await Promise.all([tx.get(pRef), tx.get(lRef)]);
+    if (!pSnap.exists) throw new LoanServiceError("Processed record not found", 404);
+    const p = pSnap.data() as AnyRec;
+
+    const original = p.original;
+    let payload: AnyRec;
+    if (original && typeof original === "object" && Object.keys(original).length) {
+      payload = { ...(original as AnyRec) }; // exact original doc
+      delete payload.id;
+    } else {
+      const nameParts = String(p.applicantFull || "").trim().split(/\s+/);
+      const startMs = toMillis(p.startMs);
+      const endMs = toMillis(p.endMs);
+      payload = {
+        title: "",
+        firstName:
+          nameParts.length > 1 ? nameParts.slice(0, -1).join(" ") : nameParts[0] || "",
+        surname: nameParts.length > 1 ? nameParts.slice(-1)[0] : "",
+        mobile: p.mobile || "",
+        email: p.email || "",
+        areaName: p.area || "",
+        loanAmount: p.loanAmount ?? p.currentBalance ?? 0,
+        currentBalance: p.currentBalance ?? p.loanAmount ?? 0,
+        loanPeriod: p.period ?? 0,
+        paymentFrequency: String(p.frequency || "monthly").toLowerCase(),
+        timestamp: startMs ? new Date(startMs) : new Date(),
+        endDate: endMs ? new Date(endMs) : null,
+        status: p.processedStatus === "approved" ? "approved" : "pending",
+        loanType: "unknown",
+      };
+    }
+
+    const keys = searchKeys(loanSearchFields(lRef.id, payload), true);
+    tx.set(lRef, withListFields(payload, { [SEARCH_KEYS_FIELD]: keys }), { merge: false });
+    tx.delete(pRef);
+    await writeAudit(
+      actor,
+      {
+        action: "loan.restore",
+        targetPath: lRef.path,
+        before: lSnap.exists ? (lSnap.data() as AnyRec) : null,
+        after: payload,
+        note: "restored from processed_loans",
+      },
+      tx
+    );
+  });
+}
+
+export async function clearProcessed(actor: StaffUser, id: string) {
+  const db = adminDb();
+  const ref = processedRef(id);
+  await db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists) throw new LoanServiceError("Processed record not found", 404);
+    const before = snap.data() as AnyRec;
+    const patch = { cleared: true, clearedAt: Date.now() };
+    tx.update(ref, patch);
+    await writeAudit(
+      actor,
+      { action: "loan.clear", targetPath: ref.path, before, after: { ...before, ...patch } },
+      tx
+    );
+  });
+}
+
+export async function deleteProcessed(actor: StaffUser, id: string) {
+  const db = adminDb();
+  const ref = processedRef(id);
+  await db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists) throw new LoanServiceError("Processed record not found", 404);
+    tx.delete(ref);
+    await writeAudit(
+      actor,
+      { action: "loan.delete", targetPath: ref.path, before: snap.data() as AnyRec, after: null },
+      tx
+    );
+  });
+}
+
+/* ---------------- outstanding loans ---------------- */
+const IDEMPOTENCY_KEY_RE = /^[A-Za-z0-9_-]{8,128}$/;
+
+/** Validated method + normalized reference for a payment. */
+function paymentChannel(methodIn: unknown, referenceIn: unknown) {
+  if (methodIn != null && methodIn !== "" && !isPaymentMethod(methodIn)) {
+    throw new LoanServiceError(`method must be one of: ${PAYMENT_METHODS.join(", ")}`);
+  }
+  const method: PaymentMethod = paymentMethodOf(methodIn);
+  const reference = normalizeReference(referenceIn);
+  const problem = referenceError(method, reference);
+  if (problem) throw new LoanServiceError(problem);
+  return { method, reference: reference || null };
+}
+
+/**
+ * Amount, note, channel and `idempotencyKey` of a money movement (payment,
+ * recovery, refund). The key is generated per submission by the client.
+ */
+function moneyInput(input: {
+  amount: unknown;
+  note?: unknown;
+  idempotencyKey: unknown;
+  method?: unknown;
+  reference?: unknown;
+}) {
+  const amount = Number(input.amount);
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new LoanServiceError("amount must be a number > 0");
+  }
+  const note = cleanNote(input.note);
+  const { method, reference } = paymentChannel(input.method, input.reference);
+  const key = input.idempotencyKey;
+  if (typeof key !== "string" || !IDEMPOTENCY_KEY_RE.test(key)) {
+    throw new LoanServiceError("idempotencyKey is required (8-128 chars of [A-Za-z0-9_-])");
+  }
+  return { amount, note, method, reference, key };
+}
+
+/** The `payment_references` doc reserving `reference`; null without one. */
+function referenceDoc(method: PaymentMethod, reference: string | null) {
+  return reference
+    ? adminDb().collection(PAYMENT_REFERENCES_COLLECTION).doc(referenceKey(method, reference))
+    : null;
+}
+
+/** Refuses a reference already reserved by another payment or recovery. */
+function checkReferenceFree(
+  method: PaymentMethod,
+  reference: string | null,
+  snap: admin.firestore.DocumentSnapshot | null
+) {
+  if (!snap?.exists) return;
+  throw new LoanServiceError(
+    `${PAYMENT_METHOD_LABELS[method]} reference ${reference} was already used ` +
+      `(loan ${snap.get("loanId")}, payment ${snap.get("paymentId")})`,
+    409
+  );
+}
+
+/**
+ * Splits `amount` on loan `v` in its product's order. `allocated` and
+ * `balance` are the loan's running totals, as adjusted by the caller.
+ */
+function allocateOnLoan(
+  v: AnyRec,
+  amount: number,
+  overpayment: OverpaymentMode,
+  state: { allocated: ComponentAmounts; balance: number },
+  valueMs = Date.now()
+) {
+  return allocatePayment(
+    amount,
+    {
+      schedule: scheduleForLoan(v, toMillis(v.timestamp ?? v.startDate ?? v.createdAt)),
+      penaltiesNet: Number(v.penaltiesCharged ?? 0) - Number(v.penaltiesWaived ?? 0),
+      allocated: state.allocated,
+      order: allocationOrderFor(v.loanType),
+      overpayment,
+      maxApplied: state.balance,
+    },
+    valueMs
+  );
+}
+
+/** What earlier payments on `v` covered, per component. */
+function loanAllocated(v: AnyRec, amountPaid = amountPaidForLoan(v)): ComponentAmounts {
+  const schedule = scheduleForLoan(v, toMillis(v.timestamp ?? v.startDate ?? v.createdAt));
+  return allocatedForLoan(v, schedule, amountPaid);
+}
+
+/**
+ * Entries that settle a loan with quote `q`, keyed by the payment: the
+ * settlement fee, the rebate and the credit the quote takes off the payoff.
+ */
+function settlementEntries(
+  key: string,
+  q: SettlementQuote,
+  now: admin.firestore.Timestamp
+): NewEntry[] {
+  const extra = { paymentId: key, quoteId: q.quoteId };
+  return [
+    {
+      id: `settlement_fee_${key}`,
+      type: "fee",
+      amount: q.settlementFee,
+      memo: `Early settlement fee (quote ${q.quoteId})`,
+      postedAt: now,
+      extra,
+    },
+    {
+      id: `rebate_${key}`,
+      type: "rebate",
+      amount: q.rebate,
+      memo: `Early settlement rebate (quote ${q.quoteId})`,
+      postedAt: now,
+      extra,
+    },
+    {
+      id: `credit_applied_${key}`,
+      type: "credit_applied",
+      amount: q.credit,
+      memo: `Credit used to settle (quote ${q.quoteId})`,
+      postedAt: now,
+      extra,
+    },
+  ];
+}
+
+/**
+ * Posts a payment atomically: the loan is re-read inside the transaction,
+ * so concurrent postings serialize on it. `idempotencyKey` (generated per
+ * submission by the client) doubles as the payment doc id — replaying the
+ * same submission returns the original result instead of paying twice.
+ * A payment of exactly the payoff of a recent, valid settlement quote
+ * settles the loan: the quote's fee, rebate and credit are posted with it.
+ */
+export async function recordPayment(
+  actor: StaffUser,
+  loanId: string,
+  input: {
+    amount: unknown;
+    note?: unknown;
+    idempotencyKey: unknown;
+    overpayment?: unknown;
+    method?: unknown;
+    reference?: unknown;
+    valueDate?: unknown;
+  }
+): Promise<{
+  paymentId: string;
+  receiptNo: string | null;
+  currentBalance: number;
+  allocation: Allocation | null;
+  settledQuoteId: string | null;
+  duplicate: boolean;
+}> {
+  const { amount, note, method, reference, key } = moneyInput(input);
+  const overpayment = asOverpaymentMode(input.overpayment);
+
+  const db = adminDb();
+  const ref = loanRef(loanId);
+  const paymentRef = ref.collection("loan_payments").doc(key);
+  const referenceRef = referenceDoc(method, reference);
+
+  return db.runTransaction(async (tx) => {
+    const [snap, existing] = await Promise.all([tx.get(ref), tx.get(paymentRef)]);
+    const receiptSeq = await nextReceiptSeq(tx);
+    const referenceSnap = referenceRef ? await tx.get(referenceRef) : null;
+    const quotesSnap = await tx.get(
+      ref.collection(SETTLEMENT_QUOTES_COLLECTION).orderBy("createdAt", "desc").limit(5)
+    );
+    if (!snap.exists) throw new LoanServiceError("Loan not found", 404);
+    const v = snap.data() as AnyRec;
+    const balance = Number(v.currentBalance ?? v.loanAmount ?? 0);
+
+    if (existing.exists) {
+      if (Number(existing.get("amount")) !== amount) {
+        throw new LoanServiceError("idempotencyKey was already used for a different payment", 409);
+      }
+      return {
+        paymentId: paymentRef.id,
+        receiptNo: existing.get("receiptNo") ?? null,
+        currentBalance: balance,
+        allocation: parseAllocation(existing.get("allocation")),
+        settledQuoteId: existing.get("settlement.quoteId") ?? null,
+        duplicate: true,
+      };
+    }
+
+    const status = String(v.status || "pending").toLowerCase();
+    if (!ACTIVE_STATUSES.includes(status) || balance <= 0) {
+      throw new LoanServiceError(`Loan is ${status}; payments can't be recorded`, 409);
+    }
+    checkReferenceFree(method, reference, referenceSnap);
+    const now = admin.firestore.Timestamp.now();
+    const startMs = toMillis(v.timestamp ?? v.startDate ?? v.createdAt);
+    const valueMs = parsePastDay(input.valueDate, "valueDate", now.toMillis());
+    if (startMs && valueMs < startMs - DAY_MS) {
+      throw new LoanServiceError("valueDate is before the loan was disbursed");
+    }
+
+    const creditBalance = Number(v.creditBalance ?? 0);
+    const quote =
+      quotesSnap.docs
+        .map((d) => parseQuote(ref.id, d.id, d.data()))
+        .find((q) => quoteSettles(q, { amount, balance, credit: creditBalance }, now.toMillis())) ??
+      null;
+    const split = quote ? settlementSplit(quote) : null;
+    const creditUsed = quote?.credit ?? 0;
+
+    // anything past the balance is held as credit, whatever the mode
+    const allocated = loanAllocated(v);
+    const allocation =
+      split?.payment ?? allocateOnLoan(v, amount, overpayment, { allocated, balance }, valueMs);
+    const applied = appliedAmount(allocation);
+    const ledger = postEntries(tx, ref, v, actor, [
+      ...(quote ? settlementEntries(key, quote, now) : []),
+      {
+        id: `payment_${key}`,
+        type: "payment",
+        amount: applied,
+        memo: note,
+        postedAt: now,
+        extra: { paymentId: paymentRef.id, allocation, method, reference },
+      },
+      {
+        id: `credit_${key}`,
+        type: "credit",
+        amount: allocation.credit,
+        memo: "Overpayment held as customer credit",
+        postedAt: now,
+        extra: { paymentId: paymentRef.id },
+      },
+    ]);
+    const nextBalance = ledger.currentBalance;
+    const patch = {
+      ...ledger,
+      amountPaid: round2(amountPaidForLoan(v) + applied + creditUsed),
+      allocated: addAllocation(
+        split ? addAllocation(allocated, split.fromCredit) : allocated,
+        allocation
+      ),
+      creditBalance: round2(creditBalance + allocation.credit - creditUsed),
+      status: nextBalance <= 0 ? "closed" : status,
+      // restored if a reversal reopens the loan
+      ...(nextBalance <= 0 ? { closedFromStatus: status } : {}),
+    };
+
+    const receiptNo = claimReceiptNo(tx, receiptSeq);
+    if (referenceRef) {
+      tx.create(referenceRef, {
+        method,
+        reference,
+        loanId: ref.id,
+        paymentId: paymentRef.id,
+        createdAt: now,
+      });
+    }
+    if (quote) {
+      tx.update(ref.collection(SETTLEMENT_QUOTES_COLLECTION).doc(quote.quoteId), {
+        settledByPaymentId: paymentRef.id,
+        settledAt: now,
+      });
+    }
+    tx.create(paymentRef, {
+      amount,
+      method,
+      reference,
+      allocation,
+      overpayment,
+      settlement:
+        quote && split
+          ? {
+              quoteId: quote.quoteId,
+              settlementFee: quote.settlementFee,
+              rebate: quote.rebate,
+              credit: creditUsed,
+              fromCredit: split.fromCredit,
+            }
+          : null,
+      receiptNo,
+      balanceAfter: nextBalance,
+      // value date: when the money was received, not when it was keyed in
+      paymentDate: valueMs === now.toMillis() ? now : admin.firestore.Timestamp.fromMillis(valueMs),
+      createdAt: now,
+      note,
+      recordedByUid: actor.uid,
+      recordedByEmail: actor.email,
+    });
+    tx.update(ref, withListFields(v, patch));
+    await writeAudit(
+      actor,
+      {
+        action: "payment.record",
+        targetPath: ref.path,
+        before: v,
+        after: { ...v, ...patch },
+        note:
+          `payment ${paymentRef.id}: MWK ${amount}` +
+          (allocation.credit ? ` (MWK ${allocation.credit} to credit)` : "") +
+          (quote ? `, settles quote ${quote.quoteId}` : ""),
+      },
+      tx
+    );
+    return {
+      paymentId: paymentRef.id,
+      receiptNo,
+      currentBalance: nextBalance,
+      allocation,
+      settledQuoteId: quote?.quoteId ?? null,
+      duplicate: false,
+    };
+  });
+}
+
+/**
+ * Cancels a recorded payment with a compensating ledger entry (nothing is
+ * deleted) and reopens the loan if that payment closed it. With
+ * `correctedAmount` the right payment is recorded in the same transaction.
+ */
+export async function reversePayment(
+  actor: StaffUser,
+  loanId: string,
+  input: { paymentId: unknown; reason: unknown; correctedAmount?: unknown }
+) {
+  const reason = cleanNote(input.reason);
+  if (!reason) throw new LoanServiceError("reason is required");
+  const paymentId = input.paymentId;
+  if (typeof paymentId !== "string" || !paymentId || paymentId.includes("/")) {
+    throw new LoanServiceError("paymentId is required");
+  }
+  const corrected =
+    input.correctedAmount == null || input.correctedAmount === ""
+      ? null
+      : Number(input.correctedAmount);
+  if (corrected !== null && (!Number.isFinite(corrected) || corrected <= 0)) {
+    throw new LoanServiceError("correctedAmount must be a number > 0");
+  }
+
+  const db = adminDb();
+  const ref = loanRef(loanId);
+  const paymentRef = ref.collection("loan_payments").doc(paymentId);
+  const entryRef = ref.collection(LEDGER_COLLECTION).doc(`payment_${paymentId}`);
+  const creditRef = ref.collection(LEDGER_COLLECTION).doc(`credit_${paymentId}`);
+  // posted with the payment when it settled the loan with a quote
+  const settlementRefs = ["settlement_fee", "rebate", "credit_applied"].map((p) =>
+    ref.collection(LEDGER_COLLECTION).doc(`${p}_${paymentId}`)
+  );
+  const correctionRef = ref.collection("loan_payments").doc(`${paymentId}_correction`);
+
+  return db.runTransaction(async (tx) => {
+    const [snap, paymentSnap, entrySnap, creditSnap, ...settlementSnaps] = await tx.getAll(
+      ref,
+      paymentRef,
+      entryRef,
+      creditRef,
+      ...settlementRefs
+    );
+    const receiptSeq = corrected === null ? null : await nextReceiptSeq(tx);
+    // a correction keeps the original's reference; a plain reversal frees it
+    const method = paymentMethodOf(paymentSnap.get("method"));
+    const reference = (paymentSnap.get("reference") as string | null) ?? null;
+    const referenceRef = referenceDoc(method, reference);
+    const referenceSnap = referenceRef ? await tx.get(referenceRef) : null;
+    if (!snap.exists) throw new LoanServiceError("Loan not found", 404);
+    if (!paymentSnap.exists) throw new LoanServiceError("Payment not found", 404);
+    if (paymentSnap.get("reversedAt")) {
+      throw new LoanServiceError("Payment is already reversed", 409);
+    }
+    const amount = Number(paymentSnap.get("amount") || 0);
+    if (!(amount > 0)) throw new LoanServiceError("Payment has no amount to reverse", 409);
+
+    const v = snap.data() as AnyRec;
+    const status = String(v.status || "pending").toLowerCase();
+    if (!ACTIVE_STATUSES.includes(status) && status !== "closed") {
+      throw new LoanServiceError(`Loan is ${status}; payments can't be reversed`, 409);
+    }
+    // its allocation was against a schedule that has since been replaced
+    const restructuredMs = toMillis(v.restructuredAt);
+    if (restructuredMs && (toMillis(paymentSnap.get("createdAt")) ?? 0) < restructuredMs) {
+      throw new LoanServiceError("Payments made before the loan was restructured can't be reversed", 409);
+    }
+    // payments recorded before allocation were applied to the loan in full
+    const allocation = parseAllocation(paymentSnap.get("allocation"));
+    const applied = allocation ? appliedAmount(allocation) : amount;
+    const credit = allocation?.credit ?? 0;
+    const creditBalance = Number(v.creditBalance ?? 0);
+    if (credit > creditBalance + 0.005) {
+      throw new LoanServiceError("The credit from this payment has already been used", 409);
+    }
+
+    const settled = settlementSnaps
+      .filter((s) => s.exists)
+      .map((s) => parseEntry(s.id, s.data() ?? {}))
+      .filter((e): e is NonNullable<typeof e> => !!e);
+    const settledAmount = (type: string) =>
+      settled.filter((e) => e.type === type).reduce((s, e) => s + e.amount, 0);
+    const creditUsed = settledAmount("credit_applied");
+    const fromCredit = parseAllocation(paymentSnap.get("settlement.fromCredit"));
+
+    const paidAfter = round2(amountPaidForLoan(v) - applied - creditUsed);
+    let allocatedAfter = allocation
+      ? addAllocation(loanAllocated(v), allocation, -1)
+      : loanAllocated({ ...v, allocated: null }, paidAfter);
+    if (fromCredit) allocatedAfter = addAllocation(allocatedAfter, fromCredit, -1);
+    const overpayment = asOverpaymentMode(paymentSnap.get("overpayment"));
+    const correction =
+      corrected === null
+        ? null
+        : allocateOnLoan(v, corrected, overpayment, {
+            allocated: allocatedAfter,
+            balance: round2(
+              Number(v.currentBalance ?? v.loanAmount ?? 0) +
+                applied +
+                creditUsed +
+                settledAmount("rebate") -
+                settledAmount("fee")
+            ),
+          });
+
+    // payments recorded before the ledger only exist inside opening_payments
+    const original = entrySnap.exists ? parseEntry(entrySnap.id, entrySnap.data() ?? {}) : null;
+    const heldCredit = creditSnap.exists ? parseEntry(creditSnap.id, creditSnap.data() ?? {}) : null;
+    const reversalId = `reversal_${paymentId}`;
+    const entries: NewEntry[] = [
+      {
+        id: reversalId,
+        type: "reversal",
+        amount: original?.amount ?? applied,
+        memo: reason,
+        reverses: original ?? { id: null, ...accountsFor("payment") },
+        extra: { paymentId },
+      },
+    ];
+    if (heldCredit) {
+      entries.push({
+        id: `reversal_credit_${paymentId}`,
+        type: "reversal",
+        amount: heldCredit.amount,
+        memo: reason,
+        reverses: heldCredit,
+        extra: { paymentId },
+      });
+    }
+    for (const e of settled) {
+      entries.push({
+        id: `reversal_${e.id}`,
+        type: "reversal",
+        amount: e.amount,
+        memo: reason,
+        reverses: e,
+        extra: { paymentId },
+      });
+    }
+    if (correction) {
+      entries.push(
+        {
+          id: `payment_${correctionRef.id}`,
+          type: "payment",
+          amount: appliedAmount(correction),
+          memo: `Correction of ${paymentId}: ${reason}`,
+          extra: { paymentId: correctionRef.id, allocation: correction, method, reference },
+        },
+        {
+          id: `credit_${correctionRef.id}`,
+          type: "credit",
+          amount: correction.credit,
+          memo: "Overpayment held as customer credit",
+          extra: { paymentId: correctionRef.id },
+        }
+      );
+    }
+    const ledger = postEntries(tx, ref, v, actor, entries);
+    const nextBalance = ledger.currentBalance;
+    let nextStatus = status;
+    if (nextBalance <= 0) nextStatus = "closed";
+    else if (status === "closed") {
+      const prior = String(v.closedFromStatus || "").toLowerCase();
+      nextStatus = ACTIVE_STATUSES.includes(prior) ? prior : "approved";
+    }
+    const patch = {
+      ...ledger,
+      amountPaid: round2(paidAfter + (correction ? appliedAmount(correction) : 0)),
+      allocated: correction ? addAllocation(allocatedAfter, correction) : allocatedAfter,
+      creditBalance: round2(creditBalance - credit + creditUsed + (correction?.credit ?? 0)),
+      status: nextStatus,
+    };
+
+    const now = admin.firestore.Timestamp.now();
+    tx.update(paymentRef, {
+      reversedAt: now,
+      reversedByUid: actor.uid,
+      reversedByEmail: actor.email,
+      reversalReason: reason,
+      correctedByPaymentId: corrected !== null ? correctionRef.id : null,
+    });
+    const quoteId = paymentSnap.get("settlement.quoteId") as string | undefined;
+    if (quoteId) {
+      // the quote can settle the loan again while it's valid
+      tx.update(ref.collection(SETTLEMENT_QUOTES_COLLECTION).doc(quoteId), {
+        settledByPaymentId: null,
+        settledAt: null,
+      });
+    }
+    const correctionReceiptNo =
+      correction && receiptSeq !== null ? claimReceiptNo(tx, receiptSeq) : null;
+    if (referenceRef && referenceSnap?.get("paymentId") === paymentId) {
+      if (correction) tx.update(referenceRef, { paymentId: correctionRef.id });
+      else tx.delete(referenceRef);
+    }
+    if (correction) {
+      tx.create(correctionRef, {
+        amount: corrected,
+        method,
+        reference,
+        allocation: correction,
+        overpayment,
+        receiptNo: correctionReceiptNo,
+        balanceAfter: nextBalance,
+        paymentDate: paymentSnap.get("paymentDate") ?? now,
+        createdAt: now,
+        note: paymentSnap.get("note") ?? null,
+        correctsPaymentId: paymentId,
+        recordedByUid: actor.uid,
+        recordedByEmail: actor.email,
+      });
+    }
+    tx.update(ref, withListFields(v, patch));
+    await writeAudit(
+      actor,
+      {
+        action: "payment.reverse",
+        targetPath: ref.path,
+        before: v,
+        after: { ...v, ...patch },
+        note:
+          `reversed payment ${paymentId} (MWK ${amount})` +
+          (corrected !== null ? `, corrected to MWK ${corrected}` : "") +
+          `: ${reason}`,
+      },
+      tx
+    );
+    return {
+      reversalEntryId: reversalId,
+      correctionPaymentId: corrected !== null ? correctionRef.id : null,
+      correctionReceiptNo,
+      currentBalance: nextBalance,
+      status: patch.status,
+    };
+  });
+}
+
+/* ---------------- restructuring ---------------- */
+const MAX_RESTRUCTURE_PERIODS = 120;
+
+/** A schedule that replaced another, kept on the loan as `termsHistory`. */
+export type TermsHistoryEntry = {
+  terms: ScheduleTerms;
+  schedule: Installment[];
+  loanPeriod: number | null;
+  paymentFrequency: string | null;
+  /** Balance when the terms were replaced. */
+  balance: number;
+  /** Due-but-unpaid interest and fees moved into the new principal. */
+  capitalised: number;
+  /** …or carried into the first new installment instead. */
+  carried: number;
+  /** Unearned interest and fees of the replaced schedule, cancelled. */
+  cancelled: number;
+  reason: string;
+  replacedAt: admin.firestore.Timestamp;
+  replacedByUid: string;
+  replacedByEmail: string | null;
+};
+
+/**
+ * Reschedules what a loan still owes over a new term starting today.
+ * Interest and fees already due but unpaid are capitalised into the new
+ * principal or, when `capitalizeArrears` is off, carried into the first
+ * new installment; the old schedule's unearned interest and fees are
+ * cancelled and the new schedule's charged. Penalties are left as they
+ * are. The replaced terms go to `termsHistory`.
+ */
+export async function restructureLoan(
+  actor: StaffUser,
+  loanId: string,
+  input: { periods: unknown; frequency: unknown; capitalizeArrears?: unknown; reason: unknown }
+) {
+  const reason = cleanNote(input.reason);
+  if (!reason) throw new LoanServiceError("reason is required");
+  const periods = Number(input.periods);
+  if (!Number.isInteger(periods) || periods < 1 || periods > MAX_RESTRUCTURE_PERIODS) {
+    throw new LoanServiceError(`periods must be a whole number from 1 to ${MAX_RESTRUCTURE_PERIODS}`);
+  }
+  if (input.frequency !== "weekly" && input.frequency !== "monthly") {
+    throw new LoanServiceError("frequency must be weekly or monthly");
+  }
+  const frequency: Frequency = input.frequency;
+  const capitalise = input.capitalizeArrears === true;
+
+  const db = adminDb();
+  const ref = loanRef(loanId);
+
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists) throw new LoanServiceError("Loan not found", 404);
+    const v = snap.data() as AnyRec;
+    const status = String(v.status || "pending").toLowerCase();
+    const balance = Number(v.currentBalance ?? v.loanAmount ?? 0);
+    if (!ACTIVE_STATUSES.includes(status) || balance <= 0) {
+      throw new LoanServiceError(`Loan is ${status}; it can't be restructured`, 409);
+    }
+    const startMs = toMillis(v.timestamp ?? v.startDate ?? v.createdAt);
+    const oldTerms = termsForLoan(v, startMs);
+    if (!oldTerms) throw new LoanServiceError("Loan has no terms to restructure", 409);
+
+    const now = admin.firestore.Timestamp.now();
+    const nowMs = now.toMillis();
+    const schedule = scheduleForLoan(v, startMs);
+    const allocated = loanAllocated(v);
+
+    // what is owed on the schedule (not penalties): principal, charges
+    // already due, and charges not yet earned
+    const owed = owedBreakdown(
+      {
+        schedule,
+        allocated,
+        penaltiesNet: Number(v.penaltiesCharged ?? 0) - Number(v.penaltiesWaived ?? 0),
+        balance,
+      },
+      nowMs
+    );
+    const principalOwed = owed.principal;
+    const arrearsInterest = owed.dueInterest;
+    const arrearsFees = owed.dueFees;
+    const arrears = round2(arrearsInterest + arrearsFees);
+    const cancelled = round2(owed.futureInterest + owed.futureFees);
+
+    const principal = round2(principalOwed + (capitalise ? arrears : 0));
+    if (!(principal > 0)) {
+      throw new LoanServiceError("Only penalties are left to pay; there is nothing to reschedule", 409);
+    }
+    const terms: ScheduleTerms = { ...oldTerms, principal, periods, frequency, startMs: nowMs };
+    const nextSchedule = generateSchedule(terms);
+    const nextTotals = scheduleTotals(nextSchedule);
+    if (!capitalise && arrears > 0) {
+      const first = nextSchedule[0];
+      first.interest = round2(first.interest + arrearsInterest);
+      first.fees = round2(first.fees + arrearsFees);
+      first.total = round2(first.total + arrears);
+    }
+
+    const n = Number(v.restructureCount ?? 0) + 1;
+    const ledger = postEntries(tx, ref, v, actor, [
+      {
+        id: `restructure_${n}`,
+        type: "restructure",
+        amount: cancelled,
+        memo: `Unearned interest and fees on the replaced schedule: ${reason}`,
+      },
+      {
+        id: `restructure_${n}_interest`,
+        type: "interest_accrual",
+        amount: nextTotals.interest,
+        memo: `Scheduled interest (restructure ${n})`,
+      },
+      {
+        id: `restructure_${n}_fees`,
+        type: "fee",
+        amount: nextTotals.fees,
+        memo: `Scheduled installment fees (restructure ${n})`,
+      },
+    ]);
+
+    const history: TermsHistoryEntry = {
+      terms: oldTerms,
+      schedule,
+      loanPeriod: v.loanPeriod == null ? null : Number(v.loanPeriod),
+      paymentFrequency: (v.paymentFrequency as string) ?? null,
+      balance,
+      capitalised: capitalise ? arrears : 0,
+      carried: capitalise ? 0 : arrears,
+      cancelled,
+      reason,
+      replacedAt: now,
+      replacedByUid: actor.uid,
+      replacedByEmail: actor.email,
+    };
+    const paid = amountPaidForLoan(v);
+    const patch = {
+      ...ledger,
+      terms,
+      schedule: nextSchedule,
+      loanPeriod: periods,
+      paymentFrequency: frequency,
+      endDate: admin.firestore.Timestamp.fromMillis(nextSchedule[nextSchedule.length - 1].dueMs),
+      // the new schedule starts unpaid; only penalties carry over
+      allocated: { ...noComponents(), penalty: allocated.penalty },
+      amountPaid: paid,
+      paidBeforeSchedule: paid,
+      restructured: true,
+      restructuredAt: now,
+      restructureCount: n,
+      termsHistory: [...(Array.isArray(v.termsHistory) ? v.termsHistory : []), history],
+    };
+    tx.update(ref, withListFields(v, patch));
+    await writeAudit(
+      actor,
+      {
+        action: "loan.restructure",
+        targetPath: ref.path,
+        before: v,
+        after: { ...v, ...patch },
+        note:
+          `${periods} ${frequency === "weekly" ? "weeks" : "months"} from MWK ${principal}` +
+          (arrears > 0 ? `, MWK ${arrears} arrears ${capitalise ? "capitalised" : "carried"}` : "") +
+          `: ${reason}`,
+      },
+      tx
+    );
+    return {
+      currentBalance: ledger.currentBalance,
+      principal,
+      capitalised: history.capitalised,
+      carried: history.carried,
+      cancelled,
+      schedule: nextSchedule,
+    };
+  });
+}
+
+/**
+ * Marks a fully repaid loan finished. The balance comes from the ledger,
+ * so a loan that still owes can't be closed by overwriting it.
+ */
+export async function closeLoan(actor: StaffUser, loanId: string) {
+  const db = adminDb();
+  const ref = loanRef(loanId);
+  await db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists) throw new LoanServiceError("Loan not found", 404);
+    const before = snap.data() as AnyRec;
+    const balance = Number(before.currentBalance ?? before.loanAmount ?? 0);
+    if (balance > 0.005) {
+      throw new LoanServiceError(
+        `Loan still owes MWK ${balance}; record the payment before closing it`,
+        409
+      );
+    }
+    const patch = { status: "closed", closedFromStatus: before.status ?? null };
+    tx.update(ref, withListFields(before, patch));
+    await writeAudit(
+      actor,
+      { action: "loan.close", targetPath: ref.path, before, after: { ...before, ...patch } },
+      tx
+    );
+  });
+}
+
+/* ---------------- write-off & recoveries ---------------- */
+export const WRITTEN_OFF = "written_off";
+
+/**
+ * Gives up on what a defaulted loan still owes: the balance is posted to
+ * loan-loss expense and the loan leaves the active book as `written_off`
+ * (not `closed`, so it never counts as repaid). Cash collected afterwards
+ * goes through recordRecovery.
+ */
+export async function writeOffLoan(actor: StaffUser, loanId: string, input: { reason: unknown }) {
+  const reason = cleanNote(input.reason);
+  if (!reason) throw new LoanServiceError("reason is required");
+  const db = adminDb();
+  const ref = loanRef(loanId);
+
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists) throw new LoanServiceError("Loan not found", 404);
+    const v = snap.data() as AnyRec;
+    const status = String(v.status || "pending").toLowerCase();
+    const balance = Number(v.currentBalance ?? v.loanAmount ?? 0);
+    if (!ACTIVE_STATUSES.includes(status) || balance <= 0) {
+      throw new LoanServiceError(`Loan is ${status}; only loans that still owe can be written off`, 409);
+    }
+    if (Number(v.creditBalance ?? 0) > 0.005) {
+      throw new LoanServiceError("Refund or apply the customer's credit before writing the loan off", 409);
+    }
+
+    const now = admin.firestore.Timestamp.now();
+    const ledger = postEntries(tx, ref, v, actor, [
+      { id: "write_off", type: "write_off", amount: balance, memo: reason, postedAt: now },
+    ]);
+    const patch = {
+      ...ledger,
+      status: WRITTEN_OFF,
+      writtenOffFromStatus: status,
+      writtenOffAmount: round2(balance),
+      writeOffReason: reason,
+      writtenOffAt: now,
+      writtenOffByUid: actor.uid,
+      writtenOffByEmail: actor.email,
+      recoveredAmount: 0,
+      // pin what was paid before the balance stops meaning "loan − payments"
+      amountPaid: amountPaidForLoan(v),
+    };
+    tx.update(ref, withListFields(v, patch));
+    await writeAudit(
+      actor,
+      {
+        action: "loan.write_off",
+        targetPath: ref.path,
+        before: v,
+        after: { ...v, ...patch },
+        note: `wrote off MWK ${round2(balance)}: ${reason}`,
+      },
+      tx
+    );
+    return { writtenOffAmount: patch.writtenOffAmount };
+  });
+}
+
+/**
+ * Records cash received on a written-off loan (`loan_applications/{id}/
+ * recoveries`). Same idempotency and reference rules as recordPayment; the
+ * balance stays zero and `recoveredAmount` grows.
+ */
+export async function recordRecovery(
+  actor: StaffUser,
+  loanId: string,
+  input: {
+    amount: unknown;
+    note?: unknown;
+    idempotencyKey: unknown;
+    method?: unknown;
+    reference?: unknown;
+    valueDate?: unknown;
+  }
+): Promise<{ recoveryId: string; recoveredAmount: number; duplicate: boolean }> {
+  const { amount, note, method, reference, key } = moneyInput(input);
+
+  const db = adminDb();
+  const ref = loanRef(loanId);
+  const recoveryRef = ref.collection("recoveries").doc(key);
+  const referenceRef = referenceDoc(method, reference);
+
+  return db.runTransaction(async (tx) => {
+    const [snap, existing] = await Promise.all([tx.get(ref), tx.get(recoveryRef)]);
+    const referenceSnap = referenceRef ? await tx.get(referenceRef) : null;
+    if (!snap.exists) throw new LoanServiceError("Loan not found", 404);
+    const v = snap.data() as AnyRec;
+    const recovered = Number(v.recoveredAmount ?? 0);
+
+    if (existing.exists) {
+      if (Number(existing.get("amount")) !== amount) {
+        throw new LoanServiceError("idempotencyKey was already used for a different recovery", 409);
+      }
+      return { recoveryId: recoveryRef.id, recoveredAmount: recovered, duplicate: true };
+    }
+    const status = String(v.status || "pending").toLowerCase();
+    if (status !== WRITTEN_OFF) {
+      throw new LoanServiceError(`Loan is ${status}; record a payment instead`, 409);
+    }
+    checkReferenceFree(method, reference, referenceSnap);
+    const now = admin.firestore.Timestamp.now();
+    const valueMs = parsePastDay(input.valueDate, "valueDate", now.toMillis());
+    const writtenOffMs = toMillis(v.writtenOffAt);
+    if (writtenOffMs && valueMs < writtenOffMs - DAY_MS) {
+      throw new LoanServiceError("valueDate is before the loan was written off");
+    }
+
+    const ledger = postEntries(tx, ref, v, actor, [
+      {
+        id: `recovery_${key}`,
+        type: "recovery",
+        amount,
+        memo: note,
+        postedAt: now,
+        extra: { recoveryId: recoveryRef.id, method, reference },
+      },
+    ]);
+    const patch = { ...ledger, recoveredAmount: round2(recovered + amount) };
+    if (referenceRef) {
+      tx.create(referenceRef, {
+        method,
+        reference,
+        loanId: ref.id,
+        paymentId: recoveryRef.id,
+        createdAt: now,
+      });
+    }
+    tx.create(recoveryRef, {
+      amount,
+      method,
+      reference,
+      paymentDate: valueMs === now.toMillis() ? now : admin.firestore.Timestamp.fromMillis(valueMs),
+      createdAt: now,
+      note,
+      recordedByUid: actor.uid,
+      recordedByEmail: actor.email,
+    });
+    tx.update(ref, withListFields(v, patch));
+    await writeAudit(
+      actor,
+      {
+        action: "recovery.record",
+        targetPath: ref.path,
+        before: v,
+        after: { ...v, ...patch },
+        note: `recovery ${recoveryRef.id}: MWK ${amount}`,
+      },
+      tx
+    );
+    return { recoveryId: recoveryRef.id, recoveredAmount: patch.recoveredAmount, duplicate: false };
+  });
+}
+
+/**
+ * Pays customer credit back out — an overpayment, or the surplus from a
+ * collateral sale. `idempotencyKey` makes the ledger entry id, so a
+ * resubmitted refund is only posted once.
+ */
+export async function refundCredit(
+  actor: StaffUser,
+  loanId: string,
+  input: {
+    amount: unknown;
+    idempotencyKey: unknown;
+    method?: unknown;
+    reference?: unknown;
+    note?: unknown;
+  }
+): Promise<{ creditBalance: number; duplicate: boolean }> {
+  const { amount, note, method, reference, key } = moneyInput(input);
+
+  const db = adminDb();
+  const ref = loanRef(loanId);
+  const entryRef = ref.collection(LEDGER_COLLECTION).doc(`refund_${key}`);
+
+  return db.runTransaction(async (tx) => {
+    const [snap, existing] = await Promise.all([tx.get(ref), tx.get(entryRef)]);
+    if (!snap.exists) throw new LoanServiceError("Loan not found", 404);
+    const v = snap.data() as AnyRec;
+    const credit = Number(v.creditBalance ?? 0);
+    if (existing.exists) return { creditBalance: credit, duplicate: true };
+    if (amount > credit + 0.005) {
+      throw new LoanServiceError(`Only MWK ${round2(credit)} of credit is held for this customer`, 409);
+    }
+
+    const now = admin.firestore.Timestamp.now();
+    const ledger = postEntries(tx, ref, v, actor, [
+      {
+        id: entryRef.id,
+        type: "refund",
+        amount,
+        memo: note ?? `Refunded by ${PAYMENT_METHOD_LABELS[method]}`,
+        postedAt: now,
+        extra: { method, reference },
+      },
+    ]);
+    const patch = { ...ledger, creditBalance: round2(credit - amount) };
+    tx.update(ref, withListFields(v, patch));
+    await writeAudit(
+      actor,
+      {
+        action: "credit.refund",
+        targetPath: ref.path,
+        before: v,
+        after: { ...v, ...patch },
+        note: `refunded MWK ${round2(amount)}${reference ? ` (${reference})` : ""}`,
+      },
+      tx
+    );
+    return { creditBalance: patch.creditBalance, duplicate: false };
+  });
+}
@@ -0,0 +1,210 @@
+// app/lib/payment-import-server.ts
+// Preview and commit for bulk repayment imports (app/lib/payment-import.ts).
+// Rows are posted one by one through recordPayment, so each gets the same
+// allocation, receipt and reference checks as a payment keyed in by hand;
+// the page commits a file IMPORT_CHUNK_ROWS rows per request.
+import admin from "firebase-admin";
+import { adminDb } from "@/app/lib/firebase-admin";
+import type { StaffUser } from "@/app/lib/auth-server";
+import { phoneKeys } from "@/app/lib/phone";
+import {
+  isPaymentMethod,
+  PAYMENT_REFERENCES_COLLECTION,
+  referenceError,
+  referenceKey,
+} from "@/app/lib/payment-methods";
+import {
+  IMPORT_CHUNK_ROWS,
+  MAX_IMPORT_ROWS,
+  type ImportResult,
+  type ImportRow,
+  type PreviewCandidate,
+  type PreviewRow,
+} from "@/app/lib/payment-import";
+import { ACTIVE_STATUSES, LoanServiceError, recordPayment } from "@/app/lib/loans-server";
+
+export const IMPORT_BATCHES_COLLECTION = "payment_imports";
+
+const BATCH_ID_RE = /^[A-Za-z0-9-]{8,64}$/;
+
+const str = (v: unknown) => (typeof v === "string" && v.trim() ? v.trim() : null);
+
+function parseRows(input: unknown, max: number): ImportRow[] {
+  if (!Array.isArray(input) || !input.length) throw new LoanServiceError("rows are required");
+  if (input.length > max) throw new LoanServiceError(`At most ${max} rows per request`);
+  return input.map((raw, i) => {
+    const r = (raw ?? {}) as Record<string, unknown>;
+    const amount = Number(r.amount);
+    if (!Number.isFinite(amount) || amount <= 0) {
+      throw new LoanServiceError(`row ${i + 1}: amount must be a number > 0`);
+    }
+    if (!isPaymentMethod(r.method)) throw new LoanServiceError(`row ${i + 1}: unknown method`);
+    return {
+      line: Number(r.line) || i + 1,
+      amount,
+      loanId: str(r.loanId),
+      phone: str(r.phone),
+      method: r.method,
+      reference: str(r.reference),
+      valueDate: str(r.valueDate),
+      note: str(r.note),
+    };
+  });
+}
+
+/** Active loans with something owing, by id and by every form of their phone number. */
+async function activeLoanIndex() {
+  const snap = await adminDb()
+    .collection("loan_applications")
+    .where("status", "in", ACTIVE_STATUSES)
+    .get();
+  const byId = new Map<string, PreviewCandidate>();
+  const byPhone = new Map<string, PreviewCandidate[]>();
+  for (const d of snap.docs) {
+    const v = d.data();
+    const balance = Number(v.currentBalance ?? v.loanAmount ?? 0);
+    if (balance <= 0) continue;
+    const c: PreviewCandidate = {
+      loanId: d.id,
+      name: [v.firstName, v.surname ?? v.lastName].filter(Boolean).join(" ") || "—",
+      balance,
+    };
+    byId.set(d.id, c);
+    for (const key of phoneKeys(v.mobile ?? v.mobileTel)) {
+      byPhone.set(key, [...(byPhone.get(key) || []), c]);
+    }
+  }
+  return { byId, byPhone };
+}
+
+/** Matches rows to loans and flags anything that would fail on commit. */
+export async function previewImport(input: unknown): Promise<PreviewRow[]> {
+  const rows = parseRows(input, MAX_IMPORT_ROWS);
+  const db = adminDb();
+  const index = await activeLoanIndex();
+
+  const refIds = rows.map((r) => (r.reference ? referenceKey(r.method, r.reference) : null));
+  const wanted = [...new Set(refIds.filter((k): k is string => !!k))];
+  const used = new Map<string, string>();
+  if (wanted.length) {
+    const snaps = await db.getAll(
+      ...wanted.map((k) => db.collection(PAYMENT_REFERENCES_COLLECTION).doc(k))
+    );
+    for (const s of snaps) if (s.exists) used.set(s.id, String(s.get("loanId") ?? ""));
+  }
+
+  const seen = new Set<string>();
+  return rows.map((r, i) => {
+    const refId = refIds[i];
+    let problem = referenceError(r.method, r.reference ?? "");
+    if (!problem && refId && seen.has(refId)) problem = "Reference repeated in this file";
+    if (!problem && refId && used.has(refId)) {
+      problem = `Reference already recorded (loan ${used.get(refId)})`;
+    }
+    if (refId) seen.add(refId);
+    if (problem) return { ...r, status: "invalid" as const, candidates: [], problem };
+
+    if (r.loanId) {
+      const c = index.byId.get(r.loanId);
+      return c
+        ? { ...r, status: "matched" as const, candidates: [c], problem: null }
+        : { ...r, status: "unmatched" as const, candidates: [], problem: "No active loan with this ID" };
+    }
+    const found = new Map<string, PreviewCandidate>();
+    for (const key of phoneKeys(r.phone ?? "")) {
+      for (const c of index.byPhone.get(key) || []) found.set(c.loanId, c);
+    }
+    const candidates = [...found.values()];
+    if (candidates.length === 1) return { ...r, status: "matched" as const, candidates, problem: null };
+    if (candidates.length > 1) {
+      return { ...r, status: "ambiguous" as const, candidates, problem: "Several active loans on this phone" };
+    }
+    return {
+      ...r,
+      status: "unmatched" as const,
+      candidates: [],
+      problem: r.phone ? "No active loan on this phone" : "No loan ID or phone",
+    };
+  });
+}
+
+/**
+ * Posts one chunk (at most IMPORT_CHUNK_ROWS rows) of an import: every row
+ * that has a `loanId`. Idempotency keys come from the batch id and row, so
+ * re-sending a chunk after a dropped response posts nothing twice. Each
+ * chunk's results are merged, by row, into `payment_imports/{batchId}`.
+ */
+export async function commitImport(
+  actor: StaffUser,
+  input: { batchId: unknown; fileName?: unknown; rows: unknown }
+): Promise<{ batchId: string; results: ImportResult[] }> {
+  const batchId = input.batchId;
+  if (typeof batchId !== "string" || !BATCH_ID_RE.test(batchId)) {
+    throw new LoanServiceError("batchId is required (8-64 chars of [A-Za-z0-9-])");
+  }
+  const rows = parseRows(input.rows, IMPORT_CHUNK_ROWS);
+
+  const results: ImportResult[] = [];
+  for (const r of rows) {
+    const base = { line: r.line, loanId: r.loanId, amount: r.amount, reference: r.reference };
+    if (!r.loanId) {
+      results.push({ ...base, status: "failed", paymentId: null, receiptNo: null, error: "No loan" });
+      continue;
+    }
+    try {
+      const res = await recordPayment(actor, r.loanId, {
+        amount: r.amount,
+        note: r.note ?? `Imported (batch ${batchId}, row ${r.line})`,
+        idempotencyKey: `imp_${batchId}_${r.line}`,
+        method: r.method,
+        reference: r.reference,
+        valueDate: r.valueDate,
+      });
+      results.push({
+        ...base,
+        status: res.duplicate ? "duplicate" : "posted",
+        paymentId: res.paymentId,
+        receiptNo: res.receiptNo,
+        error: null,
+      });
+    } catch (err) {
+      if (!(err instanceof LoanServiceError)) console.error(`[payment-import] row ${r.line}:`, err);
+      results.push({
+        ...base,
+        status: "failed",
+        paymentId: null,
+        receiptNo: null,
+        error: err instanceof LoanServiceError ? err.message : "internal-error",
+      });
+    }
+  }
+
+  const db = adminDb();
+  const ref = db.collection(IMPORT_BATCHES_COLLECTION).doc(batchId);
+  await db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    const byLine = new Map<number, ImportResult>(
+      ((snap.get("results") as ImportResult[] | undefined) ?? []).map((x) => [x.line, x])
+    );
+    // a re-sent chunk replaces its own rows
+    for (const x of results) byLine.set(x.line, x);
+    const all = [...byLine.values()].sort((a, b) => a.line - b.line);
+    const count = (s: ImportResult["status"]) => all.filter((x) => x.status === s).length;
+    const now = admin.firestore.Timestamp.now();
+    tx.set(ref, {
+      fileName: str(input.fileName),
+      posted: count("posted"),
+      duplicate: count("duplicate"),
+      failed: count("failed"),
+      totalPosted: all
+        .filter((x) => x.status === "posted")
+        .reduce((s, x) => Math.round((s + x.amount) * 100) / 100, 0),
+      results: all,
+      createdAt: snap.exists ? snap.get("createdAt") : now,
+      updatedAt: now,
+      createdByUid: snap.exists ? snap.get("createdByUid") : actor.uid,
+      createdByEmail: snap.exists ? snap.get("createdByEmail") : actor.email,
+    });
+  });
+  return { batchId, results };
+}
@@ -0,0 +1,74 @@
+// app/lib/payment-import.test.ts
+// Statement files come as our CSV template or Airtel Money / Mpamba
+// exports: `,`, `;` or tab separated, quoted, with day-first dates and
+// amounts written "1,500.00" or "MWK 1500".
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  guessDelimiter,
+  guessMapping,
+  mapRows,
+  parseAmount,
+  parseCsv,
+  parseStatementDate,
+} from "@/app/lib/payment-import";
+
+test("delimiter is whichever the first line has most of", () => {
+  assert.equal(guessDelimiter("date,amount,ref\n1;2;3;4"), ",");
+  assert.equal(guessDelimiter("date;amount;ref\n1,2,3,4"), ";");
+  assert.equal(guessDelimiter("date\tamount\tref"), "\t");
+});
+
+test("CSV: quoted fields, escaped quotes, CRLF and blank lines", () => {
+  const text = '\uFEFFamount,note\r\n"1,500.00","said ""thanks"""\r\n\r\n200, cash \n';
+  assert.deepEqual(parseCsv(text), [
+    ["amount", "note"],
+    ["1,500.00", 'said "thanks"'],
+    ["200", "cash"],
+  ]);
+  assert.deepEqual(parseCsv("amount;phone\n1500;0991234567"), [
+    ["amount", "phone"],
+    ["1500", "0991234567"],
+  ]);
+});
+
+test("amounts with separators and currency", () => {
+  assert.equal(parseAmount("1,500.00"), 1500);
+  assert.equal(parseAmount("MWK 2 000.505"), 2000.51);
+  assert.equal(parseAmount("K1500"), 1500);
+  assert.ok(Number.isNaN(parseAmount("n/a")));
+  assert.equal(parseAmount(""), 0);
+});
+
+test("statement dates: ISO and day-first", () => {
+  assert.equal(parseStatementDate("2026-10-19T14:02:00"), "2026-10-19");
+  assert.equal(parseStatementDate("19/10/2026 14:02"), "2026-10-19");
+  assert.equal(parseStatementDate("5.3.26"), "2026-03-05");
+  assert.equal(parseStatementDate(""), null);
+  assert.equal(parseStatementDate("not a date"), null);
+});
+
+test("rows are mapped by header; ones without an amount are skipped", () => {
+  const [headers, ...data] = parseCsv(
+    [
+      "Transaction ID,Sender MSISDN,Amount,Date,Channel",
+      "ab 123,0991234567,\"1,000\",19/10/2026,Airtel",
+      "ab124,0881234567,,19/10/2026,",
+      "ab125,0881234567,250,2026-10-20,",
+    ].join("\n")
+  );
+  const { rows, skipped } = mapRows(data, guessMapping(headers, "cash"), 2);
+  assert.deepEqual(skipped, [{ line: 3, reason: "no amount (debit or blank line)" }]);
+  assert.deepEqual(rows[0], {
+    line: 2,
+    amount: 1000,
+    loanId: null,
+    phone: "0991234567",
+    method: "airtel_money",
+    reference: "AB123",
+    valueDate: "2026-10-19",
+    note: null,
+  });
+  assert.equal(rows[1].line, 4);
+  assert.equal(rows[1].method, "cash");
+});
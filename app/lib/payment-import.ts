@@ -0,0 +1,242 @@
+// app/lib/payment-import.ts
+// Bulk repayment import: CSV / mobile-money statement parsing and column
+// mapping (in the browser), shared row types for the preview and commit
+// routes (app/lib/payment-import-server.ts).
+import {
+  isPaymentMethod,
+  normalizeReference,
+  type PaymentMethod,
+} from "@/app/lib/payment-methods";
+
+/** Most rows a single import may carry. */
+export const MAX_IMPORT_ROWS = 500;
+/**
+ * Rows posted per commit request. Each row is its own transaction on the
+ * receipt counter, so the page sends an import in chunks of this many and
+ * shows progress instead of holding one request open for the whole file.
+ */
+export const IMPORT_CHUNK_ROWS = 25;
+
+/** Parses CSV text (quoted fields, "" escapes, CRLF) into rows of cells. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  const src = text.replace(/^\uFEFF/, "");
+  const delimiter = guessDelimiter(src);
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === delimiter) {
+      row.push(cell.trim());
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      row.push(cell.trim());
+      if (row.some((c) => c)) rows.push(row);
+      row = [];
+      cell = "";
+    } else cell += ch;
+  }
+  row.push(cell.trim());
+  if (row.some((c) => c)) rows.push(row);
+  return rows;
+}
+
+/** Statement exports use `,`, `;` or tabs; pick whichever the first line has most of. */
+export function guessDelimiter(text: string): string {
+  const first = text.slice(0, text.search(/\r?\n|$/));
+  const counts = [",", ";", "\t"].map((d) => [d, first.split(d).length] as const);
+  return counts.sort((a, b) => b[1] - a[1])[0][0];
+}
+
+export type ColumnMapping = {
+  amount: number | null;
+  loanId: number | null;
+  phone: number | null;
+  reference: number | null;
+  /** Column with the method; `defaultMethod` is used when unset or unrecognised. */
+  method: number | null;
+  valueDate: number | null;
+  note: number | null;
+  defaultMethod: PaymentMethod;
+};
+
+type MappedField = Exclude<keyof ColumnMapping, "defaultMethod">;
+
+export const MAPPING_FIELDS: { key: MappedField; label: string }[] = [
+  { key: "amount", label: "Amount" },
+  { key: "loanId", label: "Loan ID" },
+  { key: "phone", label: "Phone" },
+  { key: "reference", label: "Transaction reference" },
+  { key: "method", label: "Method" },
+  { key: "valueDate", label: "Date" },
+  { key: "note", label: "Note" },
+];
+
+// header names seen in our own template and Airtel Money / Mpamba exports
+const HEADER_HINTS: Record<MappedField, RegExp> = {
+  amount: /^(amount|amt|credit|paid|amount \(mwk\)|transaction amount)$/i,
+  loanId: /^(loan ?id|loan|account|account no|loan ref)$/i,
+  phone: /^(phone|mobile|msisdn|sender|sender msisdn|from|payer|customer msisdn)$/i,
+  reference: /^(reference|ref|transaction ?id|txn ?id|trans(action)? ref|receipt( no)?)$/i,
+  method: /^(method|channel|payment method)$/i,
+  valueDate: /^(date|value ?date|transaction date|date ?time|txn date)$/i,
+  note: /^(note|narration|description|details|remarks)$/i,
+};
+
+/**
+ * Index of the header row: statements often start with a few lines of
+ * account details, so it's the first row that names an amount column.
+ */
+export function findHeaderRow(rows: string[][]): number {
+  const i = rows.slice(0, 20).findIndex((r) => r.some((c) => HEADER_HINTS.amount.test(c)));
+  return Math.max(0, i);
+}
+
+export function guessMapping(
+  headers: string[],
+  defaultMethod: PaymentMethod = "cash"
+): ColumnMapping {
+  const find = (re: RegExp) => {
+    const i = headers.findIndex((h) => re.test(h.trim()));
+    return i >= 0 ? i : null;
+  };
+  return {
+    amount: find(HEADER_HINTS.amount),
+    loanId: find(HEADER_HINTS.loanId),
+    phone: find(HEADER_HINTS.phone),
+    reference: find(HEADER_HINTS.reference),
+    method: find(HEADER_HINTS.method),
+    valueDate: find(HEADER_HINTS.valueDate),
+    note: find(HEADER_HINTS.note),
+    defaultMethod,
+  };
+}
+
+/** A statement line as sent to the preview/commit routes. */
+export type ImportRow = {
+  /** 1-based row in the file (blank lines not counted), for the results report. */
+  line: number;
+  amount: number;
+  loanId: string | null;
+  phone: string | null;
+  method: PaymentMethod;
+  reference: string | null;
+  /** YYYY-MM-DD, or null for today. */
+  valueDate: string | null;
+  note: string | null;
+};
+
+const METHOD_ALIASES: [RegExp, PaymentMethod][] = [
+  [/airtel/i, "airtel_money"],
+  [/mpamba|tnm/i, "tnm_mpamba"],
+  [/bank|transfer|eft/i, "bank_transfer"],
+  [/cash/i, "cash"],
+];
+
+function parseMethod(v: string | undefined): PaymentMethod | null {
+  const s = (v || "").trim();
+  if (!s) return null;
+  if (isPaymentMethod(s)) return s;
+  return METHOD_ALIASES.find(([re]) => re.test(s))?.[1] ?? null;
+}
+
+/** "1,500.00", "MWK 1500" → 1500. */
+export function parseAmount(v: string | undefined): number {
+  const n = Number((v || "").replace(/mwk|k(?=\d)|[,\s]/gi, ""));
+  return Number.isFinite(n) ? Math.round(n * 100) / 100 : NaN;
+}
+
+/** YYYY-MM-DD from ISO dates or day-first statement dates (19/10/2026 14:02). */
+export function parseStatementDate(v: string | undefined): string | null {
+  const s = (v || "").trim();
+  if (!s) return null;
+  const iso = s.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  const dmy = s.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})/);
+  if (dmy) {
+    const year = dmy[3].length === 2 ? `20${dmy[3]}` : dmy[3];
+    return `${year}-${dmy[2].padStart(2, "0")}-${dmy[1].padStart(2, "0")}`;
+  }
+  const ms = Date.parse(s);
+  return Number.isFinite(ms) ? new Date(ms).toISOString().slice(0, 10) : null;
+}
+
+/**
+ * Applies `mapping` to the data rows. Rows without a usable amount come
+ * back in `skipped` rather than being sent to the server.
+ */
+export function mapRows(
+  rows: string[][],
+  mapping: ColumnMapping,
+  firstLine: number
+): { rows: ImportRow[]; skipped: { line: number; reason: string }[] } {
+  const cell = (r: string[], i: number | null) => (i == null ? "" : (r[i] ?? "").trim());
+  const out: ImportRow[] = [];
+  const skipped: { line: number; reason: string }[] = [];
+  rows.forEach((r, i) => {
+    const line = firstLine + i;
+    const amount = parseAmount(cell(r, mapping.amount));
+    if (!(amount > 0)) {
+      skipped.push({ line, reason: "no amount (debit or blank line)" });
+      return;
+    }
+    out.push({
+      line,
+      amount,
+      loanId: cell(r, mapping.loanId) || null,
+      phone: cell(r, mapping.phone) || null,
+      method: parseMethod(cell(r, mapping.method)) ?? mapping.defaultMethod,
+      reference: normalizeReference(cell(r, mapping.reference)) || null,
+      valueDate: parseStatementDate(cell(r, mapping.valueDate)),
+      note: cell(r, mapping.note) || null,
+    });
+  });
+  return { rows: out, skipped };
+}
+
+export type PreviewCandidate = { loanId: string; name: string; balance: number };
+
+export type PreviewRow = ImportRow & {
+  status: "matched" | "ambiguous" | "unmatched" | "invalid";
+  /** matched: the loan; ambiguous: every active loan on that phone. */
+  candidates: PreviewCandidate[];
+  problem: string | null;
+};
+
+export type ImportResult = {
+  line: number;
+  loanId: string | null;
+  amount: number;
+  reference: string | null;
+  status: "posted" | "duplicate" | "failed";
+  paymentId: string | null;
+  receiptNo: string | null;
+  error: string | null;
+};
+
+/** The results report offered for download after a commit. */
+export function resultsCsv(results: ImportResult[]): string {
+  const esc = (v: unknown) => {
+    const s = v == null ? "" : String(v);
+    return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+  };
+  const header = ["line", "loanId", "amount", "reference", "status", "paymentId", "receiptNo", "error"];
+  return [
+    header.join(","),
+    ...results.map((r) =>
+      [r.line, r.loanId, r.amount, r.reference, r.status, r.paymentId, r.receiptNo, r.error]
+        .map(esc)
+        .join(",")
+    ),
+  ].join("\n");
+}
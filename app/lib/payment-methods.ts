@@ -0,0 +1,53 @@
+// app/lib/payment-methods.ts
+// How a borrower paid. Every non-cash payment carries the provider's
+// transaction reference, which may only be used once per method (claimed in
+// `payment_references` by the payment service, released on reversal).
+
+export const PAYMENT_METHODS = ["cash", "bank_transfer", "airtel_money", "tnm_mpamba"] as const;
+export type PaymentMethod = (typeof PAYMENT_METHODS)[number];
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: "Cash",
+  bank_transfer: "Bank transfer",
+  airtel_money: "Airtel Money",
+  tnm_mpamba: "TNM Mpamba",
+};
+
+/** Reference format per method, checked after `normalizeReference`. */
+const REFERENCE_RULES: Record<PaymentMethod, { required: boolean; re: RegExp; hint: string }> = {
+  cash: { required: false, re: /^[A-Z0-9/-]{1,40}$/, hint: "a receipt-book number" },
+  bank_transfer: { required: true, re: /^[A-Z0-9/-]{4,40}$/, hint: "4-40 letters, digits, / or -" },
+  airtel_money: { required: true, re: /^[A-Z0-9.]{8,24}$/, hint: "the Airtel Money transaction ID" },
+  tnm_mpamba: { required: true, re: /^[A-Z0-9]{8,24}$/, hint: "the Mpamba transaction ID" },
+};
+
+export function isPaymentMethod(v: unknown): v is PaymentMethod {
+  return typeof v === "string" && (PAYMENT_METHODS as readonly string[]).includes(v);
+}
+
+/** Payments recorded before methods were captured count as cash. */
+export function paymentMethodOf(v: unknown): PaymentMethod {
+  return isPaymentMethod(v) ? v : "cash";
+}
+
+export function normalizeReference(v: unknown): string {
+  return typeof v === "string" ? v.trim().toUpperCase().replace(/\s+/g, "") : "";
+}
+
+/** Why `reference` isn't acceptable for `method`, or null when it is. */
+export function referenceError(method: PaymentMethod, reference: string): string | null {
+  const rule = REFERENCE_RULES[method];
+  if (!reference) {
+    return rule.required ? `A reference is required for ${PAYMENT_METHOD_LABELS[method]}` : null;
+  }
+  return rule.re.test(reference)
+    ? null
+    : `Invalid ${PAYMENT_METHOD_LABELS[method]} reference (expected ${rule.hint})`;
+}
+
+export const PAYMENT_REFERENCES_COLLECTION = "payment_references";
+
+/** Doc id under `payment_references` for a method/reference pair. */
+export function referenceKey(method: PaymentMethod, reference: string): string {
+  return `${method}_${encodeURIComponent(reference)}`;
+}
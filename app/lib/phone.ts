@@ -0,0 +1,17 @@
+// app/lib/phone.ts
+// Phone number matching. Numbers are stored in whatever form they were
+// typed (+265…, 0…, bare), so lookups index every form of a number.
+
+export function onlyDigits(s?: string) {
+  return (s || "").replace(/\D+/g, "");
+}
+
+/** The forms a Malawian number may be written in, for use as lookup keys. */
+export function phoneKeys(s?: string) {
+  const d = onlyDigits(s);
+  if (!d) return [] as string[];
+  const keys = new Set([d]);
+  if (d.startsWith("265")) keys.add(d.slice(3));
+  if (d.startsWith("0")) keys.add(d.slice(1));
+  return [...keys];
+}
@@ -0,0 +1,121 @@
+// app/lib/receipts-server.ts
+// Receipt numbering and rendering (see app/lib/receipts.ts).
+import admin from "firebase-admin";
+import { PDFDocument, StandardFonts, rgb } from "pdf-lib";
+import { adminDb } from "@/app/lib/firebase-admin";
+import { allocationLines, parseAllocation } from "@/app/lib/allocation";
+import { LoanServiceError, loanRef } from "@/app/lib/loans-server";
+import { PAYMENT_METHOD_LABELS, paymentMethodOf } from "@/app/lib/payment-methods";
+import { formatReceiptNo, RECEIPT_COUNTER_PATH, type Receipt } from "@/app/lib/receipts";
+import { toMillis } from "@/app/lib/util";
+
+/** Next receipt sequence — a transaction read, so call it before any writes. */
+export async function nextReceiptSeq(tx: admin.firestore.Transaction): Promise<number> {
+  const snap = await tx.get(adminDb().doc(RECEIPT_COUNTER_PATH));
+  return Math.max(1, Number(snap.get("next") || 1));
+}
+
+/** Claims `seq` (from nextReceiptSeq, same transaction) and returns its receipt number. */
+export function claimReceiptNo(tx: admin.firestore.Transaction, seq: number): string {
+  tx.set(adminDb().doc(RECEIPT_COUNTER_PATH), { next: seq + 1 }, { merge: true });
+  return formatReceiptNo(seq);
+}
+
+export async function getReceipt(loanId: string, paymentId: string): Promise<Receipt> {
+  const ref = loanRef(loanId);
+  const [loanSnap, paymentSnap] = await Promise.all([
+    ref.get(),
+    ref.collection("loan_payments").doc(paymentId).get(),
+  ]);
+  if (!loanSnap.exists) throw new LoanServiceError("Loan not found", 404);
+  if (!paymentSnap.exists) throw new LoanServiceError("Payment not found", 404);
+  const v = loanSnap.data() ?? {};
+  const p = paymentSnap.data() ?? {};
+
+  return {
+    receiptNo: (p.receiptNo as string) ?? null,
+    loanId,
+    paymentId,
+    borrowerName:
+      [v.firstName, v.surname ?? v.lastName].filter(Boolean).join(" ") || "—",
+    mobile: (v.mobile as string) || (v.mobileTel as string) || null,
+    loanType: (v.loanType as string) ?? null,
+    amount: Number(p.amount || 0),
+    method: paymentMethodOf(p.method),
+    reference: (p.reference as string) ?? null,
+    allocation: parseAllocation(p.allocation),
+    balanceAfter: p.balanceAfter == null ? null : Number(p.balanceAfter),
+    cashier: (p.recordedByEmail as string) ?? null,
+    paidAtMs: toMillis(p.paymentDate ?? p.createdAt),
+    note: (p.note as string) ?? null,
+    reversed: !!p.reversedAt,
+  };
+}
+
+const money = (n: number) =>
+  n.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// the standard PDF fonts only encode WinAnsi; notes and names may not be
+const winAnsi = (s: string) => s.replace(/[^\x20-\x7E\u00A0-\u00FF\u2014]/g, "?");
+
+/** A5 receipt; same content as the print view (/admin/receipts/…). */
+export async function receiptPdf(r: Receipt): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(`Receipt ${r.receiptNo ?? r.paymentId}`);
+  const page = pdf.addPage([420, 595]);
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const grey = rgb(0.4, 0.45, 0.5);
+  let y = 550;
+
+  const text = (s: string, x: number, size = 10, f = font, color = rgb(0, 0, 0)) =>
+    page.drawText(winAnsi(s), { x, y, size, font: f, color });
+  const right = (s: string, size = 10, f = font) => {
+    const t = winAnsi(s);
+    page.drawText(t, { x: 380 - f.widthOfTextAtSize(t, size), y, size, font: f });
+  };
+  const row = (label: string, value: string, f = font) => {
+    text(label, 40, 10, font, grey);
+    right(value, 10, f);
+    y -= 18;
+  };
+  const rule = () => {
+    page.drawLine({
+      start: { x: 40, y: y + 6 },
+      end: { x: 380, y: y + 6 },
+      thickness: 0.5,
+      color: grey,
+    });
+    y -= 12;
+  };
+
+  text("ESSA Loans", 40, 16, bold);
+  right(r.receiptNo ?? "Unnumbered", 12, bold);
+  y -= 18;
+  text("Payment receipt", 40, 11, font, grey);
+  if (r.reversed) right("REVERSED", 11, bold);
+  y -= 28;
+  rule();
+
+  row("Date", r.paidAtMs ? new Date(r.paidAtMs).toLocaleString("en-GB") : "—");
+  row("Borrower", r.borrowerName);
+  if (r.mobile) row("Mobile", r.mobile);
+  row("Loan ID", r.loanId);
+  if (r.loanType) row("Loan type", r.loanType);
+  rule();
+
+  row("Amount received", `MWK ${money(r.amount)}`, bold);
+  row("Paid by", PAYMENT_METHOD_LABELS[r.method]);
+  if (r.reference) row("Reference", r.reference);
+  for (const l of r.allocation ? allocationLines(r.allocation) : []) {
+    row(`   ${l.label}`, `MWK ${money(l.amount)}`);
+  }
+  rule();
+  row("Balance after payment", r.balanceAfter == null ? "—" : `MWK ${money(r.balanceAfter)}`, bold);
+  if (r.note) row("Note", r.note.slice(0, 60));
+  row("Cashier", r.cashier ?? "—");
+
+  y = 60;
+  text(`Payment ${r.paymentId}`, 40, 8, font, grey);
+  return pdf.save();
+}
@@ -0,0 +1,39 @@
+// app/lib/receipts.ts
+// Payment receipts. Numbers are issued in sequence from `counters/receipts`
+// in the transaction that records the payment, and stored on it; the
+// receipt itself is rebuilt from the payment and loan docs when printed.
+import type { Allocation } from "@/app/lib/allocation";
+import type { PaymentMethod } from "@/app/lib/payment-methods";
+
+export const RECEIPT_COUNTER_PATH = "counters/receipts";
+
+export function formatReceiptNo(seq: number): string {
+  return `RCT-${String(seq).padStart(6, "0")}`;
+}
+
+export type Receipt = {
+  /** null for payments recorded before receipts were numbered. */
+  receiptNo: string | null;
+  loanId: string;
+  paymentId: string;
+  borrowerName: string;
+  mobile: string | null;
+  loanType: string | null;
+  amount: number;
+  method: PaymentMethod;
+  reference: string | null;
+  allocation: Allocation | null;
+  /** Loan balance right after this payment (null for older payments). */
+  balanceAfter: number | null;
+  cashier: string | null;
+  paidAtMs: number | null;
+  note: string | null;
+  reversed: boolean;
+};
+
+export function receiptUrl(loanId: string, paymentId: string, format?: "pdf"): string {
+  const base = `/api/admin/loans/${encodeURIComponent(loanId)}/payments/${encodeURIComponent(
+    paymentId
+  )}/receipt`;
+  return format ? `${base}?format=${format}` : base;
+}
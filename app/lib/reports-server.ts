@@ -0,0 +1,46 @@
+// app/lib/reports-server.ts
+// Portfolio reports computed from the payment records.
+import admin from "firebase-admin";
+import { adminDb } from "@/app/lib/firebase-admin";
+import { PAYMENT_METHODS, paymentMethodOf, type PaymentMethod } from "@/app/lib/payment-methods";
+import { round2 } from "@/app/lib/util";
+
+
+export type CollectionsByChannel = {
+  fromMs: number;
+  toMs: number;
+  channels: Record<PaymentMethod, { count: number; amount: number }>;
+  total: { count: number; amount: number };
+};
+
+/**
+ * Money received between `fromMs` and `toMs` (by value date) per payment
+ * method; reversed payments are left out. Uses the collection-group index
+ * on `loan_payments.paymentDate` (firestore.indexes.json).
+ */
+export async function collectionsByChannel(
+  fromMs: number,
+  toMs: number
+): Promise<CollectionsByChannel> {
+  const snap = await adminDb()
+    .collectionGroup("loan_payments")
+    .where("paymentDate", ">=", admin.firestore.Timestamp.fromMillis(fromMs))
+    .where("paymentDate", "<=", admin.firestore.Timestamp.fromMillis(toMs))
+    .get();
+
+  const channels = Object.fromEntries(
+    PAYMENT_METHODS.map((m) => [m, { count: 0, amount: 0 }])
+  ) as CollectionsByChannel["channels"];
+  const total = { count: 0, amount: 0 };
+  for (const d of snap.docs) {
+    const v = d.data();
+    const amount = Number(v.amount || 0);
+    if (v.reversedAt || !(amount > 0)) continue;
+    const c = channels[paymentMethodOf(v.method)];
+    c.count++;
+    c.amount = round2(c.amount + amount);
+    total.count++;
+    total.amount = round2(total.amount + amount);
+  }
+  return { fromMs, toMs, channels, total };
+}
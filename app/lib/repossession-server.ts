@@ -0,0 +1,473 @@
+// app/lib/repossession-server.ts
+// Repossession steps (see app/lib/repossession.ts). A demand notice goes on
+// the loan; seizure, storage, valuation and sale are kept on each item's
+// `repossession` and audited. Sale proceeds go through recordPayment (or
+// recordRecovery once written off), keyed by the item, so a retried sale
+// never posts twice; what's left after the loan becomes customer credit.
+import admin from "firebase-admin";
+import { adminDb } from "@/app/lib/firebase-admin";
+import { writeAudit } from "@/app/lib/audit";
+import { postEntries } from "@/app/lib/ledger-server";
+import {
+  ACTIVE_STATUSES,
+  cleanNote,
+  LoanServiceError,
+  loanRef,
+  parsePastDay,
+  recordPayment,
+  recordRecovery,
+  WRITTEN_OFF,
+} from "@/app/lib/loans-server";
+import {
+  collateralRef,
+  listCollateral,
+  optText,
+  parsePhotos,
+} from "@/app/lib/collateral-server";
+import { parseCollateral, type CollateralItem, type CollateralSale } from "@/app/lib/collateral";
+import { withListFields } from "@/app/lib/loan-list-server";
+import {
+  DEFAULT_DEMAND_NOTICE_DAYS,
+  parseDemandNotices,
+  type RepossessionView,
+} from "@/app/lib/repossession";
+import { DAY_MS, round2 } from "@/app/lib/util";
+import type { StaffUser } from "@/app/lib/auth-server";
+
+type AnyRec = Record<string, unknown>;
+
+const ts = (ms: number) => admin.firestore.Timestamp.fromMillis(ms);
+
+function loanStatus(v: AnyRec) {
+  return String(v.status || "pending").toLowerCase();
+}
+
+/** Still owes something: active with a balance, or written off. */
+function inDefault(v: AnyRec) {
+  const status = loanStatus(v);
+  const balance = Number(v.currentBalance ?? v.loanAmount ?? 0);
+  return status === WRITTEN_OFF || (ACTIVE_STATUSES.includes(status) && balance > 0);
+}
+
+export async function getRepossession(loanId: string): Promise<RepossessionView> {
+  const snap = await loanRef(loanId).get();
+  if (!snap.exists) throw new LoanServiceError("Loan not found", 404);
+  const v = snap.data() ?? {};
+  const items = await listCollateral({ loanId });
+  return {
+    loan: {
+      id: loanId,
+      borrowerName: [v.firstName, v.surname ?? v.lastName].filter(Boolean).join(" ") || "—",
+      mobile: (v.mobile as string) || (v.mobileTel as string) || null,
+      email: (v.email as string) || null,
+      status: loanStatus(v),
+      balance: Number(v.currentBalance ?? v.loanAmount ?? 0),
+      creditBalance: Number(v.creditBalance ?? 0),
+      writtenOffAmount: Number(v.writtenOffAmount ?? 0),
+      recoveredAmount: Number(v.recoveredAmount ?? 0),
+    },
+    notices: parseDemandNotices(v.demandNotices),
+    items,
+  };
+}
+
+/**
+ * Records a demand notice on a loan in default. The borrower has until
+ * `deadline` (default DEFAULT_DEMAND_NOTICE_DAYS out) before seizure.
+ */
+export async function issueDemandNotice(
+  actor: StaffUser,
+  loanId: string,
+  input: { deadline?: unknown; note?: unknown }
+): Promise<RepossessionView["notices"][number]> {
+  const note = cleanNote(input.note);
+  const now = admin.firestore.Timestamp.now();
+  let deadlineMs = now.toMillis() + DEFAULT_DEMAND_NOTICE_DAYS * DAY_MS;
+  if (input.deadline !== undefined && input.deadline !== null && input.deadline !== "") {
+    const ms = typeof input.deadline === "string" ? Date.parse(input.deadline) : NaN;
+    if (!Number.isFinite(ms)) throw new LoanServiceError("deadline must be a date (YYYY-MM-DD)");
+    if (Math.floor(ms / DAY_MS) <= Math.floor(now.toMillis() / DAY_MS)) {
+      throw new LoanServiceError("deadline must be after today");
+    }
+    deadlineMs = ms;
+  }
+  const notice = {
+    issuedAt: now,
+    deadline: ts(deadlineMs),
+    note,
+    issuedByUid: actor.uid,
+    issuedByEmail: actor.email,
+  };
+  const ref = loanRef(loanId);
+
+  await adminDb().runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists) throw new LoanServiceError("Loan not found", 404);
+    const v = snap.data() as AnyRec;
+    if (!inDefault(v)) {
+      throw new LoanServiceError(`Loan is ${loanStatus(v)}; there is nothing to demand`, 409);
+    }
+    const patch = {
+      demandNotices: admin.firestore.FieldValue.arrayUnion(notice),
+      lastDemandNoticeAt: now,
+    };
+    tx.update(ref, withListFields(v, patch));
+    await writeAudit(
+      actor,
+      {
+        action: "loan.demand_notice",
+        targetPath: ref.path,
+        before: v,
+        after: { ...v, lastDemandNoticeAt: now },
+        note: `pay by ${new Date(deadlineMs).toISOString().slice(0, 10)}${note ? `: ${note}` : ""}`,
+      },
+      tx
+    );
+  });
+  return parseDemandNotices([notice])[0];
+}
+
+/**
+ * Reads item `id` and its loan in `tx` and checks the item is where
+ * `step` can happen. Seizure needs an expired demand notice and an item
+ * still on the books; later steps need it repossessed and not yet sold.
+ */
+async function readForStep(
+  tx: admin.firestore.Transaction,
+  id: string,
+  step: "seizure" | "storage" | "valuation" | "sale"
+) {
+  const ref = collateralRef(id);
+  const snap = await tx.get(ref);
+  if (!snap.exists) throw new LoanServiceError("Collateral not found", 404);
+  const v = snap.data() as AnyRec;
+  const item = parseCollateral(id, v);
+  const lRef = loanRef(item.loanId);
+  const loan = await tx.get(lRef);
+  if (!loan.exists) throw new LoanServiceError("Loan not found", 404);
+  const lv = loan.data() as AnyRec;
+
+  if (step === "seizure") {
+    if (item.status !== "pledged" && item.status !== "held") {
+      throw new LoanServiceError(`Item is ${item.status}; only pledged or held items can be seized`, 409);
+    }
+    if (!inDefault(lv)) {
+      throw new LoanServiceError(`Loan is ${loanStatus(lv)}; its collateral can't be seized`, 409);
+    }
+    const now = Date.now();
+    const expired = parseDemandNotices(lv.demandNotices).some(
+      (n) => n.deadlineMs != null && n.deadlineMs <= now
+    );
+    if (!expired) {
+      throw new LoanServiceError("Seizure needs a demand notice whose deadline has passed", 409);
+    }
+  } else if (item.status !== "repossessed") {
+    throw new LoanServiceError(`Item is ${item.status}, not repossessed`, 409);
+  }
+  return { ref, v, item, lRef, lv };
+}
+
+/** Pledged/held → repossessed, with who seized it, when, and photos. */
+export async function recordSeizure(
+  actor: StaffUser,
+  id: string,
+  input: { seizedAt?: unknown; officer?: unknown; photos?: unknown; storageLocation?: unknown; note?: unknown }
+): Promise<CollateralItem> {
+  const officer = optText(input.officer, "officer");
+  if (!officer) throw new LoanServiceError("officer is required");
+  const photos = await parsePhotos(input.photos, "photos");
+  const location = optText(input.storageLocation, "storageLocation");
+  const note = cleanNote(input.note);
+  const now = admin.firestore.Timestamp.now();
+  const seizedAt = ts(parsePastDay(input.seizedAt, "seizedAt", now.toMillis()));
+
+  return adminDb().runTransaction(async (tx) => {
+    const { ref, v, item } = await readForStep(tx, id, "seizure");
+    const repossession = {
+      seizedAt,
+      seizedBy: officer,
+      seizurePhotos: photos,
+      storageLocation: location,
+      storedAt: location ? now : null,
+      valuedAt: null,
+      valuedBy: null,
+      sale: null,
+    };
+    const patch: AnyRec = {
+      status: "repossessed",
+      statusChangedAt: now,
+      statusHistory: admin.firestore.FieldValue.arrayUnion({
+        from: item.status,
+        to: "repossessed",
+        note,
+        at: now,
+        byUid: actor.uid,
+        byEmail: actor.email,
+      }),
+      repossession,
+      ...(location && { custodian: location }),
+    };
+    tx.update(ref, patch);
+    await writeAudit(
+      actor,
+      {
+        action: "collateral.repossession",
+        targetPath: ref.path,
+        loanId: item.loanId,
+        before: v,
+        after: {
+          ...v,
+          status: "repossessed",
+          statusChangedAt: now,
+          repossession,
+          ...(location && { custodian: location }),
+        },
+        note: `seized by ${officer}${note ? `: ${note}` : ""}`,
+      },
+      tx
+    );
+    return parseCollateral(id, { ...v, ...patch });
+  });
+}
+
+/** Where a repossessed item is kept; the location becomes its custodian. */
+export async function recordStorage(
+  actor: StaffUser,
+  id: string,
+  input: { location?: unknown }
+): Promise<CollateralItem> {
+  const location = optText(input.location, "location");
+  if (!location) throw new LoanServiceError("location is required");
+  const now = admin.firestore.Timestamp.now();
+
+  return adminDb().runTransaction(async (tx) => {
+    const { ref, v, item } = await readForStep(tx, id, "storage");
+    const patch = {
+      "repossession.storageLocation": location,
+      "repossession.storedAt": now,
+      custodian: location,
+    };
+    tx.update(ref, patch);
+    await writeAudit(
+      actor,
+      {
+        action: "collateral.repossession",
+        targetPath: ref.path,
+        loanId: item.loanId,
+        before: v,
+        after: { ...v, custodian: location },
+        note: `stored at ${location}`,
+      },
+      tx
+    );
+    const repossession = { ...(v.repossession as AnyRec), storageLocation: location, storedAt: now };
+    return parseCollateral(id, { ...v, custodian: location, repossession });
+  });
+}
+
+/** Valuation of a repossessed item before sale (replaces its pledged valuation). */
+export async function recordValuation(
+  actor: StaffUser,
+  id: string,
+  input: { valuation?: unknown; valuationDate?: unknown; valuer?: unknown }
+): Promise<CollateralItem> {
+  const valuation = Number(input.valuation);
+  if (input.valuation === "" || !Number.isFinite(valuation) || valuation < 0) {
+    throw new LoanServiceError("valuation must be a number ≥ 0");
+  }
+  const valuer = optText(input.valuer, "valuer");
+  if (!valuer) throw new LoanServiceError("valuer is required");
+  const now = admin.firestore.Timestamp.now();
+  const valuationDate = ts(parsePastDay(input.valuationDate, "valuationDate", now.toMillis()));
+
+  return adminDb().runTransaction(async (tx) => {
+    const { ref, v, item } = await readForStep(tx, id, "valuation");
+    const patch = {
+      valuation: round2(valuation),
+      valuationDate,
+      "repossession.valuedAt": valuationDate,
+      "repossession.valuedBy": valuer,
+    };
+    tx.update(ref, patch);
+    await writeAudit(
+      actor,
+      {
+        action: "collateral.repossession",
+        targetPath: ref.path,
+        loanId: item.loanId,
+        before: v,
+        after: { ...v, valuation: patch.valuation, valuationDate },
+        note: `valued at MWK ${patch.valuation} by ${valuer}`,
+      },
+      tx
+    );
+    const repossession = { ...(v.repossession as AnyRec), valuedAt: valuationDate, valuedBy: valuer };
+    return parseCollateral(id, { ...v, valuation: patch.valuation, valuationDate, repossession });
+  });
+}
+
+/**
+ * Sells a repossessed, valued item. The proceeds pay the loan down first:
+ * a payment on an active loan of up to its balance (allocated to the next
+ * installments like any other), a recovery up to what's still written off,
+ * or nothing on a loan already cleared. Only the rest is the surplus, held
+ * as customer credit for refundCredit. The item ends auctioned with the
+ * split on `repossession.sale`.
+ */
+export async function recordSale(
+  actor: StaffUser,
+  id: string,
+  input: {
+    amount: unknown;
+    saleDate?: unknown;
+    buyer?: unknown;
+    method?: unknown;
+    reference?: unknown;
+    note?: unknown;
+  }
+): Promise<{ item: CollateralItem; sale: CollateralSale; duplicate: boolean }> {
+  const amount = round2(Number(input.amount));
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new LoanServiceError("amount must be a number > 0");
+  }
+  const buyer = optText(input.buyer, "buyer");
+  if (!buyer) throw new LoanServiceError("buyer is required");
+  const note = cleanNote(input.note);
+  const db = adminDb();
+  const key = `sale_${id}`;
+
+  const snap = await collateralRef(id).get();
+  if (!snap.exists) throw new LoanServiceError("Collateral not found", 404);
+  const current = parseCollateral(id, snap.data() ?? {});
+  if (current.repossession?.sale) {
+    return { item: current, sale: current.repossession.sale, duplicate: true };
+  }
+  if (current.status !== "repossessed") {
+    throw new LoanServiceError(`Item is ${current.status}, not repossessed`, 409);
+  }
+  if (!current.repossession?.valuedAtMs) {
+    throw new LoanServiceError("Record a valuation before the sale", 409);
+  }
+  const nowMs = Date.now();
+  const saleMs = parsePastDay(input.saleDate, "saleDate", nowMs);
+
+  // 1. the part that goes against the loan
+  const lRef = loanRef(current.loanId);
+  const loan = await lRef.get();
+  if (!loan.exists) throw new LoanServiceError("Loan not found", 404);
+  const lv = loan.data() as AnyRec;
+  const status = loanStatus(lv);
+  const memo = note ?? `Sale of ${current.description} to ${buyer}`;
+  let applied = 0;
+  let paymentId: string | null = null;
+  let receiptNo: string | null = null;
+  // held as credit by recordPayment when the balance fell after it was read
+  let creditPosted = 0;
+
+  const paymentSnap = await lRef.collection("loan_payments").doc(key).get();
+  const balance = Number(lv.currentBalance ?? 0);
+  if (paymentSnap.exists || (ACTIVE_STATUSES.includes(status) && balance > 0)) {
+    // a retry replays the payment as it was first posted
+    const payment = paymentSnap.exists
+      ? Number(paymentSnap.get("amount"))
+      : round2(Math.min(amount, balance));
+    const res = await recordPayment(actor, current.loanId, {
+      amount: payment,
+      idempotencyKey: key,
+      overpayment: "next_installments",
+      method: input.method,
+      reference: input.reference,
+      valueDate: input.saleDate,
+      note: memo,
+    });
+    creditPosted = res.allocation?.credit ?? 0;
+    applied = round2(payment - creditPosted);
+    paymentId = res.paymentId;
+    receiptNo = res.receiptNo;
+  } else if (status === WRITTEN_OFF) {
+    const recoverySnap = await lRef.collection("recoveries").doc(key).get();
+    const outstanding = Number(lv.writtenOffAmount ?? 0) - Number(lv.recoveredAmount ?? 0);
+    applied = recoverySnap.exists
+      ? Number(recoverySnap.get("amount"))
+      : round2(Math.min(amount, Math.max(0, outstanding)));
+    if (applied > 0) {
+      const res = await recordRecovery(actor, current.loanId, {
+        amount: applied,
+        idempotencyKey: key,
+        method: input.method,
+        reference: input.reference,
+        valueDate: input.saleDate,
+        note: memo,
+      });
+      paymentId = res.recoveryId;
+    }
+  }
+  const surplus = round2(amount - applied);
+
+  // 2. the surplus (less any recordPayment already held) and the item
+  return db.runTransaction(async (tx) => {
+    const { ref, v, item, lv: loanNow } = await readForStep(tx, id, "sale");
+    const now = admin.firestore.Timestamp.now();
+    const sale = {
+      amount,
+      saleDate: ts(saleMs),
+      buyer,
+      applied,
+      surplus,
+      paymentId,
+      receiptNo,
+    };
+    const toCredit = round2(surplus - creditPosted);
+    if (toCredit > 0) {
+      const ledger = postEntries(tx, lRef, loanNow, actor, [
+        {
+          // not `credit_${key}`: that is the sale payment's own overpayment
+          id: `surplus_${key}`,
+          type: "credit",
+          amount: toCredit,
+          memo: `Surplus from the sale of ${item.description}`,
+          postedAt: now,
+          extra: { collateralId: id },
+        },
+      ]);
+      tx.update(
+        lRef,
+        withListFields(loanNow, {
+          ...ledger,
+          creditBalance: round2(Number(loanNow.creditBalance ?? 0) + toCredit),
+        })
+      );
+    }
+    const patch = {
+      status: "auctioned",
+      statusChangedAt: now,
+      statusHistory: admin.firestore.FieldValue.arrayUnion({
+        from: item.status,
+        to: "auctioned",
+        note: `sold to ${buyer} for MWK ${amount}`,
+        at: now,
+        byUid: actor.uid,
+        byEmail: actor.email,
+      }),
+      "repossession.sale": sale,
+    };
+    tx.update(ref, patch);
+    await writeAudit(
+      actor,
+      {
+        action: "collateral.sale",
+        targetPath: ref.path,
+        loanId: item.loanId,
+        before: v,
+        after: { ...v, status: "auctioned", statusChangedAt: now, sale },
+        note:
+          `sold to ${buyer} for MWK ${amount}: MWK ${applied} to the loan` +
+          (surplus > 0 ? `, MWK ${surplus} surplus to credit` : ""),
+      },
+      tx
+    );
+    const repossession = { ...(v.repossession as AnyRec), sale };
+    const saved = parseCollateral(id, { ...v, status: "auctioned", statusChangedAt: now, repossession });
+    return { item: saved, sale: saved.repossession!.sale!, duplicate: false };
+  });
+}
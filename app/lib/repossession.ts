@@ -0,0 +1,93 @@
+// app/lib/repossession.ts
+// Repossession of collateral on a loan in default. The steps run in order:
+// a demand notice on the loan, then per item seizure, storage, valuation
+// and sale. Sale proceeds are posted against the loan and any surplus is
+// held as customer credit until refunded (app/lib/repossession-server.ts).
+import type { CollateralItem } from "@/app/lib/collateral";
+import { toMillis } from "@/app/lib/util";
+
+export const REPOSSESSION_STEPS = ["demand", "seizure", "storage", "valuation", "sale"] as const;
+export type RepossessionStep = (typeof REPOSSESSION_STEPS)[number];
+
+export const REPOSSESSION_STEP_LABELS: Record<RepossessionStep, string> = {
+  demand: "Demand notice",
+  seizure: "Seized",
+  storage: "In storage",
+  valuation: "Valued",
+  sale: "Sold",
+};
+
+/** Days a borrower gets to pay after a demand notice, unless another deadline is set. */
+export const DEFAULT_DEMAND_NOTICE_DAYS = 14;
+
+export type DemandNotice = {
+  issuedAtMs: number | null;
+  deadlineMs: number | null;
+  note: string | null;
+  issuedBy: string | null;
+};
+
+/** Reads the loan's `demandNotices` (oldest first). */
+export function parseDemandNotices(v: unknown): DemandNotice[] {
+  if (!Array.isArray(v)) return [];
+  return v.map((n) => {
+    const r = (n ?? {}) as Record<string, unknown>;
+    return {
+      issuedAtMs: toMillis(r.issuedAt),
+      deadlineMs: toMillis(r.deadline),
+      note: (r.note as string) ?? null,
+      issuedBy: (r.issuedByEmail as string) ?? null,
+    };
+  });
+}
+
+/** The last step an item has reached (null: nothing done on it yet). */
+export function itemStep(item: CollateralItem): RepossessionStep | null {
+  const r = item.repossession;
+  if (!r) return null;
+  if (r.sale) return "sale";
+  if (r.valuedAtMs) return "valuation";
+  if (r.storedAtMs) return "storage";
+  if (r.seizedAtMs) return "seizure";
+  return null;
+}
+
+/** Furthest step reached on a loan, across its notices and items. */
+export function loanStep(
+  notices: DemandNotice[],
+  items: CollateralItem[]
+): RepossessionStep | null {
+  let best = notices.length ? 0 : -1;
+  for (const it of items) {
+    const s = itemStep(it);
+    if (s) best = Math.max(best, REPOSSESSION_STEPS.indexOf(s));
+  }
+  return best < 0 ? null : REPOSSESSION_STEPS[best];
+}
+
+/** Where the loan stands, for lists: "Sold", "Demand notice", … */
+export function repossessionLabel(notices: DemandNotice[], items: CollateralItem[]): string {
+  const step = loanStep(notices, items);
+  return step ? REPOSSESSION_STEP_LABELS[step] : "No demand notice";
+}
+
+export function repossessionPage(loanId: string) {
+  return `/admin/repossessions/${encodeURIComponent(loanId)}`;
+}
+
+/** GET /api/admin/loans/[id]/repossession */
+export type RepossessionView = {
+  loan: {
+    id: string;
+    borrowerName: string;
+    mobile: string | null;
+    email: string | null;
+    status: string;
+    balance: number;
+    creditBalance: number;
+    writtenOffAmount: number;
+    recoveredAmount: number;
+  };
+  notices: DemandNotice[];
+  items: CollateralItem[];
+};
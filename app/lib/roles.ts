@@ -0,0 +1,115 @@
+// app/lib/roles.ts
+// Staff roles and their permissions — shared by the API guard, middleware and UI.
+
+export const ROLES = [
+  "viewer",
+  "loan_officer",
+  "credit_approver",
+  "cashier",
+  "super_admin",
+] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  viewer: "Viewer",
+  loan_officer: "Loan officer",
+  credit_approver: "Credit approver",
+  cashier: "Cashier",
+  super_admin: "Super-admin",
+};
+
+export const PERMISSIONS = [
+  "dashboard:view", // read loans, KYC and processed records
+  "clients:notify", // NotifyEmailModal
+  "proposals:decide", // decideProposal (calculator approve/deny)
+  "loans:process", // LoanPreviewModal accept/decline → processed
+  "loans:restore", // considerBackToActive
+  "loans:clear", // clearProcessed (hide only)
+  "loans:delete", // deleteProcessedForever
+  "payments:record", // LoanCard.addPayment
+  "payments:reverse", // reverse/correct a recorded payment
+  "loans:close", // LoanCard.closeLoan
+  "loans:quote", // early settlement quotes
+  "loans:restructure", // new term/frequency for a running loan
+  "loans:write_off", // write off a defaulted loan's balance
+  "collateral:manage", // collateral registry, demand notices, seizure/storage/valuation
+  "collateral:sell", // record a repossessed item's sale (posts the proceeds)
+  "fees:run", // run the late-fee job by hand (/api/jobs/late-fees)
+  "fees:waive", // waive a posted penalty
+  "staff:manage", // /admin/staff — invite, grant/revoke roles, disable
+  "audit:view", // /admin/audit
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  viewer: ["dashboard:view"],
+  loan_officer: [
+    "dashboard:view",
+    "clients:notify",
+    "loans:clear",
+    "loans:quote",
+    "collateral:manage",
+  ],
+  credit_approver: [
+    "dashboard:view",
+    "clients:notify",
+    "proposals:decide",
+    "loans:process",
+    "loans:restore",
+    "loans:clear",
+    "fees:run",
+    "fees:waive",
+    "payments:reverse",
+    "loans:restructure",
+    "loans:write_off",
+    "loans:quote",
+    "collateral:manage",
+    "collateral:sell",
+    "audit:view",
+  ],
+  cashier: ["dashboard:view", "payments:record", "loans:close", "loans:quote"],
+  super_admin: PERMISSIONS,
+};
+
+export function isRole(v: unknown): v is Role {
+  return typeof v === "string" && (ROLES as readonly string[]).includes(v);
+}
+
+export function permissionsFor(role: Role | null | undefined): readonly Permission[] {
+  return role ? ROLE_PERMISSIONS[role] : [];
+}
+
+export function hasPermission(
+  role: Role | null | undefined,
+  permission: Permission
+): boolean {
+  return permissionsFor(role).includes(permission);
+}
+
+/**
+ * Reads the `role` custom claim. Accounts still carrying the legacy
+ * `admin` / `officer` booleans map to super_admin / loan_officer.
+ */
+export function roleFromClaims(claims: Record<string, unknown>): Role | null {
+  if (isRole(claims.role)) return claims.role;
+  if (claims.admin === true) return "super_admin";
+  if (claims.officer === true) return "loan_officer";
+  return null;
+}
+
+/**
+ * Custom claims for `role` (null revokes staff access), keeping unrelated
+ * claims and dropping the legacy admin/officer booleans.
+ */
+export function claimsWithRole(
+  existing: Record<string, unknown> | undefined,
+  role: Role | null
+): Record<string, unknown> {
+  const claims = { ...(existing || {}) };
+  delete claims.admin;
+  delete claims.officer;
+  delete claims.role;
+  return role ? { ...claims, role } : claims;
+}
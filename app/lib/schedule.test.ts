@@ -0,0 +1,102 @@
+// app/lib/schedule.test.ts
+// Schedules are generated once, on approval, and must add up to exactly
+// what the customer was quoted; loans approved before schedules were stored
+// are projected principal-only.
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  generateSchedule,
+  scheduleTotals,
+  termsForLoan,
+  termsFromCalculator,
+  type ScheduleTerms,
+} from "@/app/lib/schedule";
+
+const START = new Date(2026, 0, 31).getTime();
+const terms = (t: Partial<ScheduleTerms>): ScheduleTerms => ({
+  principal: 1000,
+  periods: 4,
+  frequency: "monthly",
+  annualRate: 12,
+  method: "flat",
+  feePerInstallment: 0,
+  startMs: START,
+  ...t,
+});
+const parts = (rows: ReturnType<typeof generateSchedule>) =>
+  rows.map((r) => [r.principal, r.interest, r.total, r.balance]);
+
+test("flat interest is charged on the original principal", () => {
+  const rows = generateSchedule(terms({ feePerInstallment: 5 }));
+  assert.deepEqual(parts(rows), [
+    [250, 10, 265, 750],
+    [250, 10, 265, 500],
+    [250, 10, 265, 250],
+    [250, 10, 265, 0],
+  ]);
+  assert.deepEqual(scheduleTotals(rows), { principal: 1000, interest: 40, fees: 20, total: 1060 });
+});
+
+test("reducing balance charges interest on what is still owed", () => {
+  const rows = generateSchedule(terms({ periods: 2, method: "reducing" }));
+  assert.deepEqual(parts(rows), [
+    [497.51, 10, 507.51, 502.49],
+    [502.49, 5.02, 507.51, 0],
+  ]);
+});
+
+test("monthly due dates keep the day, clamped to short months", () => {
+  const due = generateSchedule(terms({ periods: 3 })).map((r) => r.dueMs);
+  assert.deepEqual(due, [
+    new Date(2026, 1, 28).getTime(),
+    new Date(2026, 2, 31).getTime(),
+    new Date(2026, 3, 30).getTime(),
+  ]);
+  const weekly = generateSchedule(terms({ periods: 1, frequency: "weekly" }));
+  assert.equal(weekly[0].dueMs, new Date(2026, 1, 7).getTime());
+});
+
+test("the last installment absorbs rounding", () => {
+  const rows = generateSchedule(terms({ periods: 3, annualRate: 0 }));
+  assert.deepEqual(
+    rows.map((r) => r.principal),
+    [333.33, 333.33, 333.34]
+  );
+  assert.equal(scheduleTotals(rows).principal, 1000);
+});
+
+test("calculator pricing reproduces the quoted installments and total", () => {
+  const t = termsFromCalculator({ loanAmount: 100000, months: 3, monthlyInstallment: 43333.33 }, START);
+  assert.ok(t);
+  assert.equal(t.method, "flat");
+  const rows = generateSchedule(t);
+  assert.deepEqual(
+    rows.map((r) => r.total),
+    [43333.33, 43333.33, 43333.33]
+  );
+  assert.equal(scheduleTotals(rows).total, 129999.99);
+
+  const spread = termsFromCalculator({ loanAmount: 1000, months: 4, totalAmountPaid: 1100 }, START);
+  assert.ok(spread);
+  assert.equal(scheduleTotals(generateSchedule(spread)).total, 1100);
+  assert.equal(termsFromCalculator({ loanAmount: 1000, months: 4 }, START), null);
+});
+
+test("stored terms win; legacy loans get principal-only terms", () => {
+  const stored = terms({ method: "reducing", annualRate: 24 });
+  assert.deepEqual(termsForLoan({ terms: stored, loanAmount: 5 }, null), stored);
+
+  const legacy = { loanAmount: 600, loanPeriod: 3, paymentFrequency: "Weekly" };
+  assert.deepEqual(termsForLoan(legacy, START), {
+    principal: 600,
+    periods: 3,
+    frequency: "weekly",
+    annualRate: 0,
+    method: "flat",
+    feePerInstallment: 0,
+    startMs: START,
+  });
+  const rows = generateSchedule(termsForLoan(legacy, START)!);
+  assert.deepEqual(scheduleTotals(rows), { principal: 600, interest: 0, fees: 0, total: 600 });
+  assert.equal(termsForLoan(legacy, null), null);
+});
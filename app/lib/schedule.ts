@@ -0,0 +1,217 @@
+// app/lib/schedule.ts
+// Repayment schedule engine (isomorphic: used by the loan service and the
+// dashboard). A loan's installments are generated once, on approval, from
+// the calculator proposal's pricing and stored on the loan doc as
+// `terms` + `schedule`.
+import { round2 } from "@/app/lib/util";
+
+export type Frequency = "weekly" | "monthly";
+export type InterestMethod = "flat" | "reducing";
+
+export type ScheduleTerms = {
+  principal: number;
+  /** Number of installments (`loanPeriod`, in `frequency` units). */
+  periods: number;
+  frequency: Frequency;
+  /** Nominal annual rate, in percent. */
+  annualRate: number;
+  method: InterestMethod;
+  feePerInstallment: number;
+  /** Disbursement date; installment n falls due n periods later. */
+  startMs: number;
+};
+
+export type Installment = {
+  n: number;
+  dueMs: number;
+  principal: number;
+  interest: number;
+  fees: number;
+  total: number;
+  /** Principal still owed after this installment. */
+  balance: number;
+};
+
+
+export function asFrequency(v: unknown): Frequency {
+  return String(v || "").toLowerCase() === "weekly" ? "weekly" : "monthly";
+}
+
+/**
+ * `count` periods after `startMs`. Monthly steps keep the day of month,
+ * clamped to the last day of shorter months (31 Jan + 1 → 28/29 Feb).
+ */
+export function addPeriods(startMs: number, count: number, freq: Frequency): Date {
+  const d = new Date(startMs);
+  if (freq === "weekly") {
+    d.setDate(d.getDate() + count * 7);
+    return d;
+  }
+  const day = d.getDate();
+  d.setDate(1);
+  d.setMonth(d.getMonth() + count);
+  const lastDay = new Date(d.getFullYear(), d.getMonth() + 1, 0).getDate();
+  d.setDate(Math.min(day, lastDay));
+  return d;
+}
+
+/** Maturity date: the due date of the last installment. */
+export function computeEndDate(
+  startMs: number | null | undefined,
+  period?: number,
+  freq?: Frequency
+): Date | null {
+  if (!startMs || !period || period <= 0) return null;
+  return addPeriods(startMs, period, freq ?? "monthly");
+}
+
+/**
+ * Installment rows for `terms`. Flat interest charges the rate on the
+ * original principal every period; reducing-balance is an annuity (equal
+ * principal + interest per period, interest on the outstanding balance).
+ * Rounding differences are absorbed by the last installment.
+ */
+export function generateSchedule(terms: ScheduleTerms): Installment[] {
+  const { principal, frequency, method, startMs } = terms;
+  const n = Math.floor(terms.periods);
+  if (!(principal > 0) || !(n > 0) || !Number.isFinite(startMs)) return [];
+
+  const r = Math.max(0, terms.annualRate) / 100 / (frequency === "weekly" ? 52 : 12);
+  const fees = round2(Math.max(0, terms.feePerInstallment || 0));
+  const annuity = r > 0 ? (principal * r) / (1 - Math.pow(1 + r, -n)) : principal / n;
+
+  const rows: Installment[] = [];
+  let balance = principal;
+  for (let i = 1; i <= n; i++) {
+    const last = i === n;
+    let interest: number;
+    let principalPart: number;
+    if (method === "reducing") {
+      interest = round2(balance * r);
+      principalPart = last ? balance : round2(annuity - interest);
+    } else {
+      // the last row takes what rounding each row's interest left over
+      const each = round2(principal * r);
+      interest = last ? round2(principal * r * n - each * (n - 1)) : each;
+      principalPart = last ? balance : round2(principal / n);
+    }
+    principalPart = round2(Math.min(principalPart, balance));
+    balance = round2(balance - principalPart);
+    rows.push({
+      n: i,
+      dueMs: addPeriods(startMs, i, frequency).getTime(),
+      principal: principalPart,
+      interest,
+      fees,
+      total: round2(principalPart + interest + fees),
+      balance,
+    });
+  }
+  return rows;
+}
+
+export function scheduleTotals(rows: Installment[]) {
+  return rows.reduce(
+    (t, r) => ({
+      principal: round2(t.principal + r.principal),
+      interest: round2(t.interest + r.interest),
+      fees: round2(t.fees + r.fees),
+      total: round2(t.total + r.total),
+    }),
+    { principal: 0, interest: 0, fees: 0, total: 0 }
+  );
+}
+
+/** Pricing the calculator stored on a proposal (`calculatorSnapshot` on the loan). */
+export type CalculatorPricing = {
+  loanAmount: number;
+  months: number;
+  monthlyInstallment?: number;
+  totalAmountPaid?: number;
+};
+
+/**
+ * Terms that reproduce the calculator's quote: equal monthly installments
+ * of `monthlyInstallment` (or `totalAmountPaid` spread over the months),
+ * i.e. flat interest at the rate that makes up the difference from the
+ * principal. Null when the proposal carries no pricing.
+ */
+export function termsFromCalculator(
+  p: CalculatorPricing,
+  startMs: number
+): ScheduleTerms | null {
+  const principal = Number(p.loanAmount || 0);
+  const periods = Math.floor(Number(p.months || 0));
+  if (!(principal > 0) || !(periods > 0)) return null;
+  const installment = Number(p.monthlyInstallment || 0);
+  const total = installment > 0 ? installment * periods : Number(p.totalAmountPaid || 0);
+  if (!(total > 0)) return null;
+  const interestPerPeriod = Math.max(0, total - principal) / periods;
+  return {
+    principal,
+    periods,
+    frequency: "monthly",
+    annualRate: (interestPerPeriod / principal) * 12 * 100,
+    method: "flat",
+    feePerInstallment: 0,
+    startMs,
+  };
+}
+
+/**
+ * Terms for a loan doc: the stored `terms` when it has them. Loans approved
+ * before schedules were stored never had interest booked (their balance is
+ * the principal less payments), so they get a principal-only schedule over
+ * their amount/period/frequency.
+ */
+export function termsForLoan(
+  v: Record<string, unknown>,
+  startMs: number | null
+): ScheduleTerms | null {
+  const stored = v.terms as Partial<ScheduleTerms> | undefined;
+  if (stored && typeof stored === "object" && Number(stored.principal) > 0) {
+    return {
+      principal: Number(stored.principal),
+      periods: Number(stored.periods || 0),
+      frequency: asFrequency(stored.frequency),
+      annualRate: Number(stored.annualRate || 0),
+      method: stored.method === "reducing" ? "reducing" : "flat",
+      feePerInstallment: Number(stored.feePerInstallment || 0),
+      startMs: Number(stored.startMs ?? startMs ?? 0),
+    };
+  }
+  const principal = Number(v.loanAmount ?? 0);
+  const periods = Number(v.loanPeriod ?? v.period ?? 0);
+  if (!(principal > 0) || !(periods > 0) || !startMs) return null;
+  return {
+    principal,
+    periods,
+    frequency: asFrequency(v.paymentFrequency ?? v.frequency),
+    annualRate: 0,
+    method: "flat",
+    feePerInstallment: 0,
+    startMs,
+  };
+}
+
+/** The stored schedule, or null for loans approved before schedules were stored. */
+export function storedSchedule(v: Record<string, unknown>): Installment[] | null {
+  if (!Array.isArray(v.schedule) || !v.schedule.length) return null;
+  return (v.schedule as Partial<Installment>[]).map((r, i) => ({
+    n: Number(r.n ?? i + 1),
+    dueMs: Number(r.dueMs ?? 0),
+    principal: Number(r.principal ?? 0),
+    interest: Number(r.interest ?? 0),
+    fees: Number(r.fees ?? 0),
+    total: Number(r.total ?? 0),
+    balance: Number(r.balance ?? 0),
+  }));
+}
+
+/** The stored schedule, else one projected from `termsForLoan` (empty without terms). */
+export function scheduleForLoan(v: Record<string, unknown>, startMs: number | null): Installment[] {
+  const stored = storedSchedule(v);
+  if (stored) return stored;
+  const terms = termsForLoan(v, startMs);
+  return terms ? generateSchedule(terms) : [];
+}
@@ -0,0 +1,261 @@
+// app/lib/search-server.ts
+// Borrower search (see app/lib/search.ts). A search looks the query's keys
+// up in each collection's stored `searchKeys` and checks the few records
+// found against the whole query. Keys are written with the loans and
+// processed records the admin writes; KYC records and applications come
+// from the borrower app, so runSearchIndex keys the new ones on a schedule.
+import { adminDb } from "@/app/lib/firebase-admin";
+import { LoanServiceError } from "@/app/lib/loans-server";
+import { onlyDigits, phoneKeys } from "@/app/lib/phone";
+import {
+  borrowerKey,
+  idKey,
+  kycSearchFields,
+  loanSearchFields,
+  MIN_EMAIL_LENGTH,
+  MIN_ID_LENGTH,
+  MIN_PHONE_DIGITS,
+  MIN_SEARCH_LENGTH,
+  nameWords,
+  processedSearchFields,
+  SEARCH_KEYS_FIELD,
+  searchKeys,
+  searchQueryKeys,
+  type SearchFields,
+  type SearchHit,
+  type SearchMatch,
+  type SearchResults,
+} from "@/app/lib/search";
+
+type AnyRec = Record<string, unknown>;
+
+/** Per group; the rest are left out. */
+const MAX_HITS = 10;
+/** Records read per collection, before checking them against the query. */
+const MAX_CANDIDATES = 50;
+/** Firestore's limit on `array-contains-any` values. */
+const MAX_QUERY_KEYS = 30;
+
+const KYC_FIELDS = [
+  "title", "firstName", "lastName", "surname", "applicantFirstName", "applicantLastName",
+  "mobile", "mobileTel1", "email", "email1", "idNumber",
+];
+const LOAN_FIELDS = [
+  "firstName", "surname", "lastName", "applicantFirstName", "applicantLastName",
+  "mobile", "mobileTel", "mobileTel1", "email", "status", "currentBalance", "loanAmount",
+  "kycId", "userId",
+];
+const PROCESSED_FIELDS = [
+  "applicantFull", "mobile", "email", "processedStatus", "loanAmount", "cleared",
+  "original.kycId", "original.userId",
+];
+
+const str = (v: unknown) => (typeof v === "string" ? v.trim() : "");
+
+type Needle = {
+  text: string;
+  words: string[];
+  phones: string[];
+  idNumber: string;
+};
+
+function needle(q: string): Needle {
+  const text = q.trim().toLowerCase();
+  return {
+    text,
+    words: nameWords(text),
+    phones: onlyDigits(q).length >= MIN_PHONE_DIGITS ? phoneKeys(q) : [],
+    idNumber: idKey(q),
+  };
+}
+
+/** The same prefix matches the stored keys stand for, on the whole query. */
+function matchesOf(n: Needle, f: SearchFields, idIsLoan: boolean): SearchMatch[] {
+  const out: SearchMatch[] = [];
+  const names = nameWords(f.name);
+  if (n.words.length && n.words.every((w) => names.some((x) => x.startsWith(w)))) out.push("name");
+  if (
+    n.phones.length &&
+    f.mobiles.some((m) => phoneKeys(m).some((k) => n.phones.some((p) => k.startsWith(p))))
+  ) {
+    out.push("phone");
+  }
+  if (n.idNumber.length >= MIN_ID_LENGTH && idKey(f.idNumber).startsWith(n.idNumber)) {
+    out.push("idNumber");
+  }
+  if (idIsLoan && n.text.length >= MIN_ID_LENGTH && f.id.toLowerCase().startsWith(n.text)) {
+    out.push("loanId");
+  }
+  if (n.text.length >= MIN_EMAIL_LENGTH && f.email.toLowerCase().startsWith(n.text)) {
+    out.push("email");
+  }
+  return out;
+}
+
+function hit(f: SearchFields, matched: SearchMatch[], extra: Partial<SearchHit>): SearchHit {
+  return {
+    id: f.id,
+    name: f.name || "—",
+    mobile: f.mobiles[0] ?? "",
+    email: f.email,
+    kycId: f.kycId,
+    idNumber: f.idNumber || null,
+    status: null,
+    amount: null,
+    matched,
+    ...extra,
+  };
+}
+
+/** Records of `collection` carrying any of `keys`, only `fields` read. */
+async function candidates(collection: string, fields: string[], keys: string[]) {
+  if (!keys.length) return [];
+  const snap = await adminDb()
+    .collection(collection)
+    .where(SEARCH_KEYS_FIELD, "array-contains-any", keys.slice(0, MAX_QUERY_KEYS))
+    .select(...fields)
+    .limit(MAX_CANDIDATES)
+    .get();
+  return snap.docs;
+}
+
+export async function searchBorrowers(q: unknown): Promise<SearchResults> {
+  const query = str(q);
+  if (query.length < MIN_SEARCH_LENGTH) {
+    throw new LoanServiceError(`Search needs at least ${MIN_SEARCH_LENGTH} characters`);
+  }
+  const n = needle(query);
+  const keys = searchQueryKeys(query);
+
+  const kyc: SearchHit[] = [];
+  for (const d of await candidates("kyc_data", KYC_FIELDS, keys)) {
+    const f = kycSearchFields(d.id, d.data());
+    const matched = matchesOf(n, f, false);
+    if (matched.length) kyc.push(hit(f, matched, { kycId: d.id }));
+  }
+  // loans carry no national ID; find them through the borrower's KYC record
+  const borrowers = new Set(kyc.map((k) => k.id));
+  const withBorrowers = [...kyc.map((k) => borrowerKey(k.id)), ...keys];
+  const [loanDocs, processedDocs] = await Promise.all([
+    candidates("loan_applications", LOAN_FIELDS, withBorrowers),
+    candidates("processed_loans", PROCESSED_FIELDS, withBorrowers),
+  ]);
+
+  const loans: SearchHit[] = [];
+  for (const d of loanDocs) {
+    const v = d.data() as AnyRec;
+    const f = loanSearchFields(d.id, v);
+    const matched = matchesOf(n, f, true);
+    if (f.kycId && borrowers.has(f.kycId)) matched.push("borrower");
+    if (!matched.length) continue;
+    loans.push(
+      hit(f, matched, {
+        status: String(v.status ?? "pending").toLowerCase(),
+        amount: Number(v.currentBalance ?? v.loanAmount ?? 0),
+      })
+    );
+  }
+
+  const processed: SearchHit[] = [];
+  for (const d of processedDocs) {
+    const v = d.data() as AnyRec;
+    if (v.cleared) continue;
+    const f = processedSearchFields(d.id, v);
+    const matched = matchesOf(n, f, true);
+    if (f.kycId && borrowers.has(f.kycId)) matched.push("borrower");
+    if (!matched.length) continue;
+    processed.push(
+      hit(f, matched, {
+        status: str(v.processedStatus) || null,
+        amount: Number(v.loanAmount ?? 0),
+      })
+    );
+  }
+
+  // exact matches (an ID, a phone) before ones on part of a name
+  const rank = (h: SearchHit) => (h.matched.length === 1 && h.matched[0] === "name" ? 1 : 0);
+  const top = (hits: SearchHit[]) =>
+    hits.sort((a, b) => rank(a) - rank(b) || a.name.localeCompare(b.name)).slice(0, MAX_HITS);
+  return { q: query, kyc: top(kyc), loans: top(loans), processed: top(processed) };
+}
+
+/* ---------------- keeping the keys ---------------- */
+type SearchSource = {
+  collection: string;
+  /** Creation-time fields the newest records are found by. */
+  createdFields: string[];
+  select: string[];
+  fields: (id: string, v: AnyRec) => SearchFields;
+  isLoan: boolean;
+};
+
+const SEARCH_SOURCES: SearchSource[] = [
+  {
+    collection: "kyc_data",
+    createdFields: ["createdAt", "timestamp"],
+    select: KYC_FIELDS,
+    fields: kycSearchFields,
+    isLoan: false,
+  },
+  {
+    collection: "loan_applications",
+    createdFields: ["timestamp"],
+    select: LOAN_FIELDS,
+    fields: loanSearchFields,
+    isLoan: true,
+  },
+  {
+    // only ever written by the admin, with their keys
+    collection: "processed_loans",
+    createdFields: [],
+    select: PROCESSED_FIELDS,
+    fields: processedSearchFields,
+    isLoan: true,
+  },
+];
+
+const INDEX_PAGE = 25;
+
+const sameKeys = (stored: unknown, keys: string[]) =>
+  Array.isArray(stored) && stored.length === keys.length && stored.every((k, i) => k === keys[i]);
+
+export type SearchIndexRun = { scanned: number; keyed: number };
+
+/**
+ * Writes missing or outdated `searchKeys`. Each collection is read newest
+ * first up to the first record already keyed, which covers what the
+ * borrower app added since the last run. `all` reads every record instead
+ * (scripts/reindex.ts): the first run, records without a creation date and
+ * ones the borrower app edited later.
+ */
+export async function runSearchIndex(all = false): Promise<SearchIndexRun> {
+  const db = adminDb();
+  const run: SearchIndexRun = { scanned: 0, keyed: 0 };
+  for (const src of SEARCH_SOURCES) {
+    for (const order of all ? [null] : src.createdFields) {
+      let query = db
+        .collection(src.collection)
+        .select(...src.select, SEARCH_KEYS_FIELD)
+        .limit(INDEX_PAGE);
+      if (order) query = query.orderBy(order, "desc");
+      for (;;) {
+        const snap = await query.get();
+        const batch = db.batch();
+        let changed = 0;
+        for (const d of snap.docs) {
+          const keys = searchKeys(src.fields(d.id, d.data()), src.isLoan);
+          if (sameKeys(d.get(SEARCH_KEYS_FIELD), keys)) continue;
+          batch.update(d.ref, { [SEARCH_KEYS_FIELD]: keys });
+          changed++;
+        }
+        if (changed) await batch.commit();
+        run.scanned += snap.size;
+        run.keyed += changed;
+        // newest first: past the first record already keyed, the rest are too
+        if (snap.size < INDEX_PAGE || (order && changed < snap.size)) break;
+        query = query.startAfter(snap.docs[snap.docs.length - 1]);
+      }
+    }
+  }
+  return run;
+}
@@ -0,0 +1,62 @@
+// app/lib/search.test.ts
+// A record is found when it stores one of the keys a query looks up: by
+// name, any form of its phone number, national ID, email or loan ID prefix.
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  borrowerKey,
+  kycSearchFields,
+  loanSearchFields,
+  MAX_KEY_PREFIX,
+  searchKeys,
+  searchQueryKeys,
+} from "@/app/lib/search";
+
+const kyc = searchKeys(
+  kycSearchFields("kyc1", {
+    firstName: "Chikondi",
+    lastName: "Banda",
+    mobileTel1: "+265 991 234 567",
+    email1: "chikondi.banda@example.com",
+    idNumber: "AB12-CD34",
+  }),
+  false
+);
+const loan = searchKeys(
+  loanSearchFields("Xy7Kq2LmNp9RtUvWz3", { firstName: "Chikondi", surname: "Banda", kycId: "kyc1" }),
+  true
+);
+
+const finds = (keys: string[], q: string) => searchQueryKeys(q).some((k) => keys.includes(k));
+
+test("found by a name prefix, whichever name word it starts", () => {
+  assert.ok(finds(kyc, "chik"));
+  assert.ok(finds(kyc, "Banda"));
+  assert.ok(finds(kyc, "ban chikondi"));
+  assert.ok(!finds(kyc, "anda"));
+});
+
+test("found by any form of the phone number", () => {
+  assert.ok(finds(kyc, "0991234567"));
+  assert.ok(finds(kyc, "265991234567"));
+  assert.ok(finds(kyc, "0991 234"));
+  assert.ok(!finds(kyc, "0881234567"));
+});
+
+test("found by national ID and email prefixes", () => {
+  assert.ok(finds(kyc, "ab12cd"));
+  assert.ok(finds(kyc, "AB12-C"));
+  assert.ok(finds(kyc, "chikondi.banda@example.com"));
+  assert.ok(!finds(kyc, "cd34"));
+});
+
+test("loans are found by loan ID prefix and by their borrower", () => {
+  assert.ok(finds(loan, "xy7kq"));
+  assert.ok(finds(loan, "Xy7Kq2LmNp9RtUvWz3"));
+  assert.ok(loan.includes(borrowerKey("kyc1")));
+  assert.ok(!kyc.some((k) => k.startsWith("l:")));
+});
+
+test("keys stop at MAX_KEY_PREFIX characters", () => {
+  assert.ok(loan.every((k) => k.length <= MAX_KEY_PREFIX + 2 || k.startsWith("k:")));
+});
@@ -0,0 +1,181 @@
+// app/lib/search.ts
+// Borrower search (/api/admin/search, app/lib/search-server.ts): one query
+// across KYC records, active loans and processed records, by name, phone,
+// national ID, loan ID or email. Each record stores the prefixes it can be
+// found by (`searchKeys`, see searchKeys below), so a search is an indexed
+// lookup rather than a scan.
+import { onlyDigits, phoneKeys } from "@/app/lib/phone";
+
+/** Shortest query the endpoint runs. */
+export const MIN_SEARCH_LENGTH = 2;
+/** Fewer digits than this aren't treated as a phone number. */
+export const MIN_PHONE_DIGITS = 7;
+/** Shortest phone prefix stored: MIN_PHONE_DIGITS typed as 0…, without the 0. */
+const MIN_PHONE_PREFIX = MIN_PHONE_DIGITS - 1;
+/** Shortest national ID or loan ID prefix matched. */
+export const MIN_ID_LENGTH = 4;
+export const MIN_EMAIL_LENGTH = 3;
+/**
+ * Longest prefix stored. Longer query terms are looked up by their first
+ * MAX_KEY_PREFIX characters and checked in full on the records found.
+ */
+export const MAX_KEY_PREFIX = 12;
+
+/** Array field on `kyc_data`, `loan_applications` and `processed_loans`. */
+export const SEARCH_KEYS_FIELD = "searchKeys";
+
+/**
+ * Why a record matched. `borrower`: a loan or processed record of a KYC
+ * record that matched, e.g. by national ID, which loans don't carry.
+ */
+export type SearchMatch = "name" | "phone" | "idNumber" | "loanId" | "email" | "borrower";
+
+export const SEARCH_MATCH_LABELS: Record<SearchMatch, string> = {
+  name: "Name",
+  phone: "Phone",
+  idNumber: "National ID",
+  loanId: "Loan ID",
+  email: "Email",
+  borrower: "Same borrower",
+};
+
+export type SearchHit = {
+  id: string;
+  name: string;
+  mobile: string;
+  email: string;
+  /** KYC record of the borrower, when known. */
+  kycId: string | null;
+  idNumber: string | null;
+  /** Loan status, or approved/declined for processed records. */
+  status: string | null;
+  /** Balance of a loan, or the amount of a processed record. */
+  amount: number | null;
+  matched: SearchMatch[];
+};
+
+export type SearchResults = {
+  q: string;
+  kyc: SearchHit[];
+  loans: SearchHit[];
+  processed: SearchHit[];
+};
+
+export function searchUrl(q: string) {
+  return `/api/admin/search?q=${encodeURIComponent(q.trim())}`;
+}
+
+/* ---------------- keys ---------------- */
+type AnyRec = Record<string, unknown>;
+
+/** What a record is found and shown by. */
+export type SearchFields = {
+  id: string;
+  name: string;
+  mobiles: string[];
+  email: string;
+  idNumber: string;
+  /** Borrower's KYC record, on loans and processed records. */
+  kycId: string | null;
+};
+
+const str = (v: unknown) => (typeof v === "string" ? v.trim() : "");
+const first = (...vs: unknown[]) => vs.map(str).find(Boolean) ?? "";
+
+export const nameWords = (s: string) => s.toLowerCase().split(/\s+/).filter(Boolean);
+export const idKey = (s: string) => s.replace(/[\s-]+/g, "").toUpperCase();
+
+export function kycSearchFields(id: string, v: AnyRec): SearchFields {
+  return {
+    id,
+    name: [
+      str(v.title),
+      first(v.firstName, v.applicantFirstName),
+      first(v.lastName, v.surname, v.applicantLastName),
+    ]
+      .filter(Boolean)
+      .join(" "),
+    mobiles: [str(v.mobileTel1), str(v.mobile)].filter(Boolean),
+    email: first(v.email1, v.email),
+    idNumber: str(v.idNumber),
+    kycId: null,
+  };
+}
+
+export function loanSearchFields(id: string, v: AnyRec): SearchFields {
+  return {
+    id,
+    name: [
+      first(v.firstName, v.applicantFirstName),
+      first(v.surname, v.lastName, v.applicantLastName),
+    ]
+      .filter(Boolean)
+      .join(" "),
+    mobiles: [str(v.mobile), str(v.mobileTel), str(v.mobileTel1)].filter(Boolean),
+    email: str(v.email),
+    idNumber: "",
+    kycId: first(v.kycId, v.userId) || null,
+  };
+}
+
+export function processedSearchFields(id: string, v: AnyRec): SearchFields {
+  const original = (v.original ?? {}) as AnyRec;
+  return {
+    id,
+    name: str(v.applicantFull),
+    mobiles: [str(v.mobile)].filter(Boolean),
+    email: str(v.email),
+    idNumber: "",
+    kycId: first(original.kycId, original.userId) || null,
+  };
+}
+
+/** Key of the loans and processed records of KYC record `kycId`. */
+export const borrowerKey = (kycId: string) => `k:${kycId}`;
+
+function addPrefixes(keys: Set<string>, tag: string, value: string, min: number) {
+  for (let n = min; n <= Math.min(value.length, MAX_KEY_PREFIX); n++) {
+    keys.add(`${tag}:${value.slice(0, n)}`);
+  }
+}
+
+/**
+ * The keys stored on a record: prefixes of each name word, of every form
+ * of each phone number, of the email, national ID and (for loans and
+ * processed records, `isLoan`) the loan ID, and the borrower's KYC id.
+ */
+export function searchKeys(f: SearchFields, isLoan: boolean): string[] {
+  const keys = new Set<string>();
+  for (const w of nameWords(f.name)) addPrefixes(keys, "n", w, MIN_SEARCH_LENGTH);
+  for (const m of f.mobiles) {
+    for (const k of phoneKeys(m)) addPrefixes(keys, "p", k, MIN_PHONE_PREFIX);
+  }
+  addPrefixes(keys, "e", f.email.toLowerCase(), MIN_EMAIL_LENGTH);
+  addPrefixes(keys, "i", idKey(f.idNumber), MIN_ID_LENGTH);
+  if (isLoan) addPrefixes(keys, "l", f.id.toLowerCase(), MIN_ID_LENGTH);
+  if (f.kycId) keys.add(borrowerKey(f.kycId));
+  return [...keys].sort();
+}
+
+/**
+ * Keys any of which a record matching `q` carries. Of several name words
+ * only the longest is looked up; the rest are checked on what's found.
+ */
+export function searchQueryKeys(q: string): string[] {
+  const text = q.trim().toLowerCase();
+  const keys = new Set<string>();
+  const word = nameWords(text).reduce((a, w) => (w.length > a.length ? w : a), "");
+  if (word.length >= MIN_SEARCH_LENGTH) keys.add(`n:${word.slice(0, MAX_KEY_PREFIX)}`);
+  if (onlyDigits(q).length >= MIN_PHONE_DIGITS) {
+    for (const k of phoneKeys(q)) {
+      if (k.length >= MIN_PHONE_PREFIX) keys.add(`p:${k.slice(0, MAX_KEY_PREFIX)}`);
+    }
+  }
+  const id = idKey(q);
+  if (id.length >= MIN_ID_LENGTH) keys.add(`i:${id.slice(0, MAX_KEY_PREFIX)}`);
+  if (!/\s/.test(text)) {
+    if (text.length >= MIN_ID_LENGTH) keys.add(`l:${text.slice(0, MAX_KEY_PREFIX)}`);
+    if (text.length >= MIN_EMAIL_LENGTH) keys.add(`e:${text.slice(0, MAX_KEY_PREFIX)}`);
+  }
+  return [...keys];
+}
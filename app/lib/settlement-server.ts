@@ -0,0 +1,105 @@
+// app/lib/settlement-server.ts
+// Settlement quotes (see app/lib/settlement.ts). A quote is kept under
+// `loan_applications/{id}/settlement_quotes` so it can be printed or
+// emailed again later with the same figures.
+import admin from "firebase-admin";
+import { amountPaidForLoan } from "@/app/lib/arrears";
+import { allocatedForLoan } from "@/app/lib/allocation";
+import { scheduleForLoan, termsForLoan } from "@/app/lib/schedule";
+import { DAY_MS, toMillis } from "@/app/lib/util";
+import {
+  ACTIVE_STATUSES,
+  LoanServiceError,
+  loanRef,
+} from "@/app/lib/loans-server";
+import {
+  MAX_QUOTE_DAYS_AHEAD,
+  parseQuote,
+  SETTLEMENT_QUOTES_COLLECTION,
+  settlementAmounts,
+  settlementPolicyFor,
+  type SettlementQuote,
+} from "@/app/lib/settlement";
+import type { StaffUser } from "@/app/lib/auth-server";
+
+/**
+ * Settlement date from `YYYY-MM-DD` (today when unset). Today or a later
+ * day, at most MAX_QUOTE_DAYS_AHEAD out; a day ahead of the server is
+ * allowed because the browser sends its local date.
+ */
+function parseAsOf(v: unknown, nowMs: number): number {
+  if (v === undefined || v === null || v === "") return nowMs;
+  const ms = typeof v === "string" ? Date.parse(v) : NaN;
+  if (!Number.isFinite(ms)) throw new LoanServiceError("asOf must be a date (YYYY-MM-DD)");
+  const day = Math.floor(ms / DAY_MS);
+  const today = Math.floor(nowMs / DAY_MS);
+  if (day < today - 1) throw new LoanServiceError("asOf can't be in the past");
+  if (day > today + MAX_QUOTE_DAYS_AHEAD) {
+    throw new LoanServiceError(`asOf can be at most ${MAX_QUOTE_DAYS_AHEAD} days ahead`);
+  }
+  return day <= today ? nowMs : ms;
+}
+
+/**
+ * Quotes the payoff of an active loan as of `asOf`. Penalties are the ones
+ * posted so far; late fees charged after today are not in the quote.
+ */
+export async function createQuote(
+  actor: StaffUser,
+  loanId: string,
+  input: { asOf?: unknown }
+): Promise<SettlementQuote> {
+  const ref = loanRef(loanId);
+  const snap = await ref.get();
+  if (!snap.exists) throw new LoanServiceError("Loan not found", 404);
+  const v = snap.data() ?? {};
+  const status = String(v.status || "pending").toLowerCase();
+  const balance = Number(v.currentBalance ?? v.loanAmount ?? 0);
+  if (!ACTIVE_STATUSES.includes(status) || balance <= 0) {
+    throw new LoanServiceError(`Loan is ${status}; there is nothing to settle`, 409);
+  }
+
+  const now = admin.firestore.Timestamp.now();
+  const asOfMs = parseAsOf(input.asOf, now.toMillis());
+  const startMs = toMillis(v.timestamp ?? v.startDate ?? v.createdAt);
+  const schedule = scheduleForLoan(v, startMs);
+  const policy = settlementPolicyFor(v.loanType);
+  const amounts = settlementAmounts(
+    policy,
+    {
+      schedule,
+      allocated: allocatedForLoan(v, schedule, amountPaidForLoan(v)),
+      penaltiesNet: Number(v.penaltiesCharged ?? 0) - Number(v.penaltiesWaived ?? 0),
+      balance,
+      credit: Number(v.creditBalance ?? 0),
+      // a restructured schedule runs from its own start, not the loan's
+      startMs: schedule.length ? (termsForLoan(v, startMs)?.startMs ?? startMs) : null,
+    },
+    asOfMs
+  );
+
+  const { expiresAtMs, ...figures } = amounts;
+  const doc = {
+    ...figures,
+    borrowerName: [v.firstName, v.surname ?? v.lastName].filter(Boolean).join(" ") || "—",
+    mobile: (v.mobile as string) || (v.mobileTel as string) || null,
+    email: (v.email as string) || null,
+    loanType: (v.loanType as string) ?? null,
+    asOf: admin.firestore.Timestamp.fromMillis(asOfMs),
+    expiresAt: admin.firestore.Timestamp.fromMillis(expiresAtMs),
+    balance,
+    policy,
+    createdAt: now,
+    createdByUid: actor.uid,
+    createdByEmail: actor.email,
+    settledByPaymentId: null,
+  };
+  const quoteRef = await ref.collection(SETTLEMENT_QUOTES_COLLECTION).add(doc);
+  return parseQuote(loanId, quoteRef.id, doc);
+}
+
+export async function getQuote(loanId: string, quoteId: string): Promise<SettlementQuote> {
+  const snap = await loanRef(loanId).collection(SETTLEMENT_QUOTES_COLLECTION).doc(quoteId).get();
+  if (!snap.exists) throw new LoanServiceError("Quote not found", 404);
+  return parseQuote(loanId, quoteId, snap.data() ?? {});
+}
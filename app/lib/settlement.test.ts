@@ -0,0 +1,58 @@
+// app/lib/settlement.test.ts
+// A payment settles a loan only against a quote that still holds, and the
+// payoff plus the credit used cover exactly what the quote counted.
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  DEFAULT_SETTLEMENT_POLICY,
+  quoteSettles,
+  settlementSplit,
+  type SettlementQuote,
+} from "@/app/lib/settlement";
+import { DAY_MS } from "@/app/lib/util";
+
+const nowMs = new Date(2025, 3, 25).getTime();
+
+/** Balance 80,500: 60,000 principal, 20,000 interest (5,000 accrued), 500 late fee. */
+const quote: SettlementQuote = {
+  quoteId: "q1",
+  loanId: "loan1",
+  borrowerName: "—",
+  mobile: null,
+  email: null,
+  loanType: null,
+  asOfMs: nowMs,
+  expiresAtMs: nowMs + 7 * DAY_MS,
+  principal: 60000,
+  accruedInterest: 5000,
+  feesDue: 0,
+  penalties: 500,
+  unearned: 15000,
+  rebate: 7500,
+  settlementFee: 300,
+  credit: 1000,
+  payoff: 72300,
+  balance: 80500,
+  policy: DEFAULT_SETTLEMENT_POLICY,
+  createdAtMs: nowMs,
+  createdBy: null,
+  settledByPaymentId: null,
+};
+
+test("paying the payoff settles the loan while the quote holds", () => {
+  const loan = { amount: 72300, balance: 80500, credit: 1000 };
+  assert.equal(quoteSettles(quote, loan, nowMs), true);
+  assert.equal(quoteSettles(quote, { ...loan, amount: 72000 }, nowMs), false);
+  assert.equal(quoteSettles(quote, { ...loan, balance: 79500 }, nowMs), false);
+  assert.equal(quoteSettles(quote, { ...loan, credit: 0 }, nowMs), false);
+  assert.equal(quoteSettles(quote, loan, quote.expiresAtMs + 1), false);
+  assert.equal(quoteSettles({ ...quote, settledByPaymentId: "p1" }, loan, nowMs), false);
+});
+
+test("credit is used first and the payment covers the rest", () => {
+  const { fromCredit, payment } = settlementSplit(quote);
+  assert.deepEqual(fromCredit, { penalty: 500, fees: 300, interest: 200, principal: 0 });
+  assert.deepEqual(payment, { penalty: 0, fees: 0, interest: 12300, principal: 60000, credit: 0 });
+  const paid = payment.penalty + payment.fees + payment.interest + payment.principal;
+  assert.equal(paid, quote.payoff);
+});
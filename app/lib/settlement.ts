@@ -0,0 +1,241 @@
+// app/lib/settlement.ts
+// Early settlement: what a borrower pays to close a loan on a given date.
+// Quotes are worked out and stored by app/lib/settlement-server.ts; the
+// numbers are fixed when the quote is made and hold until it expires. A
+// payment of exactly the payoff settles the loan (recordPayment): the
+// rebate is posted, the credit used and the loan closed.
+import { productFor } from "@/app/lib/loan-products";
+import {
+  ALLOCATION_COMPONENTS,
+  noComponents,
+  owedBreakdown,
+  type Allocation,
+  type ComponentAmounts,
+} from "@/app/lib/allocation";
+import type { Installment } from "@/app/lib/schedule";
+import { DAY_MS, round2, toMillis } from "@/app/lib/util";
+
+/** Under `loan_applications/{id}`. */
+export const SETTLEMENT_QUOTES_COLLECTION = "settlement_quotes";
+
+export type SettlementPolicy = {
+  /** Share of the interest and fees not yet earned that is forgiven, in percent. */
+  interestRebatePct: number;
+  /** Early-settlement fee, in percent of the principal still owed. */
+  feePctOfPrincipal: number;
+  /** Days a quote stays valid. */
+  validDays: number;
+};
+
+export const DEFAULT_SETTLEMENT_POLICY: SettlementPolicy = {
+  interestRebatePct: 100,
+  feePctOfPrincipal: 0,
+  validDays: 7,
+};
+
+export function settlementPolicyFor(loanType: unknown): SettlementPolicy {
+  return { ...DEFAULT_SETTLEMENT_POLICY, ...productFor(loanType).settlement };
+}
+
+/** Furthest ahead a quote can be dated. */
+export const MAX_QUOTE_DAYS_AHEAD = 90;
+
+export type SettlementQuote = {
+  quoteId: string;
+  loanId: string;
+  borrowerName: string;
+  mobile: string | null;
+  email: string | null;
+  loanType: string | null;
+  /** Settlement date the amounts are worked out for. */
+  asOfMs: number;
+  expiresAtMs: number;
+  principal: number;
+  /** Interest on installments due by `asOfMs`, plus the current period's share so far. */
+  accruedInterest: number;
+  /** Installment fees due by `asOfMs`. */
+  feesDue: number;
+  penalties: number;
+  /** Interest and fees scheduled after `asOfMs`. */
+  unearned: number;
+  rebate: number;
+  settlementFee: number;
+  /** Customer credit held on the loan, taken off the payoff. */
+  credit: number;
+  payoff: number;
+  /** Ledger balance when the quote was made. */
+  balance: number;
+  policy: SettlementPolicy;
+  createdAtMs: number | null;
+  createdBy: string | null;
+  /** The payment that settled the loan with this quote. */
+  settledByPaymentId: string | null;
+};
+
+/** Reads a stored quote. */
+export function parseQuote(
+  loanId: string,
+  quoteId: string,
+  q: Record<string, unknown>
+): SettlementQuote {
+  const n = (k: string) => Number(q[k] ?? 0);
+  return {
+    quoteId,
+    loanId,
+    borrowerName: (q.borrowerName as string) || "—",
+    mobile: (q.mobile as string) ?? null,
+    email: (q.email as string) ?? null,
+    loanType: (q.loanType as string) ?? null,
+    asOfMs: toMillis(q.asOf) ?? 0,
+    expiresAtMs: toMillis(q.expiresAt) ?? 0,
+    principal: n("principal"),
+    accruedInterest: n("accruedInterest"),
+    feesDue: n("feesDue"),
+    penalties: n("penalties"),
+    unearned: n("unearned"),
+    rebate: n("rebate"),
+    settlementFee: n("settlementFee"),
+    credit: n("credit"),
+    payoff: n("payoff"),
+    balance: n("balance"),
+    policy: q.policy as SettlementPolicy,
+    createdAtMs: toMillis(q.createdAt),
+    createdBy: (q.createdByEmail as string) ?? null,
+    settledByPaymentId: (q.settledByPaymentId as string) ?? null,
+  };
+}
+
+/**
+ * Whether paying `amount` now settles the loan with quote `q`: the quote is
+ * unused and unexpired, the loan's balance hasn't moved since it was made,
+ * the credit it counts on is still held and `amount` is the payoff.
+ */
+export function quoteSettles(
+  q: SettlementQuote,
+  loan: { amount: number; balance: number; credit: number },
+  nowMs: number
+): boolean {
+  return (
+    !q.settledByPaymentId &&
+    nowMs <= q.expiresAtMs &&
+    q.payoff > 0 &&
+    Math.abs(q.payoff - loan.amount) < 0.005 &&
+    Math.abs(q.balance - loan.balance) < 0.005 &&
+    loan.credit + 0.005 >= q.credit
+  );
+}
+
+/**
+ * How a settlement pays off each component: the credit used first, in the
+ * default order, then the payment. Unearned interest and fees not rebated
+ * count as interest; the settlement fee as fees.
+ */
+export function settlementSplit(q: SettlementQuote): {
+  fromCredit: ComponentAmounts;
+  payment: Allocation;
+} {
+  const owed: ComponentAmounts = {
+    penalty: q.penalties,
+    fees: round2(q.feesDue + q.settlementFee),
+    interest: round2(q.accruedInterest + q.unearned - q.rebate),
+    principal: q.principal,
+  };
+  const fromCredit = noComponents();
+  let left = q.credit;
+  for (const c of ALLOCATION_COMPONENTS) {
+    const x = round2(Math.min(owed[c], left));
+    fromCredit[c] = x;
+    owed[c] = round2(owed[c] - x);
+    left = round2(left - x);
+  }
+  return { fromCredit, payment: { ...owed, credit: 0 } };
+}
+
+/**
+ * Works out the payoff at `asOfMs`. Interest for the period running on
+ * that date is earned pro rata by day; everything scheduled after it is
+ * unearned, and the policy decides how much of that is rebated.
+ */
+export function settlementAmounts(
+  policy: SettlementPolicy,
+  input: {
+    schedule: Installment[];
+    allocated: ComponentAmounts;
+    penaltiesNet: number;
+    balance: number;
+    credit: number;
+    startMs: number | null;
+  },
+  asOfMs: number
+) {
+  const owed = owedBreakdown(input, asOfMs);
+
+  let running = 0;
+  const next = input.schedule.find((r) => r.dueMs > asOfMs);
+  if (next) {
+    const prev = input.schedule.find((r) => r.n === next.n - 1);
+    const fromMs = prev?.dueMs ?? input.startMs;
+    if (fromMs != null && next.dueMs > fromMs) {
+      const share = Math.min(1, Math.max(0, (asOfMs - fromMs) / (next.dueMs - fromMs)));
+      running = round2(Math.min(owed.futureInterest, next.interest * share));
+    }
+  }
+
+  const accruedInterest = round2(owed.dueInterest + running);
+  const unearned = round2(owed.futureInterest - running + owed.futureFees);
+  const rebate = round2((unearned * policy.interestRebatePct) / 100);
+  const settlementFee = round2((owed.principal * policy.feePctOfPrincipal) / 100);
+  const credit = round2(Math.max(0, input.credit));
+  const payoff = round2(
+    Math.max(
+      0,
+      owed.principal +
+        accruedInterest +
+        owed.dueFees +
+        owed.penalties +
+        unearned -
+        rebate +
+        settlementFee -
+        credit
+    )
+  );
+  return {
+    principal: owed.principal,
+    accruedInterest,
+    feesDue: owed.dueFees,
+    penalties: owed.penalties,
+    unearned,
+    rebate,
+    settlementFee,
+    credit,
+    payoff,
+    expiresAtMs: asOfMs + policy.validDays * DAY_MS,
+  };
+}
+
+/** Quote lines in display order; `sign` −1 lines come off the payoff. */
+export function settlementLines(
+  q: SettlementQuote
+): { label: string; amount: number; sign: 1 | -1 }[] {
+  const lines: { label: string; amount: number; sign: 1 | -1 }[] = [
+    { label: "Remaining principal", amount: q.principal, sign: 1 },
+    { label: "Accrued interest", amount: q.accruedInterest, sign: 1 },
+    { label: "Fees due", amount: q.feesDue, sign: 1 },
+    { label: "Penalties", amount: q.penalties, sign: 1 },
+    { label: "Interest and fees not yet earned", amount: q.unearned, sign: 1 },
+    { label: `Early settlement rebate (${q.policy.interestRebatePct}%)`, amount: q.rebate, sign: -1 },
+    { label: `Early settlement fee (${q.policy.feePctOfPrincipal}%)`, amount: q.settlementFee, sign: 1 },
+    { label: "Credit held", amount: q.credit, sign: -1 },
+  ];
+  return lines.filter((l, i) => i === 0 || l.amount > 0);
+}
+
+export function settlementQuoteUrl(loanId: string, quoteId?: string): string {
+  const base = `/api/admin/loans/${encodeURIComponent(loanId)}/settlement-quote`;
+  return quoteId ? `${base}/${encodeURIComponent(quoteId)}` : base;
+}
+
+/** Print view for a quote. */
+export function settlementQuotePage(loanId: string, quoteId: string): string {
+  return `/admin/settlement-quotes/${encodeURIComponent(loanId)}/${encodeURIComponent(quoteId)}`;
+}
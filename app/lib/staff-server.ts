@@ -0,0 +1,151 @@
+// app/lib/staff-server.ts
+// Staff account management on top of Firebase Auth (used by /api/admin/staff).
+// Auth changes can't join a Firestore transaction, so each one is audited
+// straight after it succeeds.
+import { NextResponse } from "next/server";
+import { adminAuth } from "@/app/lib/firebase-admin";
+import { writeAudit } from "@/app/lib/audit";
+import type { StaffUser } from "@/app/lib/auth-server";
+import { claimsWithRole, roleFromClaims, type Role } from "@/app/lib/roles";
+
+/** A request the caller can fix; `status` becomes the HTTP status. */
+export class StaffServiceError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+    this.name = "StaffServiceError";
+  }
+}
+
+export type StaffAccount = {
+  uid: string;
+  email: string | null;
+  displayName: string | null;
+  role: Role | null;
+  disabled: boolean;
+  createdAt: string | null;
+  lastSignInAt: string | null;
+};
+
+function toAccount(u: {
+  uid: string;
+  email?: string;
+  displayName?: string;
+  disabled: boolean;
+  customClaims?: Record<string, unknown>;
+  metadata: { creationTime?: string; lastSignInTime?: string };
+}): StaffAccount {
+  return {
+    uid: u.uid,
+    email: u.email ?? null,
+    displayName: u.displayName ?? null,
+    role: roleFromClaims(u.customClaims || {}),
+    disabled: u.disabled,
+    createdAt: u.metadata.creationTime ?? null,
+    lastSignInAt: u.metadata.lastSignInTime ?? null,
+  };
+}
+
+/** Every Auth user with their role claim (null = no staff access). */
+export async function listStaff(): Promise<StaffAccount[]> {
+  const out: StaffAccount[] = [];
+  let pageToken: string | undefined;
+  do {
+    const page = await adminAuth().listUsers(1000, pageToken);
+    out.push(...page.users.map(toAccount));
+    pageToken = page.pageToken;
+  } while (pageToken);
+  return out.sort((a, b) => (a.email || "").localeCompare(b.email || ""));
+}
+
+const staffPath = (uid: string) => `staff/${uid}`;
+
+/**
+ * Creates (or reuses a non-staff) account for `email`, grants `role` and
+ * returns a password-setup link to hand to the new staff member. Existing
+ * staff are refused: their role only changes through setStaffRole.
+ */
+export async function inviteStaff(
+  actor: StaffUser,
+  email: string,
+  role: Role,
+  displayName?: string
+): Promise<{ account: StaffAccount; inviteLink: string }> {
+  const auth = adminAuth();
+  let created = false;
+  const user = await auth.getUserByEmail(email).catch(async (err) => {
+    if (err?.code !== "auth/user-not-found") throw err;
+    created = true;
+    return auth.createUser({ email, displayName: displayName || undefined });
+  });
+  const before = roleFromClaims(user.customClaims || {});
+  if (before) {
+    throw new StaffServiceError(
+      `${email} is already staff (${before}); change their role from the staff list`,
+      409
+    );
+  }
+  await grantRole(user.uid, role);
+  const inviteLink = await auth.generatePasswordResetLink(email);
+  await writeAudit(actor, {
+    action: "staff.invite",
+    targetPath: staffPath(user.uid),
+    before: created ? null : { email, role: null },
+    after: { email, role },
+    note: created ? null : "Existing account",
+  });
+  return { account: toAccount(await auth.getUser(user.uid)), inviteLink };
+}
+
+async function grantRole(uid: string, role: Role | null) {
+  const auth = adminAuth();
+  const existing = (await auth.getUser(uid)).customClaims;
+  await auth.setCustomUserClaims(uid, claimsWithRole(existing, role));
+  // Force clients to refresh ID token and pick up the new claims (same as grantRole.ts)
+  await auth.revokeRefreshTokens(uid);
+}
+
+/** Grants `role`, or revokes staff access when null. */
+export async function setStaffRole(actor: StaffUser, uid: string, role: Role | null) {
+  const before = await getStaff(uid);
+  await grantRole(uid, role);
+  await writeAudit(actor, {
+    action: "staff.role_change",
+    targetPath: staffPath(uid),
+    before: { email: before.email, role: before.role },
+    after: { email: before.email, role },
+    note: role ? null : "Staff access revoked",
+  });
+}
+
+export async function setStaffDisabled(actor: StaffUser, uid: string, disabled: boolean) {
+  const auth = adminAuth();
+  const before = await getStaff(uid);
+  await auth.updateUser(uid, { disabled });
+  // Kill live sessions straight away rather than at token expiry
+  if (disabled) await auth.revokeRefreshTokens(uid);
+  await writeAudit(actor, {
+    action: "staff.disable",
+    targetPath: staffPath(uid),
+    before: { email: before.email, disabled: before.disabled },
+    after: { email: before.email, disabled },
+    note: disabled ? null : "Re-enabled",
+  });
+}
+
+export async function getStaff(uid: string): Promise<StaffAccount> {
+  return toAccount(await adminAuth().getUser(uid));
+}
+
+/** Service errors and Firebase Auth errors are the caller's fault (bad email, unknown uid...). */
+export function staffErrorResponse(tag: string, err: unknown) {
+  if (err instanceof StaffServiceError) {
+    return NextResponse.json({ error: err.message }, { status: err.status });
+  }
+  const code = (err as { code?: unknown })?.code;
+  if (typeof code === "string" && code.startsWith("auth/")) {
+    const status = code === "auth/user-not-found" ? 404 : 400;
+    return NextResponse.json({ error: code }, { status });
+  }
+  console.error(tag, err);
+  return NextResponse.json({ error: "internal-error" }, { status: 500 });
+}
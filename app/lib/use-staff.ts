@@ -0,0 +1,36 @@
+// app/lib/use-staff.ts
+"use client";
+
+import useSWR from "swr";
+import { hasPermission, type Permission, type Role } from "./roles";
+
+export type StaffSession = {
+  uid: string;
+  email: string | null;
+  role: Role | null;
+  permissions: Permission[];
+};
+
+async function sessionFetcher(url: string): Promise<StaffSession> {
+  const r = await fetch(url);
+  if (!r.ok) throw new Error(await r.text());
+  return r.json();
+}
+
+/**
+ * The signed-in staff member, read from the session cookie.
+ * `can()` is false until the session has loaded, so gated buttons stay hidden.
+ */
+export function useStaff() {
+  const { data, error, isLoading } = useSWR<StaffSession>(
+    "/api/auth/session",
+    sessionFetcher,
+    { revalidateOnFocus: false }
+  );
+  return {
+    staff: data ?? null,
+    error,
+    isLoading,
+    can: (permission: Permission) => hasPermission(data?.role, permission),
+  };
+}
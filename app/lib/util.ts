@@ -0,0 +1,22 @@
+// app/lib/util.ts
+// Small helpers shared by the loan libs, server and client alike.
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Rounds to whole tambala (2 decimals). */
+export const round2 = (n: number) => Math.round(n * 100) / 100;
+
+type HasToMillis = { toMillis?: () => number };
+
+/** A Firestore Timestamp (either SDK), Date, ms or date string as ms. */
+export function toMillis(v: unknown): number | null {
+  if (v == null) return null;
+  if (typeof (v as HasToMillis).toMillis === "function") return (v as HasToMillis).toMillis!();
+  if (v instanceof Date) return v.getTime();
+  if (typeof v === "number") return Number.isFinite(v) ? v : null;
+  if (typeof v === "string") {
+    const n = Date.parse(v);
+    return Number.isFinite(n) ? n : null;
+  }
+  return null;
+}
@@ -0,0 +1,38 @@
+// middleware.ts
+import { NextRequest, NextResponse } from "next/server";
+import { SESSION_COOKIE, verifySessionCookie } from "@/app/lib/auth-server";
+import { hasPermission, type Permission } from "@/app/lib/roles";
+
+export const config = {
+  // firebase-admin needs Node APIs, so run on the Node.js runtime
+  runtime: "nodejs",
+  matcher: ["/admin/:path*", "/kyc/:path*"],
+};
+
+// Pages that need more than dashboard:view (first matching prefix wins)
+const PAGE_PERMISSIONS: Array<[prefix: string, permission: Permission]> = [
+  ["/admin/staff", "staff:manage"],
+  ["/admin/audit", "audit:view"],
+  ["/admin/payments/import", "payments:record"],
+];
+
+export async function middleware(req: NextRequest) {
+  const user = await verifySessionCookie(req.cookies.get(SESSION_COOKIE)?.value);
+
+  if (!user || !hasPermission(user.role, "dashboard:view")) {
+    const login = new URL("/auth", req.url);
+    login.searchParams.set("next", req.nextUrl.pathname);
+    const res = NextResponse.redirect(login);
+    // Drop a stale/revoked cookie so the login page starts clean
+    if (req.cookies.has(SESSION_COOKIE)) res.cookies.delete(SESSION_COOKIE);
+    return res;
+  }
+
+  const path = req.nextUrl.pathname;
+  const rule = PAGE_PERMISSIONS.find(([prefix]) => path.startsWith(prefix));
+  if (rule && !hasPermission(user.role, rule[1])) {
+    return NextResponse.redirect(new URL("/admin", req.url));
+  }
+
+  return NextResponse.next();
+}
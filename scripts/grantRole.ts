@@ -1,14 +1,18 @@
-// npx ts-node scripts/grantRole.ts admin somebody@company.com
+// npx tsx scripts/grantRole.ts credit_approver somebody@company.com
 import admin from "firebase-admin";
+import { readFileSync } from "fs";
+import { ROLES, claimsWithRole, isRole } from "../app/lib/roles";
 
 const [,, role, email] = process.argv;
-if (!role || !email) {
-  console.error("Usage: ts-node scripts/grantRole.ts <admin|officer> <email>");
+if (!isRole(role) || !email) {
+  console.error(`Usage: tsx scripts/grantRole.ts <${ROLES.join("|")}> <email>`);
   process.exit(1);
 }
 
 admin.initializeApp({
-  credential: admin.credential.cert(require("../service-account.json")),
+  credential: admin.credential.cert(
+    JSON.parse(readFileSync("./service-account.json", "utf8"))
+  ),
 });
 
 (async () => {
@@ -17,14 +21,13 @@ admin.initializeApp({
     return admin.auth().createUser({ email, password: Math.random().toString(36).slice(2) });
   });
 
-  const claims: Record<string, boolean> = { [role]: true };
-  // Merge with existing claims if needed
-  const existing = (await admin.auth().getUser(user.uid)).customClaims || {};
-  await admin.auth().setCustomUserClaims(user.uid, { ...existing, ...claims });
+  // Merge with existing claims, replacing the legacy admin/officer booleans
+  const existing = (await admin.auth().getUser(user.uid)).customClaims;
+  await admin.auth().setCustomUserClaims(user.uid, claimsWithRole(existing, role));
 
   // Force clients to refresh ID token and pick up the new claims
   await admin.auth().revokeRefreshTokens(user.uid);
 
-  console.log(`✅ Set claim { ${role}: true } for ${email} (uid: ${user.uid}).`);
+  console.log(`✅ Set role ${role} for ${email} (uid: ${user.uid}).`);
   process.exit(0);
 })();
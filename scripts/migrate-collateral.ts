@@ -0,0 +1,64 @@
+// npx tsx scripts/migrate-collateral.ts [--dry-run]
+// Copies the free-form `collateralItems` on loan_applications into the
+// collateral registry. Registry ids are `<loanId>_<index>`, so re-running
+// (e.g. after the mobile app adds more loans) only adds what's missing.
+import admin from "firebase-admin";
+import { readFileSync } from "fs";
+import { COLLATERAL_COLLECTION, legacyCollateral } from "../app/lib/collateral";
+
+const dryRun = process.argv.includes("--dry-run");
+
+admin.initializeApp({
+  credential: admin.credential.cert(
+    JSON.parse(readFileSync("./service-account.json", "utf8"))
+  ),
+});
+
+// repaid loans no longer hold their collateral
+const RELEASED_LOAN_STATUSES = ["closed", "finished", "paid", "completed"];
+
+(async () => {
+  const db = admin.firestore();
+  const loans = await db.collection("loan_applications").get();
+  let created = 0;
+  let skipped = 0;
+
+  for (const loan of loans.docs) {
+    const v = loan.data();
+    const items: unknown[] = Array.isArray(v.collateralItems) ? v.collateralItems : [];
+    if (!items.length) continue;
+    const loanStatus = String(v.status || "").toLowerCase();
+    const status = RELEASED_LOAN_STATUSES.includes(loanStatus) ? "released" : "pledged";
+    const refs = items.map((_, i) => db.collection(COLLATERAL_COLLECTION).doc(`${loan.id}_${i}`));
+    const existing = await db.getAll(...refs);
+
+    const batch = db.batch();
+    const now = admin.firestore.Timestamp.now();
+    items.forEach((it, i) => {
+      if (existing[i].exists) {
+        skipped++;
+        return;
+      }
+      batch.create(refs[i], {
+        ...legacyCollateral(it),
+        loanId: loan.id,
+        valuationDate: null,
+        custodian: null,
+        status,
+        statusChangedAt: now,
+        statusHistory: [],
+        legacyIndex: i,
+        createdAt: now,
+        createdByUid: null,
+        createdByEmail: "migrate-collateral",
+      });
+      created++;
+    });
+    if (!dryRun) await batch.commit();
+  }
+
+  console.log(
+    `${dryRun ? "[dry run] would create" : "Created"} ${created} item(s); ${skipped} already in the registry.`
+  );
+  process.exit(0);
+})();
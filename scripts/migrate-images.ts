@@ -0,0 +1,164 @@
+// FIREBASE_STORAGE_BUCKET=<bucket> npx tsx scripts/migrate-images.ts [--dry-run]
+// Moves inline base64 images into Storage (see app/lib/images.ts):
+//   kyc_data            idFront/idBack/selfie base64 → `images.<key>` refs
+//   collateral registry data: URI photos (and seizure photos) → paths
+//   loan_applications   base64 on `collateralItems` → `imagePath`
+// Object paths are derived from the document ids, so re-running after a
+// partial run overwrites rather than duplicating.
+import admin from "firebase-admin";
+import { readFileSync } from "fs";
+import { storageBucketName } from "../app/lib/firebase-admin";
+import { COLLATERAL_COLLECTION, legacyCollateral } from "../app/lib/collateral";
+import { KYC_IMAGE_FIELDS, type ImageRef, type KycImageKey } from "../app/lib/images";
+import { decodeImage, storeImage } from "../app/lib/images-server";
+
+const dryRun = process.argv.includes("--dry-run");
+
+// fail before reading anything rather than on the first upload
+let bucket: string;
+try {
+  bucket = storageBucketName();
+} catch (err) {
+  console.error(err instanceof Error ? err.message : String(err));
+  process.exit(1);
+}
+const svc = JSON.parse(readFileSync("./service-account.json", "utf8"));
+admin.initializeApp({
+  credential: admin.credential.cert(svc),
+  storageBucket: bucket,
+});
+
+const LEGACY_B64_KEYS = ["imageBase64", "photoBase64", "pictureBase64", "thumbnailBase64"];
+const LEGACY_LIST_KEYS = ["images", "photos", "pictures"];
+
+const isDataUri = (s: unknown): s is string => typeof s === "string" && s.trim().startsWith("data:");
+
+let stored = 0;
+let failed = 0;
+
+/**
+ * Stores one image. Failures are logged and return null, which leaves that
+ * image as it was; so does a dry run.
+ */
+async function move(base: string, data: string): Promise<ImageRef | null> {
+  if (dryRun) {
+    stored++;
+    return null;
+  }
+  try {
+    const ref = await storeImage(base, decodeImage(data));
+    stored++;
+    return ref;
+  } catch (err) {
+    failed++;
+    console.warn(`  ${base}: ${err instanceof Error ? err.message : String(err)}`);
+    return null;
+  }
+}
+
+async function migrateKyc(db: admin.firestore.Firestore) {
+  let docs = 0;
+  const snap = await db.collection("kyc_data").get();
+  for (const d of snap.docs) {
+    const v = d.data();
+    const patch: Record<string, unknown> = {};
+    let found = false;
+    for (const key of Object.keys(KYC_IMAGE_FIELDS) as KycImageKey[]) {
+      const field = KYC_IMAGE_FIELDS[key];
+      const b64 = v[field];
+      if (typeof b64 !== "string" || !b64.trim()) continue;
+      found = true;
+      const ref = await move(`kyc/${d.id}/${key}`, b64);
+      if (!ref) continue;
+      patch[`images.${key}`] = ref;
+      patch[field] = admin.firestore.FieldValue.delete();
+    }
+    if (!found) continue;
+    docs++;
+    if (Object.keys(patch).length) await d.ref.update(patch);
+  }
+  return docs;
+}
+
+/** Stored paths for the data: URIs in `list`; other entries are kept. */
+async function movePhotos(base: string, list: unknown[]) {
+  const next: unknown[] = [];
+  for (const [i, p] of list.entries()) {
+    next.push(isDataUri(p) ? (await move(`${base}${i}`, p))?.path ?? p : p);
+  }
+  return next;
+}
+
+async function migrateRegistry(db: admin.firestore.Firestore) {
+  let docs = 0;
+  const snap = await db.collection(COLLATERAL_COLLECTION).get();
+  for (const d of snap.docs) {
+    const v = d.data();
+    const patch: Record<string, unknown> = {};
+
+    const photos: unknown[] = Array.isArray(v.photos) ? v.photos : [];
+    const seized: unknown[] = Array.isArray(v.repossession?.seizurePhotos)
+      ? v.repossession.seizurePhotos
+      : [];
+    if (!photos.some(isDataUri) && !seized.some(isDataUri)) continue;
+    docs++;
+    if (photos.some(isDataUri)) {
+      patch.photos = await movePhotos(`collateral/${d.id}/`, photos);
+    }
+    if (seized.some(isDataUri)) {
+      patch["repossession.seizurePhotos"] = await movePhotos(`collateral/${d.id}/seizure_`, seized);
+    }
+    if (!dryRun) await d.ref.update(patch);
+  }
+  return docs;
+}
+
+/** Drops the base64 a legacy item carried its photo in. */
+function stripBase64(it: Record<string, unknown>): Record<string, unknown> {
+  const out: Record<string, unknown> = { ...it };
+  for (const k of LEGACY_B64_KEYS) delete out[k];
+  for (const k of LEGACY_LIST_KEYS) {
+    if (!Array.isArray(out[k])) continue;
+    out[k] = (out[k] as unknown[])
+      .filter((x) => !isDataUri(x))
+      .map((x) => {
+        if (!x || typeof x !== "object") return x;
+        const rest = { ...(x as Record<string, unknown>) };
+        delete rest.base64;
+        delete rest.imageBase64;
+        return rest;
+      });
+  }
+  return out;
+}
+
+async function migrateLoanItems(db: admin.firestore.Firestore) {
+  let docs = 0;
+  const snap = await db.collection("loan_applications").get();
+  for (const d of snap.docs) {
+    const items: unknown[] = Array.isArray(d.get("collateralItems")) ? d.get("collateralItems") : [];
+    if (!items.some((it) => isDataUri(legacyCollateral(it).photos[0]))) continue;
+    docs++;
+    const next: unknown[] = [];
+    for (const [i, it] of items.entries()) {
+      const photo = legacyCollateral(it).photos[0];
+      const ref = isDataUri(photo) ? await move(`loans/${d.id}/collateral_${i}`, photo) : null;
+      next.push(ref ? { ...stripBase64(it as Record<string, unknown>), imagePath: ref.path } : it);
+    }
+    if (!dryRun) await d.ref.update({ collateralItems: next });
+  }
+  return docs;
+}
+
+(async () => {
+  const db = admin.firestore();
+  const kyc = await migrateKyc(db);
+  const registry = await migrateRegistry(db);
+  const loans = await migrateLoanItems(db);
+
+  console.log(
+    `${dryRun ? "[dry run] would store" : "Stored"} ${stored} image(s) from ` +
+      `${kyc} KYC record(s), ${registry} collateral item(s) and ${loans} loan(s); ${failed} failed.`
+  );
+  process.exit(failed ? 1 : 0);
+})();
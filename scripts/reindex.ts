@@ -0,0 +1,24 @@
+// npx tsx scripts/reindex.ts
+// Writes the stored search keys (`searchKeys`, app/lib/search.ts) on every
+// KYC record, loan and processed record, and the loan list fields (`list`,
+// app/lib/loan-list.ts) on every loan. Run once when deploying search and
+// the paged loan list; after that the admin writes both with each loan,
+// /api/jobs/search-index keys new records from the borrower app and the
+// late-fee run keeps days past due current. Safe to re-run: records
+// already up to date aren't written.
+import admin from "firebase-admin";
+import { readFileSync } from "fs";
+import { runLoanListIndex } from "../app/lib/loan-list-server";
+import { runSearchIndex } from "../app/lib/search-server";
+
+admin.initializeApp({
+  credential: admin.credential.cert(JSON.parse(readFileSync("./service-account.json", "utf8"))),
+});
+
+(async () => {
+  const run = await runSearchIndex(true);
+  console.log(`Search keys: ${run.keyed} of ${run.scanned} record(s) updated.`);
+  const list = await runLoanListIndex();
+  console.log(`Loan list fields: ${list.written} of ${list.scanned} loan(s) updated.`);
+  process.exit(0);
+})();